@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import User from '@/models/User';
+import { ApiResponse } from '@/types';
+import { ForgotPasswordSchema, formatZodError } from '@/lib/validations';
+import { createEmailLinkToken, EMAIL_TOKEN_PLACEHOLDER } from '@/lib/tokens';
+import { queueEmail } from '@/lib/mail';
+import { passwordResetEmail } from '@/lib/mailTemplates';
+
+// How long a reset link works
+const RESET_TOKEN_MINUTES = 60;
+
+// A new link isn't sent while the last one is younger than this
+const RESEND_AFTER_MS = 60 * 1000;
+
+// Same answer whether or not the email has an account, so the form can't be
+// used to find out who is signed up
+const RESET_SENT_MESSAGE = "If there's an account for that email, we've sent it a link to reset the password.";
+
+export async function POST(request: Request) {
+  try {
+    console.log('🔑 Password reset requested...');
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = ForgotPasswordSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { email } = validationResult.data;
+    
+    const user = await User.findOne({ email }).select('+passwordResetExpires');
+    
+    // A link that's still fresh is enough - this also stops the form being used to flood an inbox
+    const lastSentAt = user?.passwordResetExpires
+      ? user.passwordResetExpires.getTime() - RESET_TOKEN_MINUTES * 60 * 1000
+      : 0;
+    
+    if (user && Date.now() - lastSentAt >= RESEND_AFTER_MS) {
+      // A new link replaces any earlier one
+      const { emailId, hash } = createEmailLinkToken();
+      user.passwordResetToken = hash;
+      user.passwordResetExpires = new Date(Date.now() + RESET_TOKEN_MINUTES * 60 * 1000);
+      await user.save();
+      
+      await queueEmail({
+        to: user.email,
+        userId: user._id.toString(),
+        template: 'password_reset',
+        content: passwordResetEmail({ name: user.name, token: EMAIL_TOKEN_PLACEHOLDER, expiresInMinutes: RESET_TOKEN_MINUTES }),
+        emailId,
+      });
+      
+      console.log('✅ Password reset link queued for user:', user._id);
+    } else {
+      console.log('ℹ️ No reset link sent (unknown email or sent recently)');
+    }
+    
+    return NextResponse.json({
+      success: true,
+      message: RESET_SENT_MESSAGE,
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Forgot password error:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Something went wrong. Please try again.',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
-import jwt from 'jsonwebtoken';
 import connectMongoDB from '@/lib/mongodb';
+import { signAuthToken } from '@/lib/auth';
+import { createSession, setAuthCookies } from '@/lib/sessions';
 import User from '@/models/User';
 import { ApiResponse, LoginCredentials } from '@/types';
 
@@ -62,21 +63,9 @@ export async function POST(request: Request) {
       );
     }
     
-    // Create JWT token
-    if (!process.env.NEXTAUTH_SECRET) {
-      throw new Error('NEXTAUTH_SECRET is not configured');
-    }
-    
-    const token = jwt.sign(
-      {
-        userId: user._id,
-        email: user.email,
-      },
-      process.env.NEXTAUTH_SECRET,
-      {
-        expiresIn: '7d', // Token expires in 7 days
-      }
-    );
+    // Start a session: a short-lived access token plus a refresh token that gets new ones
+    const { session, refreshToken } = await createSession(user._id.toString(), request);
+    const token = signAuthToken(user, session._id.toString());
     
     console.log('✅ Login successful for:', email);
     
@@ -86,6 +75,7 @@ export async function POST(request: Request) {
       name: user.name,
       email: user.email,
       avatar: user.avatar,
+      emailVerified: user.emailVerified,
       createdAt: user.createdAt,
     };
     
@@ -99,14 +89,8 @@ export async function POST(request: Request) {
       },
     } as ApiResponse);
     
-    // Set HTTP-only cookie for added security
-    response.cookies.set('auth-token', token, {
-      httpOnly: true,
-      secure: false, // Set to false for development (localhost)
-      sameSite: 'lax', // Changed from 'strict' to 'lax'
-      maxAge: 7 * 24 * 60 * 60, // 7 days in seconds
-      path: '/',
-    });
+    // Set HTTP-only cookies for added security
+    setAuthCookies(response, token, refreshToken);
     
     return response;
     
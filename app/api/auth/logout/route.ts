@@ -1,24 +1,37 @@
 import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getSessionFromToken } from '@/lib/auth';
 import { ApiResponse } from '@/types';
+import { SessionRevokeReason } from '@/models/Session';
+import { clearAuthCookies, getRefreshTokenFromRequest, revokeSessions } from '@/lib/sessions';
+import { hashToken } from '@/lib/tokens';
 
-export async function POST() {
+export async function POST(request: Request) {
   try {
     console.log('🚪 User logging out...');
     
+    // End the session on the server, so its tokens stop working even if they were copied.
+    // The refresh token still identifies it when the access token has expired.
+    const auth = await getSessionFromToken(request);
+    const refreshToken = getRefreshTokenFromRequest(request);
+    
+    if (auth || refreshToken) {
+      await connectMongoDB();
+      const revoked = await revokeSessions(
+        auth ? { _id: auth.sessionId } : { refreshTokenHash: hashToken(refreshToken!) },
+        SessionRevokeReason.LOGOUT
+      );
+      console.log(`🔒 Revoked ${revoked} sessions`);
+    }
+    
     // Create response
     const response = NextResponse.json({
       success: true,
       message: 'Logged out successfully',
     } as ApiResponse);
     
-    // Clear the auth cookie
-    response.cookies.set('auth-token', '', {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 0, // Expire immediately
-      path: '/',
-    });
+    // Clear the auth cookies
+    clearAuthCookies(response);
     
     console.log('✅ User logged out successfully');
     
@@ -35,4 +48,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,76 +1,34 @@
 import { NextResponse } from 'next/server';
-import jwt from 'jsonwebtoken';
 import connectMongoDB from '@/lib/mongodb';
+import { getSessionFromToken } from '@/lib/auth';
 import User from '@/models/User';
 import { ApiResponse } from '@/types';
 
-// Interface for JWT payload
-interface JWTPayload {
-  userId: string;
-  email: string;
-  iat: number;
-  exp: number;
-}
-
 export async function GET(request: Request) {
   try {
     console.log('👤 Getting current user...');
     
-    // Get token from Authorization header or cookies
-    const authHeader = request.headers.get('authorization');
-    const cookieHeader = request.headers.get('cookie');
-    
-    console.log('Auth header:', authHeader ? 'Present' : 'Missing');
-    console.log('Cookie header:', cookieHeader ? 'Present' : 'Missing');
-    
-    let token: string | null = null;
-    
-    // Try to get token from Authorization header first
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      token = authHeader.substring(7);
-      console.log('Token from Authorization header');
-    }
-    // If not found, try to get from cookies
-    else if (cookieHeader) {
-      const cookies = cookieHeader.split(';');
-      const authCookie = cookies.find(cookie => cookie.trim().startsWith('auth-token='));
-      if (authCookie) {
-        token = authCookie.split('=')[1];
-        console.log('Token from cookie found');
-      } else {
-        console.log('No auth-token cookie found');
-        console.log('Available cookies:', cookies.map(c => c.trim().split('=')[0]));
-      }
-    }
-    
-    if (!token) {
-      console.log('❌ No token found');
+    // Tokens that are missing, invalid, expired or for a signed-out session don't count
+    const auth = await getSessionFromToken(request);
+    if (!auth) {
+      console.log('❌ No valid session');
       return NextResponse.json(
         {
           success: false,
-          error: 'No authentication token provided',
+          error: 'Authentication required',
         } as ApiResponse,
         { status: 401 }
       );
     }
     
-    // Verify JWT token
-    if (!process.env.NEXTAUTH_SECRET) {
-      throw new Error('NEXTAUTH_SECRET is not configured');
-    }
-    
-    console.log('Verifying token...');
-    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET) as JWTPayload;
-    console.log('Token decoded for user:', decoded.userId);
-    
     // Connect to database
     await connectMongoDB();
     
     // Find user by ID
-    const user = await User.findById(decoded.userId);
+    const user = await User.findById(auth.userId);
     
     if (!user) {
-      console.log('❌ User not found:', decoded.userId);
+      console.log('❌ User not found:', auth.userId);
       return NextResponse.json(
         {
           success: false,
@@ -86,6 +44,7 @@ export async function GET(request: Request) {
       name: user.name,
       email: user.email,
       avatar: user.avatar,
+      emailVerified: user.emailVerified,
       createdAt: user.createdAt,
     };
     
@@ -99,27 +58,6 @@ export async function GET(request: Request) {
   } catch (error) {
     console.error('❌ Get current user error:', error);
     
-    // Handle JWT errors
-    if (error instanceof jwt.JsonWebTokenError) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Invalid authentication token',
-        } as ApiResponse,
-        { status: 401 }
-      );
-    }
-    
-    if (error instanceof jwt.TokenExpiredError) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Authentication token expired',
-        } as ApiResponse,
-        { status: 401 }
-      );
-    }
-    
     return NextResponse.json(
       {
         success: false,
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { signAuthToken } from '@/lib/auth';
+import User from '@/models/User';
+import { ApiResponse } from '@/types';
+import { clearAuthCookies, getRefreshTokenFromRequest, rotateSession, setAuthCookies } from '@/lib/sessions';
+
+// POST /api/auth/refresh - Swap the refresh token cookie for a new access token and refresh token
+export async function POST(request: Request) {
+  try {
+    console.log('🔄 Refreshing session...');
+    
+    const refreshToken = getRefreshTokenFromRequest(request);
+    if (!refreshToken) {
+      console.log('❌ No refresh token');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No refresh token provided',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const result = await rotateSession(refreshToken, request);
+    
+    if (result.status === 'invalid' || result.status === 'reused') {
+      console.log(`❌ Refresh failed (${result.status})`);
+      const response = NextResponse.json(
+        {
+          success: false,
+          error: 'Your session has ended. Please sign in again.',
+        } as ApiResponse,
+        { status: 401 }
+      );
+      clearAuthCookies(response);
+      return response;
+    }
+    
+    const user = await User.findById(result.session.userId).select('email');
+    if (!user) {
+      const response = NextResponse.json(
+        {
+          success: false,
+          error: 'User not found',
+        } as ApiResponse,
+        { status: 401 }
+      );
+      clearAuthCookies(response);
+      return response;
+    }
+    
+    const token = signAuthToken(user, result.session._id.toString());
+    
+    const response = NextResponse.json({
+      success: true,
+      data: { token },
+    } as ApiResponse);
+    
+    // After a lost race the browser already has the newer refresh token from the other request
+    setAuthCookies(response, token, result.status === 'rotated' ? result.refreshToken : undefined);
+    
+    console.log(`✅ Session ${result.session._id} refreshed`);
+    
+    return response;
+    
+  } catch (error) {
+    console.error('❌ Refresh error:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to refresh session',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
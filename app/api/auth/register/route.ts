@@ -3,6 +3,7 @@ import connectMongoDB from '@/lib/mongodb';
 import User from '@/models/User';
 import { ApiResponse } from '@/types';
 import { RegisterSchema, formatZodError } from '@/lib/validations';
+import { sendVerificationEmail } from '@/lib/verification';
 
 export async function POST(request: Request) {
   try {
@@ -57,17 +58,23 @@ export async function POST(request: Request) {
       name,
       email,
       password,
+      emailVerified: false,
     });
     
     const savedUser = await newUser.save();
     console.log('✅ User created successfully:', savedUser._id);
     
+    // The account works straight away; sharing waits for the emailed link
+    await sendVerificationEmail(savedUser);
+    console.log('📧 Verification email queued for:', savedUser.email);
+    
     // Return user data (without password)
     const userResponse = {
       _id: savedUser._id,
       name: savedUser.name,
       email: savedUser.email,
       avatar: savedUser.avatar,
+      emailVerified: savedUser.emailVerified,
       createdAt: savedUser.createdAt,
     };
     
@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import User from '@/models/User';
+import { ApiResponse } from '@/types';
+import { ResetPasswordSchema, formatZodError } from '@/lib/validations';
+import { clearAuthCookies, revokeSessions } from '@/lib/sessions';
+import { SessionRevokeReason } from '@/models/Session';
+import { hashToken } from '@/lib/tokens';
+import { queueEmail } from '@/lib/mail';
+import { passwordChangedEmail } from '@/lib/mailTemplates';
+
+export async function POST(request: Request) {
+  try {
+    console.log('🔑 Password reset attempt...');
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = ResetPasswordSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { token, password } = validationResult.data;
+    
+    // Use up the token in the same step that finds it, so it only ever works once.
+    // Opening the emailed link also proves the address, so it counts as verifying it.
+    const user = await User.findOneAndUpdate(
+      { passwordResetToken: hashToken(token), passwordResetExpires: { $gt: new Date() } },
+      { $set: { passwordResetToken: null, passwordResetExpires: null, emailVerified: true } },
+      { new: true }
+    );
+    
+    if (!user) {
+      console.log('❌ Invalid or expired reset token');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'This reset link is invalid or has expired. Please ask for a new one.',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    // Hashed by the pre-save middleware
+    user.password = password;
+    await user.save();
+    
+    // Sign the user out everywhere
+    const revoked = await revokeSessions({ userId: user._id }, SessionRevokeReason.PASSWORD_RESET);
+    console.log(`🔒 Revoked ${revoked} sessions for user:`, user._id);
+    
+    await queueEmail({
+      to: user.email,
+      userId: user._id.toString(),
+      template: 'password_changed',
+      content: passwordChangedEmail({ name: user.name }),
+    });
+    
+    console.log('✅ Password reset for user:', user._id);
+    
+    const response = NextResponse.json({
+      success: true,
+      message: 'Your password has been reset. Please sign in with your new password.',
+    } as ApiResponse);
+    
+    // This browser's session ended with the others
+    clearAuthCookies(response);
+    
+    return response;
+    
+  } catch (error) {
+    console.error('❌ Reset password error:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Password reset failed. Please try again.',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import User from '@/models/User';
+import { ApiResponse } from '@/types';
+import { VERIFICATION_RESEND_AFTER_MS, sendVerificationEmail } from '@/lib/verification';
+
+// POST /api/auth/verify/resend - Email the current user a new verification link
+export async function POST(request: Request) {
+  try {
+    console.log('📧 Verification email resend requested...');
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const user = await User.findById(userId)
+      .select('+emailVerificationToken +emailVerificationExpires +verificationSentAt');
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'User not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    if (user.emailVerified) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Your email is already confirmed',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    // One email every couple of minutes at most, so the button can't flood the inbox
+    const waitMs = user.verificationSentAt
+      ? user.verificationSentAt.getTime() + VERIFICATION_RESEND_AFTER_MS - Date.now()
+      : 0;
+    
+    if (waitMs > 0) {
+      const retryAfter = Math.ceil(waitMs / 1000);
+      console.log(`❌ Verification email sent recently, retry in ${retryAfter}s`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: `We just sent you a link. Please wait ${retryAfter} seconds before asking for another.`,
+        } as ApiResponse,
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      );
+    }
+    
+    await sendVerificationEmail(user);
+    console.log('✅ Verification email queued for user:', userId);
+    
+    return NextResponse.json({
+      success: true,
+      message: `We've sent a new link to ${user.email}`,
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error resending verification email:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to send the verification email',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
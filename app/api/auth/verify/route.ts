@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import User from '@/models/User';
+import { ApiResponse } from '@/types';
+import { VerifyEmailSchema, formatZodError } from '@/lib/validations';
+import { hashToken } from '@/lib/tokens';
+
+// GET /api/auth/verify?token= - Confirm an email address with the link from the verification email
+export async function GET(request: Request) {
+  try {
+    console.log('📧 Email verification attempt...');
+    
+    const { searchParams } = new URL(request.url);
+    
+    // Validate with Zod
+    const validationResult = VerifyEmailSchema.safeParse({
+      token: searchParams.get('token') || '',
+    });
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { token } = validationResult.data;
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Use up the token in the same step that finds it, so it only ever works once
+    const user = await User.findOneAndUpdate(
+      { emailVerificationToken: hashToken(token), emailVerificationExpires: { $gt: new Date() } },
+      { $set: { emailVerified: true, emailVerificationToken: null, emailVerificationExpires: null } },
+      { new: true }
+    );
+    
+    if (!user) {
+      console.log('❌ Invalid or expired verification token');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'This verification link is invalid or has expired. Sign in to get a new one.',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log('✅ Email verified for user:', user._id);
+    
+    return NextResponse.json({
+      success: true,
+      data: { email: user.email },
+      message: 'Your email is confirmed. Thanks!',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Email verification error:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Something went wrong. Please try again.',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,298 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import Category from '@/models/Category';
+import Task from '@/models/Task';
+import { ApiResponse } from '@/types';
+import { UpdateCategorySchema, CategoryIdSchema, DeleteCategoryQuerySchema, formatZodError } from '@/lib/validations';
+import { getActiveProject, getMemberRole } from '@/lib/projects';
+import { hasPermission, permissionDenied } from '@/lib/permissions';
+
+// PATCH /api/categories/[id] - Rename a category or change its color/icon
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    // Validate category ID
+    const idValidation = CategoryIdSchema.safeParse({ id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid category ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`🔄 Updating category ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = UpdateCategorySchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const updateData = validationResult.data;
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const project = await getActiveProject(request, userId);
+    
+    // Categories are shared by the whole project, so only owners and admins change them
+    const role = getMemberRole(project, userId);
+    if (!hasPermission(role, 'category:manage')) {
+      console.log(`🚫 ${role} may not manage categories in project ${project._id}`);
+      return NextResponse.json(permissionDenied(role!, 'category:manage'), { status: 403 });
+    }
+    
+    // Names are unique per project (case-insensitive)
+    if (updateData.name) {
+      const siblings = await Category.find({ projectId: project._id, _id: { $ne: id } }).select('name');
+      if (siblings.some(category => category.name.toLowerCase() === updateData.name!.toLowerCase())) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'A category with this name already exists',
+            fieldErrors: { name: 'A category with this name already exists' },
+          } as ApiResponse,
+          { status: 400 }
+        );
+      }
+    }
+    
+    // Find and update category (ensure it belongs to the project).
+    // Tasks store the category key, which never changes, so they need no update.
+    const updatedCategory = await Category.findOneAndUpdate(
+      { _id: id, projectId: project._id },
+      { ...updateData },
+      { new: true, runValidators: true }
+    );
+    
+    if (!updatedCategory) {
+      console.log(`❌ Category ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Category not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    console.log(`✅ Category ${id} updated successfully`);
+    
+    return NextResponse.json({
+      success: true,
+      data: updatedCategory,
+      message: 'Category updated successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error updating category:', error);
+    
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: error.message,
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update category',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/categories/[id]?reassignTo=<key> - Delete a category, moving its tasks first
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    // Validate category ID
+    const idValidation = CategoryIdSchema.safeParse({ id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid category ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`🗑️ Deleting category ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Validate query parameters with Zod
+    const url = new URL(request.url);
+    const queryValidation = DeleteCategoryQuerySchema.safeParse({
+      reassignTo: url.searchParams.get('reassignTo') || undefined,
+    });
+    
+    if (!queryValidation.success) {
+      const formattedErrors = formatZodError(queryValidation.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid query parameters',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { reassignTo } = queryValidation.data;
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const project = await getActiveProject(request, userId);
+    
+    // Categories are shared by the whole project, so only owners and admins change them
+    const role = getMemberRole(project, userId);
+    if (!hasPermission(role, 'category:manage')) {
+      console.log(`🚫 ${role} may not manage categories in project ${project._id}`);
+      return NextResponse.json(permissionDenied(role!, 'category:manage'), { status: 403 });
+    }
+    
+    // Find category (ensure it belongs to the project)
+    const category = await Category.findOne({ _id: id, projectId: project._id });
+    
+    if (!category) {
+      console.log(`❌ Category ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Category not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    // Every task needs a category, so the last one cannot go
+    const categoryCount = await Category.countDocuments({ projectId: project._id });
+    if (categoryCount <= 1) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'You need at least one category',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    // The project's tasks in this category have to be moved somewhere else first
+    // (trashed ones too, so they still have a category if they are restored)
+    const taskCount = await Task.countDocuments({ projectId: project._id, category: category.key })
+      .setOptions({ withTrashed: true });
+    
+    if (taskCount > 0) {
+      if (!reassignTo) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Category is in use',
+            details: `${taskCount} task${taskCount !== 1 ? 's use' : ' uses'} this category. Choose a category to move them to.`,
+            data: { taskCount },
+          } as ApiResponse,
+          { status: 409 }
+        );
+      }
+      
+      const target = await Category.findOne({ projectId: project._id, key: reassignTo });
+      if (!target || target.key === category.key) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Please choose another existing category to move the tasks to',
+          } as ApiResponse,
+          { status: 400 }
+        );
+      }
+      
+      const reassigned = await Task.updateMany(
+        { projectId: project._id, category: category.key },
+        { $set: { category: target.key } }
+      ).setOptions({ withTrashed: true });
+      console.log(`📁 Moved ${reassigned.modifiedCount} tasks to category "${target.name}"`);
+    }
+    
+    await category.deleteOne();
+    
+    console.log(`✅ Category ${id} deleted successfully`);
+    
+    return NextResponse.json({
+      success: true,
+      data: category,
+      message: 'Category deleted successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error deleting category:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to delete category',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,275 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import Category from '@/models/Category';
+import Task from '@/models/Task';
+import { ApiResponse } from '@/types';
+import { CreateCategorySchema, ReorderCategoriesSchema, formatZodError } from '@/lib/validations';
+import { ensureDefaultCategories, generateCategoryKey } from '@/lib/categories';
+import { getActiveProject, getMemberRole } from '@/lib/projects';
+import { hasPermission, permissionDenied } from '@/lib/permissions';
+
+// GET /api/categories - Get the current project's categories in display order, with task counts
+export async function GET(request: Request) {
+  try {
+    console.log('📁 Fetching categories...');
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // First visit seeds the project's categories
+    const project = await getActiveProject(request, userId);
+    const categories = await ensureDefaultCategories(project);
+    
+    // Count the project's tasks per category key (aggregation does not cast, so convert the project ID)
+    const counts: { _id: string; count: number }[] = await Task.aggregate([
+      { $match: { projectId: new mongoose.Types.ObjectId(project._id.toString()) } },
+      { $group: { _id: '$category', count: { $sum: 1 } } },
+    ]);
+    const countByKey = new Map(counts.map(count => [count._id, count.count]));
+    
+    const data = categories.map(category => ({
+      ...category.toObject(),
+      taskCount: countByKey.get(category.key) || 0,
+    }));
+    
+    console.log(`✅ Found ${categories.length} categories in project ${project._id}`);
+    
+    return NextResponse.json({
+      success: true,
+      data,
+      message: 'Categories fetched successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error fetching categories:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch categories',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/categories - Create a new category at the end of the list
+export async function POST(request: Request) {
+  try {
+    console.log('➕ Creating new category...');
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = CreateCategorySchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { name, color, icon } = validationResult.data;
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const project = await getActiveProject(request, userId);
+    
+    // Categories are shared by the whole project, so only owners and admins change them
+    const role = getMemberRole(project, userId);
+    if (!hasPermission(role, 'category:manage')) {
+      console.log(`🚫 ${role} may not manage categories in project ${project._id}`);
+      return NextResponse.json(permissionDenied(role!, 'category:manage'), { status: 403 });
+    }
+    
+    const categories = await ensureDefaultCategories(project);
+    
+    // Names are unique per project (case-insensitive)
+    if (categories.some(category => category.name.toLowerCase() === name.toLowerCase())) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'A category with this name already exists',
+          fieldErrors: { name: 'A category with this name already exists' },
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const newCategory = new Category({
+      key: generateCategoryKey(name, categories.map(category => category.key)),
+      name,
+      color,
+      icon,
+      sortOrder: categories.length > 0 ? categories[categories.length - 1].sortOrder + 1 : 0,
+      projectId: project._id,
+    });
+    
+    const savedCategory = await newCategory.save();
+    console.log('✅ Category created:', savedCategory._id);
+    
+    return NextResponse.json({
+      success: true,
+      data: { ...savedCategory.toObject(), taskCount: 0 },
+      message: 'Category created successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error creating category:', error);
+    
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: error.message,
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create category',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/categories - Reorder categories
+export async function PUT(request: Request) {
+  try {
+    console.log('↕️ Reordering categories...');
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = ReorderCategoriesSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { categoryIds } = validationResult.data;
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const project = await getActiveProject(request, userId);
+    
+    // Categories are shared by the whole project, so only owners and admins change them
+    const role = getMemberRole(project, userId);
+    if (!hasPermission(role, 'category:manage')) {
+      console.log(`🚫 ${role} may not manage categories in project ${project._id}`);
+      return NextResponse.json(permissionDenied(role!, 'category:manage'), { status: 403 });
+    }
+    
+    // The new order must be a permutation of the project's categories
+    const categories = await ensureDefaultCategories(project);
+    const existingIds = categories.map(category => category._id.toString());
+    const isPermutation =
+      categoryIds.length === existingIds.length &&
+      categoryIds.every(categoryId => existingIds.includes(categoryId));
+    
+    if (!isPermutation) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Category IDs must list every category exactly once',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    await Category.bulkWrite(
+      categoryIds.map((categoryId, index) => ({
+        updateOne: {
+          filter: { _id: categoryId, projectId: project._id },
+          update: { $set: { sortOrder: index } },
+        },
+      }))
+    );
+    
+    const reordered = await Category.find({ projectId: project._id }).sort({ sortOrder: 1, createdAt: 1 });
+    console.log('✅ Categories reordered');
+    
+    return NextResponse.json({
+      success: true,
+      data: reordered,
+      message: 'Categories reordered successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error reordering categories:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to reorder categories',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
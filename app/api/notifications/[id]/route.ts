@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import Notification from '@/models/Notification';
+import { ApiResponse } from '@/types';
+import { NotificationIdSchema, UpdateNotificationSchema, formatZodError } from '@/lib/validations';
+import { NOTIFICATION_POPULATE } from '@/lib/notifications';
+
+// PATCH /api/notifications/[id] - Mark a notification as read or unread
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    // Validate notification ID
+    const idValidation = NotificationIdSchema.safeParse({ id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid notification ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`🔔 Updating notification ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = UpdateNotificationSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Only the user's own notifications - someone else's look like they don't exist
+    const notification = await Notification.findOne({ _id: id, userId });
+    
+    if (!notification) {
+      console.log(`❌ Notification ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Notification not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    // Keep the original read time when it's marked read again
+    if (validationResult.data.read) {
+      notification.readAt = notification.readAt || new Date();
+    } else {
+      notification.readAt = null;
+    }
+    await notification.save();
+    await notification.populate(NOTIFICATION_POPULATE);
+    
+    console.log(`✅ Notification ${id} marked ${validationResult.data.read ? 'read' : 'unread'}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: notification,
+      message: 'Notification updated successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error updating notification:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update notification',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
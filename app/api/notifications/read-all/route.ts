@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import Notification from '@/models/Notification';
+import { ApiResponse } from '@/types';
+
+// POST /api/notifications/read-all - Mark all of the user's notifications as read
+export async function POST(request: Request) {
+  try {
+    console.log('🔔 Marking all notifications as read...');
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const { modifiedCount } = await Notification.updateMany(
+      { userId, readAt: null },
+      { $set: { readAt: new Date() } }
+    );
+    
+    console.log(`✅ Marked ${modifiedCount} notifications as read for user ${userId}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: { updated: modifiedCount },
+      message: 'Notifications marked as read',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error marking notifications as read:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to mark notifications as read',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import Notification from '@/models/Notification';
+import { ApiResponse } from '@/types';
+import { NotificationQuerySchema, formatZodError } from '@/lib/validations';
+import { NOTIFICATION_POPULATE } from '@/lib/notifications';
+import { runScheduledJobs } from '@/lib/scheduler';
+
+// GET /api/notifications - Get the user's newest notifications and the unread count
+export async function GET(request: Request) {
+  try {
+    console.log('🔔 Fetching notifications...');
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Validate query parameters with Zod
+    const url = new URL(request.url);
+    const queryValidation = NotificationQuerySchema.safeParse({
+      unread: url.searchParams.get('unread') || undefined,
+      limit: url.searchParams.get('limit') || undefined,
+    });
+    
+    if (!queryValidation.success) {
+      console.log('❌ Query validation failed:', queryValidation.error.errors);
+      const formattedErrors = formatZodError(queryValidation.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid query parameters',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { unread, limit } = queryValidation.data;
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Catch up on reminders and emails in case the background scheduler isn't
+    // running (e.g. on serverless hosts)
+    await runScheduledJobs();
+    
+    const filter = unread ? { userId, readAt: null } : { userId };
+    const [notifications, unreadCount] = await Promise.all([
+      Notification.find(filter)
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .populate(NOTIFICATION_POPULATE),
+      Notification.countDocuments({ userId, readAt: null }),
+    ]);
+    
+    console.log(`✅ Found ${notifications.length} notifications (${unreadCount} unread) for user ${userId}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: { notifications, unreadCount },
+      message: 'Notifications fetched successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error fetching notifications:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch notifications',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
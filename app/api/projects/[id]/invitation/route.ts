@@ -0,0 +1,181 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectMongoDB from '@/lib/mongodb';
+import { emailNotVerified, getUserFromToken } from '@/lib/auth';
+import Project from '@/models/Project';
+import User from '@/models/User';
+import { ApiResponse } from '@/types';
+import { ProjectIdSchema } from '@/lib/validations';
+import { MEMBER_FIELDS } from '@/lib/projects';
+
+// POST /api/projects/[id]/invitation - Accept an invitation and join the project
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    // Validate project ID
+    const idValidation = ProjectIdSchema.safeParse({ id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid project ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`🤝 Accepting invite to project ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Invites are addressed to the user's email
+    const user = await User.findById(userId).select('email emailVerified');
+    const project = user && mongoose.isValidObjectId(id)
+      ? await Project.findOne({ _id: id, 'invites.email': user.email })
+      : null;
+    
+    if (!user || !project) {
+      console.log(`❌ No invite to project ${id} for user ${userId}`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invite not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    // Only someone who has shown they own the invited address can take the invite
+    if (!user.emailVerified) {
+      console.log(`🚫 User ${userId} has not verified their email`);
+      return NextResponse.json(emailNotVerified('Please confirm your email before joining projects'), { status: 403 });
+    }
+    
+    // Drop the invite and add the member in one update; someone who is already a
+    // member (e.g. invited twice) just loses the invite
+    const isMember = project.members.some(member => member.userId.toString() === userId);
+    const invite = project.invites.find(invite => invite.email === user.email)!;
+    const updatedProject = await Project.findByIdAndUpdate(
+      project._id,
+      {
+        $pull: { invites: { email: user.email } },
+        ...(isMember ? {} : { $push: { members: { userId, role: invite.role } } }),
+      },
+      { new: true }
+    ).populate('members.userId', MEMBER_FIELDS);
+    
+    console.log(`✅ User ${userId} joined project ${id}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: updatedProject,
+      message: `You joined ${project.name}`,
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error accepting invite:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to accept invite',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/invitation - Decline an invitation
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    // Validate project ID
+    const idValidation = ProjectIdSchema.safeParse({ id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid project ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`🙅 Declining invite to project ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Invites are addressed to the user's email
+    const user = await User.findById(userId).select('email');
+    const project = user && mongoose.isValidObjectId(id)
+      ? await Project.findOne({ _id: id, 'invites.email': user.email })
+      : null;
+    
+    if (!user || !project) {
+      console.log(`❌ No invite to project ${id} for user ${userId}`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invite not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    await Project.updateOne({ _id: project._id }, { $pull: { invites: { email: user.email } } });
+    
+    console.log(`✅ User ${userId} declined the invite to project ${id}`);
+    
+    return NextResponse.json({
+      success: true,
+      message: 'Invite declined',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error declining invite:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to decline invite',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,271 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { emailNotVerified, getUserFromToken, isEmailVerified } from '@/lib/auth';
+import Project from '@/models/Project';
+import User from '@/models/User';
+import { ApiResponse, ProjectRole } from '@/types';
+import { InviteMemberSchema, ProjectIdSchema, formatZodError } from '@/lib/validations';
+import { MEMBER_FIELDS, findMemberProject, getMemberRole } from '@/lib/projects';
+import { hasPermission, outranks, permissionDenied } from '@/lib/permissions';
+
+// POST /api/projects/[id]/invites - Invite someone to the project by email with a role (owners and admins)
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    // Validate project ID
+    const idValidation = ProjectIdSchema.safeParse({ id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid project ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`✉️ Inviting member to project ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = InviteMemberSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { email, role: inviteRole } = validationResult.data;
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Find project and ensure the user is a member
+    const project = await findMemberProject(id, userId);
+    
+    if (!project) {
+      console.log(`❌ Project ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Project not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    const role = getMemberRole(project, userId)!;
+    if (!hasPermission(role, 'members:invite')) {
+      console.log(`🚫 ${role} may not invite to project ${id}`);
+      return NextResponse.json(permissionDenied(role, 'members:invite', 'Only owners and admins can invite people'), { status: 403 });
+    }
+    
+    // Sharing waits until the inviter has confirmed their own email
+    if (!(await isEmailVerified(userId))) {
+      console.log(`🚫 User ${userId} has not verified their email`);
+      return NextResponse.json(emailNotVerified('Please confirm your email before inviting people'), { status: 403 });
+    }
+    
+    // Admins can't hand out their own role or a higher one
+    if (role !== ProjectRole.OWNER && !outranks(role, inviteRole)) {
+      return NextResponse.json(
+        permissionDenied(role, 'members:change-role', 'Only the owner can invite admins'),
+        { status: 403 }
+      );
+    }
+    
+    if (project.personal) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Your personal project cannot be shared. Create a project to work with others.',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    // Invites are matched by email, so people can be invited before they sign up
+    const invitedUser = await User.findOne({ email }).select('_id');
+    const isMember = invitedUser && project.members.some(member => member.userId.toString() === invitedUser._id.toString());
+    
+    if (isMember) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: { email: 'This person is already a member of the project' },
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    if (project.invites.some(invite => invite.email === email)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: { email: 'This email has already been invited' },
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const updatedProject = await Project.findByIdAndUpdate(
+      project._id,
+      { $push: { invites: { email, role: inviteRole, invitedBy: userId } } },
+      { new: true, runValidators: true }
+    ).populate([
+      { path: 'members.userId', select: MEMBER_FIELDS },
+      { path: 'invites.invitedBy', select: MEMBER_FIELDS },
+    ]);
+    
+    console.log(`✅ Invited ${email} to project ${id}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: updatedProject,
+      message: `Invitation sent to ${email}`,
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error inviting member:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to invite member',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/invites?email=<email> - Cancel a pending invite (owners and admins)
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    // Validate project ID and email
+    const idValidation = ProjectIdSchema.safeParse({ id });
+    const emailValidation = InviteMemberSchema.safeParse({
+      email: new URL(request.url).searchParams.get('email') || '',
+    });
+    if (!idValidation.success || !emailValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid project ID or email',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { email } = emailValidation.data;
+    console.log(`🗑️ Cancelling invite for ${email} to project ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Find project and ensure the user is a member
+    const project = await findMemberProject(id, userId);
+    
+    if (!project) {
+      console.log(`❌ Project ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Project not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    const role = getMemberRole(project, userId)!;
+    if (!hasPermission(role, 'members:invite')) {
+      console.log(`🚫 ${role} may not cancel invites to project ${id}`);
+      return NextResponse.json(permissionDenied(role, 'members:invite', 'Only owners and admins can cancel invites'), { status: 403 });
+    }
+    
+    if (!project.invites.some(invite => invite.email === email)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invite not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    const updatedProject = await Project.findByIdAndUpdate(
+      project._id,
+      { $pull: { invites: { email } } },
+      { new: true }
+    ).populate([
+      { path: 'members.userId', select: MEMBER_FIELDS },
+      { path: 'invites.invitedBy', select: MEMBER_FIELDS },
+    ]);
+    
+    console.log(`✅ Invite for ${email} to project ${id} cancelled`);
+    
+    return NextResponse.json({
+      success: true,
+      data: updatedProject,
+      message: 'Invite cancelled',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error cancelling invite:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to cancel invite',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
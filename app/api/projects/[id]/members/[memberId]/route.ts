@@ -0,0 +1,268 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import Project from '@/models/Project';
+import Task from '@/models/Task';
+import { ApiResponse, ProjectRole } from '@/types';
+import { ProjectMemberIdSchema, UpdateMemberSchema, formatZodError } from '@/lib/validations';
+import { MEMBER_FIELDS, findMemberProject, getMemberRole } from '@/lib/projects';
+import { hasPermission, outranks, permissionDenied } from '@/lib/permissions';
+
+// PATCH /api/projects/[id]/members/[memberId] - Change a member's role (owner only)
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string; memberId: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id, memberId } = await params;
+    
+    // Validate IDs
+    const idValidation = ProjectMemberIdSchema.safeParse({ id, memberId });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid project or member ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`🎭 Changing role of member ${memberId} in project ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = UpdateMemberSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { role: newRole } = validationResult.data;
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Find project and ensure the user is a member
+    const project = await findMemberProject(id, userId);
+    
+    if (!project) {
+      console.log(`❌ Project ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Project not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    const role = getMemberRole(project, userId)!;
+    if (!hasPermission(role, 'members:change-role')) {
+      console.log(`🚫 ${role} may not change roles in project ${id}`);
+      return NextResponse.json(
+        permissionDenied(role, 'members:change-role', 'Only the project owner can change roles'),
+        { status: 403 }
+      );
+    }
+    
+    const memberRole = getMemberRole(project, memberId);
+    
+    if (!memberRole) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Member not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    if (memberRole === ProjectRole.OWNER) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "The owner's role cannot be changed",
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const updatedProject = await Project.findOneAndUpdate(
+      { _id: project._id, 'members.userId': memberId },
+      { $set: { 'members.$.role': newRole } },
+      { new: true, runValidators: true }
+    ).populate('members.userId', MEMBER_FIELDS);
+    
+    console.log(`✅ Member ${memberId} of project ${id} is now ${newRole}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: updatedProject,
+      message: 'Role updated',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error changing member role:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to change role',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/members/[memberId] - Leave a project (your own ID) or
+// remove a member with a lower role (owners and admins). Tasks stay in the project.
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string; memberId: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id, memberId } = await params;
+    
+    // Validate IDs
+    const idValidation = ProjectMemberIdSchema.safeParse({ id, memberId });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid project or member ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`👋 Removing member ${memberId} from project ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Find project and ensure the user is a member
+    const project = await findMemberProject(id, userId);
+    
+    if (!project) {
+      console.log(`❌ Project ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Project not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    const role = getMemberRole(project, userId)!;
+    const memberRole = getMemberRole(project, memberId);
+    const isLeaving = memberId === userId;
+    
+    if (!memberRole) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Member not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    if (isLeaving && role === ProjectRole.OWNER) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: project.personal
+            ? 'You cannot leave your personal project'
+            : 'The owner cannot leave the project. Delete it instead.',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    if (!isLeaving && !hasPermission(role, 'members:remove')) {
+      console.log(`🚫 ${role} may not remove members from project ${id}`);
+      return NextResponse.json(permissionDenied(role, 'members:remove'), { status: 403 });
+    }
+    
+    // Admins remove members and viewers; only the owner removes admins
+    if (!isLeaving && !outranks(role, memberRole)) {
+      console.log(`🚫 ${role} may not remove ${memberRole} ${memberId} from project ${id}`);
+      return NextResponse.json(
+        permissionDenied(role, 'members:remove', 'You can only remove people with a lower role than yours'),
+        { status: 403 }
+      );
+    }
+    
+    const updatedProject = await Project.findByIdAndUpdate(
+      project._id,
+      { $pull: { members: { userId: memberId } } },
+      { new: true }
+    ).populate('members.userId', MEMBER_FIELDS);
+    
+    // Their tasks in this project become unassigned (or stay with the other assignees),
+    // including the ones in the trash
+    await Task.updateMany(
+      { projectId: project._id, assignees: memberId },
+      { $pull: { assignees: memberId } }
+    ).setOptions({ withTrashed: true });
+    
+    console.log(`✅ Member ${memberId} removed from project ${id}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: updatedProject,
+      message: isLeaving ? `You left ${project.name}` : 'Member removed',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error removing member:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to remove member',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
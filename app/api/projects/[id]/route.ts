@@ -0,0 +1,304 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import Task from '@/models/Task';
+import Comment from '@/models/Comment';
+import Activity from '@/models/Activity';
+import TimeEntry from '@/models/TimeEntry';
+import Notification from '@/models/Notification';
+import Category from '@/models/Category';
+import { ApiResponse } from '@/types';
+import { UpdateProjectSchema, ProjectIdSchema, formatZodError } from '@/lib/validations';
+import { MEMBER_FIELDS, findMemberProject, getMemberRole } from '@/lib/projects';
+import { hasPermission, permissionDenied } from '@/lib/permissions';
+
+// GET /api/projects/[id] - Get a project with its members and pending invites
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    // Validate project ID
+    const idValidation = ProjectIdSchema.safeParse({ id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid project ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`📂 Fetching project ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Find project and ensure the user is a member
+    const project = await findMemberProject(id, userId);
+    
+    if (!project) {
+      console.log(`❌ Project ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Project not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    await project.populate([
+      { path: 'members.userId', select: MEMBER_FIELDS },
+      { path: 'invites.invitedBy', select: MEMBER_FIELDS },
+    ]);
+    
+    console.log(`✅ Project ${id} fetched successfully`);
+    
+    return NextResponse.json({
+      success: true,
+      data: project,
+      message: 'Project fetched successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error fetching project:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch project',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/projects/[id] - Rename a project or change its description/color (owners and admins)
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    // Validate project ID
+    const idValidation = ProjectIdSchema.safeParse({ id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid project ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`🔄 Updating project ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = UpdateProjectSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Find project and ensure the user is a member
+    const project = await findMemberProject(id, userId);
+    
+    if (!project) {
+      console.log(`❌ Project ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Project not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    const role = getMemberRole(project, userId)!;
+    if (!hasPermission(role, 'project:update')) {
+      console.log(`🚫 ${role} may not change project ${id}`);
+      return NextResponse.json(permissionDenied(role, 'project:update', 'Only owners and admins can change project settings'), { status: 403 });
+    }
+    
+    project.set(validationResult.data);
+    const updatedProject = await project.save();
+    await updatedProject.populate('members.userId', MEMBER_FIELDS);
+    
+    console.log(`✅ Project ${id} updated successfully`);
+    
+    return NextResponse.json({
+      success: true,
+      data: updatedProject,
+      message: 'Project updated successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error updating project:', error);
+    
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: error.message,
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update project',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id] - Delete a shared project and all of its tasks (owner only)
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    // Validate project ID
+    const idValidation = ProjectIdSchema.safeParse({ id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid project ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`🗑️ Deleting project ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Find project and ensure the user is a member
+    const project = await findMemberProject(id, userId);
+    
+    if (!project) {
+      console.log(`❌ Project ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Project not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    const role = getMemberRole(project, userId)!;
+    if (!hasPermission(role, 'project:delete')) {
+      console.log(`🚫 ${role} may not delete project ${id}`);
+      return NextResponse.json(permissionDenied(role, 'project:delete', 'Only the project owner can delete the project'), { status: 403 });
+    }
+    
+    // Every user keeps their personal project
+    if (project.personal) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Your personal project cannot be deleted',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { deletedCount } = await Task.deleteMany({ projectId: project._id }).setOptions({ withTrashed: true });
+    await Comment.deleteMany({ projectId: project._id });
+    await Activity.deleteMany({ projectId: project._id });
+    await TimeEntry.deleteMany({ projectId: project._id });
+    await Notification.deleteMany({ projectId: project._id });
+    await Category.deleteMany({ projectId: project._id });
+    await project.deleteOne();
+    
+    console.log(`✅ Project ${id} deleted with ${deletedCount} tasks`);
+    
+    return NextResponse.json({
+      success: true,
+      data: project,
+      message: 'Project deleted successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error deleting project:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to delete project',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
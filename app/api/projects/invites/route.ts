@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import Project from '@/models/Project';
+import User from '@/models/User';
+import { ApiResponse } from '@/types';
+import { MEMBER_FIELDS } from '@/lib/projects';
+
+// GET /api/projects/invites - Get the invitations waiting for the user's email
+export async function GET(request: Request) {
+  try {
+    console.log('✉️ Fetching pending invites...');
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const user = await User.findById(userId).select('email');
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'User not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    const projects = await Project.find({ 'invites.email': user.email })
+      .select('name color invites')
+      .populate('invites.invitedBy', MEMBER_FIELDS);
+    
+    // Only the invite for this user is returned, not the project's other invites
+    const invites = projects.map(project => {
+      const invite = project.invites.find(invite => invite.email === user.email)!;
+      return {
+        projectId: project._id.toString(),
+        projectName: project.name,
+        projectColor: project.color,
+        role: invite.role,
+        invitedBy: invite.invitedBy,
+        createdAt: invite.createdAt,
+      };
+    });
+    
+    console.log(`✅ Found ${invites.length} pending invites for user ${userId}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: invites,
+      message: 'Invites fetched successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error fetching invites:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch invites',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import Project from '@/models/Project';
+import { ApiResponse, ProjectRole } from '@/types';
+import { CreateProjectSchema, formatZodError } from '@/lib/validations';
+import { MEMBER_FIELDS, ensurePersonalProject } from '@/lib/projects';
+
+// GET /api/projects - Get every project the user is a member of
+export async function GET(request: Request) {
+  try {
+    console.log('📂 Fetching projects...');
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // First visit creates the personal project
+    await ensurePersonalProject(userId);
+    
+    // Personal project first, then shared projects by name
+    const projects = await Project.find({ 'members.userId': userId })
+      .sort({ personal: -1, name: 1 })
+      .populate('members.userId', MEMBER_FIELDS);
+    
+    console.log(`✅ Found ${projects.length} projects for user ${userId}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: projects,
+      message: 'Projects fetched successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error fetching projects:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch projects',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects - Create a shared project owned by the user
+export async function POST(request: Request) {
+  try {
+    console.log('➕ Creating new project...');
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = CreateProjectSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { name, description, color } = validationResult.data;
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // The creator owns the project and is its first member
+    const project = await Project.create({
+      name,
+      description: description || undefined,
+      color,
+      ownerId: userId,
+      members: [{ userId, role: ProjectRole.OWNER }],
+    });
+    await project.populate('members.userId', MEMBER_FIELDS);
+    
+    console.log('✅ Project created:', project._id);
+    
+    return NextResponse.json({
+      success: true,
+      data: project,
+      message: 'Project created successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error creating project:', error);
+    
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: error.message,
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create project',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectMongoDB from '@/lib/mongodb';
+import { getSessionFromToken } from '@/lib/auth';
+import { SessionRevokeReason } from '@/models/Session';
+import { ApiResponse } from '@/types';
+import { SessionIdSchema } from '@/lib/validations';
+import { clearAuthCookies, revokeSessions } from '@/lib/sessions';
+
+// DELETE /api/sessions/[id] - Sign one of the user's sessions out
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    // Validate session ID
+    const idValidation = SessionIdSchema.safeParse({ id });
+    if (!idValidation.success || !mongoose.isValidObjectId(id)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid session ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`🔐 Revoking session ${id}...`);
+    
+    // Get user and session from token
+    const auth = await getSessionFromToken(request);
+    if (!auth) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Only the user's own sessions - someone else's look like they don't exist
+    const revoked = await revokeSessions({ _id: id, userId: auth.userId }, SessionRevokeReason.REVOKED);
+    
+    if (revoked === 0) {
+      console.log(`❌ Session ${id} not found or already ended`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Session not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    const isCurrent = id === auth.sessionId;
+    console.log(`✅ Session ${id} revoked${isCurrent ? ' (current session)' : ''}`);
+    
+    const response = NextResponse.json({
+      success: true,
+      data: { current: isCurrent },
+      message: isCurrent ? 'You have been signed out' : 'Session signed out',
+    } as ApiResponse);
+    
+    // Ending this browser's own session signs it out
+    if (isCurrent) {
+      clearAuthCookies(response);
+    }
+    
+    return response;
+    
+  } catch (error) {
+    console.error('❌ Error revoking session:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to revoke session',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
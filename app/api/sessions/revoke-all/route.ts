@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getSessionFromToken } from '@/lib/auth';
+import { SessionRevokeReason } from '@/models/Session';
+import { ApiResponse } from '@/types';
+import { revokeSessions } from '@/lib/sessions';
+
+// POST /api/sessions/revoke-all - Sign out every session except the one making the request
+export async function POST(request: Request) {
+  try {
+    console.log('🔐 Revoking all other sessions...');
+    
+    // Get user and session from token
+    const auth = await getSessionFromToken(request);
+    if (!auth) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const revoked = await revokeSessions(
+      { userId: auth.userId, _id: { $ne: auth.sessionId } },
+      SessionRevokeReason.REVOKED
+    );
+    
+    console.log(`✅ Revoked ${revoked} sessions for user ${auth.userId}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: { revoked },
+      message: revoked === 1 ? 'Signed out 1 other session' : `Signed out ${revoked} other sessions`,
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error revoking sessions:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to revoke sessions',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
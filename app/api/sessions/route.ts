@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getSessionFromToken } from '@/lib/auth';
+import Session from '@/models/Session';
+import { ApiResponse, ISession } from '@/types';
+
+// GET /api/sessions - The user's active sessions, most recently used first
+export async function GET(request: Request) {
+  try {
+    console.log('🔐 Fetching sessions...');
+    
+    // Get user and session from token
+    const auth = await getSessionFromToken(request);
+    if (!auth) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const sessions = await Session.find({
+      userId: auth.userId,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    })
+      .sort({ lastUsedAt: -1 })
+      .select('device userAgent ip lastUsedAt createdAt');
+    
+    const data: ISession[] = sessions.map(session => ({
+      _id: session._id.toString(),
+      device: session.device,
+      userAgent: session.userAgent,
+      ip: session.ip,
+      lastUsedAt: session.lastUsedAt,
+      createdAt: session.createdAt,
+      current: session._id.toString() === auth.sessionId,
+    }));
+    
+    console.log(`✅ Found ${data.length} sessions for user ${auth.userId}`);
+    
+    return NextResponse.json({
+      success: true,
+      data,
+    } as ApiResponse<ISession[]>);
+    
+  } catch (error) {
+    console.error('❌ Error fetching sessions:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch sessions',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import User from '@/models/User';
+import { ApiResponse } from '@/types';
+import { NotificationPrefsSchema, formatZodError } from '@/lib/validations';
+
+// GET /api/settings/notifications - Get the user's email notification settings
+export async function GET(request: Request) {
+  try {
+    console.log('⚙️ Fetching notification settings...');
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const user = await User.findById(userId).select('notificationPrefs');
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'User not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      data: user.notificationPrefs,
+      message: 'Notification settings fetched successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error fetching notification settings:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch notification settings',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/settings/notifications - Change some of the user's email notification settings
+export async function PATCH(request: Request) {
+  try {
+    console.log('⚙️ Updating notification settings...');
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = NotificationPrefsSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const user = await User.findById(userId).select('notificationPrefs');
+    if (!user) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'User not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    // Only the settings that were sent change
+    for (const [field, value] of Object.entries(validationResult.data)) {
+      user.set(`notificationPrefs.${field}`, value);
+    }
+    await user.save();
+    
+    console.log(`✅ Notification settings updated for user ${userId}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: user.notificationPrefs,
+      message: 'Notification settings saved',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error updating notification settings:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update notification settings',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import Activity from '@/models/Activity';
+import { ApiResponse } from '@/types';
+import { TaskIdSchema } from '@/lib/validations';
+import { MEMBER_FIELDS, findAccessibleTask } from '@/lib/projects';
+
+// GET /api/tasks/[id]/activity - Who changed what on a task, newest first
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    // Validate task ID
+    const idValidation = TaskIdSchema.safeParse({ id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid task ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`🕘 Fetching activity of task ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Find task and ensure the user is a member of its project
+    const access = await findAccessibleTask(id, userId);
+    
+    if (!access) {
+      console.log(`❌ Task ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Task not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    const activity = await Activity.find({ taskId: id })
+      .sort({ createdAt: -1 })
+      .populate('actorId', MEMBER_FIELDS);
+    
+    console.log(`✅ Found ${activity.length} activity entries for task ${id}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: activity,
+      message: 'Activity fetched successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error fetching activity:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch activity',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,158 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import { ActivityAction } from '@/models/Activity';
+import { ApiResponse } from '@/types';
+import { TaskIdSchema } from '@/lib/validations';
+import { TASK_POPULATE, findAccessibleTask } from '@/lib/projects';
+import { hasPermission, permissionDenied } from '@/lib/permissions';
+import { recordActivity } from '@/lib/activity';
+
+// Find a task the user may archive or unarchive - anyone who can edit it.
+// Returns the task or the error response to send.
+async function findArchivableTask(request: Request, id: string) {
+  // Validate task ID
+  const idValidation = TaskIdSchema.safeParse({ id });
+  if (!idValidation.success) {
+    return {
+      error: NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid task ID',
+        } as ApiResponse,
+        { status: 400 }
+      ),
+    };
+  }
+  
+  // Get user ID from token
+  const userId = await getUserFromToken(request);
+  if (!userId) {
+    return {
+      error: NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      ),
+    };
+  }
+  
+  // Connect to database
+  await connectMongoDB();
+  
+  // Find task by ID and ensure the user is a member of its project
+  const access = await findAccessibleTask(id, userId);
+  
+  if (!access) {
+    console.log(`❌ Task ${id} not found or unauthorized`);
+    return {
+      error: NextResponse.json(
+        {
+          success: false,
+          error: 'Task not found',
+        } as ApiResponse,
+        { status: 404 }
+      ),
+    };
+  }
+  
+  if (!hasPermission(access.role, 'task:update')) {
+    console.log(`🚫 ${access.role} may not archive task ${id}`);
+    return {
+      error: NextResponse.json(permissionDenied(access.role, 'task:update'), { status: 403 }),
+    };
+  }
+  
+  return { task: access.task, userId };
+}
+
+// POST /api/tasks/[id]/archive - Archive a task by hand
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    console.log(`📦 Archiving task ${id}...`);
+    
+    const found = await findArchivableTask(request, id);
+    if ('error' in found) return found.error;
+    const { task, userId } = found;
+    
+    // Status and board position are left alone, so unarchiving puts it back where it was
+    if (!task.archivedAt) {
+      task.archivedAt = new Date();
+      await task.save({ timestamps: false });
+      await recordActivity({ task, actorId: userId, action: ActivityAction.ARCHIVED });
+    }
+    
+    await task.populate(TASK_POPULATE);
+    
+    console.log(`✅ Task ${id} archived`);
+    
+    return NextResponse.json({
+      success: true,
+      data: task,
+      message: 'Task archived successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error archiving task:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to archive task',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tasks/[id]/archive - Bring an archived task back to the active list
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    console.log(`📤 Unarchiving task ${id}...`);
+    
+    const found = await findArchivableTask(request, id);
+    if ('error' in found) return found.error;
+    const { task, userId } = found;
+    
+    if (task.archivedAt) {
+      task.set({ archivedAt: null, unarchivedAt: new Date() });
+      await task.save({ timestamps: false });
+      await recordActivity({ task, actorId: userId, action: ActivityAction.UNARCHIVED });
+    }
+    
+    await task.populate(TASK_POPULATE);
+    
+    console.log(`✅ Task ${id} unarchived`);
+    
+    return NextResponse.json({
+      success: true,
+      data: task,
+      message: 'Task unarchived successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error unarchiving task:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to unarchive task',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
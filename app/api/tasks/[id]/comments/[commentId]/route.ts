@@ -0,0 +1,238 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import Comment from '@/models/Comment';
+import { ApiResponse } from '@/types';
+import { CommentIdSchema, CommentSchema, formatZodError } from '@/lib/validations';
+import { findAccessibleTask } from '@/lib/projects';
+import { COMMENT_POPULATE, resolveMentions } from '@/lib/comments';
+
+// Load a comment of a task the user can see. Null when either doesn't exist or
+// the user isn't a member of the task's project.
+async function findTaskComment(id: string, commentId: string, userId: string) {
+  if (!mongoose.isValidObjectId(commentId)) return null;
+  
+  const access = await findAccessibleTask(id, userId);
+  if (!access) return null;
+  
+  const comment = await Comment.findOne({ _id: commentId, taskId: id });
+  return comment ? { access, comment } : null;
+}
+
+// PATCH /api/tasks/[id]/comments/[commentId] - Edit a comment (author only)
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string; commentId: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id, commentId } = await params;
+    
+    // Validate IDs
+    const idValidation = CommentIdSchema.safeParse({ id, commentId });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid task or comment ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`✏️ Editing comment ${commentId} of task ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = CommentSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const found = await findTaskComment(id, commentId, userId);
+    
+    if (!found) {
+      console.log(`❌ Comment ${commentId} of task ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Comment not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    const { access, comment } = found;
+    
+    // Nobody else, not even the project owner, can put words in someone's mouth
+    if (comment.authorId.toString() !== userId) {
+      console.log(`🚫 User ${userId} may not edit comment ${commentId}`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Only the author can edit this comment',
+        } as ApiResponse,
+        { status: 403 }
+      );
+    }
+    
+    const { body: text } = validationResult.data;
+    
+    if (text !== comment.body) {
+      comment.set({
+        body: text,
+        mentions: await resolveMentions(text, access.project),
+        editedAt: new Date(),
+      });
+      await comment.save();
+    }
+    await comment.populate(COMMENT_POPULATE);
+    
+    console.log(`✅ Comment ${commentId} updated`);
+    
+    return NextResponse.json({
+      success: true,
+      data: comment,
+      message: 'Comment updated successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error updating comment:', error);
+    
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: error.message,
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update comment',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tasks/[id]/comments/[commentId] - Delete a comment (author only)
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string; commentId: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id, commentId } = await params;
+    
+    // Validate IDs
+    const idValidation = CommentIdSchema.safeParse({ id, commentId });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid task or comment ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`🗑️ Deleting comment ${commentId} of task ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const found = await findTaskComment(id, commentId, userId);
+    
+    if (!found) {
+      console.log(`❌ Comment ${commentId} of task ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Comment not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    const { comment } = found;
+    
+    if (comment.authorId.toString() !== userId) {
+      console.log(`🚫 User ${userId} may not delete comment ${commentId}`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Only the author can delete this comment',
+        } as ApiResponse,
+        { status: 403 }
+      );
+    }
+    
+    await comment.deleteOne();
+    
+    console.log(`✅ Comment ${commentId} deleted`);
+    
+    return NextResponse.json({
+      success: true,
+      data: comment,
+      message: 'Comment deleted successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error deleting comment:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to delete comment',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
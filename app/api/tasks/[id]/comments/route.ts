@@ -0,0 +1,208 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import Comment from '@/models/Comment';
+import { ApiResponse } from '@/types';
+import { CommentSchema, TaskIdSchema, formatZodError } from '@/lib/validations';
+import { findAccessibleTask } from '@/lib/projects';
+import { COMMENT_POPULATE, resolveMentions } from '@/lib/comments';
+import { hasPermission, permissionDenied } from '@/lib/permissions';
+
+// GET /api/tasks/[id]/comments - The task's comment thread, oldest first
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    // Validate task ID
+    const idValidation = TaskIdSchema.safeParse({ id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid task ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`💬 Fetching comments of task ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Find task and ensure the user is a member of its project
+    const access = await findAccessibleTask(id, userId);
+    
+    if (!access) {
+      console.log(`❌ Task ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Task not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    const comments = await Comment.find({ taskId: id })
+      .sort({ createdAt: 1 })
+      .populate(COMMENT_POPULATE);
+    
+    console.log(`✅ Found ${comments.length} comments on task ${id}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: comments,
+      message: 'Comments fetched successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error fetching comments:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch comments',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tasks/[id]/comments - Add a comment; @name mentions are resolved to project members
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    // Validate task ID
+    const idValidation = TaskIdSchema.safeParse({ id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid task ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`💬 Adding comment to task ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = CommentSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Find task and ensure the user is a member of its project
+    const access = await findAccessibleTask(id, userId);
+    
+    if (!access) {
+      console.log(`❌ Task ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Task not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    // Viewers can read the thread but not post
+    if (!hasPermission(access.role, 'task:comment')) {
+      console.log(`🚫 ${access.role} may not comment on task ${id}`);
+      return NextResponse.json(permissionDenied(access.role, 'task:comment'), { status: 403 });
+    }
+    
+    const { body: text } = validationResult.data;
+    
+    const comment = await Comment.create({
+      taskId: access.task._id,
+      projectId: access.task.projectId,
+      authorId: userId,
+      body: text,
+      mentions: await resolveMentions(text, access.project),
+    });
+    await comment.populate(COMMENT_POPULATE);
+    
+    console.log(`✅ Comment ${comment._id} added to task ${id} (${comment.mentions.length} mentions)`);
+    
+    return NextResponse.json({
+      success: true,
+      data: comment,
+      message: 'Comment added successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error adding comment:', error);
+    
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: error.message,
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to add comment',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,169 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import Task from '@/models/Task';
+import { ActivityAction } from '@/models/Activity';
+import { ApiResponse, TaskStatus } from '@/types';
+import { MoveTaskSchema, TaskIdSchema, formatZodError } from '@/lib/validations';
+import { findOpenBlockers } from '@/lib/dependencies';
+import { rankAfter, rankBetween } from '@/lib/ranking';
+import { TASK_POPULATE, findAccessibleTask } from '@/lib/projects';
+import { hasPermission, permissionDenied } from '@/lib/permissions';
+import { recordActivity, snapshotTask } from '@/lib/activity';
+
+// POST /api/tasks/[id]/move - Move a card on the board to a status column and position
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    // Validate task ID
+    const idValidation = TaskIdSchema.safeParse({ id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid task ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`🗂️ Moving task ${id} on the board...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = MoveTaskSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { status, prevId, nextId } = validationResult.data;
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Find task by ID and ensure the user is a member of its project
+    const access = await findAccessibleTask(id, userId);
+    
+    if (!access) {
+      console.log(`❌ Task ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Task not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    // Moving a card changes its status, so viewers can't
+    if (!hasPermission(access.role, 'task:update')) {
+      console.log(`🚫 ${access.role} may not move task ${id}`);
+      return NextResponse.json(permissionDenied(access.role, 'task:update'), { status: 403 });
+    }
+    
+    const { task } = access;
+    
+    // The neighbours must be tasks of the same project in the target column
+    const neighbourIds = [prevId, nextId].filter((neighbourId): neighbourId is string => !!neighbourId);
+    const neighbours = await Task.find({ _id: { $in: neighbourIds }, projectId: task.projectId, status }).select('position');
+    const prev = prevId ? neighbours.find(neighbour => neighbour._id.toString() === prevId) : undefined;
+    const next = nextId ? neighbours.find(neighbour => neighbour._id.toString() === nextId) : undefined;
+    
+    // Only ranks between the neighbours are computed, no other card is renumbered.
+    // A missing neighbour or one out of order means the board is out of date.
+    const position = neighbourIds.includes(id) || (prevId && !prev) || (nextId && !next)
+      ? null
+      : next
+        ? rankBetween(prev?.position, next.position)
+        : rankAfter(prev?.position);
+    
+    if (!position) {
+      console.log(`❌ Stale board position for task ${id}`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'The board has changed since it was loaded. Please refresh and try again.',
+        } as ApiResponse,
+        { status: 409 }
+      );
+    }
+    
+    // A blocked task can't be started or completed while any of its blockers is open
+    const isStarting =
+      status !== (task.status as string) &&
+      [TaskStatus.IN_PROGRESS, TaskStatus.COMPLETED].includes(status);
+    
+    if (isStarting) {
+      const openBlockers = await findOpenBlockers(task.blockedBy.map(blocker => blocker.toString()), task.projectId.toString());
+      
+      if (openBlockers.length > 0) {
+        const titles = openBlockers.map(blocker => `"${blocker.title}"`).join(', ');
+        console.log(`❌ Task ${id} is blocked by ${titles}`);
+        return NextResponse.json(
+          {
+            success: false,
+            error: `This task is blocked by open tasks: ${titles}`,
+            data: { openBlockers },
+          } as ApiResponse,
+          { status: 409 }
+        );
+      }
+    }
+    
+    // Save through the document so status changes run the same hooks as PATCH
+    const before = snapshotTask(task);
+    task.set({ status, position });
+    const movedTask = await task.save();
+    await recordActivity({ task: movedTask, actorId: userId, action: ActivityAction.UPDATED, before });
+    await movedTask.populate(TASK_POPULATE);
+    
+    console.log(`✅ Task ${id} moved to ${status} at ${position}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: movedTask,
+      message: 'Task moved successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error moving task:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to move task',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
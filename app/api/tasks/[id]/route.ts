@@ -1,47 +1,14 @@
 import { NextResponse } from 'next/server';
-import jwt from 'jsonwebtoken';
 import connectMongoDB from '@/lib/mongodb';
-import Task from '@/models/Task';
-import { ApiResponse } from '@/types';
-import { UpdateTaskSchema, TaskIdSchema, formatZodError } from '@/lib/validations';
-
-// Interface for JWT payload
-interface JWTPayload {
-  userId: string;
-  email: string;
-  iat: number;
-  exp: number;
-}
-
-// Helper function to get user from token
-async function getUserFromToken(request: Request): Promise<string | null> {
-  try {
-    const authHeader = request.headers.get('authorization');
-    const cookieHeader = request.headers.get('cookie');
-    
-    let token: string | null = null;
-    
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      token = authHeader.substring(7);
-    } else if (cookieHeader) {
-      const cookies = cookieHeader.split(';');
-      const authCookie = cookies.find(cookie => cookie.trim().startsWith('auth-token='));
-      if (authCookie) {
-        token = authCookie.split('=')[1];
-      }
-    }
-    
-    if (!token || !process.env.NEXTAUTH_SECRET) {
-      return null;
-    }
-    
-    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET) as JWTPayload;
-    return decoded.userId;
-  } catch (error) {
-    console.error('Token verification error:', error);
-    return null;
-  }
-}
+import { getUserFromToken } from '@/lib/auth';
+import { ActivityAction } from '@/models/Activity';
+import { ApiResponse, TaskStatus } from '@/types';
+import { updateTaskSchemaFor, TaskIdSchema, formatZodError } from '@/lib/validations';
+import { getCategoryKeys } from '@/lib/categories';
+import { findDependencyCycle, findInvalidBlockers, findOpenBlockers } from '@/lib/dependencies';
+import { TASK_POPULATE, findAccessibleTask, findNonMembers } from '@/lib/projects';
+import { canAssignTask, canDeleteTask, hasPermission, permissionDenied } from '@/lib/permissions';
+import { recordActivity, snapshotTask } from '@/lib/activity';
 
 // GET /api/tasks/[id] - Get a specific task
 export async function GET(
@@ -68,10 +35,10 @@ export async function GET(
     // Connect to database
     await connectMongoDB();
     
-    // Find task by ID and ensure it belongs to the user
-    const task = await Task.findOne({ _id: id, userId });
+    // Find task by ID and ensure the user is a member of its project
+    const access = await findAccessibleTask(id, userId);
     
-    if (!task) {
+    if (!access) {
       console.log(`❌ Task ${id} not found or unauthorized`);
       return NextResponse.json(
         {
@@ -82,6 +49,9 @@ export async function GET(
       );
     }
     
+    const { task } = access;
+    
+    await task.populate(TASK_POPULATE);
     console.log(`✅ Task ${id} fetched successfully`);
     
     return NextResponse.json({
@@ -142,8 +112,35 @@ export async function PATCH(
     const body = await request.json();
     console.log('Update data:', body);
     
-    // Validate with Zod
-    const validationResult = UpdateTaskSchema.safeParse(body);
+    // Connect to database
+    await connectMongoDB();
+    
+    // Find task (ensure the user is a member of its project)
+    const access = await findAccessibleTask(id, userId);
+    
+    if (!access) {
+      console.log(`❌ Task ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Task not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    // Viewers can look but not edit
+    if (!hasPermission(access.role, 'task:update')) {
+      console.log(`🚫 ${access.role} may not update task ${id}`);
+      return NextResponse.json(permissionDenied(access.role, 'task:update'), { status: 403 });
+    }
+    
+    const { task, project } = access;
+    
+    // Validate with Zod (category must be one of the project's categories; a task
+    // keeps its current one even if that was removed in the meantime)
+    const categoryKeys = [...await getCategoryKeys(project), task.category];
+    const validationResult = updateTaskSchemaFor(categoryKeys).safeParse(body);
     
     if (!validationResult.success) {
       console.log('❌ Validation failed:', validationResult.error.errors);
@@ -161,27 +158,102 @@ export async function PATCH(
     
     const updateData = validationResult.data;
     
-    // Connect to database
-    await connectMongoDB();
+    const projectId = task.projectId.toString();
+    
+    // Only project members can be assigned, and only by the task's creator or an admin.
+    // The edit form always sends the assignees, so only an actual change is checked.
+    if (updateData.assignees) {
+      const current = task.assignees.map(String).sort();
+      const requested = Array.from(new Set(updateData.assignees)).sort();
+      const isReassigning = JSON.stringify(current) !== JSON.stringify(requested);
+      if (isReassigning && !canAssignTask(access.role, task.createdBy.toString() === userId)) {
+        console.log(`🚫 ${access.role} may not reassign task ${id}`);
+        return NextResponse.json(
+          permissionDenied(access.role, 'task:assign', 'Only admins can reassign tasks created by someone else'),
+          { status: 403 }
+        );
+      }
+      
+      const nonMembers = findNonMembers(project, updateData.assignees);
+      if (nonMembers.length > 0) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Invalid assignees',
+            fieldErrors: { assignees: 'Assignees must be members of the project' },
+          } as ApiResponse,
+          { status: 400 }
+        );
+      }
+    }
     
-    // Find and update task (ensure it belongs to the user)
-    const updatedTask = await Task.findOneAndUpdate(
-      { _id: id, userId },
-      { ...updateData },
-      { new: true, runValidators: true }
-    );
+    // New blockers must exist, be in the same project and not close a dependency cycle
+    if (updateData.blockedBy) {
+      const invalidBlockers = await findInvalidBlockers(updateData.blockedBy, projectId, id);
+      if (invalidBlockers.length > 0) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Invalid blockers',
+            details: `Unknown task IDs or self-reference: ${invalidBlockers.join(', ')}`,
+          } as ApiResponse,
+          { status: 400 }
+        );
+      }
+      
+      const cycle = await findDependencyCycle(id, updateData.blockedBy, projectId);
+      if (cycle) {
+        console.log(`❌ Dependency cycle for task ${id}:`, cycle.join(' → '));
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'These blockers would create a dependency cycle',
+            details: cycle.join(' → '),
+          } as ApiResponse,
+          { status: 400 }
+        );
+      }
+    }
     
-    if (!updatedTask) {
-      console.log(`❌ Task ${id} not found or unauthorized`);
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Task not found',
-        } as ApiResponse,
-        { status: 404 }
-      );
+    // A blocked task can't be started or completed while any of its blockers is open
+    const isStarting =
+      updateData.status !== undefined &&
+      updateData.status !== (task.status as string) &&
+      [TaskStatus.IN_PROGRESS, TaskStatus.COMPLETED].includes(updateData.status);
+    
+    if (isStarting) {
+      const blockerIds = updateData.blockedBy ?? task.blockedBy.map(blocker => blocker.toString());
+      const openBlockers = await findOpenBlockers(blockerIds, projectId);
+      
+      if (openBlockers.length > 0) {
+        const titles = openBlockers.map(blocker => `"${blocker.title}"`).join(', ');
+        console.log(`❌ Task ${id} is blocked by ${titles}`);
+        return NextResponse.json(
+          {
+            success: false,
+            error: `This task is blocked by open tasks: ${titles}`,
+            data: { openBlockers },
+          } as ApiResponse,
+          { status: 409 }
+        );
+      }
     }
     
+    // Apply the update through save() so the pre('save') hook stamps completedAt
+    // and generates the next occurrence of recurring tasks
+    const before = snapshotTask(task);
+    const occurrence = task.recurrence?.occurrence || 1;
+    task.set(updateData);
+    
+    // Editing the rule keeps the task's position in its series
+    if (updateData.recurrence) {
+      task.set('recurrence.occurrence', occurrence);
+    }
+    
+    const updatedTask = await task.save();
+    await recordActivity({ task: updatedTask, actorId: userId, action: ActivityAction.UPDATED, before });
+    await updatedTask.populate(TASK_POPULATE);
+    
     console.log(`✅ Task ${id} updated successfully`);
     
     return NextResponse.json({
@@ -253,10 +325,10 @@ export async function DELETE(
     // Connect to database
     await connectMongoDB();
     
-    // Find and delete task (ensure it belongs to the user)
-    const deletedTask = await Task.findOneAndDelete({ _id: id, userId });
+    // Find task (ensure the user is a member of its project)
+    const access = await findAccessibleTask(id, userId);
     
-    if (!deletedTask) {
+    if (!access) {
       console.log(`❌ Task ${id} not found or unauthorized`);
       return NextResponse.json(
         {
@@ -267,12 +339,30 @@ export async function DELETE(
       );
     }
     
-    console.log(`✅ Task ${id} deleted successfully`);
+    const { task, role } = access;
+    
+    // Admins and owners delete any task, members only the ones they created
+    if (!canDeleteTask(role, task.createdBy.toString() === userId)) {
+      console.log(`🚫 ${role} may not delete task ${id}`);
+      return NextResponse.json(
+        permissionDenied(role, 'task:delete', 'Only admins can delete tasks created by someone else'),
+        { status: 403 }
+      );
+    }
+    
+    // Move the task to the trash. It keeps its subtasks, comments and history,
+    // and tasks it blocks keep the reference in case it is restored - trashed
+    // blockers are ignored until then (see lib/trash.ts for the real delete)
+    task.set({ deletedAt: new Date(), deletedBy: userId });
+    await task.save();
+    await recordActivity({ task, actorId: userId, action: ActivityAction.DELETED });
+    
+    console.log(`✅ Task ${id} moved to trash`);
     
     return NextResponse.json({
       success: true,
-      data: deletedTask,
-      message: 'Task deleted successfully',
+      data: task,
+      message: 'Task moved to trash',
     } as ApiResponse);
     
   } catch (error) {
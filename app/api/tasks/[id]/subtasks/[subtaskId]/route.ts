@@ -0,0 +1,254 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import Task from '@/models/Task';
+import { ActivityAction } from '@/models/Activity';
+import { ApiResponse } from '@/types';
+import { UpdateSubtaskSchema, SubtaskIdSchema, formatZodError } from '@/lib/validations';
+import { TASK_POPULATE, findAccessibleTask } from '@/lib/projects';
+import { hasPermission, permissionDenied } from '@/lib/permissions';
+import { recordActivity, snapshotTask } from '@/lib/activity';
+
+// PATCH /api/tasks/[id]/subtasks/[subtaskId] - Toggle or rename a subtask
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string; subtaskId: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id, subtaskId } = await params;
+    
+    // Validate IDs
+    const idValidation = SubtaskIdSchema.safeParse({ id, subtaskId });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid task or subtask ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`🔄 Updating subtask ${subtaskId} of task ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = UpdateSubtaskSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { title, completed } = validationResult.data;
+    
+    // Build positional update for the matched subtask
+    const update: Record<string, unknown> = {};
+    if (title !== undefined) update['subtasks.$.title'] = title;
+    if (completed !== undefined) {
+      update['subtasks.$.completed'] = completed;
+      update['subtasks.$.completedAt'] = completed ? new Date() : null;
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Find task and ensure the user is a member of its project
+    const access = await findAccessibleTask(id, userId);
+    
+    if (!access) {
+      console.log(`❌ Task ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Task not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    // Viewers can't change the checklist
+    if (!hasPermission(access.role, 'task:update')) {
+      console.log(`🚫 ${access.role} may not change subtasks of task ${id}`);
+      return NextResponse.json(permissionDenied(access.role, 'task:update'), { status: 403 });
+    }
+    
+    // Update the subtask
+    const before = snapshotTask(access.task);
+    const updatedTask = await Task.findOneAndUpdate(
+      { _id: id, 'subtasks._id': subtaskId },
+      { $set: update },
+      { new: true, runValidators: true }
+    );
+    
+    if (!updatedTask) {
+      console.log(`❌ Subtask ${subtaskId} of task ${id} not found`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Subtask not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    await recordActivity({ task: updatedTask, actorId: userId, action: ActivityAction.UPDATED, before });
+    await updatedTask.populate(TASK_POPULATE);
+    
+    console.log(`✅ Subtask ${subtaskId} updated`);
+    
+    return NextResponse.json({
+      success: true,
+      data: updatedTask,
+      message: 'Subtask updated successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error updating subtask:', error);
+    
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: error.message,
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update subtask',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tasks/[id]/subtasks/[subtaskId] - Remove a subtask
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string; subtaskId: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id, subtaskId } = await params;
+    
+    // Validate IDs
+    const idValidation = SubtaskIdSchema.safeParse({ id, subtaskId });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid task or subtask ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`🗑️ Removing subtask ${subtaskId} from task ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Find task and ensure the user is a member of its project
+    const access = await findAccessibleTask(id, userId);
+    
+    if (!access) {
+      console.log(`❌ Task ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Task not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    // Viewers can't change the checklist
+    if (!hasPermission(access.role, 'task:update')) {
+      console.log(`🚫 ${access.role} may not change subtasks of task ${id}`);
+      return NextResponse.json(permissionDenied(access.role, 'task:update'), { status: 403 });
+    }
+    
+    // Pull the subtask
+    const before = snapshotTask(access.task);
+    const updatedTask = await Task.findOneAndUpdate(
+      { _id: id, 'subtasks._id': subtaskId },
+      { $pull: { subtasks: { _id: subtaskId } } },
+      { new: true }
+    );
+    
+    if (!updatedTask) {
+      console.log(`❌ Subtask ${subtaskId} of task ${id} not found`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Subtask not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    await recordActivity({ task: updatedTask, actorId: userId, action: ActivityAction.UPDATED, before });
+    await updatedTask.populate(TASK_POPULATE);
+    
+    console.log(`✅ Subtask ${subtaskId} removed`);
+    
+    return NextResponse.json({
+      success: true,
+      data: updatedTask,
+      message: 'Subtask removed successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error removing subtask:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to remove subtask',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
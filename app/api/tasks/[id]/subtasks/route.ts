@@ -0,0 +1,281 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import Task from '@/models/Task';
+import { ActivityAction } from '@/models/Activity';
+import { ApiResponse } from '@/types';
+import { CreateSubtaskSchema, ReorderSubtasksSchema, TaskIdSchema, formatZodError } from '@/lib/validations';
+import { TASK_POPULATE, findAccessibleTask } from '@/lib/projects';
+import { hasPermission, permissionDenied } from '@/lib/permissions';
+import { recordActivity, snapshotTask } from '@/lib/activity';
+
+// POST /api/tasks/[id]/subtasks - Add a subtask to the end of the checklist
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    // Validate task ID
+    const idValidation = TaskIdSchema.safeParse({ id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid task ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`➕ Adding subtask to task ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = CreateSubtaskSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { title } = validationResult.data;
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Find task and ensure the user is a member of its project
+    const access = await findAccessibleTask(id, userId);
+    
+    if (!access) {
+      console.log(`❌ Task ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Task not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    // Viewers can't change the checklist
+    if (!hasPermission(access.role, 'task:update')) {
+      console.log(`🚫 ${access.role} may not change subtasks of task ${id}`);
+      return NextResponse.json(permissionDenied(access.role, 'task:update'), { status: 403 });
+    }
+    
+    // Append the subtask - $push skips the schema's array validator, so the
+    // 100-subtask limit is part of the filter
+    const before = snapshotTask(access.task);
+    const updatedTask = await Task.findOneAndUpdate(
+      { _id: id, 'subtasks.99': { $exists: false } },
+      { $push: { subtasks: { title } } },
+      { new: true, runValidators: true }
+    );
+    
+    if (!updatedTask) {
+      console.log(`❌ Task ${id} already has 100 subtasks`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'A task cannot have more than 100 subtasks',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    await recordActivity({ task: updatedTask, actorId: userId, action: ActivityAction.UPDATED, before });
+    await updatedTask.populate(TASK_POPULATE);
+    
+    console.log(`✅ Subtask added to task ${id}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: updatedTask,
+      message: 'Subtask added successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error adding subtask:', error);
+    
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: error.message,
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to add subtask',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/tasks/[id]/subtasks - Reorder the checklist
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    // Validate task ID
+    const idValidation = TaskIdSchema.safeParse({ id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid task ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`↕️ Reordering subtasks of task ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = ReorderSubtasksSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { subtaskIds } = validationResult.data;
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Find task by ID and ensure the user is a member of its project
+    const access = await findAccessibleTask(id, userId);
+    
+    if (!access) {
+      console.log(`❌ Task ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Task not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    // Viewers can't change the checklist
+    if (!hasPermission(access.role, 'task:update')) {
+      console.log(`🚫 ${access.role} may not change subtasks of task ${id}`);
+      return NextResponse.json(permissionDenied(access.role, 'task:update'), { status: 403 });
+    }
+    
+    const { task } = access;
+    
+    // The new order must be a permutation of the existing subtasks
+    const existingIds = task.subtasks.map(subtask => subtask._id.toString());
+    const isPermutation =
+      subtaskIds.length === existingIds.length &&
+      subtaskIds.every(subtaskId => existingIds.includes(subtaskId));
+    
+    if (!isPermutation) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Subtask IDs must list every subtask of the task exactly once',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const reordered = subtaskIds.map(
+      subtaskId => task.subtasks.find(subtask => subtask._id.toString() === subtaskId)!
+    );
+    
+    const before = snapshotTask(task);
+    const updatedTask = await Task.findOneAndUpdate(
+      { _id: id },
+      { $set: { subtasks: reordered } },
+      { new: true, runValidators: true }
+    );
+    
+    if (updatedTask) {
+      await recordActivity({ task: updatedTask, actorId: userId, action: ActivityAction.UPDATED, before });
+      await updatedTask.populate(TASK_POPULATE);
+    }
+    
+    console.log(`✅ Subtasks of task ${id} reordered`);
+    
+    return NextResponse.json({
+      success: true,
+      data: updatedTask,
+      message: 'Subtasks reordered successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error reordering subtasks:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to reorder subtasks',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
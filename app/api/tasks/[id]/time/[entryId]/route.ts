@@ -0,0 +1,244 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import TimeEntry, { ITimeEntryDocument } from '@/models/TimeEntry';
+import { ProjectRole } from '@/models/Project';
+import { ApiResponse } from '@/types';
+import { TimeEntryIdSchema, TimeEntrySchema, formatZodError } from '@/lib/validations';
+import { findAccessibleTask } from '@/lib/projects';
+import { hasPermission, permissionDenied } from '@/lib/permissions';
+import { TIME_ENTRY_POPULATE, refreshTimeLogged } from '@/lib/timeTracking';
+
+// Load a time entry of a task the user can see. Null when either doesn't exist
+// or the user isn't a member of the task's project.
+async function findTaskTimeEntry(id: string, entryId: string, userId: string) {
+  const access = await findAccessibleTask(id, userId);
+  if (!access) return null;
+  
+  const entry = await TimeEntry.findOne({ _id: entryId, taskId: id });
+  return entry ? { access, entry } : null;
+}
+
+// Only the person who logged the time may change it, and only while their
+// role still lets them log time. Returns the 403 to send, or null.
+function checkEntryOwner(entry: ITimeEntryDocument, role: ProjectRole, userId: string) {
+  if (!hasPermission(role, 'time:log')) {
+    return NextResponse.json(permissionDenied(role, 'time:log'), { status: 403 });
+  }
+  if (entry.userId.toString() !== userId) {
+    console.log(`🚫 User ${userId} may not change time entry ${entry._id}`);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Only the person who logged this time can change it',
+      } as ApiResponse,
+      { status: 403 }
+    );
+  }
+  return null;
+}
+
+// PATCH /api/tasks/[id]/time/[entryId] - Correct a finished entry's times or note
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string; entryId: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id, entryId } = await params;
+    
+    // Validate IDs
+    const idValidation = TimeEntryIdSchema.safeParse({ id, entryId });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid task or time entry ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`✏️ Editing time entry ${entryId} of task ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = TimeEntrySchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const found = await findTaskTimeEntry(id, entryId, userId);
+    
+    if (!found) {
+      console.log(`❌ Time entry ${entryId} of task ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Time entry not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    const { access, entry } = found;
+    
+    const denied = checkEntryOwner(entry, access.role, userId);
+    if (denied) return denied;
+    
+    // A running timer has no end yet - stop it first
+    if (!entry.endedAt) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Stop the timer before editing this entry',
+        } as ApiResponse,
+        { status: 409 }
+      );
+    }
+    
+    entry.set(validationResult.data);
+    await entry.save();
+    await refreshTimeLogged(id);
+    await entry.populate(TIME_ENTRY_POPULATE);
+    
+    console.log(`✅ Time entry ${entryId} updated`);
+    
+    return NextResponse.json({
+      success: true,
+      data: entry,
+      message: 'Time entry updated successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error updating time entry:', error);
+    
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: error.message,
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update time entry',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tasks/[id]/time/[entryId] - Delete an entry (a running one is discarded)
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string; entryId: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id, entryId } = await params;
+    
+    // Validate IDs
+    const idValidation = TimeEntryIdSchema.safeParse({ id, entryId });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid task or time entry ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`🗑️ Deleting time entry ${entryId} of task ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const found = await findTaskTimeEntry(id, entryId, userId);
+    
+    if (!found) {
+      console.log(`❌ Time entry ${entryId} of task ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Time entry not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    const { access, entry } = found;
+    
+    const denied = checkEntryOwner(entry, access.role, userId);
+    if (denied) return denied;
+    
+    await entry.deleteOne();
+    await refreshTimeLogged(id);
+    
+    console.log(`✅ Time entry ${entryId} deleted`);
+    
+    return NextResponse.json({
+      success: true,
+      data: entry,
+      message: 'Time entry deleted successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error deleting time entry:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to delete time entry',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
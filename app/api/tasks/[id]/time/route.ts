@@ -0,0 +1,197 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import TimeEntry from '@/models/TimeEntry';
+import { ApiResponse } from '@/types';
+import { TaskIdSchema, TimeEntrySchema, formatZodError } from '@/lib/validations';
+import { MEMBER_FIELDS, findAccessibleTask } from '@/lib/projects';
+import { hasPermission, permissionDenied } from '@/lib/permissions';
+import { TIME_ENTRY_POPULATE, refreshTimeLogged } from '@/lib/timeTracking';
+
+// GET /api/tasks/[id]/time - The task's time entries, newest first, and its total
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    // Validate task ID
+    const idValidation = TaskIdSchema.safeParse({ id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid task ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`⏱️ Fetching time entries of task ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Find task and ensure the user is a member of its project
+    const access = await findAccessibleTask(id, userId);
+    
+    if (!access) {
+      console.log(`❌ Task ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Task not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    const entries = await TimeEntry.find({ taskId: id })
+      .sort({ startedAt: -1 })
+      .populate({ path: 'userId', select: MEMBER_FIELDS });
+    
+    console.log(`✅ Found ${entries.length} time entries on task ${id}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: { entries, timeLogged: access.task.timeLogged || 0 },
+      message: 'Time entries fetched successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error fetching time entries:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch time entries',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tasks/[id]/time - Log time spent without the timer
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    // Validate task ID
+    const idValidation = TaskIdSchema.safeParse({ id });
+    if (!idValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid task ID',
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    console.log(`⏱️ Logging time on task ${id}...`);
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = TimeEntrySchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Find task and ensure the user is a member of its project
+    const access = await findAccessibleTask(id, userId);
+    
+    if (!access) {
+      console.log(`❌ Task ${id} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Task not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    // Viewers can see the time but not log any
+    if (!hasPermission(access.role, 'time:log')) {
+      console.log(`🚫 ${access.role} may not log time on task ${id}`);
+      return NextResponse.json(permissionDenied(access.role, 'time:log'), { status: 403 });
+    }
+    
+    const entry = await TimeEntry.create({
+      ...validationResult.data,
+      taskId: id,
+      projectId: access.task.projectId,
+      userId,
+    });
+    await refreshTimeLogged(id);
+    await entry.populate(TIME_ENTRY_POPULATE);
+    
+    console.log(`✅ Logged ${entry.duration}s on task ${id}`);
+    
+    return NextResponse.json(
+      {
+        success: true,
+        data: entry,
+        message: 'Time logged successfully',
+      } as ApiResponse,
+      { status: 201 }
+    );
+    
+  } catch (error) {
+    console.error('❌ Error logging time:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to log time',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
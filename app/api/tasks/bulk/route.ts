@@ -0,0 +1,194 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import { ITaskDocument } from '@/models/Task';
+import { ActivityAction } from '@/models/Activity';
+import { ApiResponse, TaskStatus } from '@/types';
+import { BulkOperationInput, bulkTaskSchemaFor, formatZodError } from '@/lib/validations';
+import { getCategoryKeys } from '@/lib/categories';
+import { findOpenBlockers } from '@/lib/dependencies';
+import { TASK_POPULATE, findAccessibleTask, getActiveProject } from '@/lib/projects';
+import { canDeleteTask, hasPermission, permissionDenied } from '@/lib/permissions';
+import { recordActivity, snapshotTask } from '@/lib/activity';
+
+// Outcome for one of the selected tasks
+interface BulkItemResult {
+  id: string;
+  success: boolean;
+  error?: string;
+  task?: ITaskDocument; // The updated task; left out when it left the list (archived or deleted)
+}
+
+// Apply the operation to one task, with the same membership, role and blocker
+// checks as the single-task endpoints. Never throws - failures become results.
+async function applyToTask(id: string, userId: string, operation: BulkOperationInput): Promise<BulkItemResult> {
+  try {
+    const access = await findAccessibleTask(id, userId);
+    if (!access) {
+      return { id, success: false, error: 'Task not found' };
+    }
+    
+    const { task, project, role } = access;
+    
+    // Deleting moves the task to the trash, like DELETE /api/tasks/[id]
+    if (operation.action === 'delete') {
+      if (!canDeleteTask(role, task.createdBy.toString() === userId)) {
+        return {
+          id,
+          success: false,
+          error: permissionDenied(role, 'task:delete', 'Only admins can delete tasks created by someone else').error,
+        };
+      }
+      
+      task.set({ deletedAt: new Date(), deletedBy: userId });
+      await task.save();
+      await recordActivity({ task, actorId: userId, action: ActivityAction.DELETED });
+      return { id, success: true };
+    }
+    
+    if (!hasPermission(role, 'task:update')) {
+      return { id, success: false, error: permissionDenied(role, 'task:update').error };
+    }
+    
+    if (operation.action === 'archive') {
+      if (!task.archivedAt) {
+        task.archivedAt = new Date();
+        await task.save({ timestamps: false });
+        await recordActivity({ task, actorId: userId, action: ActivityAction.ARCHIVED });
+      }
+      return { id, success: true };
+    }
+    
+    const before = snapshotTask(task);
+    
+    switch (operation.action) {
+      case 'status': {
+        // A blocked task can't be started or completed while any of its blockers is open
+        const isStarting =
+          operation.status !== (task.status as string) &&
+          [TaskStatus.IN_PROGRESS, TaskStatus.COMPLETED].includes(operation.status);
+        if (isStarting) {
+          const blockerIds = task.blockedBy.map(blocker => blocker.toString());
+          const openBlockers = await findOpenBlockers(blockerIds, task.projectId.toString());
+          if (openBlockers.length > 0) {
+            const titles = openBlockers.map(blocker => `"${blocker.title}"`).join(', ');
+            return { id, success: false, error: `Blocked by open tasks: ${titles}` };
+          }
+        }
+        task.set({ status: operation.status });
+        break;
+      }
+      case 'priority':
+        task.set({ priority: operation.priority });
+        break;
+      case 'category':
+        // Each project has its own categories
+        if (!(await getCategoryKeys(project)).includes(operation.category)) {
+          return { id, success: false, error: "This category doesn't exist in the task's project" };
+        }
+        task.set({ category: operation.category });
+        break;
+      case 'dueDate':
+        task.set({ dueDate: operation.dueDate || null });
+        break;
+      case 'addTags':
+        task.set({ tags: Array.from(new Set([...(task.tags || []), ...operation.tags])) });
+        break;
+      case 'removeTags':
+        task.set({ tags: (task.tags || []).filter(tag => !operation.tags.includes(tag)) });
+        break;
+    }
+    
+    // save() runs the model validation and the pre('save') hook, so completing a
+    // recurring task still generates its next occurrence
+    await task.save();
+    await recordActivity({ task, actorId: userId, action: ActivityAction.UPDATED, before });
+    await task.populate(TASK_POPULATE);
+    
+    return { id, success: true, task };
+    
+  } catch (error) {
+    console.error(`❌ Bulk operation failed for task ${id}:`, error);
+    
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return { id, success: false, error: error.message };
+    }
+    return { id, success: false, error: 'Failed to update task' };
+  }
+}
+
+// POST /api/tasks/bulk - Apply one operation to many tasks. Each task is checked
+// and changed on its own, and the response reports every task's outcome.
+export async function POST(request: Request) {
+  try {
+    console.log('📦 Running bulk task operation...');
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Validate with Zod (a new category must be one of the current project's categories)
+    const categoryKeys = await getCategoryKeys(await getActiveProject(request, userId));
+    const validationResult = bulkTaskSchemaFor(categoryKeys).safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { taskIds, operation } = validationResult.data;
+    
+    // One at a time, so blocker checks see the tasks completed earlier in the batch
+    const results: BulkItemResult[] = [];
+    for (const id of taskIds) {
+      results.push(await applyToTask(id, userId, operation));
+    }
+    
+    const succeeded = results.filter(result => result.success).length;
+    const failed = results.length - succeeded;
+    
+    console.log(`✅ Bulk ${operation.action}: ${succeeded} succeeded, ${failed} failed`);
+    
+    return NextResponse.json({
+      success: true,
+      data: { results, succeeded, failed },
+      message: failed > 0
+        ? `${succeeded} of ${results.length} tasks updated`
+        : `${succeeded} task${succeeded !== 1 ? 's' : ''} updated`,
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error running bulk operation:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to run bulk operation',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,166 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import Task, { EstimateUnit, TaskStatus } from '@/models/Task';
+import { ApiResponse, EstimateAccuracy, EstimateReport, EstimateUnitReport } from '@/types';
+import { EstimateReportQuerySchema, formatZodError } from '@/lib/validations';
+import { getActiveProject } from '@/lib/projects';
+
+// One group of the $facet stage below
+interface EstimateGroup {
+  _id: { unit: EstimateUnit; key?: string };
+  tasks: number;
+  estimated: number;
+  actualHours: number;
+  trackedTasks: number;
+}
+
+interface EstimateFacets {
+  overall: EstimateGroup[];
+  byCategory: EstimateGroup[];
+  byPriority: EstimateGroup[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function toAccuracy(group?: EstimateGroup): EstimateAccuracy {
+  if (!group) return { tasks: 0, estimated: 0, actualHours: 0, trackedTasks: 0, ratio: null };
+  
+  return {
+    tasks: group.tasks,
+    estimated: round(group.estimated),
+    actualHours: round(group.actualHours),
+    trackedTasks: group.trackedTasks,
+    ratio: group.estimated > 0 ? round(group.actualHours / group.estimated) : null,
+  };
+}
+
+// Pick out one unit's groups, keyed by category or priority
+function toAccuracyRecord(groups: EstimateGroup[], unit: EstimateUnit) {
+  return Object.fromEntries(
+    groups
+      .filter(group => group._id.unit === unit)
+      .map(group => [group._id.key, toAccuracy(group)])
+  );
+}
+
+// GET /api/tasks/estimates - Estimates compared with actual time for recently completed tasks
+export async function GET(request: Request) {
+  try {
+    console.log('📐 Computing estimate report...');
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Validate query parameters with Zod
+    const url = new URL(request.url);
+    const queryValidation = EstimateReportQuerySchema.safeParse({
+      days: url.searchParams.get('days') || undefined,
+    });
+    
+    if (!queryValidation.success) {
+      console.log('❌ Query validation failed:', queryValidation.error.errors);
+      const formattedErrors = formatZodError(queryValidation.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid query parameters',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { days } = queryValidation.data;
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const project = await getActiveProject(request, userId);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    
+    // Archived tasks count too - most completed tasks end up there. Logged time is
+    // the better measure of effort, so elapsed time is only the fallback.
+    const groupBy = (key?: string) => ({
+      $group: {
+        _id: key ? { unit: '$estimate.unit', key } : { unit: '$estimate.unit' },
+        tasks: { $sum: 1 },
+        estimated: { $sum: '$estimate.value' },
+        actualHours: { $sum: '$actualHours' },
+        trackedTasks: { $sum: { $cond: ['$tracked', 1, 0] } },
+      },
+    });
+    
+    const [facets]: EstimateFacets[] = await Task.aggregate([
+      {
+        $match: {
+          projectId: new mongoose.Types.ObjectId(project._id),
+          status: TaskStatus.COMPLETED,
+          completedAt: { $gte: since },
+          estimate: { $ne: null },
+        },
+      },
+      {
+        $addFields: {
+          tracked: { $gt: ['$timeLogged', 0] },
+          actualHours: {
+            $cond: [
+              { $gt: ['$timeLogged', 0] },
+              { $divide: ['$timeLogged', 3600] },
+              { $divide: [{ $subtract: ['$completedAt', '$createdAt'] }, 3600 * 1000] },
+            ],
+          },
+        },
+      },
+      {
+        $facet: {
+          overall: [groupBy()],
+          byCategory: [groupBy('$category')],
+          byPriority: [groupBy('$priority')],
+        },
+      },
+    ]);
+    
+    const unitReport = (unit: EstimateUnit): EstimateUnitReport => ({
+      overall: toAccuracy(facets.overall.find(group => group._id.unit === unit)),
+      byCategory: toAccuracyRecord(facets.byCategory, unit),
+      byPriority: toAccuracyRecord(facets.byPriority, unit),
+    });
+    
+    const report: EstimateReport = {
+      days,
+      hours: unitReport(EstimateUnit.HOURS),
+      points: unitReport(EstimateUnit.POINTS),
+    };
+    
+    console.log(`✅ Estimate report computed for project ${project._id}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: report,
+      message: 'Estimate report fetched successfully',
+    } as ApiResponse<EstimateReport>);
+    
+  } catch (error) {
+    console.error('❌ Error computing estimate report:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch estimate report',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -1,50 +1,21 @@
 import { NextResponse } from 'next/server';
-import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
 import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
 import Task from '@/models/Task';
+import { ActivityAction } from '@/models/Activity';
 import { ApiResponse, CreateTaskData } from '@/types';
-import { CreateTaskSchema, TaskQuerySchema, formatZodError } from '@/lib/validations';
+import { createTaskSchemaFor, TaskQuerySchema, formatZodError } from '@/lib/validations';
+import { getCategoryKeys } from '@/lib/categories';
+import { findInvalidBlockers } from '@/lib/dependencies';
+import { DEFAULT_SORT_ORDER, decodeCursor, paginateTasks } from '@/lib/pagination';
+import { TASK_POPULATE, findNonMembers, getActiveProject, getMemberRole } from '@/lib/projects';
+import { canAssignTask, hasPermission, permissionDenied } from '@/lib/permissions';
+import { recordActivity } from '@/lib/activity';
+import { purgeExpiredTrash } from '@/lib/trash';
+import { archiveCompletedTasks } from '@/lib/archive';
 
-// Interface for JWT payload
-interface JWTPayload {
-  userId: string;
-  email: string;
-  iat: number;
-  exp: number;
-}
-
-// Helper function to get user from token
-async function getUserFromToken(request: Request): Promise<string | null> {
-  try {
-    // Get token from Authorization header or cookies
-    const authHeader = request.headers.get('authorization');
-    const cookieHeader = request.headers.get('cookie');
-    
-    let token: string | null = null;
-    
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      token = authHeader.substring(7);
-    } else if (cookieHeader) {
-      const cookies = cookieHeader.split(';');
-      const authCookie = cookies.find(cookie => cookie.trim().startsWith('auth-token='));
-      if (authCookie) {
-        token = authCookie.split('=')[1];
-      }
-    }
-    
-    if (!token || !process.env.NEXTAUTH_SECRET) {
-      return null;
-    }
-    
-    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET) as JWTPayload;
-    return decoded.userId;
-  } catch (error) {
-    console.error('Token verification error:', error);
-    return null;
-  }
-}
-
-// GET /api/tasks - Get all tasks for the current user
+// GET /api/tasks - Get a page of tasks in the current project
 export async function GET(request: Request) {
   try {
     console.log('📝 Fetching tasks...');
@@ -64,12 +35,31 @@ export async function GET(request: Request) {
     // Connect to database
     await connectMongoDB();
     
+    // Tasks past their time in the trash are deleted for good, and long-completed
+    // ones are archived (each at most hourly)
+    await purgeExpiredTrash();
+    await archiveCompletedTasks();
+    
     // Get URL parameters for filtering
     const url = new URL(request.url);
     const queryParams = {
       status: url.searchParams.get('status') || undefined,
       priority: url.searchParams.get('priority') || undefined,
       category: url.searchParams.get('category') || undefined,
+      tags: url.searchParams.get('tags') || undefined,
+      tagMode: url.searchParams.get('tagMode') || undefined,
+      q: url.searchParams.get('q') || undefined,
+      dueFrom: url.searchParams.get('dueFrom') || undefined,
+      dueTo: url.searchParams.get('dueTo') || undefined,
+      assignee: url.searchParams.get('assignee') || undefined,
+      archived: url.searchParams.get('archived') || undefined,
+      estimateUnit: url.searchParams.get('estimateUnit') || undefined,
+      estimateMin: url.searchParams.get('estimateMin') || undefined,
+      estimateMax: url.searchParams.get('estimateMax') || undefined,
+      sort: url.searchParams.get('sort') || undefined,
+      order: url.searchParams.get('order') || undefined,
+      limit: url.searchParams.get('limit') || undefined,
+      cursor: url.searchParams.get('cursor') || undefined,
     };
     
     // Validate query parameters with Zod
@@ -89,22 +79,84 @@ export async function GET(request: Request) {
       );
     }
     
-    // Build filter query
-    const filter: any = { userId };
+    // Tasks of the project picked in the switcher (or ?projectId=)
+    const project = await getActiveProject(request, userId);
+    
+    // Build filter query (the ID is cast by hand because aggregation doesn't cast)
+    const filter: any = { projectId: new mongoose.Types.ObjectId(project._id) };
     const validatedParams = queryValidation.data;
     
     if (validatedParams.status) filter.status = validatedParams.status;
     if (validatedParams.priority) filter.priority = validatedParams.priority;
     if (validatedParams.category) filter.category = validatedParams.category;
+    if (validatedParams.tags) {
+      filter.tags = validatedParams.tagMode === 'all'
+        ? { $all: validatedParams.tags }
+        : { $in: validatedParams.tags };
+    }
+    if (validatedParams.q) filter.$text = { $search: validatedParams.q };
+    if (validatedParams.dueFrom || validatedParams.dueTo) {
+      filter.dueDate = {};
+      if (validatedParams.dueFrom) filter.dueDate.$gte = validatedParams.dueFrom;
+      if (validatedParams.dueTo) filter.dueDate.$lte = validatedParams.dueTo;
+    }
+    if (validatedParams.assignee === 'unassigned') {
+      filter.assignees = { $size: 0 };
+    } else if (validatedParams.assignee) {
+      const assigneeId = validatedParams.assignee === 'me' ? userId : validatedParams.assignee;
+      filter.assignees = new mongoose.Types.ObjectId(assigneeId);
+    }
+    if (validatedParams.estimateUnit === 'none') {
+      filter.estimate = null;
+    } else if (validatedParams.estimateUnit) {
+      filter['estimate.unit'] = validatedParams.estimateUnit;
+    }
+    if (validatedParams.estimateMin !== undefined || validatedParams.estimateMax !== undefined) {
+      filter['estimate.value'] = {};
+      if (validatedParams.estimateMin !== undefined) filter['estimate.value'].$gte = validatedParams.estimateMin;
+      if (validatedParams.estimateMax !== undefined) filter['estimate.value'].$lte = validatedParams.estimateMax;
+    }
+    // Archived tasks only show up when asking for the archive
+    filter.archivedAt = validatedParams.archived === 'true' ? { $ne: null } : null;
     
-    // Fetch tasks with filters
-    const tasks = await Task.find(filter).sort({ createdAt: -1 });
+    // Resume after the previous page, if the client sent a cursor
+    const sort = validatedParams.sort || (validatedParams.q ? 'relevance' : 'createdAt');
+    const order = validatedParams.order || DEFAULT_SORT_ORDER[sort];
+    const cursor = validatedParams.cursor
+      ? decodeCursor(validatedParams.cursor, sort, order)
+      : undefined;
     
-    console.log(`✅ Found ${tasks.length} tasks for user ${userId}`);
+    if (cursor === null) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid query parameters',
+          fieldErrors: { cursor: 'Cursor is invalid or was created for a different sort order' }
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    // Fetch one page of tasks with filters
+    const { tasks, total, nextCursor } = await paginateTasks(filter, {
+      sort,
+      order,
+      limit: validatedParams.limit,
+      cursor,
+    });
+    await Task.populate(tasks, TASK_POPULATE);
+    
+    console.log(`✅ Found ${tasks.length} of ${total} tasks in project ${project._id}`);
     
     return NextResponse.json({
       success: true,
       data: tasks,
+      pagination: {
+        total,
+        limit: validatedParams.limit,
+        nextCursor,
+        hasMore: nextCursor !== null,
+      },
       message: 'Tasks fetched successfully',
     } as ApiResponse);
     
@@ -121,7 +173,7 @@ export async function GET(request: Request) {
   }
 }
 
-// POST /api/tasks - Create a new task
+// POST /api/tasks - Create a new task in the current project
 export async function POST(request: Request) {
   try {
     console.log('➕ Creating new task...');
@@ -145,11 +197,17 @@ export async function POST(request: Request) {
       title: body.title, 
       priority: body.priority, 
       category: body.category, 
-      userId 
+      createdBy: userId 
     });
     
-    // Validate with Zod
-    const validationResult = CreateTaskSchema.safeParse(body);
+    // Connect to database
+    await connectMongoDB();
+    
+    const project = await getActiveProject(request, userId);
+    
+    // Validate with Zod (category must be one of the project's categories)
+    const categoryKeys = await getCategoryKeys(project);
+    const validationResult = createTaskSchemaFor(categoryKeys).safeParse(body);
     
     if (!validationResult.success) {
       console.log('❌ Validation failed:', validationResult.error.errors);
@@ -165,10 +223,49 @@ export async function POST(request: Request) {
       );
     }
     
-    const { title, description, priority, category, dueDate } = validationResult.data;
+    const { title, description, priority, category, dueDate, recurrence, estimate, reminders, tags, blockedBy, assignees } = validationResult.data;
     
-    // Connect to database
-    await connectMongoDB();
+    // Viewers can't add tasks
+    const role = getMemberRole(project, userId);
+    if (!hasPermission(role, 'task:create')) {
+      console.log(`🚫 ${role} may not create tasks in project ${project._id}`);
+      return NextResponse.json(permissionDenied(role!, 'task:create'), { status: 403 });
+    }
+    
+    // Blockers must be existing tasks of the same project
+    if (blockedBy) {
+      const invalidBlockers = await findInvalidBlockers(blockedBy, project._id);
+      if (invalidBlockers.length > 0) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Invalid blockers',
+            details: `Unknown task IDs: ${invalidBlockers.join(', ')}`,
+          } as ApiResponse,
+          { status: 400 }
+        );
+      }
+    }
+    
+    // Only project members can be assigned - the creator picks them, if their role lets them assign
+    if (assignees) {
+      if (!canAssignTask(role, true)) {
+        console.log(`🚫 ${role} may not assign tasks in project ${project._id}`);
+        return NextResponse.json(permissionDenied(role!, 'task:assign'), { status: 403 });
+      }
+      
+      const nonMembers = findNonMembers(project, assignees);
+      if (nonMembers.length > 0) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Invalid assignees',
+            fieldErrors: { assignees: 'Assignees must be members of the project' },
+          } as ApiResponse,
+          { status: 400 }
+        );
+      }
+    }
     
     // Create new task
     const newTask = new Task({
@@ -177,10 +274,19 @@ export async function POST(request: Request) {
       priority,
       category,
       dueDate: dueDate ? new Date(dueDate) : undefined,
-      userId,
+      recurrence: recurrence || undefined,
+      estimate: estimate || undefined,
+      reminders: reminders || [],
+      tags: tags || [],
+      blockedBy: blockedBy || [],
+      createdBy: userId,
+      assignees: assignees || [],
+      projectId: project._id,
     });
     
     const savedTask = await newTask.save();
+    await recordActivity({ task: savedTask, actorId: userId, action: ActivityAction.CREATED });
+    await savedTask.populate(TASK_POPULATE);
     console.log('✅ Task created:', savedTask._id);
     
     return NextResponse.json({
@@ -0,0 +1,149 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import Task, { TaskPriority, TaskStatus } from '@/models/Task';
+import { ApiResponse, DashboardStats, DailyCount } from '@/types';
+import { StatsQuerySchema, formatZodError } from '@/lib/validations';
+import { getActiveProject } from '@/lib/projects';
+import { archiveCompletedTasks } from '@/lib/archive';
+import { getDayKeys, getRangeStart } from '@/lib/dates';
+
+// Result of the $facet stage
+interface StatsFacets {
+  byStatus: { _id: TaskStatus; count: number }[];
+  byCategory: { _id: string; count: number }[];
+  byPriority: { _id: TaskPriority; count: number }[];
+  overdueByPriority: { _id: TaskPriority; count: number }[];
+  completedPerDay: { _id: string; count: number }[];
+}
+
+// Turn grouped counts into a record with a zero for every expected key
+function toCountRecord<K extends string>(groups: { _id: K; count: number }[], keys: K[] = []) {
+  const record = Object.fromEntries(keys.map(key => [key, 0])) as Record<K, number>;
+  groups.forEach(group => {
+    record[group._id] = group.count;
+  });
+  return record;
+}
+
+// GET /api/tasks/stats - Dashboard statistics for the current user
+export async function GET(request: Request) {
+  try {
+    console.log('📊 Computing task statistics...');
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Validate query parameters with Zod
+    const url = new URL(request.url);
+    const queryValidation = StatsQuerySchema.safeParse({
+      days: url.searchParams.get('days') || undefined,
+      timezone: url.searchParams.get('timezone') || undefined,
+    });
+    
+    if (!queryValidation.success) {
+      console.log('❌ Query validation failed:', queryValidation.error.errors);
+      const formattedErrors = formatZodError(queryValidation.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid query parameters',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { days, timezone } = queryValidation.data;
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const now = new Date();
+    const dayKeys = getDayKeys(days, timezone);
+    const trendStart = getRangeStart(dayKeys); // Days outside the range are dropped below
+    
+    const project = await getActiveProject(request, userId);
+    
+    // Long-completed tasks are archived before counting (at most hourly)
+    await archiveCompletedTasks();
+    
+    // One pass over the project's tasks computes every breakdown. Archived tasks
+    // only count towards the completion trend.
+    const active = { $match: { archivedAt: null } };
+    const [facets]: StatsFacets[] = await Task.aggregate([
+      { $match: { projectId: new mongoose.Types.ObjectId(project._id) } },
+      {
+        $facet: {
+          byStatus: [active, { $group: { _id: '$status', count: { $sum: 1 } } }],
+          byCategory: [active, { $group: { _id: '$category', count: { $sum: 1 } } }],
+          byPriority: [active, { $group: { _id: '$priority', count: { $sum: 1 } } }],
+          overdueByPriority: [
+            { $match: { archivedAt: null, dueDate: { $lt: now }, status: { $ne: TaskStatus.COMPLETED } } },
+            { $group: { _id: '$priority', count: { $sum: 1 } } },
+          ],
+          completedPerDay: [
+            { $match: { status: TaskStatus.COMPLETED, completedAt: { $gte: trendStart } } },
+            {
+              $group: {
+                _id: { $dateToString: { format: '%Y-%m-%d', date: '$completedAt', timezone } },
+                count: { $sum: 1 },
+              },
+            },
+          ],
+        },
+      },
+    ]);
+    
+    const byStatus = toCountRecord(facets.byStatus, Object.values(TaskStatus));
+    const priorities = Object.values(TaskPriority);
+    const overdueByPriority = toCountRecord(facets.overdueByPriority, priorities);
+    const completedByDay = toCountRecord(facets.completedPerDay);
+    
+    const totalTasks = Object.values(byStatus).reduce((sum, count) => sum + count, 0);
+    const completedTasks = byStatus[TaskStatus.COMPLETED];
+    
+    const stats: DashboardStats = {
+      totalTasks,
+      completedTasks,
+      inProgressTasks: byStatus[TaskStatus.IN_PROGRESS],
+      pendingTasks: byStatus[TaskStatus.PENDING],
+      overdueTasks: Object.values(overdueByPriority).reduce((sum, count) => sum + count, 0),
+      completionRate: totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 1000) / 10 : 0,
+      tasksByCategory: toCountRecord(facets.byCategory),
+      tasksByPriority: toCountRecord(facets.byPriority, priorities),
+      overdueByPriority,
+      completedPerDay: dayKeys.map((date): DailyCount => ({ date, count: completedByDay[date] || 0 })),
+    };
+    
+    console.log(`✅ Statistics computed for project ${project._id}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: stats,
+      message: 'Statistics fetched successfully',
+    } as ApiResponse<DashboardStats>);
+    
+  } catch (error) {
+    console.error('❌ Error computing statistics:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch statistics',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import Task from '@/models/Task';
+import { ActivityAction } from '@/models/Activity';
+import { ApiResponse, TagCount } from '@/types';
+import { RenameTagSchema, formatZodError } from '@/lib/validations';
+import { getActiveProject, getMemberRole } from '@/lib/projects';
+import { hasPermission, permissionDenied } from '@/lib/permissions';
+import { recordActivity, snapshotTask } from '@/lib/activity';
+
+// GET /api/tasks/tags - List the user's tags with usage counts (for autocomplete)
+export async function GET(request: Request) {
+  try {
+    console.log('🏷️ Fetching tags...');
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const project = await getActiveProject(request, userId);
+    
+    // Count tasks per tag in the project (aggregation does not cast, so convert the ID)
+    const tags: TagCount[] = await Task.aggregate([
+      { $match: { projectId: new mongoose.Types.ObjectId(project._id) } },
+      { $unwind: '$tags' },
+      { $group: { _id: '$tags', count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $project: { _id: 0, name: '$_id', count: 1 } },
+    ]);
+    
+    console.log(`✅ Found ${tags.length} tags in project ${project._id}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: tags,
+      message: 'Tags fetched successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error fetching tags:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch tags',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/tasks/tags - Rename a tag on every task; renaming onto an existing tag merges them
+export async function PATCH(request: Request) {
+  try {
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = RenameTagSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { from, to } = validationResult.data;
+    console.log(`🏷️ Renaming tag "${from}" to "${to}"...`);
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const project = await getActiveProject(request, userId);
+    
+    // Renaming touches other people's tasks, so it needs the same right as editing them
+    const role = getMemberRole(project, userId);
+    if (!hasPermission(role, 'task:update')) {
+      console.log(`🚫 ${role} may not rename tags in project ${project._id}`);
+      return NextResponse.json(permissionDenied(role!, 'task:update'), { status: 403 });
+    }
+    
+    // Remember the affected tasks' tags for their history (plus who to notify)
+    const affected = await Task.find({ projectId: project._id, tags: from }).select('title tags projectId createdBy assignees');
+    const before = new Map(affected.map(task => [task._id.toString(), snapshotTask(task)]));
+    
+    // Tasks that already carry the target tag just drop the old one (merge)...
+    const merged = await Task.updateMany(
+      { projectId: project._id, tags: { $all: [from, to] } },
+      { $pull: { tags: from } }
+    );
+    
+    // ...the rest get the old tag replaced in place (rename)
+    const renamed = await Task.updateMany(
+      { projectId: project._id, tags: from },
+      { $set: { 'tags.$': to } }
+    );
+    
+    const updatedCount = merged.modifiedCount + renamed.modifiedCount;
+    
+    const updatedTasks = await Task.find({ _id: { $in: Array.from(before.keys()) } }).select('title tags projectId createdBy assignees');
+    for (const task of updatedTasks) {
+      await recordActivity({ task, actorId: userId, action: ActivityAction.UPDATED, before: before.get(task._id.toString()) });
+    }
+    console.log(`✅ Tag "${from}" renamed to "${to}" on ${updatedCount} tasks`);
+    
+    return NextResponse.json({
+      success: true,
+      data: { from, to, updatedCount },
+      message: `Tag renamed on ${updatedCount} task${updatedCount !== 1 ? 's' : ''}`,
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error renaming tag:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to rename tag',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
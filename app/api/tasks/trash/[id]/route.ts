@@ -0,0 +1,156 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import { ActivityAction } from '@/models/Activity';
+import { ApiResponse } from '@/types';
+import { TaskIdSchema } from '@/lib/validations';
+import { TASK_POPULATE, findAccessibleTask } from '@/lib/projects';
+import { canDeleteTask, permissionDenied } from '@/lib/permissions';
+import { recordActivity } from '@/lib/activity';
+import { deleteTasksPermanently } from '@/lib/trash';
+
+// Find a trashed task the user may restore or delete - whoever could delete
+// it in the first place. Returns the task or the error response to send.
+async function findTrashedTask(request: Request, id: string) {
+  // Validate task ID
+  const idValidation = TaskIdSchema.safeParse({ id });
+  if (!idValidation.success) {
+    return {
+      error: NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid task ID',
+        } as ApiResponse,
+        { status: 400 }
+      ),
+    };
+  }
+  
+  // Get user ID from token
+  const userId = await getUserFromToken(request);
+  if (!userId) {
+    return {
+      error: NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      ),
+    };
+  }
+  
+  // Connect to database
+  await connectMongoDB();
+  
+  // Find the task in the trash (ensure the user is a member of its project)
+  const access = await findAccessibleTask(id, userId, true);
+  
+  if (!access) {
+    console.log(`❌ Trashed task ${id} not found or unauthorized`);
+    return {
+      error: NextResponse.json(
+        {
+          success: false,
+          error: 'Task not found in trash',
+        } as ApiResponse,
+        { status: 404 }
+      ),
+    };
+  }
+  
+  const { task, role } = access;
+  
+  if (!canDeleteTask(role, task.createdBy.toString() === userId)) {
+    console.log(`🚫 ${role} may not manage trashed task ${id}`);
+    return {
+      error: NextResponse.json(
+        permissionDenied(role, 'task:delete', 'Only admins can restore or delete tasks created by someone else'),
+        { status: 403 }
+      ),
+    };
+  }
+  
+  return { task, userId };
+}
+
+// POST /api/tasks/trash/[id] - Restore a task from the trash
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    console.log(`♻️ Restoring task ${id}...`);
+    
+    const found = await findTrashedTask(request, id);
+    if ('error' in found) return found.error;
+    const { task, userId } = found;
+    
+    task.set({ deletedAt: null, deletedBy: null });
+    await task.save();
+    await recordActivity({ task, actorId: userId, action: ActivityAction.RESTORED });
+    
+    await task.populate(TASK_POPULATE);
+    
+    console.log(`✅ Task ${id} restored`);
+    
+    return NextResponse.json({
+      success: true,
+      data: task,
+      message: 'Task restored successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error restoring task:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to restore task',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tasks/trash/[id] - Delete a trashed task for good
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Await params in newer Next.js versions
+    const { id } = await params;
+    
+    console.log(`🗑️ Permanently deleting task ${id}...`);
+    
+    const found = await findTrashedTask(request, id);
+    if ('error' in found) return found.error;
+    const { task } = found;
+    
+    // Takes its comments and history with it
+    await deleteTasksPermanently([id]);
+    
+    console.log(`✅ Task ${id} deleted permanently (with ${task.subtasks?.length || 0} subtasks)`);
+    
+    return NextResponse.json({
+      success: true,
+      data: task,
+      message: 'Task deleted permanently',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error deleting task permanently:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to delete task',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
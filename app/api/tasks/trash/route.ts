@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import Task from '@/models/Task';
+import { ApiResponse } from '@/types';
+import { MEMBER_FIELDS, TASK_POPULATE, getActiveProject } from '@/lib/projects';
+import { TRASH_RETENTION_DAYS, purgeExpiredTrash } from '@/lib/trash';
+
+// GET /api/tasks/trash - Trashed tasks of the active project, most recently deleted first
+export async function GET(request: Request) {
+  try {
+    console.log('🗑️ Fetching trash...');
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Drop whatever has been in the trash too long before listing it
+    await purgeExpiredTrash();
+    
+    const project = await getActiveProject(request, userId);
+    
+    const tasks = await Task.find({ projectId: project._id, deletedAt: { $ne: null } })
+      .sort({ deletedAt: -1 })
+      .populate([...TASK_POPULATE, { path: 'deletedBy', select: MEMBER_FIELDS }]);
+    
+    console.log(`✅ Found ${tasks.length} trashed tasks in project ${project._id}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: { tasks, retentionDays: TRASH_RETENTION_DAYS },
+      message: 'Trash fetched successfully',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error fetching trash:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch trash',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
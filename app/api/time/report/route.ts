@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import Task from '@/models/Task';
+import TimeEntry from '@/models/TimeEntry';
+import { ApiResponse, DailyTime, TimeReport } from '@/types';
+import { TimeReportQuerySchema, formatZodError } from '@/lib/validations';
+import { getActiveProject } from '@/lib/projects';
+import { getDayKeys, getRangeStart } from '@/lib/dates';
+
+// Result of the grouping stage: seconds per day and category
+interface TimeGroup {
+  _id: { date: string; category: string };
+  seconds: number;
+}
+
+// GET /api/time/report - Time logged in the active project per day and category
+export async function GET(request: Request) {
+  try {
+    console.log('⏱️ Computing time report...');
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Validate query parameters with Zod
+    const url = new URL(request.url);
+    const queryValidation = TimeReportQuerySchema.safeParse({
+      days: url.searchParams.get('days') || undefined,
+      timezone: url.searchParams.get('timezone') || undefined,
+      scope: url.searchParams.get('scope') || undefined,
+    });
+    
+    if (!queryValidation.success) {
+      console.log('❌ Query validation failed:', queryValidation.error.errors);
+      const formattedErrors = formatZodError(queryValidation.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid query parameters',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { days, timezone, scope } = queryValidation.data;
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const dayKeys = getDayKeys(days, timezone);
+    const project = await getActiveProject(request, userId);
+    
+    // Finished entries count on the day they started; a running timer only
+    // counts once it's stopped
+    const match: Record<string, unknown> = {
+      projectId: new mongoose.Types.ObjectId(project._id),
+      startedAt: { $gte: getRangeStart(dayKeys) },
+      endedAt: { $ne: null },
+    };
+    if (scope === 'mine') {
+      match.userId = new mongoose.Types.ObjectId(userId);
+    }
+    
+    const groups: TimeGroup[] = await TimeEntry.aggregate([
+      { $match: match },
+      { $lookup: { from: Task.collection.name, localField: 'taskId', foreignField: '_id', as: 'task' } },
+      { $unwind: '$task' },
+      {
+        $group: {
+          _id: {
+            date: { $dateToString: { format: '%Y-%m-%d', date: '$startedAt', timezone } },
+            category: '$task.category',
+          },
+          seconds: { $sum: '$duration' },
+        },
+      },
+    ]);
+    
+    const byDay = dayKeys.map((date): DailyTime => ({ date, seconds: 0, byCategory: {} }));
+    const dayIndex = new Map(dayKeys.map((date, index) => [date, index]));
+    const byCategory: Record<string, number> = {};
+    
+    groups.forEach(({ _id: { date, category }, seconds }) => {
+      const index = dayIndex.get(date);
+      if (index === undefined) return; // Before the first day of the range
+      
+      byDay[index].seconds += seconds;
+      byDay[index].byCategory[category] = seconds;
+      byCategory[category] = (byCategory[category] || 0) + seconds;
+    });
+    
+    const report: TimeReport = {
+      totalSeconds: byDay.reduce((sum, day) => sum + day.seconds, 0),
+      byCategory,
+      byDay,
+    };
+    
+    console.log(`✅ Time report computed for project ${project._id}`);
+    
+    return NextResponse.json({
+      success: true,
+      data: report,
+      message: 'Time report fetched successfully',
+    } as ApiResponse<TimeReport>);
+    
+  } catch (error) {
+    console.error('❌ Error computing time report:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch time report',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
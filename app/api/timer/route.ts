@@ -0,0 +1,151 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import { ApiResponse } from '@/types';
+import { StartTimerSchema, formatZodError } from '@/lib/validations';
+import { findAccessibleTask } from '@/lib/projects';
+import { hasPermission, permissionDenied } from '@/lib/permissions';
+import { TIME_ENTRY_POPULATE, findRunningTimer, startTimer } from '@/lib/timeTracking';
+
+// GET /api/timer - The current user's running timer, or null
+export async function GET(request: Request) {
+  try {
+    console.log('⏱️ Fetching running timer...');
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const running = await findRunningTimer(userId).populate(TIME_ENTRY_POPULATE);
+    
+    return NextResponse.json({
+      success: true,
+      data: running,
+      message: running ? 'Timer is running' : 'No timer is running',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error fetching timer:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch timer',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/timer - Start a timer on a task. A timer running on another task is
+// stopped first, since only one timer per user runs at a time.
+export async function POST(request: Request) {
+  try {
+    console.log('⏱️ Starting timer...');
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Parse request body
+    const body = await request.json();
+    
+    // Validate with Zod
+    const validationResult = StartTimerSchema.safeParse(body);
+    
+    if (!validationResult.success) {
+      console.log('❌ Validation failed:', validationResult.error.errors);
+      const formattedErrors = formatZodError(validationResult.error);
+      
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          fieldErrors: formattedErrors
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
+    
+    const { taskId, note } = validationResult.data;
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    // Find task and ensure the user is a member of its project
+    const access = await findAccessibleTask(taskId, userId);
+    
+    if (!access) {
+      console.log(`❌ Task ${taskId} not found or unauthorized`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Task not found',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    // Viewers can see the time but not log any
+    if (!hasPermission(access.role, 'time:log')) {
+      console.log(`🚫 ${access.role} may not log time on task ${taskId}`);
+      return NextResponse.json(permissionDenied(access.role, 'time:log'), { status: 403 });
+    }
+    
+    const { running, stopped } = await startTimer(access.task, userId, note);
+    await running.populate(TIME_ENTRY_POPULATE);
+    await stopped?.populate(TIME_ENTRY_POPULATE);
+    
+    console.log(`✅ Timer started on task ${taskId}${stopped ? ' (stopped the previous timer)' : ''}`);
+    
+    return NextResponse.json(
+      {
+        success: true,
+        data: { running, stopped },
+        message: 'Timer started',
+      } as ApiResponse,
+      { status: 201 }
+    );
+    
+  } catch (error) {
+    console.error('❌ Error starting timer:', error);
+    
+    // Another request started a timer at the same moment
+    if (error instanceof Error && 'code' in error && error.code === 11000) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'A timer is already running',
+        } as ApiResponse,
+        { status: 409 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to start timer',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import connectMongoDB from '@/lib/mongodb';
+import { getUserFromToken } from '@/lib/auth';
+import { ApiResponse } from '@/types';
+import { TIME_ENTRY_POPULATE, stopRunningTimer } from '@/lib/timeTracking';
+
+// POST /api/timer/stop - Stop the running timer and log its time on the task
+export async function POST(request: Request) {
+  try {
+    console.log('⏱️ Stopping timer...');
+    
+    // Get user ID from token
+    const userId = await getUserFromToken(request);
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Authentication required',
+        } as ApiResponse,
+        { status: 401 }
+      );
+    }
+    
+    // Connect to database
+    await connectMongoDB();
+    
+    const stopped = await stopRunningTimer(userId);
+    
+    if (!stopped) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'No timer is running',
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+    
+    // The populated task carries its new total
+    await stopped.populate(TIME_ENTRY_POPULATE);
+    
+    console.log(`✅ Timer stopped after ${stopped.duration}s`);
+    
+    return NextResponse.json({
+      success: true,
+      data: stopped,
+      message: 'Timer stopped',
+    } as ApiResponse);
+    
+  } catch (error) {
+    console.error('❌ Error stopping timer:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to stop timer',
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
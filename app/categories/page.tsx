@@ -1,20 +1,351 @@
 'use client';
 
+import { useState } from 'react';
+import Link from 'next/link';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import DashboardLayout from '@/components/DashboardLayout';
+import { useCategories } from '@/hooks/useCategories';
+import { useProjects } from '@/contexts/ProjectContext';
+import { ApiResponse, ICategory, CreateCategoryData } from '@/types';
+
+const EMPTY_FORM: CreateCategoryData = { name: '', color: '#3b82f6', icon: '📁' };
 
 export default function CategoriesPage() {
+  const { categories, isLoading, refreshCategories } = useCategories();
+  const { can } = useProjects();
+
+  // Categories belong to the project; members and viewers only see them
+  const canManage = can('category:manage');
+
+  // Form state for creating a category
+  const [newCategory, setNewCategory] = useState<CreateCategoryData>(EMPTY_FORM);
+
+  // Inline edit state
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editData, setEditData] = useState<CreateCategoryData>(EMPTY_FORM);
+
+  // Delete state - categories in use need a category to move their tasks to
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [reassignTo, setReassignTo] = useState('');
+
+  // UI state
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Send a change and reload the list on success
+  const mutate = async (url: string, method: string, body?: object) => {
+    try {
+      setError('');
+      setIsSubmitting(true);
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+      const result: ApiResponse = await response.json();
+
+      if (result.success) {
+        await refreshCategories();
+        return true;
+      }
+
+      setError(
+        result.fieldErrors
+          ? Object.values(result.fieldErrors).join(', ')
+          : result.details || result.error || 'Something went wrong. Please try again.'
+      );
+    } catch (error) {
+      console.error('Category update error:', error);
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+    return false;
+  };
+
+  // Create a category
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newCategory.name.trim()) {
+      setError('Category name is required');
+      return;
+    }
+
+    const created = await mutate('/api/categories', 'POST', newCategory);
+    if (created) setNewCategory(EMPTY_FORM);
+  };
+
+  // Start editing a category inline
+  const startEditing = (category: ICategory) => {
+    setEditingId(category._id);
+    setEditData({ name: category.name, color: category.color, icon: category.icon });
+    setDeletingId(null);
+    setError('');
+  };
+
+  // Save an inline edit
+  const handleUpdate = async () => {
+    if (!editingId) return;
+    const updated = await mutate(`/api/categories/${editingId}`, 'PATCH', editData);
+    if (updated) setEditingId(null);
+  };
+
+  // Move a category one position up or down
+  const moveCategory = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= categories.length) return;
+
+    const ids = categories.map(category => category._id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+
+    return mutate('/api/categories', 'PUT', { categoryIds: ids });
+  };
+
+  // Start deleting - unused categories go straight away, used ones ask where their tasks go
+  const startDeleting = async (category: ICategory) => {
+    setEditingId(null);
+    setError('');
+
+    if (!category.taskCount) {
+      if (confirm(`Delete the "${category.name}" category?`)) {
+        await mutate(`/api/categories/${category._id}`, 'DELETE');
+      }
+      return;
+    }
+
+    setDeletingId(category._id);
+    setReassignTo(categories.find(other => other._id !== category._id)?.key || '');
+  };
+
+  // Delete after moving the tasks to the chosen category
+  const handleDelete = async () => {
+    if (!deletingId || !reassignTo) return;
+
+    const deleted = await mutate(
+      `/api/categories/${deletingId}?reassignTo=${encodeURIComponent(reassignTo)}`,
+      'DELETE'
+    );
+    if (deleted) setDeletingId(null);
+  };
+
   return (
     <ProtectedRoute>
       <DashboardLayout>
         <div className="px-4 sm:px-0">
-          <h1 className="text-3xl font-bold text-gray-900 mb-6">Categories</h1>
-          <div className="bg-white rounded-lg shadow p-6">
-            <p className="text-gray-600">Task categories will be here soon! 📁</p>
-            <p className="text-sm text-gray-500 mt-2">This page is working - no more 404!</p>
+          {/* Header */}
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900">Categories</h1>
+            <p className="text-gray-600 mt-2">
+              {canManage
+                ? 'Organize tasks your way - create, rename, recolor and reorder the categories of this project.'
+                : 'The categories of this project. Owners and admins can change them.'}
+            </p>
           </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+              <p className="text-red-700">{error}</p>
+            </div>
+          )}
+
+          {/* Category list */}
+          <div className="bg-white rounded-lg shadow mb-6">
+            {isLoading ? (
+              <div className="p-8 text-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+                <p className="mt-2 text-gray-600">Loading categories...</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {categories.map((category, index) => (
+                  <li key={category._id} className="p-4">
+                    {editingId === category._id ? (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <input
+                          type="text"
+                          value={editData.icon}
+                          onChange={(e) => setEditData(prev => ({ ...prev, icon: e.target.value }))}
+                          className="w-16 px-3 py-2 border border-gray-300 rounded-md text-center focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          maxLength={8}
+                          aria-label="Icon"
+                        />
+                        <input
+                          type="text"
+                          value={editData.name}
+                          onChange={(e) => setEditData(prev => ({ ...prev, name: e.target.value }))}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          maxLength={30}
+                          aria-label="Name"
+                        />
+                        <input
+                          type="color"
+                          value={editData.color}
+                          onChange={(e) => setEditData(prev => ({ ...prev, color: e.target.value }))}
+                          className="h-10 w-12 border border-gray-300 rounded-md"
+                          aria-label="Color"
+                        />
+                        <button
+                          onClick={handleUpdate}
+                          disabled={isSubmitting}
+                          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-blue-300 transition-colors"
+                        >
+                          Save
+                        </button>
+                        <button
+                          onClick={() => setEditingId(null)}
+                          className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center justify-between gap-4">
+                        <div className="flex items-center gap-3">
+                          <span
+                            className="w-10 h-10 rounded-md flex items-center justify-center text-lg"
+                            style={{ backgroundColor: `${category.color}20` }}
+                          >
+                            {category.icon}
+                          </span>
+                          <div>
+                            <p className="font-medium" style={{ color: category.color }}>
+                              {category.name}
+                            </p>
+                            <Link
+                              href={`/tasks?category=${category.key}`}
+                              className="text-sm text-gray-500 hover:text-gray-700"
+                            >
+                              {category.taskCount || 0} task{category.taskCount !== 1 ? 's' : ''}
+                            </Link>
+                          </div>
+                        </div>
+                        {canManage && (
+                          <div className="flex items-center gap-3">
+                            <button
+                              onClick={() => moveCategory(index, -1)}
+                              disabled={index === 0 || isSubmitting}
+                              className="text-gray-500 hover:text-gray-700 disabled:text-gray-300"
+                              aria-label="Move up"
+                            >
+                              ↑
+                            </button>
+                            <button
+                              onClick={() => moveCategory(index, 1)}
+                              disabled={index === categories.length - 1 || isSubmitting}
+                              className="text-gray-500 hover:text-gray-700 disabled:text-gray-300"
+                              aria-label="Move down"
+                            >
+                              ↓
+                            </button>
+                            <button
+                              onClick={() => startEditing(category)}
+                              className="text-gray-600 hover:text-gray-800 text-sm font-medium"
+                            >
+                              Edit
+                            </button>
+                            <button
+                              onClick={() => startDeleting(category)}
+                              disabled={categories.length <= 1}
+                              className="text-red-600 hover:text-red-800 disabled:text-gray-300 text-sm font-medium"
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Reassign step for categories that still have tasks */}
+                    {deletingId === category._id && (
+                      <div className="mt-4 bg-yellow-50 border border-yellow-200 rounded-md p-4">
+                        <p className="text-sm text-yellow-800 mb-3">
+                          {category.taskCount} task{category.taskCount !== 1 ? 's use' : ' uses'} this category.
+                          Move {category.taskCount !== 1 ? 'them' : 'it'} to:
+                        </p>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <select
+                            value={reassignTo}
+                            onChange={(e) => setReassignTo(e.target.value)}
+                            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            {categories
+                              .filter(other => other._id !== category._id)
+                              .map((other) => (
+                                <option key={other._id} value={other.key}>
+                                  {other.icon} {other.name}
+                                </option>
+                              ))}
+                          </select>
+                          <button
+                            onClick={handleDelete}
+                            disabled={isSubmitting || !reassignTo}
+                            className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-red-300 transition-colors"
+                          >
+                            Move tasks & delete
+                          </button>
+                          <button
+                            onClick={() => setDeletingId(null)}
+                            className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Create category */}
+          {canManage && (
+            <div className="bg-white rounded-lg shadow">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-medium text-gray-900">New Category</h2>
+              </div>
+              <form onSubmit={handleCreate} className="p-6 flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  value={newCategory.icon}
+                  onChange={(e) => setNewCategory(prev => ({ ...prev, icon: e.target.value }))}
+                  className="w-16 px-3 py-2 border border-gray-300 rounded-md text-center focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  maxLength={8}
+                  aria-label="Icon"
+                />
+                <input
+                  type="text"
+                  value={newCategory.name}
+                  onChange={(e) => setNewCategory(prev => ({ ...prev, name: e.target.value }))}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="e.g. Client A, Sprint 12"
+                  maxLength={30}
+                  aria-label="Name"
+                />
+                <input
+                  type="color"
+                  value={newCategory.color}
+                  onChange={(e) => setNewCategory(prev => ({ ...prev, color: e.target.value }))}
+                  className="h-10 w-12 border border-gray-300 rounded-md"
+                  aria-label="Color"
+                />
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed transition-colors"
+                >
+                  Add Category
+                </button>
+              </form>
+            </div>
+          )}
         </div>
       </DashboardLayout>
     </ProtectedRoute>
   );
-}
\ No newline at end of file
+}
@@ -4,38 +4,66 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import DashboardLayout from '@/components/DashboardLayout';
+import SubtaskProgress from '@/components/SubtaskProgress';
+import BreakdownChart from '@/components/BreakdownChart';
+import TrendChart from '@/components/TrendChart';
+import TimeReportCard from '@/components/TimeReportCard';
+import EstimateReportCard from '@/components/EstimateReportCard';
+import AssigneeChips from '@/components/AssigneeChips';
 import { useAuth } from '@/contexts/AuthContext';
-import { ITask, TaskStatus, TaskPriority, TaskCategory, ApiResponse } from '@/types';
+import { useProjects } from '@/contexts/ProjectContext';
+import { useCategories } from '@/hooks/useCategories';
+import { ITask, TaskStatus, TaskPriority, ApiResponse, DashboardStats } from '@/types';
+
+// Bar colors per priority, matching the priority badges
+const PRIORITY_COLORS: Record<TaskPriority, string> = {
+  [TaskPriority.URGENT]: '#ef4444',
+  [TaskPriority.HIGH]: '#f97316',
+  [TaskPriority.MEDIUM]: '#eab308',
+  [TaskPriority.LOW]: '#9ca3af',
+};
 
 export default function DashboardPage() {
   const { user } = useAuth();
+  const { currentProject } = useProjects();
+  const { categories } = useCategories();
   const [tasks, setTasks] = useState<ITask[]>([]);
+  const [myTasks, setMyTasks] = useState<ITask[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [stats, setStats] = useState({
-    total: 0,
-    completed: 0,
-    pending: 0,
-    overdue: 0,
-  });
+  const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [trendDays, setTrendDays] = useState<30 | 90>(30);
 
-  // Fetch user's tasks
+  // Fetch the 5 most recent tasks and the open tasks assigned to the user
   const fetchTasks = async () => {
     try {
       console.log('📊 Fetching dashboard data...');
       
-      const response = await fetch('/api/tasks', {
-        credentials: 'include',
-      });
+      const [response, myResponse] = await Promise.all([
+        fetch('/api/tasks?limit=5', {
+          credentials: 'include',
+        }),
+        fetch('/api/tasks?assignee=me&sort=dueDate&order=asc&limit=50', {
+          credentials: 'include',
+        }),
+      ]);
 
       if (response.ok) {
         const result: ApiResponse<ITask[]> = await response.json();
         if (result.success && result.data) {
           setTasks(result.data);
-          calculateStats(result.data);
         }
       } else {
         console.error('Failed to fetch tasks');
       }
+
+      if (myResponse.ok) {
+        const result: ApiResponse<ITask[]> = await myResponse.json();
+        if (result.success && result.data) {
+          setMyTasks(result.data.filter(task => task.status !== TaskStatus.COMPLETED).slice(0, 5));
+        }
+      } else {
+        console.error('Failed to fetch assigned tasks');
+      }
     } catch (error) {
       console.error('Error fetching tasks:', error);
     } finally {
@@ -43,30 +71,70 @@ export default function DashboardPage() {
     }
   };
 
-  // Calculate dashboard statistics
-  const calculateStats = (taskList: ITask[]) => {
-    const now = new Date();
-    
-    const stats = {
-      total: taskList.length,
-      completed: taskList.filter(task => task.status === TaskStatus.COMPLETED).length,
-      pending: taskList.filter(task => task.status === TaskStatus.PENDING).length,
-      overdue: taskList.filter(task => 
-        task.dueDate && 
-        new Date(task.dueDate) < now && 
-        task.status !== TaskStatus.COMPLETED
-      ).length,
-    };
+  // Fetch statistics, counting completions per day in the browser's time zone
+  const fetchStats = async () => {
+    try {
+      const queryParams = new URLSearchParams({
+        days: String(trendDays),
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+
+      const response = await fetch(`/api/tasks/stats?${queryParams.toString()}`, {
+        credentials: 'include',
+      });
 
-    setStats(stats);
+      if (response.ok) {
+        const result: ApiResponse<DashboardStats> = await response.json();
+        if (result.success && result.data) {
+          setStats(result.data);
+        }
+      } else {
+        console.error('Failed to fetch statistics');
+      }
+    } catch (error) {
+      console.error('Error fetching statistics:', error);
+    }
   };
 
   useEffect(() => {
     fetchTasks();
-  }, []);
+  }, [currentProject?._id]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [trendDays, currentProject?._id]);
 
-  // Get recent tasks (last 5)
-  const recentTasks = tasks.slice(0, 5);
+  // Recent tasks (last 5)
+  const recentTasks = tasks;
+
+  // Category bars in the user's category order, with any unknown keys at the end
+  const categoryItems = stats
+    ? [
+        ...categories.map(category => ({
+          key: category.key,
+          label: `${category.icon} ${category.name}`,
+          value: stats.tasksByCategory[category.key] || 0,
+          color: category.color,
+        })),
+        ...Object.entries(stats.tasksByCategory)
+          .filter(([key]) => !categories.some(category => category.key === key))
+          .map(([key, value]) => ({ key, label: key, value, color: '#9ca3af' })),
+      ]
+    : [];
+
+  // Priority bars from most to least urgent, noting how many are overdue
+  const priorityItems = stats
+    ? [TaskPriority.URGENT, TaskPriority.HIGH, TaskPriority.MEDIUM, TaskPriority.LOW].map(priority => ({
+        key: priority,
+        label: stats.overdueByPriority[priority]
+          ? `${priority} (${stats.overdueByPriority[priority]} overdue)`
+          : priority,
+        value: stats.tasksByPriority[priority] || 0,
+        color: PRIORITY_COLORS[priority],
+      }))
+    : [];
+
+  const completedInRange = stats?.completedPerDay.reduce((sum, day) => sum + day.count, 0) ?? 0;
 
   return (
     <ProtectedRoute>
@@ -98,7 +166,7 @@ export default function DashboardPage() {
                         Total Tasks
                       </dt>
                       <dd className="text-lg font-medium text-gray-900">
-                        {stats.total}
+                        {stats?.totalTasks ?? 0}
                       </dd>
                     </dl>
                   </div>
@@ -120,7 +188,10 @@ export default function DashboardPage() {
                         Completed
                       </dt>
                       <dd className="text-lg font-medium text-gray-900">
-                        {stats.completed}
+                        {stats?.completedTasks ?? 0}
+                        <span className="ml-2 text-sm font-normal text-gray-500">
+                          {stats?.completionRate ?? 0}%
+                        </span>
                       </dd>
                     </dl>
                   </div>
@@ -142,7 +213,7 @@ export default function DashboardPage() {
                         Pending
                       </dt>
                       <dd className="text-lg font-medium text-gray-900">
-                        {stats.pending}
+                        {stats?.pendingTasks ?? 0}
                       </dd>
                     </dl>
                   </div>
@@ -164,7 +235,7 @@ export default function DashboardPage() {
                         Overdue
                       </dt>
                       <dd className="text-lg font-medium text-gray-900">
-                        {stats.overdue}
+                        {stats?.overdueTasks ?? 0}
                       </dd>
                     </dl>
                   </div>
@@ -173,6 +244,60 @@ export default function DashboardPage() {
             </div>
           </div>
 
+          {/* Charts */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+            <div className="bg-white shadow rounded-lg">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-medium text-gray-900">Tasks by Category</h2>
+              </div>
+              <div className="p-6">
+                <BreakdownChart items={categoryItems} />
+              </div>
+            </div>
+
+            <div className="bg-white shadow rounded-lg">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-medium text-gray-900">Tasks by Priority</h2>
+              </div>
+              <div className="p-6">
+                <BreakdownChart items={priorityItems} />
+              </div>
+            </div>
+
+            <div className="bg-white shadow rounded-lg lg:col-span-2">
+              <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+                <div>
+                  <h2 className="text-lg font-medium text-gray-900">Completed per Day</h2>
+                  <p className="text-sm text-gray-500">
+                    {completedInRange} task{completedInRange !== 1 ? 's' : ''} completed in the last {trendDays} days
+                  </p>
+                </div>
+                <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+                  {([30, 90] as const).map((days) => (
+                    <button
+                      key={days}
+                      onClick={() => setTrendDays(days)}
+                      className={`px-3 py-1 text-sm font-medium ${
+                        trendDays === days ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {days} days
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="p-6">
+                {stats && <TrendChart data={stats.completedPerDay} />}
+              </div>
+            </div>
+          </div>
+
+          {/* Time tracking */}
+          <TimeReportCard categories={categories} />
+
+          {/* Planning accuracy */}
+          <EstimateReportCard categories={categories} />
+
           {/* Quick Actions */}
           <div className="bg-white shadow rounded-lg mb-8">
             <div className="px-6 py-4 border-b border-gray-200">
@@ -219,6 +344,55 @@ export default function DashboardPage() {
             </div>
           </div>
 
+          {/* Assigned to me */}
+          <div className="bg-white shadow rounded-lg mb-8">
+            <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+              <h2 className="text-lg font-medium text-gray-900">Assigned to Me</h2>
+              <Link
+                href="/tasks?assignee=me"
+                className="text-blue-600 hover:text-blue-500 text-sm font-medium"
+              >
+                View all →
+              </Link>
+            </div>
+            <div className="p-6">
+              {isLoading ? (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+                  <p className="mt-2 text-gray-600">Loading tasks...</p>
+                </div>
+              ) : myTasks.length === 0 ? (
+                <p className="text-center text-gray-600 py-4">
+                  Nothing open is assigned to you in this project. 🎉
+                </p>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {myTasks.map((task) => (
+                    <li key={task._id} className="py-3 flex items-center justify-between gap-4">
+                      <div>
+                        <Link
+                          href={`/tasks/${task._id}/edit`}
+                          className="font-medium text-gray-900 hover:text-blue-600"
+                        >
+                          {task.title}
+                        </Link>
+                        <p className="text-sm text-gray-500">
+                          {task.status.replace('_', ' ')}
+                          {task.dueDate && (
+                            <span className={new Date(task.dueDate) < new Date() ? 'text-red-600 font-medium' : ''}>
+                              {' '}· due {new Date(task.dueDate).toLocaleDateString()}
+                            </span>
+                          )}
+                        </p>
+                      </div>
+                      <AssigneeChips assignees={task.assignees} />
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
           {/* Recent Tasks */}
           <div className="bg-white shadow rounded-lg">
             <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
@@ -261,6 +435,11 @@ export default function DashboardPage() {
                           {task.description && (
                             <p className="text-sm text-gray-600 mt-1">{task.description}</p>
                           )}
+                          {task.subtasks && task.subtasks.length > 0 && (
+                            <div className="mt-2">
+                              <SubtaskProgress subtasks={task.subtasks} />
+                            </div>
+                          )}
                         </div>
                         <div className="flex items-center space-x-2">
                           <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
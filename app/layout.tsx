@@ -2,6 +2,8 @@ import type { Metadata } from 'next';
 import { Inter } from 'next/font/google';
 import './globals.css';
 import { AuthProvider } from '@/contexts/AuthContext';
+import { ProjectProvider } from '@/contexts/ProjectContext';
+import { TimerProvider } from '@/contexts/TimerContext';
 
 const inter = Inter({ subsets: ['latin'] });
 
@@ -19,7 +21,11 @@ export default function RootLayout({
     <html lang="en">
       <body className={inter.className}>
         <AuthProvider>
-          {children}
+          <ProjectProvider>
+            <TimerProvider>
+              {children}
+            </TimerProvider>
+          </ProjectProvider>
         </AuthProvider>
       </body>
     </html>
@@ -0,0 +1,434 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProjects } from '@/contexts/ProjectContext';
+import { hasPermission, outranks, ROLE_LABELS } from '@/lib/permissions';
+import { ApiResponse, IProject, ProjectRole, UpdateProjectData } from '@/types';
+
+// Roles that can be handed out, most privileged first
+const ASSIGNABLE_ROLES = [ProjectRole.ADMIN, ProjectRole.MEMBER, ProjectRole.VIEWER];
+
+interface ProjectPageProps {
+  params: { id: string };
+}
+
+export default function ProjectPage({ params }: ProjectPageProps) {
+  const router = useRouter();
+  const { user } = useAuth();
+  const { refreshProjects } = useProjects();
+  const [project, setProject] = useState<IProject | null>(null);
+
+  // Form state
+  const [settings, setSettings] = useState<UpdateProjectData>({ name: '', description: '', color: '#3b82f6' });
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<ProjectRole>(ProjectRole.MEMBER);
+
+  // UI state
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const showProject = (loaded: IProject) => {
+    setProject(loaded);
+    setSettings({ name: loaded.name, description: loaded.description || '', color: loaded.color });
+  };
+
+  // Load the project with its members and invites
+  const loadProject = useCallback(async () => {
+    try {
+      const { id } = await params;
+      console.log(`📖 Loading project ${id}...`);
+
+      const response = await fetch(`/api/projects/${id}`, {
+        credentials: 'include',
+      });
+      const result: ApiResponse<IProject> = await response.json();
+
+      if (result.success && result.data) {
+        showProject(result.data);
+      } else {
+        setError(result.error || 'Project not found');
+      }
+    } catch (error) {
+      console.error('Error loading project:', error);
+      setError('Failed to load project');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [params]);
+
+  useEffect(() => {
+    loadProject();
+  }, [loadProject]);
+
+  // Send a change; returns the response on success
+  const mutate = async (url: string, method: string, body?: object) => {
+    try {
+      setError('');
+      setMessage('');
+      setIsSubmitting(true);
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+      const result: ApiResponse<IProject> = await response.json();
+
+      if (result.success) {
+        if (result.message) setMessage(result.message);
+        return result;
+      }
+
+      setError(
+        result.fieldErrors
+          ? Object.values(result.fieldErrors).join(', ')
+          : result.details || result.error || 'Something went wrong. Please try again.'
+      );
+    } catch (error) {
+      console.error('Project update error:', error);
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+    return null;
+  };
+
+  if (isLoading) {
+    return (
+      <ProtectedRoute>
+        <DashboardLayout>
+          <div className="p-8 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600">Loading project...</p>
+          </div>
+        </DashboardLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  if (!project) {
+    return (
+      <ProtectedRoute>
+        <DashboardLayout>
+          <div className="px-4 sm:px-0 text-center py-12">
+            <p className="text-gray-600 mb-4">{error || 'Project not found'}</p>
+            <Link href="/projects" className="text-blue-600 hover:text-blue-800 font-medium">
+              ← Back to projects
+            </Link>
+          </div>
+        </DashboardLayout>
+      </ProtectedRoute>
+    );
+  }
+
+  // The API answers with the same rules; this only decides what to show
+  const myRole = project.ownerId === user?._id
+    ? ProjectRole.OWNER
+    : project.members.find(member => member.userId._id === user?._id)?.role || ProjectRole.VIEWER;
+  const canManageSettings = hasPermission(myRole, 'project:update');
+  const canInvite = hasPermission(myRole, 'members:invite') && !project.personal;
+  const canChangeRoles = hasPermission(myRole, 'members:change-role');
+  // Admins only hand out and manage roles below their own
+  const grantableRoles = ASSIGNABLE_ROLES.filter(role => myRole === ProjectRole.OWNER || outranks(myRole, role));
+
+  // Save name, description and color
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await mutate(`/api/projects/${project._id}`, 'PATCH', settings);
+    if (result?.data) {
+      showProject(result.data);
+      await refreshProjects();
+    }
+  };
+
+  // Invite someone by email
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) {
+      setError('Email is required');
+      return;
+    }
+
+    const result = await mutate(`/api/projects/${project._id}/invites`, 'POST', { email: inviteEmail, role: inviteRole });
+    if (result?.data) {
+      showProject(result.data);
+      setInviteEmail('');
+    }
+  };
+
+  // Cancel a pending invite
+  const cancelInvite = async (email: string) => {
+    const result = await mutate(
+      `/api/projects/${project._id}/invites?email=${encodeURIComponent(email)}`,
+      'DELETE'
+    );
+    if (result?.data) showProject(result.data);
+  };
+
+  // Change a member's role
+  const changeRole = async (memberId: string, role: ProjectRole) => {
+    const result = await mutate(`/api/projects/${project._id}/members/${memberId}`, 'PATCH', { role });
+    if (result?.data) showProject(result.data);
+  };
+
+  // Remove a member, or leave when it's the current user
+  const removeMember = async (memberId: string, name: string) => {
+    const isLeaving = memberId === user?._id;
+    const question = isLeaving
+      ? `Leave "${project.name}"? You will lose access to its tasks.`
+      : `Remove ${name} from "${project.name}"?`;
+    if (!confirm(question)) return;
+
+    const result = await mutate(`/api/projects/${project._id}/members/${memberId}`, 'DELETE');
+    if (!result) return;
+
+    if (isLeaving) {
+      await refreshProjects();
+      router.push('/projects');
+    } else if (result.data) {
+      showProject(result.data);
+    }
+  };
+
+  // Delete the project with all of its tasks
+  const handleDelete = async () => {
+    if (!confirm(`Delete "${project.name}" and all of its tasks? This cannot be undone.`)) return;
+
+    const result = await mutate(`/api/projects/${project._id}`, 'DELETE');
+    if (result) {
+      await refreshProjects();
+      router.push('/projects');
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <div className="px-4 sm:px-0 max-w-3xl">
+          {/* Header */}
+          <div className="mb-8">
+            <Link href="/projects" className="text-sm text-gray-500 hover:text-gray-700">
+              ← All projects
+            </Link>
+            <h1 className="text-3xl font-bold mt-2" style={{ color: project.color }}>
+              {project.personal ? '🔒' : '👥'} {project.name}
+            </h1>
+            {project.description && (
+              <p className="text-gray-600 mt-2">{project.description}</p>
+            )}
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+              <p className="text-red-700">{error}</p>
+            </div>
+          )}
+
+          {message && !error && (
+            <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-6">
+              <p className="text-green-700">{message}</p>
+            </div>
+          )}
+
+          {/* Members */}
+          <div className="bg-white rounded-lg shadow mb-6">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-medium text-gray-900">
+                Members ({project.members.length})
+              </h2>
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {project.members.map((member) => {
+                const memberId = member.userId._id;
+                const isMemberOwner = memberId === project.ownerId;
+                const isSelf = memberId === user?._id;
+                const memberRole = isMemberOwner ? ProjectRole.OWNER : member.role;
+                const canRemove = isSelf
+                  ? !isMemberOwner
+                  : hasPermission(myRole, 'members:remove') && outranks(myRole, memberRole);
+
+                return (
+                  <li key={memberId} className="p-4 flex items-center justify-between gap-4">
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {member.userId.name}
+                        {isSelf && <span className="text-gray-500 font-normal"> (you)</span>}
+                        <span className={`ml-2 text-xs px-2 py-0.5 rounded-full ${
+                          isMemberOwner ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-700'
+                        }`}>
+                          {ROLE_LABELS[memberRole]}
+                        </span>
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {member.userId.email} · joined {new Date(member.joinedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      {canChangeRoles && !isMemberOwner && (
+                        <select
+                          value={memberRole}
+                          onChange={(e) => changeRole(memberId, e.target.value as ProjectRole)}
+                          disabled={isSubmitting}
+                          className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          aria-label="Role"
+                        >
+                          {ASSIGNABLE_ROLES.map(role => (
+                            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                          ))}
+                        </select>
+                      )}
+                      {canRemove && (
+                        <button
+                          onClick={() => removeMember(memberId, member.userId.name)}
+                          disabled={isSubmitting}
+                          className="text-red-600 hover:text-red-800 disabled:text-gray-300 text-sm font-medium"
+                        >
+                          {isSelf ? 'Leave' : 'Remove'}
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          {/* Invites - owners and admins of shared projects */}
+          {canInvite && (
+            <div className="bg-white rounded-lg shadow mb-6">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-medium text-gray-900">Invite People</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                  The invitation shows up for them after they sign in with this email.
+                </p>
+              </div>
+              <form onSubmit={handleInvite} className="p-6 flex flex-wrap items-center gap-2">
+                <input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="name@example.com"
+                  aria-label="Email"
+                />
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as ProjectRole)}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label="Role"
+                >
+                  {grantableRoles.map(role => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed transition-colors"
+                >
+                  Send Invite
+                </button>
+              </form>
+
+              {project.invites.length > 0 && (
+                <ul className="divide-y divide-gray-200 border-t border-gray-200">
+                  {project.invites.map((invite) => (
+                    <li key={invite._id} className="px-6 py-3 flex items-center justify-between gap-4">
+                      <div>
+                        <p className="text-gray-900">{invite.email}</p>
+                        <p className="text-sm text-gray-500">
+                          {ROLE_LABELS[invite.role || ProjectRole.MEMBER]} · pending since {new Date(invite.createdAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => cancelInvite(invite.email)}
+                        disabled={isSubmitting}
+                        className="text-gray-600 hover:text-gray-800 text-sm font-medium"
+                      >
+                        Cancel
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {/* Settings - owners and admins */}
+          {canManageSettings && (
+            <div className="bg-white rounded-lg shadow mb-6">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-medium text-gray-900">Settings</h2>
+              </div>
+              <form onSubmit={handleSaveSettings} className="p-6 space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="text"
+                    value={settings.name}
+                    onChange={(e) => setSettings(prev => ({ ...prev, name: e.target.value }))}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    maxLength={50}
+                    aria-label="Name"
+                  />
+                  <input
+                    type="color"
+                    value={settings.color}
+                    onChange={(e) => setSettings(prev => ({ ...prev, color: e.target.value }))}
+                    className="h-10 w-12 border border-gray-300 rounded-md"
+                    aria-label="Color"
+                  />
+                </div>
+                <input
+                  type="text"
+                  value={settings.description}
+                  onChange={(e) => setSettings(prev => ({ ...prev, description: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Description (optional)"
+                  maxLength={200}
+                  aria-label="Description"
+                />
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed transition-colors"
+                >
+                  Save
+                </button>
+              </form>
+            </div>
+          )}
+
+          {/* Danger zone */}
+          {hasPermission(myRole, 'project:delete') && !project.personal && (
+            <div className="bg-white rounded-lg shadow border border-red-200">
+              <div className="p-6 flex items-center justify-between gap-4">
+                <div>
+                  <h2 className="text-lg font-medium text-red-700">Delete Project</h2>
+                  <p className="text-sm text-gray-500">Removes the project and all of its tasks for every member.</p>
+                </div>
+                <button
+                  onClick={handleDelete}
+                  disabled={isSubmitting}
+                  className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-red-300 transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import { useProjects } from '@/contexts/ProjectContext';
+import { ROLE_LABELS } from '@/lib/permissions';
+import { ApiResponse, CreateProjectData, ProjectRole } from '@/types';
+
+const EMPTY_FORM: CreateProjectData = { name: '', description: '', color: '#3b82f6' };
+
+export default function ProjectsPage() {
+  const { projects, currentProject, pendingInvites, isLoading, switchProject, refreshProjects, getRole } = useProjects();
+
+  // Form state for creating a project
+  const [newProject, setNewProject] = useState<CreateProjectData>(EMPTY_FORM);
+
+  // UI state
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Send a change and reload the projects on success
+  const mutate = async (url: string, method: string, body?: object) => {
+    try {
+      setError('');
+      setIsSubmitting(true);
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+      const result: ApiResponse = await response.json();
+
+      if (result.success) {
+        await refreshProjects();
+        return result;
+      }
+
+      setError(
+        result.fieldErrors
+          ? Object.values(result.fieldErrors).join(', ')
+          : result.details || result.error || 'Something went wrong. Please try again.'
+      );
+    } catch (error) {
+      console.error('Project update error:', error);
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+    return null;
+  };
+
+  // Create a project and switch to it
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newProject.name.trim()) {
+      setError('Project name is required');
+      return;
+    }
+
+    const result = await mutate('/api/projects', 'POST', newProject);
+    if (result?.data) {
+      setNewProject(EMPTY_FORM);
+      switchProject(result.data._id);
+    }
+  };
+
+  // Accept an invite and switch to the project
+  const acceptInvite = async (projectId: string) => {
+    const result = await mutate(`/api/projects/${projectId}/invitation`, 'POST');
+    if (result) switchProject(projectId);
+  };
+
+  // Decline an invite
+  const declineInvite = async (projectId: string, projectName: string) => {
+    if (confirm(`Decline the invitation to "${projectName}"?`)) {
+      await mutate(`/api/projects/${projectId}/invitation`, 'DELETE');
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <div className="px-4 sm:px-0">
+          {/* Header */}
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900">Projects</h1>
+            <p className="text-gray-600 mt-2">
+              Share tasks with others - everyone in a project sees and works on the same tasks.
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+              <p className="text-red-700">{error}</p>
+            </div>
+          )}
+
+          {/* Pending invites */}
+          {pendingInvites.length > 0 && (
+            <div className="bg-white rounded-lg shadow mb-6">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-medium text-gray-900">
+                  ✉️ Invitations ({pendingInvites.length})
+                </h2>
+              </div>
+              <ul className="divide-y divide-gray-200">
+                {pendingInvites.map((invite) => (
+                  <li key={invite.projectId} className="p-4 flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                      <span
+                        className="w-3 h-3 rounded-full"
+                        style={{ backgroundColor: invite.projectColor }}
+                      />
+                      <div>
+                        <p className="font-medium text-gray-900">{invite.projectName}</p>
+                        <p className="text-sm text-gray-500">
+                          Invited as {ROLE_LABELS[invite.role || ProjectRole.MEMBER].toLowerCase()} by{' '}
+                          {invite.invitedBy?.name || 'someone'} on{' '}
+                          {new Date(invite.createdAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <button
+                        onClick={() => acceptInvite(invite.projectId)}
+                        disabled={isSubmitting}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-blue-300 transition-colors"
+                      >
+                        Accept
+                      </button>
+                      <button
+                        onClick={() => declineInvite(invite.projectId, invite.projectName)}
+                        disabled={isSubmitting}
+                        className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+                      >
+                        Decline
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Project list */}
+          <div className="bg-white rounded-lg shadow mb-6">
+            {isLoading ? (
+              <div className="p-8 text-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+                <p className="mt-2 text-gray-600">Loading projects...</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {projects.map((project) => (
+                  <li key={project._id} className="p-4 flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                      <span
+                        className="w-10 h-10 rounded-md flex items-center justify-center text-lg"
+                        style={{ backgroundColor: `${project.color}20` }}
+                      >
+                        {project.personal ? '🔒' : '👥'}
+                      </span>
+                      <div>
+                        <p className="font-medium" style={{ color: project.color }}>
+                          {project.name}
+                          {currentProject?._id === project._id && (
+                            <span className="ml-2 text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full">
+                              Current
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          {project.personal
+                            ? 'Only you can see this project'
+                            : `${project.members.length} member${project.members.length !== 1 ? 's' : ''} · you are ${
+                                ROLE_LABELS[getRole(project._id) || ProjectRole.VIEWER].toLowerCase()
+                              }`}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      {currentProject?._id !== project._id && (
+                        <button
+                          onClick={() => switchProject(project._id)}
+                          className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                        >
+                          Switch to
+                        </button>
+                      )}
+                      <Link
+                        href={`/projects/${project._id}`}
+                        className="text-gray-600 hover:text-gray-800 text-sm font-medium"
+                      >
+                        {project.personal ? 'Settings' : 'Members'}
+                      </Link>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Create project */}
+          <div className="bg-white rounded-lg shadow">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-medium text-gray-900">New Project</h2>
+            </div>
+            <form onSubmit={handleCreate} className="p-6 space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  value={newProject.name}
+                  onChange={(e) => setNewProject(prev => ({ ...prev, name: e.target.value }))}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="e.g. Website relaunch, Household"
+                  maxLength={50}
+                  aria-label="Name"
+                />
+                <input
+                  type="color"
+                  value={newProject.color}
+                  onChange={(e) => setNewProject(prev => ({ ...prev, color: e.target.value }))}
+                  className="h-10 w-12 border border-gray-300 rounded-md"
+                  aria-label="Color"
+                />
+              </div>
+              <input
+                type="text"
+                value={newProject.description}
+                onChange={(e) => setNewProject(prev => ({ ...prev, description: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Description (optional)"
+                maxLength={200}
+                aria-label="Description"
+              />
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed transition-colors"
+              >
+                Create Project
+              </button>
+            </form>
+          </div>
+        </div>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
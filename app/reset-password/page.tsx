@@ -0,0 +1,208 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { ApiResponse, ResetPasswordData } from '@/types';
+
+export default function ResetPasswordPage() {
+  // The token comes from the link in the reset email
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+
+  // Form state
+  const [formData, setFormData] = useState({
+    password: '',
+    confirmPassword: '',
+  });
+
+  // UI state
+  const [errors, setErrors] = useState<{ [key: string]: string }>({});
+  const [message, setMessage] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Handle input changes
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+
+    // Clear error when user starts typing
+    if (errors[name]) {
+      setErrors(prev => ({
+        ...prev,
+        [name]: ''
+      }));
+    }
+  };
+
+  // Validate form - the same rules as registration
+  const validateForm = (): boolean => {
+    const newErrors: { [key: string]: string } = {};
+
+    if (!formData.password) {
+      newErrors.password = 'Password is required';
+    } else if (formData.password.length < 6) {
+      newErrors.password = 'Password must be at least 6 characters';
+    }
+
+    if (formData.password !== formData.confirmPassword) {
+      newErrors.confirmPassword = "Passwords don't match";
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) return;
+
+    setIsSubmitting(true);
+    setErrors({});
+
+    try {
+      const data: ResetPasswordData = { token, ...formData };
+
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(data),
+      });
+
+      const result: ApiResponse = await response.json();
+
+      if (result.success) {
+        setMessage(result.message || 'Your password has been reset.');
+      } else {
+        setErrors({
+          ...result.fieldErrors,
+          submit: result.error || 'Password reset failed. Please try again.'
+        });
+      }
+    } catch (error) {
+      console.error('Reset password error:', error);
+      setErrors({
+        submit: 'Something went wrong. Please try again.'
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = (field: string) =>
+    `mt-1 appearance-none relative block w-full px-3 py-2 border ${
+      errors[field] ? 'border-red-300' : 'border-gray-300'
+    } placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm`;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        {/* Header */}
+        <div className="text-center">
+          <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
+            Choose a new password
+          </h2>
+          <p className="mt-2 text-sm text-gray-600">
+            You&apos;ll be signed out everywhere and can sign in with the new password.
+          </p>
+        </div>
+
+        {message ? (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4 text-center">
+            <p className="text-green-700 text-sm">{message}</p>
+            <Link
+              href="/login"
+              className="inline-block mt-3 text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Sign in
+            </Link>
+          </div>
+        ) : !token ? (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 text-center">
+            <p className="text-red-700 text-sm">This reset link is incomplete. Please use the link from the email.</p>
+            <Link
+              href="/forgot-password"
+              className="inline-block mt-3 text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Ask for a new link
+            </Link>
+          </div>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+            {/* Global error */}
+            {errors.submit && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                <p className="text-red-700 text-sm">{errors.submit}</p>
+                <Link
+                  href="/forgot-password"
+                  className="inline-block mt-2 text-sm font-medium text-blue-600 hover:text-blue-500"
+                >
+                  Ask for a new link
+                </Link>
+              </div>
+            )}
+
+            <div className="space-y-4">
+              {/* Password field */}
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  New password
+                </label>
+                <input
+                  id="password"
+                  name="password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={formData.password}
+                  onChange={handleChange}
+                  className={inputClass('password')}
+                  placeholder="At least 6 characters"
+                />
+                {errors.password && (
+                  <p className="mt-1 text-sm text-red-600">{errors.password}</p>
+                )}
+              </div>
+
+              {/* Confirm password field */}
+              <div>
+                <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+                  Confirm new password
+                </label>
+                <input
+                  id="confirmPassword"
+                  name="confirmPassword"
+                  type="password"
+                  autoComplete="new-password"
+                  value={formData.confirmPassword}
+                  onChange={handleChange}
+                  className={inputClass('confirmPassword')}
+                  placeholder="Repeat the new password"
+                />
+                {errors.confirmPassword && (
+                  <p className="mt-1 text-sm text-red-600">{errors.confirmPassword}</p>
+                )}
+              </div>
+            </div>
+
+            {/* Submit button */}
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-blue-300 disabled:cursor-not-allowed transition-colors"
+            >
+              {isSubmitting ? 'Saving...' : 'Reset password'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
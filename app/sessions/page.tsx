@@ -0,0 +1,194 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import { useAuth } from '@/contexts/AuthContext';
+import { ApiResponse, ISession } from '@/types';
+
+export default function SessionsPage() {
+  const { logout } = useAuth();
+  const router = useRouter();
+
+  // State
+  const [sessions, setSessions] = useState<ISession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  // Fetch the user's active sessions
+  const fetchSessions = async () => {
+    try {
+      console.log('🔐 Fetching sessions...');
+
+      const response = await fetch('/api/sessions', {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        const result: ApiResponse<ISession[]> = await response.json();
+        if (result.success && result.data) {
+          setSessions(result.data);
+        }
+      } else {
+        console.error('Failed to fetch sessions');
+      }
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  // Sign one session out - signing out this one goes back to the login page
+  const revokeSession = async (session: ISession) => {
+    if (session.current && !confirm('This will sign you out on this device. Continue?')) return;
+
+    try {
+      setBusyId(session._id);
+      setError('');
+      setMessage('');
+
+      const response = await fetch(`/api/sessions/${session._id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      const result: ApiResponse<{ current: boolean }> = await response.json();
+
+      if (result.success) {
+        if (result.data?.current) {
+          await logout();
+          router.push('/login');
+          return;
+        }
+        setSessions(prev => prev.filter(existing => existing._id !== session._id));
+        setMessage(result.message || 'Session signed out');
+      } else {
+        setError(result.error || 'Failed to sign the session out');
+      }
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Sign out everywhere except here
+  const revokeOthers = async () => {
+    if (!confirm('Sign out all other sessions?')) return;
+
+    try {
+      setBusyId('all');
+      setError('');
+      setMessage('');
+
+      const response = await fetch('/api/sessions/revoke-all', {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      const result: ApiResponse<{ revoked: number }> = await response.json();
+
+      if (result.success) {
+        setSessions(prev => prev.filter(session => session.current));
+        setMessage(result.message || 'Other sessions signed out');
+      } else {
+        setError(result.error || 'Failed to sign the other sessions out');
+      }
+    } catch (error) {
+      console.error('Revoke sessions error:', error);
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const hasOthers = sessions.some(session => !session.current);
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <div className="px-4 sm:px-0 max-w-3xl">
+          {/* Header */}
+          <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Sessions</h1>
+              <p className="text-gray-600 mt-2">
+                Everywhere you&apos;re signed in. Sign out anything you don&apos;t recognise.
+              </p>
+            </div>
+            {hasOthers && (
+              <button
+                onClick={revokeOthers}
+                disabled={busyId !== null}
+                className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-red-300 disabled:cursor-not-allowed transition-colors"
+              >
+                {busyId === 'all' ? 'Signing out...' : 'Sign out all other sessions'}
+              </button>
+            )}
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+              <p className="text-red-700">{error}</p>
+            </div>
+          )}
+          {message && (
+            <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-6">
+              <p className="text-green-700">{message}</p>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="bg-white rounded-lg shadow p-8 text-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+              <p className="mt-2 text-gray-600">Loading sessions...</p>
+            </div>
+          ) : sessions.length === 0 ? (
+            <div className="bg-white rounded-lg shadow p-8 text-center">
+              <p className="text-gray-600">Your sessions could not be loaded. Please try again later.</p>
+            </div>
+          ) : (
+            <ul className="bg-white rounded-lg shadow divide-y divide-gray-200">
+              {sessions.map(session => (
+                <li key={session._id} className="p-4 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900">
+                      {session.device}
+                      {session.current && (
+                        <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {session.ip} · last active {new Date(session.lastUsedAt).toLocaleString()} · signed in {new Date(session.createdAt).toLocaleDateString()}
+                    </p>
+                    <p className="text-xs text-gray-400 truncate" title={session.userAgent}>
+                      {session.userAgent}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => revokeSession(session)}
+                    disabled={busyId !== null}
+                    className="px-3 py-1 text-sm text-red-600 border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex-shrink-0"
+                  >
+                    {busyId === session._id ? 'Signing out...' : 'Sign out'}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,237 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import { ApiResponse, NotificationPrefs } from '@/types';
+
+type EmailToggle = 'emailReminders' | 'emailAssignments' | 'emailTaskChanges' | 'dailyDigest';
+
+const EMAIL_TOGGLES: { field: EmailToggle; label: string; description: string }[] = [
+  {
+    field: 'emailReminders',
+    label: 'Due-date reminders',
+    description: 'The reminders you set on tasks, as they go off',
+  },
+  {
+    field: 'emailAssignments',
+    label: 'Assignments',
+    description: 'When someone assigns you to a task',
+  },
+  {
+    field: 'emailTaskChanges',
+    label: 'Changes to your tasks',
+    description: 'When someone else changes a task you created',
+  },
+  {
+    field: 'dailyDigest',
+    label: 'Daily digest',
+    description: 'One email a day with your tasks due today and overdue - skipped when there are none',
+  },
+];
+
+// Hours of the day the digest can go out at
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+export default function SettingsPage() {
+  // State
+  const [prefs, setPrefs] = useState<NotificationPrefs | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const browserZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const timezones = Intl.supportedValuesOf('timeZone');
+
+  // Fetch the current settings
+  useEffect(() => {
+    const fetchPrefs = async () => {
+      try {
+        console.log('⚙️ Fetching notification settings...');
+
+        const response = await fetch('/api/settings/notifications', {
+          credentials: 'include',
+        });
+
+        if (response.ok) {
+          const result: ApiResponse<NotificationPrefs> = await response.json();
+          if (result.success && result.data) {
+            setPrefs(result.data);
+          }
+        } else {
+          console.error('Failed to fetch notification settings');
+        }
+      } catch (error) {
+        console.error('Error fetching notification settings:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchPrefs();
+  }, []);
+
+  const updatePrefs = (changes: Partial<NotificationPrefs>) => {
+    setPrefs(prev => prev ? { ...prev, ...changes } : prev);
+    setMessage('');
+  };
+
+  // Save all settings at once
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!prefs) return;
+
+    try {
+      setIsSaving(true);
+      setError('');
+      setMessage('');
+
+      const response = await fetch('/api/settings/notifications', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(prefs),
+      });
+
+      const result: ApiResponse<NotificationPrefs> = await response.json();
+
+      if (result.success && result.data) {
+        setPrefs(result.data);
+        setMessage(result.message || 'Settings saved');
+      } else {
+        setError(
+          result.fieldErrors
+            ? Object.values(result.fieldErrors).join(', ')
+            : result.error || 'Failed to save settings'
+        );
+      }
+    } catch (error) {
+      console.error('Save settings error:', error);
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <div className="px-4 sm:px-0 max-w-2xl">
+          {/* Header */}
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
+            <p className="text-gray-600 mt-2">
+              Choose which emails you get. Everything still shows up under 🔔 in the app.
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+              <p className="text-red-700">{error}</p>
+            </div>
+          )}
+          {message && (
+            <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-6">
+              <p className="text-green-700">{message}</p>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="bg-white rounded-lg shadow p-8 text-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+              <p className="mt-2 text-gray-600">Loading settings...</p>
+            </div>
+          ) : !prefs ? (
+            <div className="bg-white rounded-lg shadow p-8 text-center">
+              <p className="text-gray-600">Your settings could not be loaded. Please try again later.</p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-medium text-gray-900">Email Notifications</h2>
+              </div>
+
+              <div className="p-6 space-y-4">
+                {EMAIL_TOGGLES.map(({ field, label, description }) => (
+                  <label key={field} className="flex items-start gap-3">
+                    <input
+                      type="checkbox"
+                      checked={prefs[field]}
+                      onChange={(e) => updatePrefs({ [field]: e.target.checked })}
+                      className="mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span>
+                      <span className="block text-sm font-medium text-gray-900">{label}</span>
+                      <span className="block text-sm text-gray-500">{description}</span>
+                    </span>
+                  </label>
+                ))}
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 pt-4 border-t">
+                  <div>
+                    <label htmlFor="digestHour" className="block text-sm font-medium text-gray-700 mb-2">
+                      Digest time
+                    </label>
+                    <select
+                      id="digestHour"
+                      value={prefs.digestHour}
+                      onChange={(e) => updatePrefs({ digestHour: Number(e.target.value) })}
+                      disabled={!prefs.dailyDigest}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                    >
+                      {HOURS.map(hour => (
+                        <option key={hour} value={hour}>{hour}:00</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label htmlFor="timezone" className="block text-sm font-medium text-gray-700 mb-2">
+                      Time zone
+                    </label>
+                    <select
+                      id="timezone"
+                      value={prefs.timezone}
+                      onChange={(e) => updatePrefs({ timezone: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {/* UTC isn't always in the browser's list */}
+                      {!timezones.includes(prefs.timezone) && (
+                        <option value={prefs.timezone}>{prefs.timezone}</option>
+                      )}
+                      {timezones.map(zone => (
+                        <option key={zone} value={zone}>{zone}</option>
+                      ))}
+                    </select>
+                    {prefs.timezone !== browserZone && (
+                      <button
+                        type="button"
+                        onClick={() => updatePrefs({ timezone: browserZone })}
+                        className="mt-1 text-sm text-blue-600 hover:text-blue-800"
+                      >
+                        Use {browserZone}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              <div className="px-6 py-4 border-t flex justify-end">
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isSaving ? 'Saving...' : 'Save Settings'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,198 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import { ApiResponse, TagCount, RenameTagData } from '@/types';
+
+export default function TagsPage() {
+  // State
+  const [tags, setTags] = useState<TagCount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingTag, setEditingTag] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  // Fetch tags with usage counts
+  const fetchTags = async () => {
+    try {
+      console.log('🏷️ Fetching tags...');
+
+      const response = await fetch('/api/tasks/tags', {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        const result: ApiResponse<TagCount[]> = await response.json();
+        if (result.success && result.data) {
+          setTags(result.data);
+        }
+      } else {
+        console.error('Failed to fetch tags');
+      }
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTags();
+  }, []);
+
+  // Start renaming a tag
+  const startEditing = (tag: string) => {
+    setEditingTag(tag);
+    setNewName(tag);
+    setError('');
+    setMessage('');
+  };
+
+  // Rename (or merge, when the new name is already in use) on every task
+  const renameTag = async () => {
+    if (!editingTag) return;
+
+    const to = newName.trim().toLowerCase();
+    if (!to || to === editingTag) {
+      setEditingTag(null);
+      return;
+    }
+
+    if (
+      tags.some(tag => tag.name === to) &&
+      !confirm(`"${to}" already exists. Merge "${editingTag}" into it?`)
+    ) {
+      return;
+    }
+
+    try {
+      const data: RenameTagData = { from: editingTag, to };
+
+      const response = await fetch('/api/tasks/tags', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(data),
+      });
+
+      const result: ApiResponse = await response.json();
+
+      if (result.success) {
+        setMessage(result.message || 'Tag renamed');
+        setEditingTag(null);
+        fetchTags();
+      } else {
+        setError(
+          result.fieldErrors
+            ? Object.values(result.fieldErrors).join(', ')
+            : result.error || 'Failed to rename tag'
+        );
+      }
+    } catch (error) {
+      console.error('Rename tag error:', error);
+      setError('Something went wrong. Please try again.');
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <div className="px-4 sm:px-0">
+          {/* Header */}
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900">Tags</h1>
+            <p className="text-gray-600 mt-2">
+              Rename tags across all your tasks, or rename one onto another to merge them.
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+              <p className="text-red-700">{error}</p>
+            </div>
+          )}
+          {message && (
+            <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-6">
+              <p className="text-green-700">{message}</p>
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow">
+            {isLoading ? (
+              <div className="p-8 text-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+                <p className="mt-2 text-gray-600">Loading tags...</p>
+              </div>
+            ) : tags.length === 0 ? (
+              <div className="p-8 text-center">
+                <div className="text-4xl mb-4">🏷️</div>
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No tags yet</h3>
+                <p className="text-gray-600">Add tags to your tasks when creating or editing them.</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {tags.map((tag) => (
+                  <li key={tag.name} className="p-4 flex items-center justify-between gap-4">
+                    {editingTag === tag.name ? (
+                      <div className="flex flex-1 items-center gap-2">
+                        <input
+                          type="text"
+                          value={newName}
+                          onChange={(e) => setNewName(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') renameTag();
+                            if (e.key === 'Escape') setEditingTag(null);
+                          }}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          maxLength={30}
+                          autoFocus
+                        />
+                        <button
+                          onClick={renameTag}
+                          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                        >
+                          Save
+                        </button>
+                        <button
+                          onClick={() => setEditingTag(null)}
+                          className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    ) : (
+                      <>
+                        <Link
+                          href={`/tasks?tags=${encodeURIComponent(tag.name)}`}
+                          className="inline-flex items-center px-2.5 py-0.5 rounded-full text-sm font-medium bg-indigo-100 text-indigo-800 hover:bg-indigo-200"
+                        >
+                          #{tag.name}
+                        </Link>
+                        <div className="flex items-center gap-4">
+                          <span className="text-sm text-gray-500">
+                            {tag.count} task{tag.count !== 1 ? 's' : ''}
+                          </span>
+                          <button
+                            onClick={() => startEditing(tag.name)}
+                            className="text-gray-600 hover:text-gray-800 text-sm font-medium"
+                          >
+                            Rename
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
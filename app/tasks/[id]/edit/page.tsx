@@ -4,7 +4,21 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import DashboardLayout from '@/components/DashboardLayout';
-import { UpdateTaskData, TaskPriority, TaskCategory, TaskStatus, ApiResponse, ITask } from '@/types';
+import RecurrencePicker from '@/components/RecurrencePicker';
+import EstimatePicker, { validateEstimate } from '@/components/EstimatePicker';
+import ReminderPicker, { validateReminders } from '@/components/ReminderPicker';
+import TagInput from '@/components/TagInput';
+import AssigneePicker from '@/components/AssigneePicker';
+import AssigneeChips from '@/components/AssigneeChips';
+import { useCategories } from '@/hooks/useCategories';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProjects } from '@/contexts/ProjectContext';
+import { canAssignTask, hasPermission } from '@/lib/permissions';
+import SubtaskProgress from '@/components/SubtaskProgress';
+import CommentThread from '@/components/CommentThread';
+import ActivityTimeline from '@/components/ActivityTimeline';
+import TimeEntries from '@/components/TimeEntries';
+import { UpdateTaskData, TaskPriority, TaskStatus, ApiResponse, ITask, ISubtask, UserReference } from '@/types';
 
 interface EditTaskPageProps {
   params: { id: string };
@@ -13,15 +27,28 @@ interface EditTaskPageProps {
 export default function EditTaskPage({ params }: EditTaskPageProps) {
   const router = useRouter();
   const [taskId, setTaskId] = useState<string>('');
+  const { categories } = useCategories();
+  const { user } = useAuth();
+  const { getRole, getMembers } = useProjects();
+  const [projectId, setProjectId] = useState<string>('');
+  const [createdBy, setCreatedBy] = useState<UserReference | null>(null);
+  const [archivedAt, setArchivedAt] = useState<Date | null>(null);
+  const [archiveError, setArchiveError] = useState('');
   
   // Form state
   const [formData, setFormData] = useState<UpdateTaskData>({
     title: '',
     description: '',
     priority: TaskPriority.MEDIUM,
-    category: TaskCategory.PERSONAL,
+    category: '',
     status: TaskStatus.PENDING,
     dueDate: '',
+    recurrence: null,
+    estimate: null,
+    reminders: [],
+    tags: [],
+    blockedBy: [],
+    assignees: [],
   });
   
   // UI state
@@ -29,6 +56,14 @@ export default function EditTaskPage({ params }: EditTaskPageProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // Other tasks that can be picked as blockers
+  const [otherTasks, setOtherTasks] = useState<ITask[]>([]);
+
+  // Checklist state - saved immediately through the subtask endpoints
+  const [subtasks, setSubtasks] = useState<ISubtask[]>([]);
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState('');
+  const [subtaskError, setSubtaskError] = useState('');
+
   // Load task data
   useEffect(() => {
     const loadTask = async () => {
@@ -53,7 +88,48 @@ export default function EditTaskPage({ params }: EditTaskPageProps) {
               category: task.category,
               status: task.status,
               dueDate: task.dueDate ? new Date(task.dueDate).toISOString().split('T')[0] : '',
+              recurrence: task.recurrence
+                ? {
+                    frequency: task.recurrence.frequency,
+                    interval: task.recurrence.interval,
+                    byWeekday: task.recurrence.byWeekday?.length ? task.recurrence.byWeekday : undefined,
+                    byMonthDay: task.recurrence.byMonthDay || undefined,
+                    bySetPos: task.recurrence.bySetPos || undefined,
+                    count: task.recurrence.count || undefined,
+                    until: task.recurrence.until
+                      ? new Date(task.recurrence.until).toISOString().split('T')[0]
+                      : undefined,
+                  }
+                : null,
+              estimate: task.estimate ? { value: task.estimate.value, unit: task.estimate.unit } : null,
+              reminders: task.reminders || [],
+              tags: task.tags || [],
+              blockedBy: (task.blockedBy || []).map(blocker => blocker._id),
+              assignees: (task.assignees || []).map(assignee => assignee._id),
             });
+            setSubtasks(task.subtasks || []);
+            setProjectId(task.projectId);
+            setCreatedBy(task.createdBy || null);
+            setArchivedAt(task.archivedAt || null);
+
+            // Load the rest of the user's tasks for the blocker picker, following
+            // cursors until every page is in
+            const loaded: ITask[] = [];
+            const tasksParams = new URLSearchParams({ sort: 'title', limit: '100' });
+            let cursor: string | null = null;
+            do {
+              if (cursor) tasksParams.set('cursor', cursor);
+              const tasksResponse = await fetch(`/api/tasks?${tasksParams.toString()}`, {
+                credentials: 'include',
+              });
+              if (!tasksResponse.ok) break;
+
+              const tasksResult: ApiResponse<ITask[]> = await tasksResponse.json();
+              loaded.push(...(tasksResult.data || []));
+              cursor = tasksResult.pagination?.nextCursor ?? null;
+            } while (cursor);
+            setOtherTasks(loaded.filter(other => other._id !== task._id));
+
             console.log('✅ Task loaded for editing');
           }
         } else {
@@ -112,6 +188,26 @@ export default function EditTaskPage({ params }: EditTaskPageProps) {
       }
     }
 
+    if (formData.recurrence) {
+      if (!formData.dueDate) {
+        newErrors.recurrence = 'Recurring tasks need a due date';
+      } else if (formData.recurrence.until === '') {
+        newErrors.recurrence = 'Please pick an end date';
+      } else if (formData.recurrence.until && formData.recurrence.until < formData.dueDate) {
+        newErrors.recurrence = 'End date must be after the due date';
+      }
+    }
+
+    const estimateError = validateEstimate(formData.estimate);
+    if (estimateError) {
+      newErrors.estimate = estimateError;
+    }
+
+    const remindersError = validateReminders(formData.reminders, formData.dueDate);
+    if (remindersError) {
+      newErrors.reminders = remindersError;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -144,7 +240,10 @@ export default function EditTaskPage({ params }: EditTaskPageProps) {
         router.push('/tasks');
       } else {
         setErrors({
-          submit: result.error || 'Failed to update task. Please try again.'
+          ...result.fieldErrors,
+          submit: result.details
+            ? `${result.error}: ${result.details}`
+            : result.error || 'Failed to update task. Please try again.'
         });
       }
     } catch (error) {
@@ -157,9 +256,98 @@ export default function EditTaskPage({ params }: EditTaskPageProps) {
     }
   };
 
+  // Archive the task or bring it back - status and board position stay as they are
+  const toggleArchived = async () => {
+    try {
+      setArchiveError('');
+
+      const response = await fetch(`/api/tasks/${taskId}/archive`, {
+        method: archivedAt ? 'DELETE' : 'POST',
+        credentials: 'include',
+      });
+
+      const result: ApiResponse<ITask> = await response.json();
+
+      if (result.success && result.data) {
+        setArchivedAt(result.data.archivedAt || null);
+      } else {
+        setArchiveError(result.error || 'Failed to update the task');
+      }
+    } catch (error) {
+      console.error('Archive error:', error);
+      setArchiveError('Something went wrong. Please try again.');
+    }
+  };
+
+  // Send a checklist change and sync local state with the returned task
+  const mutateSubtasks = async (url: string, method: string, body?: object) => {
+    try {
+      setSubtaskError('');
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+      const result: ApiResponse<ITask> = await response.json();
+
+      if (result.success && result.data) {
+        setSubtasks(result.data.subtasks || []);
+        return true;
+      }
+
+      setSubtaskError(result.error || 'Failed to update checklist');
+    } catch (error) {
+      console.error('Checklist update error:', error);
+      setSubtaskError('Something went wrong. Please try again.');
+    }
+    return false;
+  };
+
+  // Add a subtask to the end of the checklist
+  const addSubtask = async () => {
+    if (!newSubtaskTitle.trim()) return;
+
+    const added = await mutateSubtasks(`/api/tasks/${taskId}/subtasks`, 'POST', {
+      title: newSubtaskTitle,
+    });
+    if (added) setNewSubtaskTitle('');
+  };
+
+  // Toggle a subtask's completion
+  const toggleSubtask = (subtask: ISubtask) =>
+    mutateSubtasks(`/api/tasks/${taskId}/subtasks/${subtask._id}`, 'PATCH', {
+      completed: !subtask.completed,
+    });
+
+  // Remove a subtask
+  const removeSubtask = (subtask: ISubtask) =>
+    mutateSubtasks(`/api/tasks/${taskId}/subtasks/${subtask._id}`, 'DELETE');
+
+  // Move a subtask one position up or down
+  const moveSubtask = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= subtasks.length) return;
+
+    const ids = subtasks.map(subtask => subtask._id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+
+    return mutateSubtasks(`/api/tasks/${taskId}/subtasks`, 'PUT', { subtaskIds: ids });
+  };
+
   // Get today's date for min date input
   const today = new Date().toISOString().split('T')[0];
 
+  // The role in the task's project decides whether anything can be changed
+  // (editable until the projects have loaded - the server checks again anyway)
+  const role = getRole(projectId);
+  const canEdit = !role || hasPermission(role, 'task:update');
+  const canAssign = !role || canAssignTask(role, createdBy?._id === user?._id);
+
   if (isLoading) {
     return (
       <ProtectedRoute>
@@ -180,146 +368,341 @@ export default function EditTaskPage({ params }: EditTaskPageProps) {
       <DashboardLayout>
         <div className="px-4 sm:px-0">
           <div className="mb-8">
-            <h1 className="text-3xl font-bold text-gray-900">Edit Task</h1>
+            <h1 className="text-3xl font-bold text-gray-900">{canEdit ? 'Edit Task' : 'View Task'}</h1>
             <p className="text-gray-600 mt-2">
               Update your task details and keep everything organized.
             </p>
           </div>
 
-          <div className="bg-white shadow rounded-lg">
-            <form onSubmit={handleSubmit} className="p-6 space-y-6">
-              {/* Global error */}
-              {errors.submit && (
-                <div className="bg-red-50 border border-red-200 rounded-md p-4">
-                  <p className="text-red-700">{errors.submit}</p>
-                </div>
+          {!canEdit && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 mb-6">
+              <p className="text-yellow-800 text-sm">
+                👀 You have view-only access to this project, so this task can&apos;t be changed.
+              </p>
+            </div>
+          )}
+
+          {/* Archived tasks are hidden from the task list and dashboard until unarchived */}
+          {(archivedAt || canEdit) && (
+            <div className={`rounded-md p-4 mb-6 flex items-center justify-between gap-4 ${
+              archivedAt ? 'bg-gray-100 border border-gray-300' : 'border border-dashed border-gray-300'
+            }`}>
+              <p className="text-sm text-gray-700">
+                {archivedAt
+                  ? `📦 Archived on ${new Date(archivedAt).toLocaleDateString()} - hidden from the task list and dashboard.`
+                  : '📦 Archive this task to move it out of the active list without deleting it.'}
+                {archiveError && <span className="block text-red-600 mt-1">{archiveError}</span>}
+              </p>
+              {canEdit && (
+                <button
+                  type="button"
+                  onClick={toggleArchived}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+                >
+                  {archivedAt ? 'Unarchive' : 'Archive'}
+                </button>
               )}
+            </div>
+          )}
 
-              {/* Title field */}
-              <div>
-                <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-2">
-                  Task Title *
-                </label>
-                <input
-                  type="text"
-                  id="title"
-                  name="title"
-                  value={formData.title}
-                  onChange={handleChange}
-                  className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                    errors.title ? 'border-red-300' : 'border-gray-300'
-                  }`}
-                  placeholder="Enter your task title"
-                  maxLength={200}
-                />
-                {errors.title && (
-                  <p className="mt-1 text-sm text-red-600">{errors.title}</p>
+          <div className="bg-white shadow rounded-lg">
+            <form onSubmit={handleSubmit} className="p-6 space-y-6">
+              {/* Viewers get the form read-only */}
+              <fieldset disabled={!canEdit} className="space-y-6">
+                {/* Global error */}
+                {errors.submit && (
+                  <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                    <p className="text-red-700">{errors.submit}</p>
+                  </div>
                 )}
-              </div>
 
-              {/* Description field */}
-              <div>
-                <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-2">
-                  Description
-                </label>
-                <textarea
-                  id="description"
-                  name="description"
-                  value={formData.description}
-                  onChange={handleChange}
-                  rows={4}
-                  className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                    errors.description ? 'border-red-300' : 'border-gray-300'
-                  }`}
-                  placeholder="Describe your task (optional)"
-                  maxLength={1000}
-                />
-                {errors.description && (
-                  <p className="mt-1 text-sm text-red-600">{errors.description}</p>
-                )}
-              </div>
+                {/* Title field */}
+                <div>
+                  <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-2">
+                    Task Title *
+                  </label>
+                  <input
+                    type="text"
+                    id="title"
+                    name="title"
+                    value={formData.title}
+                    onChange={handleChange}
+                    className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      errors.title ? 'border-red-300' : 'border-gray-300'
+                    }`}
+                    placeholder="Enter your task title"
+                    maxLength={200}
+                  />
+                  {errors.title && (
+                    <p className="mt-1 text-sm text-red-600">{errors.title}</p>
+                  )}
+                </div>
 
-              {/* Status, Priority and Category row */}
-              <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
-                {/* Status field */}
+                {/* Description field */}
                 <div>
-                  <label htmlFor="status" className="block text-sm font-medium text-gray-700 mb-2">
-                    Status
+                  <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-2">
+                    Description
                   </label>
-                  <select
-                    id="status"
-                    name="status"
-                    value={formData.status}
+                  <textarea
+                    id="description"
+                    name="description"
+                    value={formData.description}
                     onChange={handleChange}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  >
-                    <option value={TaskStatus.PENDING}>⏳ Pending</option>
-                    <option value={TaskStatus.IN_PROGRESS}>🔄 In Progress</option>
-                    <option value={TaskStatus.COMPLETED}>✅ Completed</option>
-                  </select>
+                    rows={4}
+                    className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      errors.description ? 'border-red-300' : 'border-gray-300'
+                    }`}
+                    placeholder="Describe your task (optional)"
+                    maxLength={1000}
+                  />
+                  {errors.description && (
+                    <p className="mt-1 text-sm text-red-600">{errors.description}</p>
+                  )}
+                </div>
+
+                {/* Status, Priority and Category row */}
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+                  {/* Status field */}
+                  <div>
+                    <label htmlFor="status" className="block text-sm font-medium text-gray-700 mb-2">
+                      Status
+                    </label>
+                    <select
+                      id="status"
+                      name="status"
+                      value={formData.status}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value={TaskStatus.PENDING}>⏳ Pending</option>
+                      <option value={TaskStatus.IN_PROGRESS}>🔄 In Progress</option>
+                      <option value={TaskStatus.COMPLETED}>✅ Completed</option>
+                    </select>
+                  </div>
+
+                  {/* Priority field */}
+                  <div>
+                    <label htmlFor="priority" className="block text-sm font-medium text-gray-700 mb-2">
+                      Priority
+                    </label>
+                    <select
+                      id="priority"
+                      name="priority"
+                      value={formData.priority}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value={TaskPriority.LOW}>🟢 Low</option>
+                      <option value={TaskPriority.MEDIUM}>🟡 Medium</option>
+                      <option value={TaskPriority.HIGH}>🟠 High</option>
+                      <option value={TaskPriority.URGENT}>🔴 Urgent</option>
+                    </select>
+                  </div>
+
+                  {/* Category field */}
+                  <div>
+                    <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-2">
+                      Category
+                    </label>
+                    <select
+                      id="category"
+                      name="category"
+                      value={formData.category}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {categories.map((category) => (
+                        <option key={category._id} value={category.key}>
+                          {category.icon} {category.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
 
-                {/* Priority field */}
+                {/* Estimate field */}
                 <div>
-                  <label htmlFor="priority" className="block text-sm font-medium text-gray-700 mb-2">
-                    Priority
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Estimate
                   </label>
-                  <select
-                    id="priority"
-                    name="priority"
-                    value={formData.priority}
+                  <EstimatePicker
+                    value={formData.estimate}
+                    onChange={(estimate) => {
+                      setFormData(prev => ({ ...prev, estimate }));
+                      if (errors.estimate) {
+                        setErrors(prev => ({ ...prev, estimate: '' }));
+                      }
+                    }}
+                    error={errors.estimate}
+                  />
+                </div>
+
+                {/* Assignees field */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Assignees
+                  </label>
+                  {canAssign ? (
+                    <AssigneePicker
+                      value={formData.assignees || []}
+                      onChange={(assignees) => setFormData(prev => ({ ...prev, assignees }))}
+                      members={getMembers(projectId)}
+                      currentUserId={user?._id}
+                    />
+                  ) : (
+                    <>
+                      <AssigneeChips
+                        assignees={getMembers(projectId).filter(member => formData.assignees?.includes(member._id))}
+                        max={10}
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Only the task&apos;s creator and project admins can reassign it.
+                      </p>
+                    </>
+                  )}
+                  {errors.assignees && (
+                    <p className="mt-1 text-sm text-red-600">{errors.assignees}</p>
+                  )}
+                  {createdBy && (
+                    <p className="mt-1 text-sm text-gray-500">
+                      Created by {createdBy._id === user?._id ? 'you' : createdBy.name}
+                    </p>
+                  )}
+                </div>
+
+                {/* Tags field */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Tags
+                  </label>
+                  <TagInput
+                    value={formData.tags || []}
+                    onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
+                    placeholder="e.g. client-a, sprint-12, backend"
+                  />
+                  <p className="mt-1 text-sm text-gray-500">
+                    Press Enter or comma to add a tag
+                  </p>
+                </div>
+
+                {/* Due date field */}
+                <div>
+                  <label htmlFor="dueDate" className="block text-sm font-medium text-gray-700 mb-2">
+                    Due Date
+                  </label>
+                  <input
+                    type="date"
+                    id="dueDate"
+                    name="dueDate"
+                    value={formData.dueDate}
                     onChange={handleChange}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  >
-                    <option value={TaskPriority.LOW}>🟢 Low</option>
-                    <option value={TaskPriority.MEDIUM}>🟡 Medium</option>
-                    <option value={TaskPriority.HIGH}>🟠 High</option>
-                    <option value={TaskPriority.URGENT}>🔴 Urgent</option>
-                  </select>
+                    min={today}
+                    className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      errors.dueDate ? 'border-red-300' : 'border-gray-300'
+                    }`}
+                  />
+                  {errors.dueDate && (
+                    <p className="mt-1 text-sm text-red-600">{errors.dueDate}</p>
+                  )}
+                </div>
+
+                {/* Recurrence field */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Repeat
+                  </label>
+                  <RecurrencePicker
+                    value={formData.recurrence}
+                    onChange={(recurrence) => {
+                      setFormData(prev => ({ ...prev, recurrence }));
+                      if (errors.recurrence) {
+                        setErrors(prev => ({ ...prev, recurrence: '' }));
+                      }
+                    }}
+                    error={errors.recurrence}
+                  />
+                </div>
+
+                {/* Reminders field */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Reminders
+                  </label>
+                  <ReminderPicker
+                    value={formData.reminders || []}
+                    onChange={(reminders) => {
+                      setFormData(prev => ({ ...prev, reminders }));
+                      if (errors.reminders) {
+                        setErrors(prev => ({ ...prev, reminders: '' }));
+                      }
+                    }}
+                    hasDueDate={!!formData.dueDate}
+                    error={errors.reminders}
+                  />
                 </div>
 
-                {/* Category field */}
+                {/* Blocked by field */}
                 <div>
-                  <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-2">
-                    Category
+                  <label htmlFor="blockedBy" className="block text-sm font-medium text-gray-700 mb-2">
+                    Blocked By
                   </label>
+                  {formData.blockedBy && formData.blockedBy.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-2">
+                      {formData.blockedBy.map((blockerId) => {
+                        const blocker = otherTasks.find(other => other._id === blockerId);
+                        return (
+                          <span
+                            key={blockerId}
+                            className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-sm ${
+                              blocker?.status === TaskStatus.COMPLETED
+                                ? 'bg-green-100 text-green-800'
+                                : 'bg-gray-100 text-gray-800'
+                            }`}
+                          >
+                            {blocker?.title || 'Unknown task'}
+                            <button
+                              type="button"
+                              onClick={() => setFormData(prev => ({
+                                ...prev,
+                                blockedBy: prev.blockedBy?.filter(id => id !== blockerId),
+                              }))}
+                              className="text-gray-500 hover:text-gray-700"
+                              aria-label="Remove blocker"
+                            >
+                              ×
+                            </button>
+                          </span>
+                        );
+                      })}
+                    </div>
+                  )}
                   <select
-                    id="category"
-                    name="category"
-                    value={formData.category}
-                    onChange={handleChange}
+                    id="blockedBy"
+                    value=""
+                    onChange={(e) => {
+                      const blockerId = e.target.value;
+                      if (!blockerId) return;
+                      setFormData(prev => ({
+                        ...prev,
+                        blockedBy: [...(prev.blockedBy || []), blockerId],
+                      }));
+                    }}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                   >
-                    <option value={TaskCategory.WORK}>💼 Work</option>
-                    <option value={TaskCategory.PERSONAL}>👤 Personal</option>
-                    <option value={TaskCategory.HEALTH}>🏥 Health</option>
-                    <option value={TaskCategory.FINANCE}>💰 Finance</option>
-                    <option value={TaskCategory.LEARNING}>📚 Learning</option>
-                    <option value={TaskCategory.OTHER}>📌 Other</option>
+                    <option value="">Add a blocking task...</option>
+                    {otherTasks
+                      .filter(other => !formData.blockedBy?.includes(other._id))
+                      .map((other) => (
+                        <option key={other._id} value={other._id}>
+                          {other.title}
+                        </option>
+                      ))}
                   </select>
+                  <p className="mt-1 text-sm text-gray-500">
+                    This task can&apos;t be started until every blocking task is completed.
+                  </p>
                 </div>
-              </div>
-
-              {/* Due date field */}
-              <div>
-                <label htmlFor="dueDate" className="block text-sm font-medium text-gray-700 mb-2">
-                  Due Date
-                </label>
-                <input
-                  type="date"
-                  id="dueDate"
-                  name="dueDate"
-                  value={formData.dueDate}
-                  onChange={handleChange}
-                  min={today}
-                  className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                    errors.dueDate ? 'border-red-300' : 'border-gray-300'
-                  }`}
-                />
-                {errors.dueDate && (
-                  <p className="mt-1 text-sm text-red-600">{errors.dueDate}</p>
-                )}
-              </div>
+              </fieldset>
 
               {/* Submit buttons */}
               <div className="flex justify-end space-x-4 pt-6 border-t">
@@ -328,19 +711,123 @@ export default function EditTaskPage({ params }: EditTaskPageProps) {
                   onClick={() => router.push('/tasks')}
                   className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
                 >
-                  Cancel
+                  {canEdit ? 'Cancel' : 'Back'}
                 </button>
                 
-                <button
-                  type="submit"
-                  disabled={isSubmitting}
-                  className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed transition-colors"
-                >
-                  {isSubmitting ? 'Updating...' : 'Update Task'}
-                </button>
+                {canEdit && (
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {isSubmitting ? 'Updating...' : 'Update Task'}
+                  </button>
+                )}
               </div>
             </form>
           </div>
+
+          {/* Checklist */}
+          <div className="bg-white shadow rounded-lg mt-6">
+            <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+              <h2 className="text-lg font-medium text-gray-900">Checklist</h2>
+              <SubtaskProgress subtasks={subtasks} />
+            </div>
+            <div className="p-6 space-y-4">
+              {subtaskError && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                  <p className="text-red-700">{subtaskError}</p>
+                </div>
+              )}
+
+              {subtasks.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  No subtasks yet. Break this task down into smaller steps below.
+                </p>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {subtasks.map((subtask, index) => (
+                    <li key={subtask._id} className="flex items-center gap-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={subtask.completed}
+                        onChange={() => toggleSubtask(subtask)}
+                        disabled={!canEdit}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                      <span className={`flex-1 ${subtask.completed ? 'line-through text-gray-500' : 'text-gray-900'}`}>
+                        {subtask.title}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => moveSubtask(index, -1)}
+                        disabled={!canEdit || index === 0}
+                        className="text-gray-500 hover:text-gray-700 disabled:text-gray-300 text-sm"
+                        aria-label="Move up"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveSubtask(index, 1)}
+                        disabled={!canEdit || index === subtasks.length - 1}
+                        className="text-gray-500 hover:text-gray-700 disabled:text-gray-300 text-sm"
+                        aria-label="Move down"
+                      >
+                        ↓
+                      </button>
+                      {canEdit && (
+                        <button
+                          type="button"
+                          onClick={() => removeSubtask(subtask)}
+                          className="text-red-600 hover:text-red-800 text-sm font-medium"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {canEdit && (
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={newSubtaskTitle}
+                    onChange={(e) => setNewSubtaskTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        addSubtask();
+                      }
+                    }}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Add a subtask"
+                    maxLength={200}
+                  />
+                  <button
+                    type="button"
+                    onClick={addSubtask}
+                    disabled={!newSubtaskTitle.trim()}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Add
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Time spent */}
+          {taskId && projectId && <TimeEntries taskId={taskId} projectId={projectId} />}
+
+          {/* Discussion */}
+          {taskId && projectId && <CommentThread taskId={taskId} projectId={projectId} />}
+
+          {/* History - reloads as the checklist changes */}
+          {/* Remounted on archive/unarchive so the history picks up the new entry */}
+          {taskId && <ActivityTimeline key={String(archivedAt)} taskId={taskId} refreshKey={subtasks} />}
         </div>
       </DashboardLayout>
     </ProtectedRoute>
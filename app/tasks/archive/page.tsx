@@ -0,0 +1,185 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import CategoryBadge from '@/components/CategoryBadge';
+import AssigneeChips from '@/components/AssigneeChips';
+import { useCategories } from '@/hooks/useCategories';
+import { useProjects } from '@/contexts/ProjectContext';
+import { ApiResponse, ITask } from '@/types';
+
+// Tasks fetched per page
+const PAGE_SIZE = 25;
+
+export default function ArchivePage() {
+  const { getCategory } = useCategories();
+  const { currentProject, can } = useProjects();
+  const canUpdate = can('task:update');
+
+  // State
+  const [tasks, setTasks] = useState<ITask[]>([]);
+  const [totalTasks, setTotalTasks] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  // Fetch the first page of archived tasks, most recently archived first, or the page after `cursor`
+  const fetchArchive = async (cursor?: string) => {
+    try {
+      if (cursor) {
+        setIsLoadingMore(true);
+      }
+      console.log('📦 Fetching archive...');
+
+      const queryParams = new URLSearchParams({ archived: 'true', sort: 'archivedAt', limit: String(PAGE_SIZE) });
+      if (cursor) queryParams.append('cursor', cursor);
+
+      const response = await fetch(`/api/tasks?${queryParams.toString()}`, {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        const result: ApiResponse<ITask[]> = await response.json();
+        if (result.success && result.data) {
+          const page = result.data;
+          setTasks(prev => cursor ? [...prev, ...page] : page);
+          setNextCursor(result.pagination?.nextCursor ?? null);
+          setTotalTasks(result.pagination?.total ?? page.length);
+        }
+      } else {
+        console.error('Failed to fetch archive');
+      }
+    } catch (error) {
+      console.error('Error fetching archive:', error);
+    } finally {
+      setIsLoading(false);
+      setIsLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchArchive();
+  }, [currentProject?._id]);
+
+  // Put a task back in the active list, with the status and board position it had
+  const unarchiveTask = async (taskId: string) => {
+    try {
+      setError('');
+      setBusyId(taskId);
+
+      const response = await fetch(`/api/tasks/${taskId}/archive`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      const result: ApiResponse = await response.json();
+
+      if (result.success) {
+        setTasks(prev => prev.filter(task => task._id !== taskId));
+        setTotalTasks(prev => prev - 1);
+      } else {
+        setError(result.error || 'Failed to unarchive task');
+      }
+    } catch (error) {
+      console.error('Unarchive error:', error);
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <div className="px-4 sm:px-0">
+          {/* Header */}
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900">Archive</h1>
+            <p className="text-gray-600 mt-2">
+              Archived tasks are out of the task list and dashboard. Completed tasks are archived automatically after a while.
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+              <p className="text-red-700">{error}</p>
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow">
+            {isLoading ? (
+              <div className="p-8 text-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+                <p className="mt-2 text-gray-600">Loading archive...</p>
+              </div>
+            ) : tasks.length === 0 ? (
+              <div className="p-8 text-center">
+                <div className="text-4xl mb-4">📦</div>
+                <h3 className="text-lg font-medium text-gray-900 mb-2">Nothing archived yet</h3>
+                <p className="text-gray-600">Archive completed tasks from the task list to keep it focused on live work.</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {tasks.map((task) => (
+                  <li key={task._id} className="p-4 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{task.title}</p>
+                      <div className="mt-1 flex flex-wrap items-center gap-3 text-sm text-gray-500">
+                        <CategoryBadge category={getCategory(task.category)} categoryKey={task.category} />
+                        <span>{task.status.replace('_', ' ')}</span>
+                        <AssigneeChips assignees={task.assignees} />
+                        {task.completedAt && <span>Completed {new Date(task.completedAt).toLocaleDateString()}</span>}
+                        <span>Archived {new Date(task.archivedAt!).toLocaleDateString()}</span>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <Link
+                        href={`/tasks/${task._id}/edit`}
+                        className="text-gray-600 hover:text-gray-800 text-sm font-medium"
+                      >
+                        View
+                      </Link>
+                      {canUpdate && (
+                        <button
+                          onClick={() => unarchiveTask(task._id)}
+                          disabled={busyId === task._id}
+                          className="text-blue-600 hover:text-blue-800 text-sm font-medium disabled:text-gray-400"
+                        >
+                          Unarchive
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Next page */}
+          {!isLoading && nextCursor && (
+            <div className="mt-4 text-center">
+              <button
+                onClick={() => fetchArchive(nextCursor)}
+                disabled={isLoadingMore}
+                className="text-blue-600 hover:text-blue-800 font-medium disabled:text-gray-400"
+              >
+                {isLoadingMore ? 'Loading more tasks...' : 'Load more'}
+              </button>
+            </div>
+          )}
+
+          {/* Task count */}
+          {!isLoading && tasks.length > 0 && (
+            <div className="mt-4 text-center text-gray-600">
+              Showing {tasks.length} of {totalTasks} archived task{totalTasks !== 1 ? 's' : ''}
+            </div>
+          )}
+        </div>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,399 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import SubtaskProgress from '@/components/SubtaskProgress';
+import CategoryBadge from '@/components/CategoryBadge';
+import AssigneeChips from '@/components/AssigneeChips';
+import { useCategories } from '@/hooks/useCategories';
+import { useProjects } from '@/contexts/ProjectContext';
+import { ITask, TaskStatus, TaskPriority, ApiResponse, MoveTaskData } from '@/types';
+
+// One column per status, in workflow order
+const COLUMNS = [
+  { status: TaskStatus.PENDING, title: 'Pending', accent: 'border-gray-400' },
+  { status: TaskStatus.IN_PROGRESS, title: 'In Progress', accent: 'border-blue-500' },
+  { status: TaskStatus.COMPLETED, title: 'Completed', accent: 'border-green-500' },
+];
+
+// Cards fetched per column page
+const PAGE_SIZE = 50;
+
+// List filters the board understands - status is what the columns are for
+const FILTER_KEYS = ['priority', 'category', 'assignee', 'tags', 'tagMode', 'q'];
+
+interface ColumnState {
+  tasks: ITask[];
+  total: number;
+  nextCursor: string | null;
+}
+
+const EMPTY_COLUMN: ColumnState = { tasks: [], total: 0, nextCursor: null };
+
+export default function TaskBoardPage() {
+  const searchParams = useSearchParams();
+  const { getCategory } = useCategories();
+  const { currentProject, getMembers } = useProjects();
+
+  // Filters come from the URL, so the list and the board share them
+  const filterQuery = new URLSearchParams();
+  FILTER_KEYS.forEach((key) => {
+    const value = searchParams.get(key);
+    if (value) filterQuery.set(key, value);
+  });
+  const statusFilter = searchParams.get('status');
+  const visibleColumns = COLUMNS.filter(column => !statusFilter || column.status === statusFilter);
+
+  // State
+  const [columns, setColumns] = useState<Record<string, ColumnState>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [dragged, setDragged] = useState<ITask | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ status: TaskStatus; index: number } | null>(null);
+  const [error, setError] = useState('');
+
+  // Fetch one page of a column, appending when a cursor is given
+  const fetchColumn = async (status: TaskStatus, cursor?: string) => {
+    const queryParams = new URLSearchParams(filterQuery);
+    queryParams.set('status', status);
+    queryParams.set('sort', 'position');
+    queryParams.set('limit', String(PAGE_SIZE));
+    if (cursor) queryParams.set('cursor', cursor);
+
+    const response = await fetch(`/api/tasks?${queryParams.toString()}`, {
+      credentials: 'include',
+    });
+    if (!response.ok) throw new Error('Failed to fetch tasks');
+
+    const result: ApiResponse<ITask[]> = await response.json();
+    const page = result.data || [];
+
+    setColumns(prev => ({
+      ...prev,
+      [status]: {
+        tasks: cursor ? [...(prev[status]?.tasks || []), ...page] : page,
+        total: result.pagination?.total ?? page.length,
+        nextCursor: result.pagination?.nextCursor ?? null,
+      },
+    }));
+  };
+
+  // Fetch every visible column
+  const fetchBoard = async () => {
+    try {
+      console.log('🗂️ Fetching board...');
+      await Promise.all(visibleColumns.map(column => fetchColumn(column.status)));
+    } catch (error) {
+      console.error('Error fetching board:', error);
+      setError('Failed to load the board. Please refresh the page.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBoard();
+  }, [searchParams, currentProject?._id]);
+
+  // Work out where a dragged card would land from the pointer position over a card
+  const handleCardDragOver = (e: React.DragEvent<HTMLDivElement>, status: TaskStatus, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const below = e.clientY > rect.top + rect.height / 2;
+    setDropTarget({ status, index: below ? index + 1 : index });
+  };
+
+  // Dragging over a column's empty space drops at the end of it
+  const handleColumnDragOver = (e: React.DragEvent<HTMLDivElement>, status: TaskStatus) => {
+    e.preventDefault();
+    if (dropTarget?.status !== status) {
+      setDropTarget({ status, index: columns[status]?.tasks.length || 0 });
+    }
+  };
+
+  // Move the card locally, then persist the move; the board reloads if the server refuses
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const task = dragged;
+    const target = dropTarget;
+    setDragged(null);
+    setDropTarget(null);
+    if (!task || !target) return;
+
+    // Target column without the dragged card, so indexes match what the user sees
+    const targetTasks = (columns[target.status]?.tasks || []).filter(t => t._id !== task._id);
+    const sourceIndex = (columns[target.status]?.tasks || []).findIndex(t => t._id === task._id);
+    const index = sourceIndex !== -1 && sourceIndex < target.index ? target.index - 1 : target.index;
+
+    // Dropped back where it was
+    if (task.status === target.status && sourceIndex === index) return;
+
+    const data: MoveTaskData = {
+      status: target.status,
+      prevId: targetTasks[index - 1]?._id || null,
+      nextId: targetTasks[index]?._id || null,
+    };
+
+    const movedTask = { ...task, status: target.status };
+    setColumns(prev => {
+      const source = prev[task.status] || EMPTY_COLUMN;
+      const next = { ...prev };
+      next[task.status] = {
+        ...source,
+        tasks: source.tasks.filter(t => t._id !== task._id),
+        total: source.total - 1,
+      };
+      const destination = next[target.status] || EMPTY_COLUMN;
+      next[target.status] = {
+        ...destination,
+        tasks: [...targetTasks.slice(0, index), movedTask, ...targetTasks.slice(index)],
+        total: destination.total + 1,
+      };
+      return next;
+    });
+
+    try {
+      setError('');
+      console.log(`🔄 Moving task ${task._id} to ${target.status}`);
+
+      const response = await fetch(`/api/tasks/${task._id}/move`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(data),
+      });
+
+      const result: ApiResponse<ITask> = await response.json();
+
+      if (result.success && result.data) {
+        const saved = result.data;
+        setColumns(prev => ({
+          ...prev,
+          [target.status]: {
+            ...prev[target.status],
+            tasks: prev[target.status].tasks.map(t => t._id === saved._id ? saved : t),
+          },
+        }));
+
+        // Completing a recurring task generates its next occurrence
+        if (target.status === TaskStatus.COMPLETED && saved.recurrence && task.status !== TaskStatus.COMPLETED) {
+          fetchColumn(TaskStatus.PENDING);
+        }
+      } else {
+        setError(result.error || 'Failed to move task');
+        fetchBoard();
+      }
+    } catch (error) {
+      console.error('Error moving task:', error);
+      setError('Something went wrong. Please try again.');
+      fetchBoard();
+    }
+  };
+
+  // Load the next page of a column
+  const loadMore = async (status: TaskStatus) => {
+    const cursor = columns[status]?.nextCursor;
+    if (!cursor) return;
+    try {
+      await fetchColumn(status, cursor);
+    } catch (error) {
+      console.error('Error fetching tasks:', error);
+    }
+  };
+
+  // Get priority color
+  const getPriorityColor = (priority: TaskPriority) => {
+    switch (priority) {
+      case TaskPriority.URGENT: return 'bg-red-100 text-red-800';
+      case TaskPriority.HIGH: return 'bg-orange-100 text-orange-800';
+      case TaskPriority.MEDIUM: return 'bg-yellow-100 text-yellow-800';
+      case TaskPriority.LOW: return 'bg-gray-100 text-gray-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  // Check if task is overdue
+  const isOverdue = (task: ITask) => {
+    if (!task.dueDate || task.status === TaskStatus.COMPLETED) return false;
+    return new Date(task.dueDate) < new Date();
+  };
+
+  // Blockers that still have to be completed before this task can start
+  const hasOpenBlockers = (task: ITask) =>
+    (task.blockedBy || []).some(blocker => blocker.status !== TaskStatus.COMPLETED);
+
+  const listQuery = searchParams.toString();
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <div className="px-4 sm:px-0">
+          {/* Header */}
+          <div className="mb-8 flex justify-between items-center">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Board</h1>
+              <p className="text-gray-600 mt-2">
+                Drag cards between columns to change their status, or within a column to reorder.
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <Link
+                href={`/tasks${listQuery ? `?${listQuery}` : ''}`}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                📝 List view
+              </Link>
+              <Link
+                href="/tasks/create"
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                ➕ New Task
+              </Link>
+            </div>
+          </div>
+
+          {/* Active filters, edited on the list view */}
+          {(filterQuery.toString() || statusFilter) && (
+            <div className="bg-white rounded-lg shadow mb-6 p-4 flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium text-gray-900">Filtered by:</span>
+              {statusFilter && <span className="px-2 py-1 bg-gray-100 rounded-md">status: {statusFilter.replace('_', ' ')}</span>}
+              {FILTER_KEYS.filter(key => key !== 'tagMode' && searchParams.get(key)).map((key) => (
+                <span key={key} className="px-2 py-1 bg-gray-100 rounded-md">
+                  {key === 'q' ? 'search' : key}:{' '}
+                  {key === 'assignee'
+                    ? getMembers().find(member => member._id === searchParams.get(key))?.name || searchParams.get(key)
+                    : searchParams.get(key)}
+                </span>
+              ))}
+              <Link href={`/tasks?${listQuery}`} className="text-blue-600 hover:text-blue-800 font-medium">
+                Change filters
+              </Link>
+              <Link href="/tasks/board" className="text-blue-600 hover:text-blue-800 font-medium">
+                Clear
+              </Link>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+              <p className="text-red-700">{error}</p>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="p-8 text-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+              <p className="mt-2 text-gray-600">Loading board...</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-start">
+              {visibleColumns.map(({ status, title, accent }) => {
+                const column = columns[status] || EMPTY_COLUMN;
+                const isTarget = dropTarget?.status === status;
+
+                return (
+                  <div
+                    key={status}
+                    onDragOver={(e) => handleColumnDragOver(e, status)}
+                    onDrop={handleDrop}
+                    className={`bg-gray-100 rounded-lg border-t-4 ${accent} p-3 min-h-[12rem] ${
+                      isTarget ? 'ring-2 ring-blue-300' : ''
+                    }`}
+                  >
+                    <div className="flex items-center justify-between mb-3 px-1">
+                      <h2 className="font-medium text-gray-900">{title}</h2>
+                      <span className="text-sm text-gray-500">{column.total}</span>
+                    </div>
+
+                    <div className="space-y-2">
+                      {column.tasks.map((task, index) => (
+                        <div key={task._id}>
+                          {/* Drop indicator */}
+                          {isTarget && dropTarget.index === index && (
+                            <div className="h-1 bg-blue-400 rounded-full mb-2" />
+                          )}
+                          <div
+                            draggable
+                            onDragStart={(e) => {
+                              e.dataTransfer.effectAllowed = 'move';
+                              setDragged(task);
+                            }}
+                            onDragEnd={() => {
+                              setDragged(null);
+                              setDropTarget(null);
+                            }}
+                            onDragOver={(e) => handleCardDragOver(e, status, index)}
+                            className={`bg-white rounded-md shadow-sm p-3 cursor-grab active:cursor-grabbing ${
+                              dragged?._id === task._id ? 'opacity-50' : ''
+                            } ${isOverdue(task) ? 'border-l-4 border-red-500' : ''}`}
+                          >
+                            <div className="flex items-start justify-between gap-2 mb-2">
+                              <Link
+                                href={`/tasks/${task._id}/edit`}
+                                className={`font-medium hover:text-blue-600 ${
+                                  task.status === TaskStatus.COMPLETED ? 'line-through text-gray-500' : 'text-gray-900'
+                                }`}
+                              >
+                                {task.title}
+                              </Link>
+                              {hasOpenBlockers(task) && (
+                                <span className="shrink-0 bg-gray-800 text-white text-xs font-medium px-2 py-0.5 rounded-full">
+                                  ⛔ Blocked
+                                </span>
+                              )}
+                            </div>
+                            <div className="flex flex-wrap items-center gap-2 text-xs">
+                              <span className={`inline-flex items-center px-2 py-0.5 rounded-full font-medium ${getPriorityColor(task.priority)}`}>
+                                {task.priority}
+                              </span>
+                              <CategoryBadge category={getCategory(task.category)} categoryKey={task.category} />
+                              {task.dueDate && (
+                                <span className={isOverdue(task) ? 'text-red-600 font-medium' : 'text-gray-500'}>
+                                  📅 {new Date(task.dueDate).toLocaleDateString()}
+                                </span>
+                              )}
+                              <SubtaskProgress subtasks={task.subtasks} />
+                              {task.tags?.map((tag) => (
+                                <span key={tag} className="px-2 py-0.5 rounded-full bg-indigo-100 text-indigo-800">
+                                  #{tag}
+                                </span>
+                              ))}
+                              {task.assignees.length > 0 && <AssigneeChips assignees={task.assignees} />}
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+
+                      {/* Drop indicator at the end of the column */}
+                      {isTarget && dropTarget.index === column.tasks.length && (
+                        <div className="h-1 bg-blue-400 rounded-full" />
+                      )}
+
+                      {column.tasks.length === 0 && !isTarget && (
+                        <p className="text-sm text-gray-500 text-center py-6">No tasks</p>
+                      )}
+                    </div>
+
+                    {column.nextCursor && (
+                      <button
+                        onClick={() => loadMore(status)}
+                        className="w-full mt-3 text-sm text-blue-600 hover:text-blue-800 font-medium"
+                      >
+                        Load more ({column.total - column.tasks.length} left)
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,362 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import { useProjects } from '@/contexts/ProjectContext';
+import { ITask, TaskStatus, TaskPriority, ApiResponse } from '@/types';
+
+type CalendarView = 'month' | 'week';
+
+// Weeks start on Monday, like the weekly recurrence rules
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Tasks shown per day in the month grid before collapsing into "+N more"
+const MAX_TASKS_PER_DAY = 3;
+
+// Local calendar day of a date in the grid, used to group tasks by day
+const toDayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Calendar day of a due date - due dates are days stored as midnight UTC, so the
+// UTC date is the day wherever the user is
+const toDueDayKey = (dueDate: Date | string) => new Date(dueDate).toISOString().split('T')[0];
+
+// Monday of the week containing `date`
+const startOfWeek = (date: Date) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+// Every day shown in the grid - whole weeks covering the month, or a single week
+const getVisibleDays = (anchor: Date, view: CalendarView) => {
+  const first = view === 'month'
+    ? startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1))
+    : startOfWeek(anchor);
+  const last = view === 'month'
+    ? new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0)
+    : new Date(first.getFullYear(), first.getMonth(), first.getDate() + 6);
+
+  const days: Date[] = [];
+  for (const day = new Date(first); day <= last || days.length % 7 !== 0; day.setDate(day.getDate() + 1)) {
+    days.push(new Date(day));
+  }
+  return days;
+};
+
+export default function TaskCalendarPage() {
+  const { currentProject } = useProjects();
+
+  // State
+  const [view, setView] = useState<CalendarView>('month');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [tasks, setTasks] = useState<ITask[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropDay, setDropDay] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const days = getVisibleDays(anchor, view);
+  const windowStart = days[0].getTime();
+  const todayKey = toDayKey(new Date());
+
+  // Fetch the tasks due in the visible window, following cursors until every page is in
+  const fetchTasks = async () => {
+    try {
+      setIsLoading(true);
+      console.log('📅 Fetching calendar tasks...');
+
+      const first = days[0];
+      const last = days[days.length - 1];
+      const queryParams = new URLSearchParams({
+        dueFrom: new Date(Date.UTC(first.getFullYear(), first.getMonth(), first.getDate())).toISOString(),
+        dueTo: new Date(Date.UTC(last.getFullYear(), last.getMonth(), last.getDate(), 23, 59, 59, 999)).toISOString(),
+        sort: 'dueDate',
+        order: 'asc',
+        limit: '100',
+      });
+
+      const loaded: ITask[] = [];
+      let cursor: string | null = null;
+      do {
+        if (cursor) queryParams.set('cursor', cursor);
+        const response = await fetch(`/api/tasks?${queryParams.toString()}`, {
+          credentials: 'include',
+        });
+        if (!response.ok) throw new Error('Failed to fetch tasks');
+
+        const result: ApiResponse<ITask[]> = await response.json();
+        loaded.push(...(result.data || []));
+        cursor = result.pagination?.nextCursor ?? null;
+      } while (cursor);
+
+      setTasks(loaded);
+      console.log(`✅ Loaded ${loaded.length} tasks for the calendar`);
+    } catch (error) {
+      console.error('Error fetching tasks:', error);
+      setError('Failed to load tasks. Please refresh the page.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTasks();
+  }, [view, windowStart, currentProject?._id]);
+
+  // Move the visible window back or forward by one month/week
+  const navigate = (direction: -1 | 1) => {
+    setAnchor(prev => view === 'month'
+      ? new Date(prev.getFullYear(), prev.getMonth() + direction, 1)
+      : new Date(prev.getFullYear(), prev.getMonth(), prev.getDate() + direction * 7));
+  };
+
+  // Open the week containing a day (from "+N more")
+  const showWeek = (day: Date) => {
+    setAnchor(day);
+    setView('week');
+  };
+
+  // Reschedule a task to the day it was dropped on
+  const rescheduleTask = async (taskId: string, dayKey: string) => {
+    const task = tasks.find(t => t._id === taskId);
+    if (!task?.dueDate || toDueDayKey(task.dueDate) === dayKey) return;
+
+    const previousDueDate = task.dueDate;
+    const [year, month, date] = dayKey.split('-').map(Number);
+    const dueDate = new Date(Date.UTC(year, month - 1, date));
+
+    // Move it right away, put it back if the server refuses
+    setTasks(prev => prev.map(t => t._id === taskId ? { ...t, dueDate } : t));
+
+    try {
+      setError('');
+      console.log(`📅 Rescheduling task ${taskId} to ${dayKey}`);
+
+      const response = await fetch(`/api/tasks/${taskId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ dueDate: dueDate.toISOString() }),
+      });
+
+      const result: ApiResponse<ITask> = await response.json();
+
+      if (result.success && result.data) {
+        const saved = result.data;
+        setTasks(prev => prev.map(t => t._id === taskId ? saved : t));
+      } else {
+        setTasks(prev => prev.map(t => t._id === taskId ? { ...t, dueDate: previousDueDate } : t));
+        setError(
+          result.fieldErrors
+            ? Object.values(result.fieldErrors).join(', ')
+            : result.error || 'Failed to reschedule task'
+        );
+      }
+    } catch (error) {
+      console.error('Error rescheduling task:', error);
+      setTasks(prev => prev.map(t => t._id === taskId ? { ...t, dueDate: previousDueDate } : t));
+      setError('Something went wrong. Please try again.');
+    }
+  };
+
+  // Get priority color
+  const getPriorityColor = (priority: TaskPriority) => {
+    switch (priority) {
+      case TaskPriority.URGENT: return 'bg-red-100 text-red-800 border-red-300';
+      case TaskPriority.HIGH: return 'bg-orange-100 text-orange-800 border-orange-300';
+      case TaskPriority.MEDIUM: return 'bg-yellow-100 text-yellow-800 border-yellow-300';
+      case TaskPriority.LOW: return 'bg-gray-100 text-gray-800 border-gray-300';
+      default: return 'bg-gray-100 text-gray-800 border-gray-300';
+    }
+  };
+
+  // Check if task is overdue
+  const isOverdue = (task: ITask) => {
+    if (!task.dueDate || task.status === TaskStatus.COMPLETED) return false;
+    return toDueDayKey(task.dueDate) < todayKey;
+  };
+
+  // Group tasks by their due day
+  const tasksByDay = tasks.reduce<Record<string, ITask[]>>((groups, task) => {
+    if (!task.dueDate) return groups;
+    const key = toDueDayKey(task.dueDate);
+    (groups[key] ||= []).push(task);
+    return groups;
+  }, {});
+
+  const title = view === 'month'
+    ? anchor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+    : `${days[0].toLocaleDateString()} – ${days[6].toLocaleDateString()}`;
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <div className="px-4 sm:px-0">
+          {/* Header */}
+          <div className="mb-8 flex flex-wrap justify-between items-center gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Calendar</h1>
+              <p className="text-gray-600 mt-2">
+                Tasks on their due day. Drag a task to another day to reschedule it.
+              </p>
+            </div>
+            <Link
+              href="/tasks/create"
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              ➕ New Task
+            </Link>
+          </div>
+
+          {/* Toolbar */}
+          <div className="bg-white rounded-lg shadow mb-6 p-4 flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => navigate(-1)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                aria-label="Previous"
+              >
+                ←
+              </button>
+              <button
+                onClick={() => setAnchor(new Date())}
+                className="px-3 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Today
+              </button>
+              <button
+                onClick={() => navigate(1)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                aria-label="Next"
+              >
+                →
+              </button>
+              <h2 className="ml-2 text-lg font-medium text-gray-900">{title}</h2>
+            </div>
+
+            <div className="flex items-center gap-4">
+              {/* Legend */}
+              <div className="hidden lg:flex items-center gap-2 text-xs">
+                {[TaskPriority.URGENT, TaskPriority.HIGH, TaskPriority.MEDIUM, TaskPriority.LOW].map((priority) => (
+                  <span key={priority} className={`px-2 py-0.5 rounded border ${getPriorityColor(priority)}`}>
+                    {priority}
+                  </span>
+                ))}
+                <span className="px-2 py-0.5 rounded border-2 border-red-500 text-red-700">overdue</span>
+              </div>
+
+              <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+                {(['month', 'week'] as CalendarView[]).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setView(option)}
+                    className={`px-4 py-2 text-sm font-medium capitalize ${
+                      view === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+              <p className="text-red-700">{error}</p>
+            </div>
+          )}
+
+          {/* Grid */}
+          <div className={`bg-white rounded-lg shadow overflow-hidden ${isLoading ? 'opacity-60' : ''}`}>
+            <div className="grid grid-cols-7 border-b border-gray-200">
+              {WEEKDAYS.map((weekday) => (
+                <div key={weekday} className="px-2 py-2 text-xs font-medium text-gray-500 text-center">
+                  {weekday}
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-7">
+              {days.map((day) => {
+                const dayKey = toDayKey(day);
+                const dayTasks = tasksByDay[dayKey] || [];
+                const visibleTasks = view === 'month' ? dayTasks.slice(0, MAX_TASKS_PER_DAY) : dayTasks;
+                const isOtherMonth = view === 'month' && day.getMonth() !== anchor.getMonth();
+
+                return (
+                  <div
+                    key={dayKey}
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDropDay(dayKey);
+                    }}
+                    onDragLeave={() => setDropDay(prev => prev === dayKey ? null : prev)}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      setDropDay(null);
+                      if (draggedId) rescheduleTask(draggedId, dayKey);
+                      setDraggedId(null);
+                    }}
+                    className={`border-b border-r border-gray-200 p-1.5 ${
+                      view === 'month' ? 'min-h-[7rem]' : 'min-h-[20rem]'
+                    } ${isOtherMonth ? 'bg-gray-50' : ''} ${dropDay === dayKey ? 'bg-blue-50' : ''}`}
+                  >
+                    <div className="flex justify-end mb-1">
+                      <span className={`text-xs w-6 h-6 flex items-center justify-center rounded-full ${
+                        dayKey === todayKey
+                          ? 'bg-blue-600 text-white font-medium'
+                          : isOtherMonth ? 'text-gray-400' : 'text-gray-700'
+                      }`}>
+                        {day.getDate()}
+                      </span>
+                    </div>
+
+                    <div className="space-y-1">
+                      {visibleTasks.map((task) => (
+                        <Link
+                          key={task._id}
+                          href={`/tasks/${task._id}/edit`}
+                          draggable
+                          onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = 'move';
+                            setDraggedId(task._id);
+                          }}
+                          onDragEnd={() => {
+                            setDraggedId(null);
+                            setDropDay(null);
+                          }}
+                          title={task.title}
+                          className={`block truncate text-xs px-1.5 py-0.5 rounded border ${getPriorityColor(task.priority)} ${
+                            isOverdue(task) ? 'border-2 border-red-500 font-medium' : ''
+                          } ${task.status === TaskStatus.COMPLETED ? 'line-through opacity-60' : ''} ${
+                            draggedId === task._id ? 'opacity-50' : ''
+                          }`}
+                        >
+                          {isOverdue(task) && '⚠️ '}{task.title}
+                        </Link>
+                      ))}
+                      {dayTasks.length > visibleTasks.length && (
+                        <button
+                          onClick={() => showWeek(day)}
+                          className="text-xs text-blue-600 hover:text-blue-800 font-medium px-1"
+                        >
+                          +{dayTasks.length - visibleTasks.length} more
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -1,26 +1,57 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import DashboardLayout from '@/components/DashboardLayout';
-import { CreateTaskData, TaskPriority, TaskCategory, ApiResponse, ITask } from '@/types';
+import RecurrencePicker from '@/components/RecurrencePicker';
+import EstimatePicker, { validateEstimate } from '@/components/EstimatePicker';
+import ReminderPicker, { validateReminders } from '@/components/ReminderPicker';
+import TagInput from '@/components/TagInput';
+import AssigneePicker from '@/components/AssigneePicker';
+import { useCategories } from '@/hooks/useCategories';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProjects } from '@/contexts/ProjectContext';
+import { CreateTaskData, TaskPriority, ApiResponse, ITask } from '@/types';
 
 export default function CreateTaskPage() {
   const router = useRouter();
+  const { user } = useAuth();
+  const { getMembers } = useProjects();
   
   // Form state
   const [formData, setFormData] = useState<CreateTaskData>({
     title: '',
     description: '',
     priority: TaskPriority.MEDIUM,
-    category: TaskCategory.PERSONAL,
+    category: '', // Set once the user's categories have loaded
     dueDate: '',
+    recurrence: null,
+    estimate: null,
+    reminders: [],
+    tags: [],
+    assignees: [],
   });
+  const [assigneesTouched, setAssigneesTouched] = useState(false);
   
   // UI state
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { categories } = useCategories();
+
+  // Default to "Personal" when the user still has it, otherwise their first category
+  useEffect(() => {
+    if (formData.category || categories.length === 0) return;
+    const defaultCategory = categories.find(category => category.key === 'personal') || categories[0];
+    setFormData(prev => ({ ...prev, category: defaultCategory.key }));
+  }, [categories, formData.category]);
+
+  // New tasks are assigned to their creator unless the picker says otherwise
+  useEffect(() => {
+    if (user && !assigneesTouched) {
+      setFormData(prev => ({ ...prev, assignees: [user._id] }));
+    }
+  }, [user, assigneesTouched]);
 
   // Handle input changes
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
@@ -49,6 +80,10 @@ export default function CreateTaskPage() {
       newErrors.title = 'Title must be less than 200 characters';
     }
 
+    if (!formData.category) {
+      newErrors.category = 'Please select a category';
+    }
+
     if (formData.description && formData.description.length > 1000) {
       newErrors.description = 'Description must be less than 1000 characters';
     }
@@ -63,6 +98,26 @@ export default function CreateTaskPage() {
       }
     }
 
+    if (formData.recurrence) {
+      if (!formData.dueDate) {
+        newErrors.recurrence = 'Recurring tasks need a due date';
+      } else if (formData.recurrence.until === '') {
+        newErrors.recurrence = 'Please pick an end date';
+      } else if (formData.recurrence.until && formData.recurrence.until < formData.dueDate) {
+        newErrors.recurrence = 'End date must be after the due date';
+      }
+    }
+
+    const estimateError = validateEstimate(formData.estimate);
+    if (estimateError) {
+      newErrors.estimate = estimateError;
+    }
+
+    const remindersError = validateReminders(formData.reminders, formData.dueDate);
+    if (remindersError) {
+      newErrors.reminders = remindersError;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -96,6 +151,7 @@ export default function CreateTaskPage() {
         router.push('/dashboard');
       } else {
         setErrors({
+          ...result.fieldErrors,
           submit: result.error || 'Failed to create task. Please try again.'
         });
       }
@@ -215,16 +271,69 @@ export default function CreateTaskPage() {
                     onChange={handleChange}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                   >
-                    <option value={TaskCategory.WORK}>💼 Work</option>
-                    <option value={TaskCategory.PERSONAL}>👤 Personal</option>
-                    <option value={TaskCategory.HEALTH}>🏥 Health</option>
-                    <option value={TaskCategory.FINANCE}>💰 Finance</option>
-                    <option value={TaskCategory.LEARNING}>📚 Learning</option>
-                    <option value={TaskCategory.OTHER}>📌 Other</option>
+                    {categories.map((category) => (
+                      <option key={category._id} value={category.key}>
+                        {category.icon} {category.name}
+                      </option>
+                    ))}
                   </select>
+                  {errors.category && (
+                    <p className="mt-1 text-sm text-red-600">{errors.category}</p>
+                  )}
                 </div>
               </div>
 
+              {/* Estimate field */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Estimate
+                </label>
+                <EstimatePicker
+                  value={formData.estimate}
+                  onChange={(estimate) => {
+                    setFormData(prev => ({ ...prev, estimate }));
+                    if (errors.estimate) {
+                      setErrors(prev => ({ ...prev, estimate: '' }));
+                    }
+                  }}
+                  error={errors.estimate}
+                />
+              </div>
+
+              {/* Assignees field */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Assignees
+                </label>
+                <AssigneePicker
+                  value={formData.assignees || []}
+                  onChange={(assignees) => {
+                    setAssigneesTouched(true);
+                    setFormData(prev => ({ ...prev, assignees }));
+                  }}
+                  members={getMembers()}
+                  currentUserId={user?._id}
+                />
+                {errors.assignees && (
+                  <p className="mt-1 text-sm text-red-600">{errors.assignees}</p>
+                )}
+              </div>
+
+              {/* Tags field */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Tags
+                </label>
+                <TagInput
+                  value={formData.tags || []}
+                  onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
+                  placeholder="e.g. client-a, sprint-12, backend"
+                />
+                <p className="mt-1 text-sm text-gray-500">
+                  Press Enter or comma to add a tag
+                </p>
+              </div>
+
               {/* Due date field */}
               <div>
                 <label htmlFor="dueDate" className="block text-sm font-medium text-gray-700 mb-2">
@@ -249,6 +358,41 @@ export default function CreateTaskPage() {
                 </p>
               </div>
 
+              {/* Recurrence field */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Repeat
+                </label>
+                <RecurrencePicker
+                  value={formData.recurrence}
+                  onChange={(recurrence) => {
+                    setFormData(prev => ({ ...prev, recurrence }));
+                    if (errors.recurrence) {
+                      setErrors(prev => ({ ...prev, recurrence: '' }));
+                    }
+                  }}
+                  error={errors.recurrence}
+                />
+              </div>
+
+              {/* Reminders field */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Reminders
+                </label>
+                <ReminderPicker
+                  value={formData.reminders || []}
+                  onChange={(reminders) => {
+                    setFormData(prev => ({ ...prev, reminders }));
+                    if (errors.reminders) {
+                      setErrors(prev => ({ ...prev, reminders: '' }));
+                    }
+                  }}
+                  hasDueDate={!!formData.dueDate}
+                  error={errors.reminders}
+                />
+              </div>
+
               {/* Submit buttons */}
               <div className="flex justify-end space-x-4 pt-6 border-t">
                 <button
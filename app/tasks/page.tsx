@@ -1,28 +1,93 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import Link from 'next/link';
 import { useSearchParams } from 'next/navigation';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import DashboardLayout from '@/components/DashboardLayout';
-import { ITask, TaskStatus, TaskPriority, TaskCategory, ApiResponse, UpdateTaskData } from '@/types';
+import SubtaskProgress from '@/components/SubtaskProgress';
+import TagInput from '@/components/TagInput';
+import CategoryBadge from '@/components/CategoryBadge';
+import HighlightText from '@/components/HighlightText';
+import AssigneeChips from '@/components/AssigneeChips';
+import BulkActionBar from '@/components/BulkActionBar';
+import TimerButton from '@/components/TimerButton';
+import { useCategories } from '@/hooks/useCategories';
+import { useDebounce } from '@/hooks/useDebounce';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProjects } from '@/contexts/ProjectContext';
+import { getTimerTaskId, useTimer } from '@/contexts/TimerContext';
+import { describeRecurrence } from '@/lib/recurrence';
+import { formatEstimate } from '@/lib/duration';
+import { canDeleteTask } from '@/lib/permissions';
+import { ITask, TaskStatus, TaskPriority, ApiResponse, UpdateTaskData, BulkOperation, BulkTaskData, BulkTaskResult } from '@/types';
+
+// Tasks fetched per page
+const PAGE_SIZE = 25;
+
+// Estimate filter choices as unit:min:max (either end may be empty)
+const ESTIMATE_FILTERS = [
+  { value: 'none', label: 'Not estimated' },
+  { value: 'hours', label: 'Estimated in hours' },
+  { value: 'hours::2', label: 'Up to 2 hours' },
+  { value: 'hours:2:8', label: '2-8 hours' },
+  { value: 'hours:8:', label: '8+ hours' },
+  { value: 'points', label: 'Estimated in points' },
+  { value: 'points::3', label: 'Up to 3 points' },
+  { value: 'points:5:', label: '5+ points' },
+];
 
 export default function TasksPage() {
   const searchParams = useSearchParams();
+  const { categories, getCategory } = useCategories();
+  const { user } = useAuth();
+  const { currentProject, currentRole, can, getMembers } = useProjects();
+  const { lastStopped } = useTimer();
+  
+  // What the current role allows - buttons for anything else are hidden
+  const canCreate = can('task:create');
+  const canUpdate = can('task:update');
+  const canDeleteAny = can('task:delete') || can('task:delete-own');
+  const canLogTime = can('time:log');
   
   // State
   const [tasks, setTasks] = useState<ITask[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalTasks, setTotalTasks] = useState(0);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Multi-select for bulk changes
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const lastSelectedIndex = useRef<number | null>(null); // Anchor for shift-click ranges
+  const [isBulkSubmitting, setIsBulkSubmitting] = useState(false);
+  const [bulkMessage, setBulkMessage] = useState('');
+  const [bulkErrors, setBulkErrors] = useState<string[]>([]);
   const [filters, setFilters] = useState({
     status: searchParams.get('status') || '',
     priority: searchParams.get('priority') || '',
     category: searchParams.get('category') || '',
+    assignee: searchParams.get('assignee') || '', // 'me', 'unassigned' or a user ID
+    tags: searchParams.get('tags') || '', // Comma-separated, as sent to the API
+    tagMode: searchParams.get('tagMode') || 'any',
+    estimate: searchParams.get('estimate') || '', // One of ESTIMATE_FILTERS
+    q: searchParams.get('q') || '',
+    sort: searchParams.get('sort') || '', // field:order, empty for the server default
   });
 
-  // Fetch tasks with filters
-  const fetchTasks = async () => {
+  // Search box text - only sent to the API once typing pauses
+  const [search, setSearch] = useState(filters.q);
+  const debouncedSearch = useDebounce(search.trim());
+
+  // Fetch the first page of tasks with filters, or the page after `cursor`
+  const fetchTasks = async (cursor?: string) => {
     try {
-      setIsLoading(true);
+      if (cursor) {
+        setIsLoadingMore(true);
+      } else {
+        setIsLoading(true);
+      }
       console.log('📝 Fetching tasks with filters:', filters);
       
       // Build query string
@@ -30,6 +95,25 @@ export default function TasksPage() {
       if (filters.status) queryParams.append('status', filters.status);
       if (filters.priority) queryParams.append('priority', filters.priority);
       if (filters.category) queryParams.append('category', filters.category);
+      if (filters.assignee) queryParams.append('assignee', filters.assignee);
+      if (filters.tags) {
+        queryParams.append('tags', filters.tags);
+        queryParams.append('tagMode', filters.tagMode);
+      }
+      if (filters.estimate) {
+        const [unit, min, max] = filters.estimate.split(':');
+        queryParams.append('estimateUnit', unit);
+        if (min) queryParams.append('estimateMin', min);
+        if (max) queryParams.append('estimateMax', max);
+      }
+      if (filters.q) queryParams.append('q', filters.q);
+      if (filters.sort) {
+        const [sort, order] = filters.sort.split(':');
+        queryParams.append('sort', sort);
+        queryParams.append('order', order);
+      }
+      queryParams.append('limit', String(PAGE_SIZE));
+      if (cursor) queryParams.append('cursor', cursor);
       
       const response = await fetch(`/api/tasks?${queryParams.toString()}`, {
         credentials: 'include',
@@ -38,8 +122,12 @@ export default function TasksPage() {
       if (response.ok) {
         const result: ApiResponse<ITask[]> = await response.json();
         if (result.success && result.data) {
-          setTasks(result.data);
-          console.log(`✅ Loaded ${result.data.length} tasks`);
+          const page = result.data;
+          setTasks(prevTasks => cursor ? [...prevTasks, ...page] : page);
+          if (!cursor) clearSelection();
+          setNextCursor(result.pagination?.nextCursor ?? null);
+          setTotalTasks(result.pagination?.total ?? page.length);
+          console.log(`✅ Loaded ${page.length} tasks`);
         }
       } else {
         console.error('Failed to fetch tasks');
@@ -48,6 +136,7 @@ export default function TasksPage() {
       console.error('Error fetching tasks:', error);
     } finally {
       setIsLoading(false);
+      setIsLoadingMore(false);
     }
   };
 
@@ -75,9 +164,16 @@ export default function TasksPage() {
             )
           );
           console.log('✅ Task status updated');
+          
+          // Completing a recurring task generates its next occurrence
+          if (status === TaskStatus.COMPLETED && result.data.recurrence) {
+            fetchTasks();
+          }
         }
       } else {
-        console.error('Failed to update task status');
+        const result: ApiResponse = await response.json();
+        console.error('Failed to update task status:', result.error);
+        alert(result.error || 'Failed to update task status');
       }
     } catch (error) {
       console.error('Error updating task status:', error);
@@ -86,10 +182,10 @@ export default function TasksPage() {
 
   // Delete task
   const deleteTask = async (taskId: string) => {
-    if (!confirm('Are you sure you want to delete this task?')) return;
+    if (!confirm('Move this task to the trash? You can restore it from the Trash page.')) return;
     
     try {
-      console.log(`🗑️ Deleting task ${taskId}`);
+      console.log(`🗑️ Moving task ${taskId} to trash`);
       
       const response = await fetch(`/api/tasks/${taskId}`, {
         method: 'DELETE',
@@ -99,15 +195,131 @@ export default function TasksPage() {
       if (response.ok) {
         // Remove task from local state
         setTasks(prevTasks => prevTasks.filter(task => task._id !== taskId));
-        console.log('✅ Task deleted');
+        setTotalTasks(prev => prev - 1);
+        console.log('✅ Task moved to trash');
       } else {
-        console.error('Failed to delete task');
+        const result: ApiResponse = await response.json();
+        console.error('Failed to delete task:', result.error);
+        alert(result.error || 'Failed to delete task');
       }
     } catch (error) {
       console.error('Error deleting task:', error);
     }
   };
 
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    lastSelectedIndex.current = null;
+  };
+
+  // Toggle a task's checkbox. Shift-click sets everything between the last
+  // clicked task and this one to the same state.
+  const toggleSelected = (index: number, shiftKey: boolean) => {
+    const taskId = tasks[index]._id;
+    const select = !selectedIds.has(taskId);
+    const anchor = lastSelectedIndex.current;
+    const [from, to] = shiftKey && anchor !== null
+      ? [Math.min(anchor, index), Math.max(anchor, index)]
+      : [index, index];
+
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      tasks.slice(from, to + 1).forEach(task => select ? next.add(task._id) : next.delete(task._id));
+      return next;
+    });
+    lastSelectedIndex.current = index;
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(selectedIds.size === tasks.length ? new Set() : new Set(tasks.map(task => task._id)));
+    lastSelectedIndex.current = null;
+  };
+
+  // Apply one change to every selected task. Tasks that failed stay selected
+  // so the change can be retried after fixing whatever blocked it.
+  const applyBulk = async (operation: BulkOperation) => {
+    try {
+      setIsBulkSubmitting(true);
+      setBulkMessage('');
+      setBulkErrors([]);
+
+      const data: BulkTaskData = { taskIds: Array.from(selectedIds), operation };
+      console.log(`📦 Bulk ${operation.action} on ${data.taskIds.length} tasks`);
+
+      const response = await fetch('/api/tasks/bulk', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(data),
+      });
+
+      const result: ApiResponse<BulkTaskResult> = await response.json();
+
+      if (!result.success || !result.data) {
+        setBulkErrors([
+          result.fieldErrors
+            ? Object.values(result.fieldErrors).join(', ')
+            : result.error || 'Something went wrong. Please try again.',
+        ]);
+        return;
+      }
+
+      const { results } = result.data;
+      const updated = new Map(results.filter(item => item.task).map(item => [item.id, item.task!]));
+      const removed = new Set(results.filter(item => item.success && !item.task).map(item => item.id));
+      const titles = new Map(tasks.map(task => [task._id, task.title]));
+
+      // Updated tasks are replaced, archived and deleted ones leave the list
+      setTasks(prevTasks => prevTasks
+        .filter(task => !removed.has(task._id))
+        .map(task => updated.get(task._id) || task));
+      setTotalTasks(prev => prev - removed.size);
+      setSelectedIds(new Set(results.filter(item => !item.success).map(item => item.id)));
+      lastSelectedIndex.current = null;
+
+      setBulkMessage(result.message || '');
+      setBulkErrors(results
+        .filter(item => !item.success)
+        .map(item => `${titles.get(item.id) || item.id}: ${item.error}`));
+
+      // Completing recurring tasks generates their next occurrences
+      if (operation.action === 'status' && Array.from(updated.values()).some(task => task.recurrence)) {
+        fetchTasks();
+      }
+    } catch (error) {
+      console.error('Bulk update error:', error);
+      setBulkErrors(['Something went wrong. Please try again.']);
+    } finally {
+      setIsBulkSubmitting(false);
+    }
+  };
+
+  // Archive a task - it leaves the list but keeps its status and place on the board
+  const archiveTask = async (taskId: string) => {
+    try {
+      console.log(`📦 Archiving task ${taskId}`);
+      
+      const response = await fetch(`/api/tasks/${taskId}/archive`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        setTasks(prevTasks => prevTasks.filter(task => task._id !== taskId));
+        setTotalTasks(prev => prev - 1);
+        console.log('✅ Task archived');
+      } else {
+        const result: ApiResponse = await response.json();
+        console.error('Failed to archive task:', result.error);
+        alert(result.error || 'Failed to archive task');
+      }
+    } catch (error) {
+      console.error('Error archiving task:', error);
+    }
+  };
+
   // Handle filter changes
   const handleFilterChange = (filterType: string, value: string) => {
     setFilters(prev => ({
@@ -122,13 +334,62 @@ export default function TasksPage() {
       status: '',
       priority: '',
       category: '',
+      assignee: '',
+      tags: '',
+      tagMode: 'any',
+      estimate: '',
+      q: '',
+      sort: filters.sort, // Sorting isn't a filter, keep it
+    });
+    setSearch('');
+  };
+
+  // Add a tag to the tag filter (e.g. when clicking a tag on a task)
+  const addTagFilter = (tag: string) => {
+    const tags = filters.tags ? filters.tags.split(',') : [];
+    if (tags.includes(tag)) return;
+    handleFilterChange('tags', [...tags, tag].join(','));
+  };
+
+  // Apply the search once typing pauses
+  useEffect(() => {
+    setFilters(prev => prev.q === debouncedSearch ? prev : { ...prev, q: debouncedSearch });
+  }, [debouncedSearch]);
+
+  // Current filters as a query string, so the board opens with the same filters
+  const getBoardQuery = () => {
+    const queryParams = new URLSearchParams();
+    (['status', 'priority', 'category', 'assignee', 'tags', 'tagMode', 'q'] as const).forEach((key) => {
+      if (filters[key] && (key !== 'tagMode' || filters.tags)) queryParams.set(key, filters[key]);
     });
+    return queryParams.toString();
   };
 
-  // Fetch tasks when filters change
+  // Fetch tasks when filters or the project change
   useEffect(() => {
     fetchTasks();
-  }, [filters]);
+  }, [filters, currentProject?._id]);
+
+  // Infinite scroll - load the next page when the end of the list comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor || isLoadingMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) fetchTasks(nextCursor);
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, isLoadingMore]);
+
+  // Show a stopped timer's time on its task
+  useEffect(() => {
+    if (!lastStopped || typeof lastStopped.taskId === 'string') return;
+    const { timeLogged } = lastStopped.taskId;
+    const taskId = getTimerTaskId(lastStopped);
+    setTasks(prevTasks => prevTasks.map(task => task._id === taskId ? { ...task, timeLogged } : task));
+  }, [lastStopped]);
 
   // Get priority color
   const getPriorityColor = (priority: TaskPriority) => {
@@ -167,6 +428,10 @@ export default function TasksPage() {
     }
   };
 
+  // Blockers that still have to be completed before this task can start
+  const getOpenBlockers = (task: ITask) =>
+    (task.blockedBy || []).filter(blocker => blocker.status !== TaskStatus.COMPLETED);
+
   // Check if task is overdue
   const isOverdue = (task: ITask) => {
     if (!task.dueDate || task.status === TaskStatus.COMPLETED) return false;
@@ -185,18 +450,47 @@ export default function TasksPage() {
                 Manage and organize all your tasks in one place.
               </p>
             </div>
-            <Link
-              href="/tasks/create"
-              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              ➕ New Task
-            </Link>
+            <div className="flex items-center gap-3">
+              <Link
+                href={`/tasks/board?${getBoardQuery()}`}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                🗂️ Board view
+              </Link>
+              {canCreate && (
+                <Link
+                  href="/tasks/create"
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  ➕ New Task
+                </Link>
+              )}
+            </div>
           </div>
 
+          {/* Viewers see tasks but can't change them */}
+          {currentRole && !canUpdate && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 mb-6">
+              <p className="text-yellow-800 text-sm">
+                👀 You have view-only access to this project.
+              </p>
+            </div>
+          )}
+
           {/* Filters */}
           <div className="bg-white rounded-lg shadow mb-6 p-4">
             <div className="flex flex-wrap gap-4 items-center">
               <h3 className="font-medium text-gray-900">Filters:</h3>
+
+              {/* Search */}
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="w-full sm:w-64 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="🔍 Search tasks..."
+                maxLength={100}
+              />
               
               {/* Status filter */}
               <select
@@ -230,16 +524,91 @@ export default function TasksPage() {
                 className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
                 <option value="">All Categories</option>
-                <option value={TaskCategory.WORK}>💼 Work</option>
-                <option value={TaskCategory.PERSONAL}>👤 Personal</option>
-                <option value={TaskCategory.HEALTH}>🏥 Health</option>
-                <option value={TaskCategory.FINANCE}>💰 Finance</option>
-                <option value={TaskCategory.LEARNING}>📚 Learning</option>
-                <option value={TaskCategory.OTHER}>📌 Other</option>
+                {categories.map((category) => (
+                  <option key={category._id} value={category.key}>
+                    {category.icon} {category.name}
+                  </option>
+                ))}
+              </select>
+
+              {/* Assignee filter */}
+              <select
+                value={filters.assignee}
+                onChange={(e) => handleFilterChange('assignee', e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Assignee"
+              >
+                <option value="">Anyone</option>
+                <option value="me">Assigned to me</option>
+                <option value="unassigned">Unassigned</option>
+                {getMembers()
+                  .filter(member => member._id !== user?._id)
+                  .map((member) => (
+                    <option key={member._id} value={member._id}>
+                      {member.name}
+                    </option>
+                  ))}
+              </select>
+
+              {/* Tag filter */}
+              <div className="flex items-center gap-2 w-full sm:w-auto sm:min-w-[20rem]">
+                <div className="flex-1">
+                  <TagInput
+                    value={filters.tags ? filters.tags.split(',') : []}
+                    onChange={(tags) => handleFilterChange('tags', tags.join(','))}
+                    placeholder="Filter by tags"
+                  />
+                </div>
+                {filters.tags.includes(',') && (
+                  <select
+                    value={filters.tagMode}
+                    onChange={(e) => handleFilterChange('tagMode', e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="any">Any tag</option>
+                    <option value="all">All tags</option>
+                  </select>
+                )}
+              </div>
+
+              {/* Estimate filter */}
+              <select
+                value={filters.estimate}
+                onChange={(e) => handleFilterChange('estimate', e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Estimate"
+              >
+                <option value="">Any estimate</option>
+                {ESTIMATE_FILTERS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+
+              {/* Sort */}
+              <select
+                value={filters.sort}
+                onChange={(e) => handleFilterChange('sort', e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Sort by"
+              >
+                <option value="">{filters.q ? 'Best match' : 'Newest first'}</option>
+                {filters.q && <option value="createdAt:desc">Newest first</option>}
+                <option value="createdAt:asc">Oldest first</option>
+                <option value="updatedAt:desc">Recently updated</option>
+                <option value="dueDate:asc">Due soonest</option>
+                <option value="dueDate:desc">Due latest</option>
+                <option value="priority:desc">Highest priority</option>
+                <option value="priority:asc">Lowest priority</option>
+                <option value="title:asc">Title A-Z</option>
+                <option value="title:desc">Title Z-A</option>
+                <option value="estimate:asc">Smallest estimate</option>
+                <option value="estimate:desc">Largest estimate</option>
               </select>
 
               {/* Clear filters */}
-              {(filters.status || filters.priority || filters.category) && (
+              {(filters.status || filters.priority || filters.category || filters.assignee || filters.tags || filters.estimate || search) && (
                 <button
                   onClick={clearFilters}
                   className="text-blue-600 hover:text-blue-800 font-medium"
@@ -250,8 +619,26 @@ export default function TasksPage() {
             </div>
           </div>
 
+          {/* Outcome of the last bulk change */}
+          {(bulkMessage || bulkErrors.length > 0) && (
+            <div className={`border rounded-md p-4 mb-6 ${
+              bulkErrors.length > 0 ? 'bg-yellow-50 border-yellow-200' : 'bg-green-50 border-green-200'
+            }`}>
+              {bulkMessage && (
+                <p className={bulkErrors.length > 0 ? 'text-yellow-800' : 'text-green-700'}>{bulkMessage}</p>
+              )}
+              {bulkErrors.length > 0 && (
+                <ul className="mt-1 list-disc pl-5 text-sm text-yellow-800">
+                  {bulkErrors.map((bulkError, index) => (
+                    <li key={index}>{bulkError}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
           {/* Tasks List */}
-          <div className="bg-white rounded-lg shadow">
+          <div className={`bg-white rounded-lg shadow ${selectedIds.size > 0 ? 'mb-20' : ''}`}>
             {isLoading ? (
               <div className="p-8 text-center">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
@@ -262,27 +649,56 @@ export default function TasksPage() {
                 <div className="text-4xl mb-4">📝</div>
                 <h3 className="text-lg font-medium text-gray-900 mb-2">No tasks found</h3>
                 <p className="text-gray-600 mb-4">
-                  {filters.status || filters.priority || filters.category
+                  {filters.status || filters.priority || filters.category || filters.assignee || filters.tags || filters.q
                     ? 'No tasks match your current filters.'
                     : 'You haven\'t created any tasks yet.'}
                 </p>
-                <Link
-                  href="/tasks/create"
-                  className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
-                >
-                  Create Your First Task
-                </Link>
+                {canCreate && (
+                  <Link
+                    href="/tasks/create"
+                    className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors"
+                  >
+                    Create Your First Task
+                  </Link>
+                )}
               </div>
             ) : (
               <div className="divide-y divide-gray-200">
-                {tasks.map((task) => (
+                {/* Select all loaded tasks */}
+                {canUpdate && (
+                  <label className="px-6 py-3 flex items-center gap-3 text-sm text-gray-600 bg-gray-50 rounded-t-lg">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.size > 0 && selectedIds.size === tasks.length}
+                      ref={(input) => {
+                        if (input) input.indeterminate = selectedIds.size > 0 && selectedIds.size < tasks.length;
+                      }}
+                      onChange={toggleAll}
+                      className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    {selectedIds.size > 0
+                      ? `${selectedIds.size} of ${tasks.length} selected - shift-click to select a range`
+                      : 'Select tasks to change several at once'}
+                  </label>
+                )}
+                {tasks.map((task, index) => (
                   <div
                     key={task._id}
-                    className={`p-6 hover:bg-gray-50 transition-colors ${
-                      isOverdue(task) ? 'border-l-4 border-red-500' : ''
-                    }`}
+                    id={`task-${task._id}`}
+                    className={`p-6 transition-colors ${
+                      selectedIds.has(task._id) ? 'bg-blue-50' : 'hover:bg-gray-50'
+                    } ${isOverdue(task) ? 'border-l-4 border-red-500' : ''}`}
                   >
                     <div className="flex items-start justify-between">
+                      {canUpdate && (
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(task._id)}
+                          onChange={(e) => toggleSelected(index, (e.nativeEvent as MouseEvent).shiftKey)}
+                          className="mt-1.5 mr-4 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          aria-label={`Select "${task.title}"`}
+                        />
+                      )}
                       <div className="flex-1">
                         {/* Task title and status */}
                         <div className="flex items-center gap-3 mb-2">
@@ -291,18 +707,43 @@ export default function TasksPage() {
                               ? 'line-through text-gray-500' 
                               : 'text-gray-900'
                           }`}>
-                            {task.title}
+                            <HighlightText text={task.title} query={filters.q} />
                           </h3>
                           {isOverdue(task) && (
                             <span className="bg-red-100 text-red-800 text-xs font-medium px-2 py-1 rounded-full">
                               Overdue
                             </span>
                           )}
+                          {getOpenBlockers(task).length > 0 && (
+                            <span className="bg-gray-800 text-white text-xs font-medium px-2 py-1 rounded-full">
+                              ⛔ Blocked
+                            </span>
+                          )}
                         </div>
 
+                        {/* Open blockers - jump to them in the list, or to their edit page when filtered out */}
+                        {getOpenBlockers(task).length > 0 && (
+                          <p className="text-sm text-gray-600 mb-3">
+                            Waiting on:{' '}
+                            {getOpenBlockers(task).map((blocker, index) => (
+                              <span key={blocker._id}>
+                                {index > 0 && ', '}
+                                <Link
+                                  href={tasks.some(t => t._id === blocker._id) ? `#task-${blocker._id}` : `/tasks/${blocker._id}/edit`}
+                                  className="text-blue-600 hover:text-blue-800 font-medium"
+                                >
+                                  {blocker.title}
+                                </Link>
+                              </span>
+                            ))}
+                          </p>
+                        )}
+
                         {/* Task description */}
                         {task.description && (
-                          <p className="text-gray-600 mb-3">{task.description}</p>
+                          <p className="text-gray-600 mb-3">
+                            <HighlightText text={task.description} query={filters.q} />
+                          </p>
                         )}
 
                         {/* Task metadata */}
@@ -313,7 +754,30 @@ export default function TasksPage() {
                           <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(task.status)}`}>
                             {task.status.replace('_', ' ')}
                           </span>
-                          <span className="text-gray-500">{task.category}</span>
+                          <CategoryBadge category={getCategory(task.category)} categoryKey={task.category} />
+                          {task.estimate && (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-teal-100 text-teal-800" title="Estimate">
+                              📐 {formatEstimate(task.estimate)}
+                            </span>
+                          )}
+                          {task.recurrence && (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                              🔁 {describeRecurrence(task.recurrence)}
+                            </span>
+                          )}
+                          <SubtaskProgress subtasks={task.subtasks} />
+                          <AssigneeChips assignees={task.assignees} />
+                          <TimerButton taskId={task._id} timeLogged={task.timeLogged} disabled={!canLogTime} />
+                          {task.tags?.map((tag) => (
+                            <button
+                              key={tag}
+                              onClick={() => addTagFilter(tag)}
+                              className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800 hover:bg-indigo-200"
+                              title="Filter by this tag"
+                            >
+                              #{tag}
+                            </button>
+                          ))}
                           {task.dueDate && (
                             <span className={`text-sm ${isOverdue(task) ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
                               Due: {formatDate(task.dueDate)}
@@ -325,7 +789,7 @@ export default function TasksPage() {
                       {/* Action buttons */}
                       <div className="flex items-center gap-2 ml-4">
                         {/* Status toggle */}
-                        {task.status === TaskStatus.PENDING && (
+                        {canUpdate && task.status === TaskStatus.PENDING && (
                           <button
                             onClick={() => updateTaskStatus(task._id, TaskStatus.IN_PROGRESS)}
                             className="text-blue-600 hover:text-blue-800 text-sm font-medium"
@@ -333,7 +797,7 @@ export default function TasksPage() {
                             Start
                           </button>
                         )}
-                        {task.status === TaskStatus.IN_PROGRESS && (
+                        {canUpdate && task.status === TaskStatus.IN_PROGRESS && (
                           <button
                             onClick={() => updateTaskStatus(task._id, TaskStatus.COMPLETED)}
                             className="text-green-600 hover:text-green-800 text-sm font-medium"
@@ -341,7 +805,7 @@ export default function TasksPage() {
                             Complete
                           </button>
                         )}
-                        {task.status === TaskStatus.COMPLETED && (
+                        {canUpdate && task.status === TaskStatus.COMPLETED && (
                           <button
                             onClick={() => updateTaskStatus(task._id, TaskStatus.PENDING)}
                             className="text-gray-600 hover:text-gray-800 text-sm font-medium"
@@ -349,22 +813,32 @@ export default function TasksPage() {
                             Reopen
                           </button>
                         )}
+                        {canUpdate && task.status === TaskStatus.COMPLETED && (
+                          <button
+                            onClick={() => archiveTask(task._id)}
+                            className="text-gray-600 hover:text-gray-800 text-sm font-medium"
+                          >
+                            Archive
+                          </button>
+                        )}
 
-                        {/* Edit button */}
+                        {/* Edit button - viewers still open the task to read its comments */}
                         <Link
                           href={`/tasks/${task._id}/edit`}
                           className="text-gray-600 hover:text-gray-800 text-sm font-medium"
                         >
-                          Edit
+                          {canUpdate ? 'Edit' : 'View'}
                         </Link>
 
-                        {/* Delete button */}
-                        <button
-                          onClick={() => deleteTask(task._id)}
-                          className="text-red-600 hover:text-red-800 text-sm font-medium"
-                        >
-                          Delete
-                        </button>
+                        {/* Delete button - members only delete their own tasks */}
+                        {canDeleteTask(currentRole, task.createdBy?._id === user?._id) && (
+                          <button
+                            onClick={() => deleteTask(task._id)}
+                            className="text-red-600 hover:text-red-800 text-sm font-medium"
+                          >
+                            Delete
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -373,12 +847,35 @@ export default function TasksPage() {
             )}
           </div>
 
+          {/* Next page - loads on scroll, the button is a fallback */}
+          {!isLoading && nextCursor && (
+            <div ref={loadMoreRef} className="mt-4 text-center">
+              <button
+                onClick={() => fetchTasks(nextCursor)}
+                disabled={isLoadingMore}
+                className="text-blue-600 hover:text-blue-800 font-medium disabled:text-gray-400"
+              >
+                {isLoadingMore ? 'Loading more tasks...' : 'Load more'}
+              </button>
+            </div>
+          )}
+
           {/* Task count */}
           {!isLoading && tasks.length > 0 && (
             <div className="mt-4 text-center text-gray-600">
-              Showing {tasks.length} task{tasks.length !== 1 ? 's' : ''}
+              Showing {tasks.length} of {totalTasks} task{totalTasks !== 1 ? 's' : ''}
             </div>
           )}
+
+          {selectedIds.size > 0 && (
+            <BulkActionBar
+              selectedCount={selectedIds.size}
+              canDelete={canDeleteAny}
+              isSubmitting={isBulkSubmitting}
+              onApply={applyBulk}
+              onClear={clearSelection}
+            />
+          )}
         </div>
       </DashboardLayout>
     </ProtectedRoute>
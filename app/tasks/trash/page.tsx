@@ -0,0 +1,180 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import DashboardLayout from '@/components/DashboardLayout';
+import CategoryBadge from '@/components/CategoryBadge';
+import { useCategories } from '@/hooks/useCategories';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProjects } from '@/contexts/ProjectContext';
+import { canDeleteTask } from '@/lib/permissions';
+import { ApiResponse, ITask, TrashContents } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function TrashPage() {
+  const { getCategory } = useCategories();
+  const { user } = useAuth();
+  const { currentProject, currentRole } = useProjects();
+
+  // State
+  const [tasks, setTasks] = useState<ITask[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  // Fetch the trashed tasks of the current project
+  const fetchTrash = async () => {
+    try {
+      console.log('🗑️ Fetching trash...');
+
+      const response = await fetch('/api/tasks/trash', {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        const result: ApiResponse<TrashContents> = await response.json();
+        if (result.success && result.data) {
+          setTasks(result.data.tasks);
+          setRetentionDays(result.data.retentionDays);
+        }
+      } else {
+        console.error('Failed to fetch trash');
+      }
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTrash();
+  }, [currentProject?._id]);
+
+  // Restore a task, or delete it for good - either way it leaves the trash
+  const handleTask = async (task: ITask, method: 'POST' | 'DELETE') => {
+    if (method === 'DELETE' && !confirm(`Delete "${task.title}" forever? This can't be undone.`)) return;
+
+    try {
+      setError('');
+      setMessage('');
+      setBusyId(task._id);
+
+      const response = await fetch(`/api/tasks/trash/${task._id}`, {
+        method,
+        credentials: 'include',
+      });
+
+      const result: ApiResponse = await response.json();
+
+      if (result.success) {
+        setTasks(prev => prev.filter(existing => existing._id !== task._id));
+        setMessage(method === 'POST' ? `"${task.title}" was restored` : `"${task.title}" was deleted forever`);
+      } else {
+        setError(result.error || 'Something went wrong. Please try again.');
+      }
+    } catch (error) {
+      console.error('Trash update error:', error);
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Whole days left before the automatic purge
+  const daysLeft = (task: ITask) => {
+    const purgeAt = new Date(task.deletedAt!).getTime() + retentionDays * DAY_MS;
+    return Math.max(0, Math.ceil((purgeAt - Date.now()) / DAY_MS));
+  };
+
+  return (
+    <ProtectedRoute>
+      <DashboardLayout>
+        <div className="px-4 sm:px-0">
+          {/* Header */}
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900">Trash</h1>
+            <p className="text-gray-600 mt-2">
+              Deleted tasks stay here for {retentionDays} days before they are removed for good.
+            </p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 mb-6">
+              <p className="text-red-700">{error}</p>
+            </div>
+          )}
+          {message && (
+            <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-6">
+              <p className="text-green-700">{message}</p>
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow">
+            {isLoading ? (
+              <div className="p-8 text-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+                <p className="mt-2 text-gray-600">Loading trash...</p>
+              </div>
+            ) : tasks.length === 0 ? (
+              <div className="p-8 text-center">
+                <div className="text-4xl mb-4">🗑️</div>
+                <h3 className="text-lg font-medium text-gray-900 mb-2">The trash is empty</h3>
+                <p className="text-gray-600">Deleted tasks show up here until they are removed for good.</p>
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {tasks.map((task) => {
+                  // Whoever could delete the task may also restore it or delete it for good
+                  const canManage = canDeleteTask(currentRole, task.createdBy?._id === user?._id);
+                  const remaining = daysLeft(task);
+
+                  return (
+                    <li key={task._id} className="p-4 flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900 truncate">{task.title}</p>
+                        <div className="mt-1 flex flex-wrap items-center gap-3 text-sm text-gray-500">
+                          <CategoryBadge category={getCategory(task.category)} categoryKey={task.category} />
+                          <span>
+                            Deleted {new Date(task.deletedAt!).toLocaleDateString()}
+                            {task.deletedBy && ` by ${task.deletedBy.name}`}
+                          </span>
+                          <span className={remaining <= 3 ? 'text-red-600 font-medium' : ''}>
+                            {remaining === 0
+                              ? 'Deleted for good soon'
+                              : `Deleted for good in ${remaining} day${remaining !== 1 ? 's' : ''}`}
+                          </span>
+                        </div>
+                      </div>
+                      {canManage && (
+                        <div className="flex items-center gap-3">
+                          <button
+                            onClick={() => handleTask(task, 'POST')}
+                            disabled={busyId === task._id}
+                            className="text-blue-600 hover:text-blue-800 text-sm font-medium disabled:text-gray-400"
+                          >
+                            Restore
+                          </button>
+                          <button
+                            onClick={() => handleTask(task, 'DELETE')}
+                            disabled={busyId === task._id}
+                            className="text-red-600 hover:text-red-800 text-sm font-medium disabled:text-gray-400"
+                          >
+                            Delete forever
+                          </button>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      </DashboardLayout>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { ApiResponse } from '@/types';
+
+export default function VerifyEmailPage() {
+  // The token comes from the link in the verification email
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const { isAuthenticated, refreshUser } = useAuth();
+
+  // UI state
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>(token ? 'verifying' : 'failed');
+  const [message, setMessage] = useState(token ? '' : 'This verification link is incomplete. Please use the link from the email.');
+
+  // Links only work once, so don't send the token twice (e.g. effects running twice in development)
+  const hasVerified = useRef(false);
+
+  useEffect(() => {
+    if (!token || hasVerified.current) return;
+    hasVerified.current = true;
+
+    const verify = async () => {
+      try {
+        console.log('📧 Verifying email...');
+
+        const response = await fetch(`/api/auth/verify?token=${encodeURIComponent(token)}`, {
+          credentials: 'include',
+        });
+
+        const result: ApiResponse = await response.json();
+
+        if (result.success) {
+          setStatus('verified');
+          setMessage(result.message || 'Your email is confirmed.');
+        } else {
+          setStatus('failed');
+          setMessage(result.error || 'Email verification failed.');
+        }
+      } catch (error) {
+        console.error('Verify email error:', error);
+        setStatus('failed');
+        setMessage('Something went wrong. Please try again.');
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  // Drop the "please confirm" banner for a signed-in user
+  useEffect(() => {
+    if (status === 'verified' && isAuthenticated) {
+      refreshUser();
+    }
+  }, [status, isAuthenticated, refreshUser]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        {/* Header */}
+        <div className="text-center">
+          <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
+            Confirm your email
+          </h2>
+        </div>
+
+        {status === 'verifying' ? (
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600">Checking your link...</p>
+          </div>
+        ) : status === 'verified' ? (
+          <div className="bg-green-50 border border-green-200 rounded-md p-4 text-center">
+            <p className="text-green-700 text-sm">{message}</p>
+            <Link
+              href={isAuthenticated ? '/dashboard' : '/login'}
+              className="inline-block mt-3 text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              {isAuthenticated ? 'Go to your dashboard' : 'Sign in'}
+            </Link>
+          </div>
+        ) : (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 text-center">
+            <p className="text-red-700 text-sm">{message}</p>
+            <p className="text-red-700 text-sm mt-2">
+              You can ask for a new link from the banner at the top of the app.
+            </p>
+            <Link
+              href={isAuthenticated ? '/dashboard' : '/login'}
+              className="inline-block mt-3 text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              {isAuthenticated ? 'Go to your dashboard' : 'Sign in'}
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
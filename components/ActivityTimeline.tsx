@@ -0,0 +1,154 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import UserAvatar from '@/components/UserAvatar';
+import { useCategories } from '@/hooks/useCategories';
+import { ActivityAction, ApiResponse, FieldChange, IActivity } from '@/types';
+
+interface ActivityTimelineProps {
+  taskId: string;
+  refreshKey?: unknown; // Reloads the history whenever this changes
+}
+
+// How each tracked field is named in the timeline
+const FIELD_LABELS: { [field: string]: string } = {
+  title: 'title',
+  description: 'description',
+  status: 'status',
+  priority: 'priority',
+  category: 'category',
+  dueDate: 'due date',
+  recurrence: 'repeat',
+  tags: 'tags',
+  assignees: 'assignees',
+  blockedBy: 'blockers',
+  subtasks: 'checklist',
+};
+
+// Subtasks are recorded as "☑ title" or "☐ title"
+const parseSubtask = (item: string) => ({ done: item.startsWith('☑'), title: item.slice(2) });
+
+// What happened to a list field, e.g. "added urgent, removed backend"
+function describeListChange(field: string, from: string[], to: string[]): string {
+  if (field === 'subtasks') {
+    const before = new Map(from.map(item => [parseSubtask(item).title, parseSubtask(item).done]));
+    const after = new Map(to.map(item => [parseSubtask(item).title, parseSubtask(item).done]));
+    const parts = [
+      ...Array.from(after.keys()).filter(title => !before.has(title)).map(title => `added "${title}"`),
+      ...Array.from(before.keys()).filter(title => !after.has(title)).map(title => `removed "${title}"`),
+      ...Array.from(after.entries())
+        .filter(([title, done]) => before.has(title) && before.get(title) !== done)
+        .map(([title, done]) => `${done ? 'checked' : 'unchecked'} "${title}"`),
+    ];
+    return parts.length > 0 ? parts.join(', ') : 'reordered the items';
+  }
+
+  const added = to.filter(item => !from.includes(item));
+  const removed = from.filter(item => !to.includes(item));
+  return [
+    added.length > 0 && `added ${added.join(', ')}`,
+    removed.length > 0 && `removed ${removed.join(', ')}`,
+  ].filter(Boolean).join(', ') || 'reordered';
+}
+
+export default function ActivityTimeline({ taskId, refreshKey }: ActivityTimelineProps) {
+  const { getCategory } = useCategories();
+  const [activity, setActivity] = useState<IActivity[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchActivity = async () => {
+      try {
+        const response = await fetch(`/api/tasks/${taskId}/activity`, {
+          credentials: 'include',
+        });
+
+        if (response.ok) {
+          const result: ApiResponse<IActivity[]> = await response.json();
+          if (result.success && result.data) {
+            setActivity(result.data);
+          }
+        } else {
+          console.error('Failed to fetch activity');
+        }
+      } catch (error) {
+        console.error('Error fetching activity:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchActivity();
+  }, [taskId, refreshKey]);
+
+  // A single value as it should read in the timeline
+  const formatValue = (field: string, value: string | null) => {
+    if (value === null || value === '') return 'none';
+    if (field === 'dueDate') return new Date(value).toLocaleDateString();
+    if (field === 'status') return value.replace('_', ' ');
+    if (field === 'category') return getCategory(value)?.name || value;
+    return value;
+  };
+
+  const describeChange = (change: FieldChange) => {
+    const label = FIELD_LABELS[change.field] || change.field;
+
+    if (Array.isArray(change.from) || Array.isArray(change.to)) {
+      const from = Array.isArray(change.from) ? change.from : [];
+      const to = Array.isArray(change.to) ? change.to : [];
+      return `${label}: ${describeListChange(change.field, from, to)}`;
+    }
+
+    // Descriptions are too long to show twice
+    if (change.field === 'description') {
+      return change.to ? 'updated the description' : 'removed the description';
+    }
+
+    return `${label}: ${formatValue(change.field, change.from)} → ${formatValue(change.field, change.to)}`;
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg mt-6">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-medium text-gray-900">🕘 History</h2>
+      </div>
+
+      <div className="p-6">
+        {isLoading ? (
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+          </div>
+        ) : activity.length === 0 ? (
+          <p className="text-sm text-gray-500">No changes recorded yet.</p>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-3 space-y-5">
+            {activity.map((entry) => (
+              <li key={entry._id} className="ml-6">
+                <span className="absolute -left-3">
+                  {entry.actorId && <UserAvatar user={entry.actorId} />}
+                </span>
+                <p className="text-sm text-gray-900">
+                  <span className="font-medium">{entry.actorId?.name || 'Deleted user'}</span>{' '}
+                  {entry.action === ActivityAction.CREATED && 'created this task'}
+                  {entry.action === ActivityAction.DELETED && 'moved this task to the trash'}
+                  {entry.action === ActivityAction.RESTORED && 'restored this task'}
+                  {entry.action === ActivityAction.ARCHIVED && 'archived this task'}
+                  {entry.action === ActivityAction.UNARCHIVED && 'unarchived this task'}
+                  {entry.action === ActivityAction.UPDATED && 'changed'}
+                  <span className="text-gray-500"> · {new Date(entry.createdAt).toLocaleString()}</span>
+                </p>
+                {entry.changes.length > 0 && (
+                  <ul className="mt-1 space-y-0.5 text-sm text-gray-600">
+                    {entry.changes.map((change) => (
+                      <li key={change.field}>{describeChange(change)}</li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import { UserReference } from '@/types';
+import UserAvatar from '@/components/UserAvatar';
+
+interface AssigneeChipsProps {
+  assignees?: UserReference[];
+  max?: number; // Avatars shown before collapsing the rest into "+N"
+}
+
+// Overlapping avatars of the people working on a task
+export default function AssigneeChips({ assignees, max = 3 }: AssigneeChipsProps) {
+  if (!assignees || assignees.length === 0) {
+    return <span className="text-xs text-gray-400">Unassigned</span>;
+  }
+
+  const shown = assignees.slice(0, max);
+  const hidden = assignees.length - shown.length;
+
+  return (
+    <span
+      className="inline-flex items-center -space-x-1.5"
+      title={assignees.map(assignee => assignee.name).join(', ')}
+    >
+      {shown.map(assignee => (
+        <UserAvatar key={assignee._id} user={assignee} />
+      ))}
+      {hidden > 0 && (
+        <span className="w-6 h-6 rounded-full bg-gray-100 text-gray-600 text-[10px] font-semibold inline-flex items-center justify-center ring-2 ring-white">
+          +{hidden}
+        </span>
+      )}
+    </span>
+  );
+}
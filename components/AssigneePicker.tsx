@@ -0,0 +1,61 @@
+'use client';
+
+import { UserReference } from '@/types';
+import UserAvatar from '@/components/UserAvatar';
+
+interface AssigneePickerProps {
+  value: string[]; // Selected user IDs
+  onChange: (assignees: string[]) => void;
+  members: UserReference[]; // Everyone who can be assigned
+  currentUserId?: string; // Marked "(you)"
+  disabled?: boolean;
+  maxAssignees?: number;
+}
+
+// Toggle chips for the project's members; mirrors the server-side limit of 10
+export default function AssigneePicker({
+  value,
+  onChange,
+  members,
+  currentUserId,
+  disabled = false,
+  maxAssignees = 10,
+}: AssigneePickerProps) {
+  const toggle = (memberId: string) => {
+    if (value.includes(memberId)) {
+      onChange(value.filter(id => id !== memberId));
+    } else if (value.length < maxAssignees) {
+      onChange([...value, memberId]);
+    }
+  };
+
+  if (members.length === 0) {
+    return <p className="text-sm text-gray-500">Loading members...</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {members.map(member => {
+        const selected = value.includes(member._id);
+        return (
+          <button
+            key={member._id}
+            type="button"
+            onClick={() => toggle(member._id)}
+            disabled={disabled || (!selected && value.length >= maxAssignees)}
+            aria-pressed={selected}
+            className={`inline-flex items-center gap-2 pl-1 pr-3 py-1 rounded-full border text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              selected
+                ? 'bg-blue-50 border-blue-300 text-blue-800'
+                : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <UserAvatar user={member} />
+            {member.name}
+            {member._id === currentUserId && <span className="text-gray-500">(you)</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+interface BreakdownItem {
+  key: string;
+  label: string;
+  value: number;
+  color: string; // CSS color of the bar
+}
+
+interface BreakdownChartProps {
+  items: BreakdownItem[];
+  emptyMessage?: string;
+  formatValue?: (value: number) => string; // E.g. seconds as "2h 05m"
+}
+
+// Horizontal bar chart of counts, bars scaled to the largest value
+export default function BreakdownChart({ items, emptyMessage = 'No tasks yet', formatValue = String }: BreakdownChartProps) {
+  const max = Math.max(...items.map(item => item.value), 0);
+
+  if (max === 0) {
+    return <p className="text-sm text-gray-500 text-center py-6">{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {items.map((item) => (
+        <li key={item.key}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="text-gray-700">{item.label}</span>
+            <span className="font-medium text-gray-900">{formatValue(item.value)}</span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full rounded-full"
+              style={{ width: `${(item.value / max) * 100}%`, backgroundColor: item.color }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useState } from 'react';
+import TagInput from '@/components/TagInput';
+import { useCategories } from '@/hooks/useCategories';
+import { BulkOperation, TaskPriority, TaskStatus } from '@/types';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  canDelete: boolean; // Whether deleting is offered at all - the server checks each task
+  isSubmitting: boolean;
+  onApply: (operation: BulkOperation) => void;
+  onClear: () => void;
+}
+
+type BulkAction = BulkOperation['action'];
+
+const ACTION_LABELS: Record<BulkAction, string> = {
+  status: 'Set status',
+  priority: 'Set priority',
+  category: 'Set category',
+  dueDate: 'Set due date',
+  addTags: 'Add tags',
+  removeTags: 'Remove tags',
+  archive: 'Archive',
+  delete: 'Move to trash',
+};
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Bar pinned to the bottom of the screen while tasks are selected
+export default function BulkActionBar({ selectedCount, canDelete, isSubmitting, onApply, onClear }: BulkActionBarProps) {
+  const { categories } = useCategories();
+  const [action, setAction] = useState<BulkAction>('status');
+  const [status, setStatus] = useState(TaskStatus.COMPLETED);
+  const [priority, setPriority] = useState(TaskPriority.MEDIUM);
+  const [category, setCategory] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+
+  const actions = (Object.keys(ACTION_LABELS) as BulkAction[]).filter(key => key !== 'delete' || canDelete);
+  const selectedCategory = category || categories[0]?.key || '';
+
+  // The operation as the API expects it, or null until it is complete
+  const buildOperation = (): BulkOperation | null => {
+    switch (action) {
+      case 'status': return { action, status };
+      case 'priority': return { action, priority };
+      case 'category': return selectedCategory ? { action, category: selectedCategory } : null;
+      case 'dueDate': return { action, dueDate };
+      case 'addTags':
+      case 'removeTags': return tags.length > 0 ? { action, tags } : null;
+      default: return { action };
+    }
+  };
+
+  const operation = buildOperation();
+
+  const apply = () => {
+    if (!operation) return;
+    const tasks = `${selectedCount} task${selectedCount !== 1 ? 's' : ''}`;
+    if (action === 'delete' && !confirm(`Move ${tasks} to the trash?`)) return;
+    if (action === 'dueDate' && !dueDate && !confirm(`Remove the due date from ${tasks}?`)) return;
+    onApply(operation);
+  };
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-40 bg-white border-t border-gray-200 shadow-lg">
+      <div className="max-w-7xl mx-auto px-4 py-3 flex flex-wrap items-center gap-3">
+        <span className="font-medium text-gray-900">{selectedCount} selected</span>
+
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value as BulkAction)}
+          className={inputClass}
+          aria-label="Bulk action"
+        >
+          {actions.map((key) => (
+            <option key={key} value={key}>{ACTION_LABELS[key]}</option>
+          ))}
+        </select>
+
+        {/* Value for the chosen action */}
+        {action === 'status' && (
+          <select value={status} onChange={(e) => setStatus(e.target.value as TaskStatus)} className={inputClass} aria-label="Status">
+            <option value={TaskStatus.PENDING}>Pending</option>
+            <option value={TaskStatus.IN_PROGRESS}>In Progress</option>
+            <option value={TaskStatus.COMPLETED}>Completed</option>
+          </select>
+        )}
+        {action === 'priority' && (
+          <select value={priority} onChange={(e) => setPriority(e.target.value as TaskPriority)} className={inputClass} aria-label="Priority">
+            <option value={TaskPriority.LOW}>Low</option>
+            <option value={TaskPriority.MEDIUM}>Medium</option>
+            <option value={TaskPriority.HIGH}>High</option>
+            <option value={TaskPriority.URGENT}>Urgent</option>
+          </select>
+        )}
+        {action === 'category' && (
+          <select value={selectedCategory} onChange={(e) => setCategory(e.target.value)} className={inputClass} aria-label="Category">
+            {categories.map((option) => (
+              <option key={option.key} value={option.key}>
+                {option.icon} {option.name}
+              </option>
+            ))}
+          </select>
+        )}
+        {action === 'dueDate' && (
+          <input
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            min={new Date().toISOString().split('T')[0]}
+            className={inputClass}
+            aria-label="Due date"
+            title="Leave empty to remove the due date"
+          />
+        )}
+        {(action === 'addTags' || action === 'removeTags') && (
+          <div className="min-w-[16rem]">
+            <TagInput value={tags} onChange={setTags} placeholder="Tags..." />
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={apply}
+          disabled={isSubmitting || !operation}
+          className={`px-4 py-2 text-white rounded-md transition-colors disabled:cursor-not-allowed ${
+            action === 'delete'
+              ? 'bg-red-600 hover:bg-red-700 disabled:bg-red-300'
+              : 'bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300'
+          }`}
+        >
+          {isSubmitting ? 'Applying...' : 'Apply'}
+        </button>
+
+        <button
+          type="button"
+          onClick={onClear}
+          className="ml-auto text-gray-600 hover:text-gray-800 text-sm font-medium"
+        >
+          Clear selection
+        </button>
+      </div>
+    </div>
+  );
+}
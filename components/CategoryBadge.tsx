@@ -0,0 +1,25 @@
+'use client';
+
+import { ICategory } from '@/types';
+
+interface CategoryBadgeProps {
+  category?: ICategory;
+  categoryKey: string; // Shown as-is if the category could not be found
+}
+
+// Category pill in the category's own color
+export default function CategoryBadge({ category, categoryKey }: CategoryBadgeProps) {
+  if (!category) {
+    return <span className="text-gray-500">{categoryKey}</span>;
+  }
+
+  return (
+    <span
+      className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium"
+      style={{ backgroundColor: `${category.color}20`, color: category.color }}
+    >
+      <span className="mr-1">{category.icon}</span>
+      {category.name}
+    </span>
+  );
+}
@@ -0,0 +1,368 @@
+'use client';
+
+import { useState, useEffect, useRef, KeyboardEvent } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProjects } from '@/contexts/ProjectContext';
+import UserAvatar from '@/components/UserAvatar';
+import Markdown from '@/components/Markdown';
+import { hasPermission } from '@/lib/permissions';
+import { ApiResponse, IComment, CommentData, UserReference } from '@/types';
+
+interface CommentThreadProps {
+  taskId: string;
+  projectId: string;
+}
+
+// The "@partial" being typed right before the caret, if any
+const MENTION_QUERY = /(?:^|\s)@([^\s@]{0,30})$/;
+
+interface ComposerProps {
+  initialValue?: string;
+  members: UserReference[];
+  submitLabel: string;
+  isSubmitting: boolean;
+  onSubmit: (body: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+// Textarea with @mention suggestions for the project's members
+function Composer({ initialValue = '', members, submitLabel, isSubmitting, onSubmit, onCancel }: ComposerProps) {
+  const [body, setBody] = useState(initialValue);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const suggestions = mentionQuery === null
+    ? []
+    : members
+        .filter(member => member.name.toLowerCase().includes(mentionQuery.toLowerCase()))
+        .slice(0, 5);
+
+  // Look for an unfinished mention right before the caret
+  const updateMentionQuery = (value: string, caret: number) => {
+    const match = value.slice(0, caret).match(MENTION_QUERY);
+    setMentionQuery(match ? match[1] : null);
+    setHighlighted(0);
+  };
+
+  // Replace the "@partial" with the member's full name
+  const insertMention = (member: UserReference) => {
+    const textarea = textareaRef.current;
+    if (!textarea || mentionQuery === null) return;
+
+    const caret = textarea.selectionStart;
+    const start = caret - mentionQuery.length - 1;
+    const mention = `@${member.name} `;
+    setBody(body.slice(0, start) + mention + body.slice(caret));
+    setMentionQuery(null);
+
+    // Put the caret after the inserted name once React has re-rendered
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + mention.length, start + mention.length);
+    });
+  };
+
+  const submit = async () => {
+    if (!body.trim() || isSubmitting) return;
+    if (await onSubmit(body)) {
+      setBody('');
+      setMentionQuery(null);
+    }
+  };
+
+  // Arrows move through suggestions, Enter/Tab picks one, Ctrl/Cmd+Enter posts
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setHighlighted(prev => Math.min(prev + 1, suggestions.length - 1));
+        return;
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setHighlighted(prev => Math.max(prev - 1, 0));
+        return;
+      }
+      if ((e.key === 'Enter' && !e.ctrlKey && !e.metaKey) || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(suggestions[highlighted]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setMentionQuery(null);
+        return;
+      }
+    }
+
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      submit();
+    } else if (e.key === 'Escape' && onCancel) {
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <textarea
+          ref={textareaRef}
+          value={body}
+          onChange={(e) => {
+            setBody(e.target.value);
+            updateMentionQuery(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setMentionQuery(null)}
+          rows={3}
+          maxLength={5000}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="Write a comment... Use @ to mention someone"
+          autoFocus={!!onCancel}
+        />
+
+        {/* Mention suggestions */}
+        {suggestions.length > 0 && (
+          <ul className="absolute z-10 mt-1 w-64 bg-white border border-gray-200 rounded-md shadow-lg">
+            {suggestions.map((member, index) => (
+              <li
+                key={member._id}
+                // onMouseDown fires before the textarea's blur, so the click isn't lost
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertMention(member);
+                }}
+                className={`px-3 py-2 cursor-pointer flex items-center gap-2 text-sm ${
+                  index === highlighted ? 'bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <UserAvatar user={member} />
+                <span>{member.name}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs text-gray-500">
+          Markdown supported: **bold**, *italic*, `code`, [links](https://...), lists and &gt; quotes
+        </p>
+        <div className="flex items-center gap-3">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="text-gray-600 hover:text-gray-800 text-sm font-medium"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={submit}
+            disabled={isSubmitting || !body.trim()}
+            className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed transition-colors"
+          >
+            {submitLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// A task's discussion, oldest comment first, with a composer at the bottom
+export default function CommentThread({ taskId, projectId }: CommentThreadProps) {
+  const { user } = useAuth();
+  const { getRole, getMembers } = useProjects();
+  const [comments, setComments] = useState<IComment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  // Viewers only read along (the composer shows until the projects have loaded -
+  // the server checks again anyway)
+  const members = getMembers(projectId);
+  const role = getRole(projectId);
+  const canComment = !role || hasPermission(role, 'task:comment');
+
+  // Load the thread
+  useEffect(() => {
+    const fetchComments = async () => {
+      try {
+        const response = await fetch(`/api/tasks/${taskId}/comments`, {
+          credentials: 'include',
+        });
+
+        if (response.ok) {
+          const result: ApiResponse<IComment[]> = await response.json();
+          if (result.success && result.data) {
+            setComments(result.data);
+          }
+        } else {
+          console.error('Failed to fetch comments');
+        }
+      } catch (error) {
+        console.error('Error fetching comments:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchComments();
+  }, [taskId]);
+
+  // Send a change to the API and return the comment it sends back
+  const mutate = async (url: string, method: string, data?: CommentData) => {
+    try {
+      setError('');
+      setIsSubmitting(true);
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: data ? JSON.stringify(data) : undefined,
+      });
+
+      const result: ApiResponse<IComment> = await response.json();
+
+      if (result.success && result.data) {
+        return result.data;
+      }
+
+      setError(
+        result.fieldErrors
+          ? Object.values(result.fieldErrors).join(', ')
+          : result.error || 'Something went wrong. Please try again.'
+      );
+    } catch (error) {
+      console.error('Comment update error:', error);
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+    return null;
+  };
+
+  const addComment = async (body: string) => {
+    const comment = await mutate(`/api/tasks/${taskId}/comments`, 'POST', { body });
+    if (comment) setComments(prev => [...prev, comment]);
+    return !!comment;
+  };
+
+  const editComment = async (commentId: string, body: string) => {
+    const comment = await mutate(`/api/tasks/${taskId}/comments/${commentId}`, 'PATCH', { body });
+    if (comment) {
+      setComments(prev => prev.map(existing => existing._id === commentId ? comment : existing));
+      setEditingId(null);
+    }
+    return !!comment;
+  };
+
+  const deleteComment = async (commentId: string) => {
+    if (!confirm('Delete this comment?')) return;
+    const comment = await mutate(`/api/tasks/${taskId}/comments/${commentId}`, 'DELETE');
+    if (comment) setComments(prev => prev.filter(existing => existing._id !== commentId));
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg mt-6">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-medium text-gray-900">
+          💬 Comments{comments.length > 0 && ` (${comments.length})`}
+        </h2>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-3">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+          </div>
+        ) : comments.length === 0 ? (
+          <p className="text-sm text-gray-500">No comments yet. Start the discussion below.</p>
+        ) : (
+          <ul className="space-y-5">
+            {comments.map((comment) => {
+              const isAuthor = comment.authorId?._id === user?._id;
+
+              return (
+                <li key={comment._id} className="flex gap-3">
+                  {comment.authorId && <UserAvatar user={comment.authorId} size="md" />}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+                      <span className="font-medium text-gray-900">{comment.authorId?.name || 'Deleted user'}</span>
+                      <span className="text-gray-500" title={new Date(comment.createdAt).toLocaleString()}>
+                        {new Date(comment.createdAt).toLocaleString()}
+                      </span>
+                      {comment.editedAt && (
+                        <span className="text-gray-400" title={`Edited ${new Date(comment.editedAt).toLocaleString()}`}>
+                          (edited)
+                        </span>
+                      )}
+                      {isAuthor && editingId !== comment._id && (
+                        <span className="ml-auto flex gap-3">
+                          <button
+                            type="button"
+                            onClick={() => setEditingId(comment._id)}
+                            className="text-gray-600 hover:text-gray-800 font-medium"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => deleteComment(comment._id)}
+                            disabled={isSubmitting}
+                            className="text-red-600 hover:text-red-800 font-medium"
+                          >
+                            Delete
+                          </button>
+                        </span>
+                      )}
+                    </div>
+                    <div className="mt-1">
+                      {editingId === comment._id ? (
+                        <Composer
+                          initialValue={comment.body}
+                          members={members}
+                          submitLabel="Save"
+                          isSubmitting={isSubmitting}
+                          onSubmit={(body) => editComment(comment._id, body)}
+                          onCancel={() => setEditingId(null)}
+                        />
+                      ) : (
+                        <Markdown text={comment.body} mentions={comment.mentions} />
+                      )}
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {canComment ? (
+          <Composer
+            members={members}
+            submitLabel="Comment"
+            isSubmitting={isSubmitting}
+            onSubmit={addComment}
+          />
+        ) : (
+          <p className="text-sm text-gray-500">Viewers can read the discussion but not comment.</p>
+        )}
+      </div>
+    </div>
+  );
+}
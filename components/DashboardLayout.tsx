@@ -4,6 +4,10 @@ import { ReactNode, useState } from 'react';
 import Link from 'next/link';
 import { useRouter, usePathname } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
+import { useProjects } from '@/contexts/ProjectContext';
+import RunningTimer from '@/components/RunningTimer';
+import NotificationBell from '@/components/NotificationBell';
+import VerifyEmailBanner from '@/components/VerifyEmailBanner';
 
 interface DashboardLayoutProps {
   children: ReactNode;
@@ -11,6 +15,7 @@ interface DashboardLayoutProps {
 
 export default function DashboardLayout({ children }: DashboardLayoutProps) {
   const { user, logout } = useAuth();
+  const { projects, currentProject, pendingInvites, switchProject, can } = useProjects();
   const router = useRouter();
   const pathname = usePathname();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
@@ -19,8 +24,16 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
   const navigation = [
     { name: 'Dashboard', href: '/dashboard', icon: '📊' },
     { name: 'All Tasks', href: '/tasks', icon: '📝' },
-    { name: 'Create Task', href: '/tasks/create', icon: '➕' },
-  //  { name: 'Categories', href: '/categories', icon: '📁' },//
+    { name: 'Board', href: '/tasks/board', icon: '🗂️' },
+    { name: 'Calendar', href: '/tasks/calendar', icon: '📅' },
+    ...(can('task:create') ? [{ name: 'Create Task', href: '/tasks/create', icon: '➕' }] : []),
+    { name: 'Categories', href: '/categories', icon: '📁' },
+    { name: 'Tags', href: '/tags', icon: '🏷️' },
+    { name: 'Archive', href: '/tasks/archive', icon: '📦' },
+    { name: 'Trash', href: '/tasks/trash', icon: '🗑️' },
+    { name: 'Projects', href: '/projects', icon: '👥' },
+    { name: 'Settings', href: '/settings', icon: '⚙️' },
+    { name: 'Sessions', href: '/sessions', icon: '🔐' },
   ];
 
   // Handle logout
@@ -66,8 +79,41 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
               </div>
             </div>
 
-            {/* Right side - User menu */}
+            {/* Right side - Project switcher and user menu */}
             <div className="flex items-center space-x-4">
+              {/* Every task page shows the tasks of the selected project */}
+              {projects.length > 0 && (
+                <select
+                  value={currentProject?._id || ''}
+                  onChange={(e) => switchProject(e.target.value)}
+                  className="max-w-[10rem] px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  title="Switch project"
+                >
+                  {projects.map(project => (
+                    <option key={project._id} value={project._id}>
+                      {project.personal ? '🔒' : '👥'} {project.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              
+              <RunningTimer />
+              
+              <NotificationBell />
+              
+              {pendingInvites.length > 0 && (
+                <Link
+                  href="/projects"
+                  className="relative text-gray-500 hover:text-gray-700"
+                  title={`${pendingInvites.length} pending project invite${pendingInvites.length !== 1 ? 's' : ''}`}
+                >
+                  ✉️
+                  <span className="absolute -top-2 -right-2 bg-red-500 text-white text-xs rounded-full px-1.5">
+                    {pendingInvites.length}
+                  </span>
+                </Link>
+              )}
+              
               <span className="text-gray-700 hidden sm:block">
                 Welcome, {user?.name}!
               </span>
@@ -135,8 +181,10 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
         )}
       </nav>
 
-      {/* Main content */}
-      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+      <VerifyEmailBanner />
+
+      {/* Main content - remounted on project switch so pages load the new project's tasks */}
+      <main key={currentProject?._id || 'no-project'} className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
         {children}
       </main>
     </div>
@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import { Estimate, EstimateUnit } from '@/types';
+
+interface EstimatePickerProps {
+  value?: Estimate | null;
+  onChange: (value: Estimate | null) => void;
+  error?: string;
+}
+
+// Quick picks per unit - a typical planning poker scale for points
+const PRESETS: Record<EstimateUnit, number[]> = {
+  [EstimateUnit.HOURS]: [0.5, 1, 2, 4, 8],
+  [EstimateUnit.POINTS]: [1, 2, 3, 5, 8, 13],
+};
+
+// Problem with a typed estimate, matching the server's rules
+export function validateEstimate(estimate?: Estimate | null): string | null {
+  if (!estimate) return null;
+  if (isNaN(estimate.value)) return 'Estimate must be a number';
+  if (estimate.value < 0.25) return 'Estimate must be at least 0.25';
+  if (estimate.value > 1000) return 'Estimate must be 1000 or less';
+  if (!Number.isInteger(estimate.value * 4)) return 'Estimate must be a multiple of 0.25';
+  return null;
+}
+
+export default function EstimatePicker({ value, onChange, error }: EstimatePickerProps) {
+  // The typed text, so half-typed numbers like "1." survive re-renders
+  const [text, setText] = useState(value ? String(value.value) : '');
+  const [unit, setUnit] = useState(value?.unit || EstimateUnit.HOURS);
+
+  const handleValueChange = (next: string) => {
+    setText(next);
+    onChange(next.trim() ? { value: Number(next), unit } : null);
+  };
+
+  const handleUnitChange = (next: EstimateUnit) => {
+    setUnit(next);
+    if (value) onChange({ ...value, unit: next });
+  };
+
+  const pickPreset = (preset: number) => {
+    setText(String(preset));
+    onChange({ value: preset, unit });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="number"
+          min={0.25}
+          max={1000}
+          step={0.25}
+          value={text}
+          onChange={(e) => handleValueChange(e.target.value)}
+          placeholder="No estimate"
+          className={`w-32 px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+            error ? 'border-red-300' : 'border-gray-300'
+          }`}
+        />
+        <select
+          value={unit}
+          onChange={(e) => handleUnitChange(e.target.value as EstimateUnit)}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value={EstimateUnit.HOURS}>hours</option>
+          <option value={EstimateUnit.POINTS}>points</option>
+        </select>
+        {value && (
+          <button
+            type="button"
+            onClick={() => handleValueChange('')}
+            className="text-sm text-gray-600 hover:text-gray-800"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {PRESETS[unit].map((preset) => (
+          <button
+            key={preset}
+            type="button"
+            onClick={() => pickPreset(preset)}
+            className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+              value?.value === preset ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {preset}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
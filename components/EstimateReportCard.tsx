@@ -0,0 +1,176 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ApiResponse, EstimateAccuracy, EstimateReport, EstimateUnit, ICategory, TaskPriority } from '@/types';
+
+interface EstimateReportCardProps {
+  categories: ICategory[];
+}
+
+type ReportDays = 30 | 90 | 365;
+
+const PRIORITIES = [TaskPriority.URGENT, TaskPriority.HIGH, TaskPriority.MEDIUM, TaskPriority.LOW];
+
+// How far off the estimates were - within 25% counts as on target
+function ratioClass(ratio: number | null, unit: EstimateUnit) {
+  if (ratio === null || unit === EstimateUnit.POINTS) return 'text-gray-900';
+  if (ratio > 1.25) return 'text-red-600';
+  if (ratio < 0.75) return 'text-blue-600';
+  return 'text-green-600';
+}
+
+interface AccuracyRowProps {
+  label: string;
+  accuracy: EstimateAccuracy;
+  unit: EstimateUnit;
+}
+
+function AccuracyRow({ label, accuracy, unit }: AccuracyRowProps) {
+  return (
+    <tr className="border-t border-gray-100">
+      <td className="py-2 pr-4 text-gray-700">{label}</td>
+      <td className="py-2 px-2 text-right text-gray-900">{accuracy.tasks}</td>
+      <td className="py-2 px-2 text-right text-gray-900">
+        {accuracy.estimated}{unit === EstimateUnit.HOURS ? 'h' : ' pts'}
+      </td>
+      <td
+        className="py-2 px-2 text-right text-gray-900"
+        title={`${accuracy.trackedTasks} of ${accuracy.tasks} from logged time, the rest from creation to completion`}
+      >
+        {accuracy.actualHours}h
+      </td>
+      <td className={`py-2 pl-2 text-right font-medium ${ratioClass(accuracy.ratio, unit)}`}>
+        {accuracy.ratio === null ? '—' : unit === EstimateUnit.HOURS ? `×${accuracy.ratio}` : `${accuracy.ratio}h`}
+      </td>
+    </tr>
+  );
+}
+
+// Estimates of recently completed tasks next to the time they actually took,
+// by category and priority
+export default function EstimateReportCard({ categories }: EstimateReportCardProps) {
+  const [report, setReport] = useState<EstimateReport | null>(null);
+  const [days, setDays] = useState<ReportDays>(90);
+  const [unit, setUnit] = useState<EstimateUnit>(EstimateUnit.HOURS);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        const response = await fetch(`/api/tasks/estimates?days=${days}`, {
+          credentials: 'include',
+        });
+
+        if (response.ok) {
+          const result: ApiResponse<EstimateReport> = await response.json();
+          if (result.success && result.data) {
+            setReport(result.data);
+          }
+        } else {
+          console.error('Failed to fetch estimate report');
+        }
+      } catch (error) {
+        console.error('Error fetching estimate report:', error);
+      }
+    };
+
+    fetchReport();
+  }, [days]);
+
+  const unitReport = report?.[unit];
+
+  // Category rows in the user's category order, with any unknown keys at the end
+  const categoryRows = unitReport
+    ? [
+        ...categories
+          .filter(category => unitReport.byCategory[category.key])
+          .map(category => ({
+            key: category.key,
+            label: `${category.icon} ${category.name}`,
+            accuracy: unitReport.byCategory[category.key],
+          })),
+        ...Object.entries(unitReport.byCategory)
+          .filter(([key]) => !categories.some(category => category.key === key))
+          .map(([key, accuracy]) => ({ key, label: key, accuracy })),
+      ]
+    : [];
+
+  // Segmented control shared by the unit and range pickers
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1 text-sm font-medium ${active ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`;
+
+  const tableHead = (title: string) => (
+    <thead>
+      <tr className="text-xs uppercase tracking-wide text-gray-500">
+        <th className="pb-2 pr-4 text-left font-medium">{title}</th>
+        <th className="pb-2 px-2 text-right font-medium">Tasks</th>
+        <th className="pb-2 px-2 text-right font-medium">Estimated</th>
+        <th className="pb-2 px-2 text-right font-medium">Actual</th>
+        <th className="pb-2 pl-2 text-right font-medium">
+          {unit === EstimateUnit.HOURS ? 'Actual / est.' : 'Hours / pt'}
+        </th>
+      </tr>
+    </thead>
+  );
+
+  return (
+    <div className="bg-white shadow rounded-lg mb-8">
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Estimates vs. Actual</h2>
+          <p className="text-sm text-gray-500">
+            Estimated tasks completed in the last {days} days. Actual time is the logged time, or the time from creation to completion.
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+            {[EstimateUnit.HOURS, EstimateUnit.POINTS].map((value) => (
+              <button key={value} onClick={() => setUnit(value)} className={toggleClass(unit === value)}>
+                {value === EstimateUnit.HOURS ? 'Hours' : 'Points'}
+              </button>
+            ))}
+          </div>
+          <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+            {([30, 90, 365] as const).map((value) => (
+              <button key={value} onClick={() => setDays(value)} className={toggleClass(days === value)}>
+                {value} days
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6">
+        {!unitReport || unitReport.overall.tasks === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No completed tasks estimated in {unit} yet
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 text-sm">
+            <table className="w-full">
+              {tableHead('Category')}
+              <tbody>
+                {categoryRows.map((row) => (
+                  <AccuracyRow key={row.key} label={row.label} accuracy={row.accuracy} unit={unit} />
+                ))}
+                <AccuracyRow label="All categories" accuracy={unitReport.overall} unit={unit} />
+              </tbody>
+            </table>
+            <table className="w-full">
+              {tableHead('Priority')}
+              <tbody>
+                {PRIORITIES.filter(priority => unitReport.byPriority[priority]).map((priority) => (
+                  <AccuracyRow
+                    key={priority}
+                    label={priority}
+                    accuracy={unitReport.byPriority[priority]!}
+                    unit={unit}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+'use client';
+
+interface HighlightTextProps {
+  text: string;
+  query?: string;
+}
+
+// Escape a search term for use inside a RegExp
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Render text with every word of the search query marked
+export default function HighlightText({ text, query }: HighlightTextProps) {
+  // Quotes and the exclusion prefix are search syntax, not part of the terms
+  const terms = (query || '')
+    .replace(/"/g, ' ')
+    .split(/\s+/)
+    .filter(term => term && !term.startsWith('-'))
+    .map(escapeRegExp);
+
+  if (terms.length === 0) return <>{text}</>;
+
+  // Splitting on a capturing group keeps the matches at the odd indexes
+  const parts = text.split(new RegExp(`(${terms.join('|')})`, 'gi'));
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
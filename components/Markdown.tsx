@@ -0,0 +1,198 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { UserReference } from '@/types';
+import { mentionPattern } from '@/lib/mentions';
+
+interface MarkdownProps {
+  text: string;
+  mentions?: Pick<UserReference, 'name'>[]; // People highlighted where the text says @name
+}
+
+// The subset of markdown comments support. Everything is rendered as React
+// elements, never as HTML, so a comment can't inject markup or scripts.
+type Block =
+  | { type: 'code'; text: string }
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'quote'; lines: string[] }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'paragraph'; lines: string[] };
+
+const FENCE = /^\s*```/;
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+
+// `code`, **bold**, *italic* or _italic_, [text](url) and bare URLs. Only web
+// and mail links are turned into anchors.
+const INLINE = new RegExp(
+  [
+    '`([^`\\n]+)`',
+    '\\*\\*([^*\\n]+?)\\*\\*',
+    '(?<![\\w*])\\*([^*\\s](?:[^*\\n]*[^*\\s])?)\\*(?![\\w*])',
+    '(?<!\\w)_([^_\\s](?:[^_\\n]*[^_\\s])?)_(?!\\w)',
+    '\\[([^\\]\\n]+)\\]\\(((?:https?:\\/\\/|mailto:)[^\\s)]+)\\)',
+    '(https?:\\/\\/[^\\s<]*[^\\s<.,;:!?)\\]\'"])',
+  ].join('|'),
+  'g'
+);
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+
+// Split the text into blocks separated by blank lines, fences, headings, quotes and lists
+function parseBlocks(text: string): Block[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+    } else if (FENCE.test(line)) {
+      // Everything up to the closing fence (or the end) is shown verbatim
+      const code: string[] = [];
+      for (i++; i < lines.length && !FENCE.test(lines[i]); i++) code.push(lines[i]);
+      i++;
+      blocks.push({ type: 'code', text: code.join('\n') });
+    } else if (HEADING.test(line)) {
+      const [, hashes, heading] = line.match(HEADING)!;
+      blocks.push({ type: 'heading', level: hashes.length, text: heading });
+      i++;
+    } else if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      for (; i < lines.length && QUOTE.test(lines[i]); i++) quoted.push(lines[i].match(QUOTE)![1]);
+      blocks.push({ type: 'quote', lines: quoted });
+    } else if (LIST_ITEM.test(line)) {
+      const ordered = /\d/.test(line.match(LIST_ITEM)![1]);
+      const items: string[] = [];
+      for (; i < lines.length; i++) {
+        const item = lines[i].match(LIST_ITEM);
+        if (!item || /\d/.test(item[1]) !== ordered) break;
+        items.push(item[2]);
+      }
+      blocks.push({ type: 'list', ordered, items });
+    } else {
+      const paragraph: string[] = [];
+      for (; i < lines.length && lines[i].trim() && !startsBlock(lines[i]); i++) paragraph.push(lines[i]);
+      blocks.push({ type: 'paragraph', lines: paragraph });
+    }
+  }
+
+  return blocks;
+}
+
+// Plain text with the @mentions highlighted
+function renderMentions(text: string, mentions: RegExp | null, key: string): ReactNode[] {
+  if (!mentions) return [text];
+
+  // Splitting on the pattern's capturing group keeps the names at the odd indexes
+  return text.split(mentions).map((part, index) =>
+    index % 2 === 1 ? (
+      <span key={`${key}-${index}`} className="font-medium text-blue-700 bg-blue-50 rounded px-0.5">
+        @{part}
+      </span>
+    ) : (
+      part
+    )
+  );
+}
+
+function renderInline(text: string, mentions: RegExp | null, key: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE)) {
+    const index = match.index!;
+    const [whole, code, bold, italic, underscored, linkText, linkUrl, url] = match;
+    const matchKey = `${key}-${index}`;
+
+    if (index > last) nodes.push(...renderMentions(text.slice(last, index), mentions, `${key}-t${last}`));
+
+    if (code) {
+      nodes.push(
+        <code key={matchKey} className="px-1 py-0.5 rounded bg-gray-100 text-sm font-mono">{code}</code>
+      );
+    } else if (bold) {
+      nodes.push(<strong key={matchKey}>{renderInline(bold, mentions, matchKey)}</strong>);
+    } else if (italic || underscored) {
+      nodes.push(<em key={matchKey}>{renderInline(italic || underscored, mentions, matchKey)}</em>);
+    } else {
+      nodes.push(
+        <a
+          key={matchKey}
+          href={linkUrl || url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-blue-600 hover:text-blue-800 underline break-all"
+        >
+          {linkText ? renderInline(linkText, mentions, matchKey) : url}
+        </a>
+      );
+    }
+
+    last = index + whole.length;
+  }
+
+  if (last < text.length) nodes.push(...renderMentions(text.slice(last), mentions, `${key}-t${last}`));
+  return nodes;
+}
+
+// Lines of a paragraph or quote, keeping single line breaks
+function renderLines(lines: string[], mentions: RegExp | null, key: string): ReactNode[] {
+  return lines.flatMap((line, index) => [
+    ...(index > 0 ? [<br key={`${key}-br${index}`} />] : []),
+    ...renderInline(line, mentions, `${key}-${index}`),
+  ]);
+}
+
+// Render comment markdown
+export default function Markdown({ text, mentions = [] }: MarkdownProps) {
+  const pattern = mentionPattern(mentions);
+
+  return (
+    <div className="space-y-2 text-gray-800 break-words">
+      {parseBlocks(text).map((block, index) => {
+        const key = String(index);
+
+        switch (block.type) {
+          case 'code':
+            return (
+              <pre key={key} className="p-3 rounded-md bg-gray-900 text-gray-100 text-sm font-mono overflow-x-auto">
+                <code>{block.text}</code>
+              </pre>
+            );
+          case 'heading':
+            return (
+              <p
+                key={key}
+                className={`font-semibold text-gray-900 ${block.level === 1 ? 'text-lg' : block.level === 2 ? 'text-base' : 'text-sm'}`}
+              >
+                {renderInline(block.text, pattern, key)}
+              </p>
+            );
+          case 'quote':
+            return (
+              <blockquote key={key} className="pl-3 border-l-4 border-gray-300 text-gray-600">
+                {renderLines(block.lines, pattern, key)}
+              </blockquote>
+            );
+          case 'list': {
+            const ListTag = block.ordered ? 'ol' : 'ul';
+            return (
+              <ListTag key={key} className={`pl-6 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}>{renderInline(item, pattern, `${key}-${itemIndex}`)}</li>
+                ))}
+              </ListTag>
+            );
+          }
+          default:
+            return <p key={key}>{renderLines(block.lines, pattern, key)}</p>;
+        }
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import UserAvatar from '@/components/UserAvatar';
+import { ApiResponse, INotification, NotificationList, NotificationType } from '@/types';
+
+// How often the unread count is refreshed
+const POLL_INTERVAL_MS = 60 * 1000;
+
+// The bell in the top bar: unread count and a dropdown with the newest notifications
+export default function NotificationBell() {
+  const [notifications, setNotifications] = useState<INotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications', {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        const result: ApiResponse<NotificationList> = await response.json();
+        if (result.success && result.data) {
+          setNotifications(result.data.notifications);
+          setUnreadCount(result.data.unreadCount);
+        }
+      } else {
+        console.error('Failed to fetch notifications');
+      }
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  }, []);
+
+  // Load now, then poll - and again whenever the dropdown opens
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchNotifications]);
+
+  const toggle = () => {
+    if (!isOpen) fetchNotifications();
+    setIsOpen(!isOpen);
+  };
+
+  const markRead = async (notification: INotification) => {
+    if (notification.readAt) return;
+
+    // Update right away - the next poll corrects it if the request fails
+    setNotifications(prev => prev.map(existing =>
+      existing._id === notification._id ? { ...existing, readAt: new Date() } : existing
+    ));
+    setUnreadCount(prev => Math.max(0, prev - 1));
+
+    try {
+      await fetch(`/api/notifications/${notification._id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ read: true }),
+      });
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+    }
+  };
+
+  const markAllRead = async () => {
+    setNotifications(prev => prev.map(existing => ({ ...existing, readAt: existing.readAt || new Date() })));
+    setUnreadCount(0);
+
+    try {
+      await fetch('/api/notifications/read-all', {
+        method: 'POST',
+        credentials: 'include',
+      });
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggle}
+        className="relative text-gray-500 hover:text-gray-700"
+        title={unreadCount > 0 ? `${unreadCount} unread notification${unreadCount !== 1 ? 's' : ''}` : 'Notifications'}
+      >
+        🔔
+        {unreadCount > 0 && (
+          <span className="absolute -top-2 -right-2 bg-red-500 text-white text-xs rounded-full px-1.5">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          {/* Clicking anywhere else closes the dropdown */}
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+
+          <div className="absolute right-0 z-20 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200">
+            <div className="px-4 py-3 border-b border-gray-200 flex justify-between items-center">
+              <h3 className="text-sm font-medium text-gray-900">Notifications</h3>
+              {unreadCount > 0 && (
+                <button
+                  onClick={markAllRead}
+                  className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+                >
+                  Mark all read
+                </button>
+              )}
+            </div>
+
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-gray-500 text-center">No notifications yet</p>
+            ) : (
+              <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+                {notifications.map((notification) => (
+                  <li key={notification._id} className={notification.readAt ? '' : 'bg-blue-50'}>
+                    <Link
+                      href={notification.taskId ? `/tasks/${notification.taskId}/edit` : '/tasks'}
+                      onClick={() => {
+                        markRead(notification);
+                        setIsOpen(false);
+                      }}
+                      className="flex gap-3 px-4 py-3 hover:bg-gray-50"
+                    >
+                      {notification.actorId ? (
+                        <UserAvatar user={notification.actorId} />
+                      ) : (
+                        <span className="w-6 text-center">
+                          {notification.type === NotificationType.REMINDER ? '⏰' : '✏️'}
+                        </span>
+                      )}
+                      <span className="flex-1 min-w-0 text-sm">
+                        <span className="block font-medium text-gray-900 truncate">{notification.title}</span>
+                        <span className="block text-gray-700">{notification.message}</span>
+                        <span className="block text-xs text-gray-500">
+                          {new Date(notification.createdAt).toLocaleString()}
+                        </span>
+                      </span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
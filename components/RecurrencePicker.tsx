@@ -0,0 +1,191 @@
+'use client';
+
+import { RecurrenceFrequency, RecurrenceRuleData } from '@/types';
+import { describeRecurrence } from '@/lib/recurrence';
+
+interface RecurrencePickerProps {
+  value?: RecurrenceRuleData | null;
+  onChange: (value: RecurrenceRuleData | null) => void;
+  error?: string;
+}
+
+// Weekday toggles, Monday first (values follow Date.getDay: 0 = Sunday)
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+];
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+  [RecurrenceFrequency.DAILY]: 'day(s)',
+  [RecurrenceFrequency.WEEKLY]: 'week(s)',
+  [RecurrenceFrequency.MONTHLY]: 'month(s)',
+  [RecurrenceFrequency.YEARLY]: 'year(s)',
+};
+
+export default function RecurrencePicker({ value, onChange, error }: RecurrencePickerProps) {
+  // Merge a change into the current rule
+  const update = (changes: Partial<RecurrenceRuleData>) => {
+    if (!value) return;
+    onChange({ ...value, ...changes });
+  };
+
+  // Switching frequency resets options that only make sense for some frequencies
+  const handleFrequencyChange = (frequency: string) => {
+    if (!frequency) {
+      onChange(null);
+      return;
+    }
+    onChange({
+      frequency: frequency as RecurrenceFrequency,
+      interval: value?.interval || 1,
+      byWeekday: frequency === RecurrenceFrequency.YEARLY ? undefined : value?.byWeekday,
+      count: value?.count,
+      until: value?.until,
+    });
+  };
+
+  // Toggle a weekday on or off
+  const toggleWeekday = (day: number) => {
+    const current = value?.byWeekday || [];
+    const byWeekday = current.includes(day)
+      ? current.filter(d => d !== day)
+      : [...current, day];
+    update({
+      byWeekday: byWeekday.length > 0 ? byWeekday : undefined,
+      bySetPos: byWeekday.length > 0 ? value?.bySetPos : undefined,
+    });
+  };
+
+  // Switch between the three end conditions
+  const handleEndChange = (end: string) => {
+    if (end === 'count') update({ count: value?.count || 10, until: undefined });
+    else if (end === 'until') update({ count: undefined, until: value?.until || '' });
+    else update({ count: undefined, until: undefined });
+  };
+
+  const endType = value?.count ? 'count' : value?.until !== undefined ? 'until' : 'never';
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <select
+          value={value?.frequency || ''}
+          onChange={(e) => handleFrequencyChange(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Does not repeat</option>
+          <option value={RecurrenceFrequency.DAILY}>Daily</option>
+          <option value={RecurrenceFrequency.WEEKLY}>Weekly</option>
+          <option value={RecurrenceFrequency.MONTHLY}>Monthly</option>
+          <option value={RecurrenceFrequency.YEARLY}>Yearly</option>
+        </select>
+
+        {value && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-700">Every</span>
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className="w-20 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-700">{UNIT_LABELS[value.frequency]}</span>
+          </div>
+        )}
+      </div>
+
+      {/* Weekdays - not offered for yearly rules */}
+      {value && value.frequency !== RecurrenceFrequency.YEARLY && (
+        <div>
+          <p className="text-sm text-gray-700 mb-2">On</p>
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAYS.map((day) => (
+              <button
+                key={day.value}
+                type="button"
+                onClick={() => toggleWeekday(day.value)}
+                className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                  value.byWeekday?.includes(day.value)
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {day.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Position within the month, e.g. "first weekday" */}
+      {value?.frequency === RecurrenceFrequency.MONTHLY && !!value.byWeekday?.length && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-700">Which one</span>
+          <select
+            value={value.bySetPos || ''}
+            onChange={(e) => update({ bySetPos: e.target.value ? parseInt(e.target.value, 10) : undefined })}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Every match</option>
+            <option value="1">First</option>
+            <option value="2">Second</option>
+            <option value="3">Third</option>
+            <option value="4">Fourth</option>
+            <option value="-1">Last</option>
+          </select>
+        </div>
+      )}
+
+      {/* End condition */}
+      {value && (
+        <div className="flex flex-wrap items-center gap-4">
+          <span className="text-sm text-gray-700">Ends</span>
+          <select
+            value={endType}
+            onChange={(e) => handleEndChange(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="never">Never</option>
+            <option value="count">After</option>
+            <option value="until">On date</option>
+          </select>
+          {endType === 'count' && (
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                max={1000}
+                value={value.count}
+                onChange={(e) => update({ count: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-700">occurrences</span>
+            </div>
+          )}
+          {endType === 'until' && (
+            <input
+              type="date"
+              value={value.until || ''}
+              onChange={(e) => update({ until: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          )}
+        </div>
+      )}
+
+      {value && (
+        <p className="text-sm text-gray-500">🔁 {describeRecurrence(value)}</p>
+      )}
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+    </div>
+  );
+}
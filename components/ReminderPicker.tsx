@@ -0,0 +1,56 @@
+'use client';
+
+import { DUE_TIME_HOUR, MAX_REMINDERS, REMINDER_OPTIONS, describeReminder } from '@/lib/reminders';
+
+interface ReminderPickerProps {
+  value: number[]; // Minutes before the due date
+  onChange: (value: number[]) => void;
+  hasDueDate: boolean;
+  error?: string;
+}
+
+// Problem with the chosen reminders, matching the server's rules
+export function validateReminders(reminders: number[] | undefined, dueDate?: string): string | null {
+  if (!reminders || reminders.length === 0) return null;
+  if (!dueDate) return 'Reminders need a due date';
+  if (reminders.length > MAX_REMINDERS) return `Pick at most ${MAX_REMINDERS} reminders`;
+  return null;
+}
+
+// Checkboxes for when to be reminded of the due date. Offsets set some other way
+// (e.g. through the API) are listed too, so saving the form keeps them.
+export default function ReminderPicker({ value, onChange, hasDueDate, error }: ReminderPickerProps) {
+  const options = Array.from(new Set([...REMINDER_OPTIONS, ...value])).sort((a, b) => a - b);
+
+  const toggle = (minutes: number) => {
+    onChange(value.includes(minutes)
+      ? value.filter(existing => existing !== minutes)
+      : [...value, minutes]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        {options.map((minutes) => (
+          <label key={minutes} className="inline-flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={value.includes(minutes)}
+              onChange={() => toggle(minutes)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            {describeReminder(minutes)}
+          </label>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {hasDueDate
+          ? `Reminders count back from ${DUE_TIME_HOUR}:00 on the due date, in the creator's time zone, and show up under 🔔`
+          : 'Set a due date to get reminders'}
+      </p>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
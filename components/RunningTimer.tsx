@@ -0,0 +1,34 @@
+'use client';
+
+import Link from 'next/link';
+import { useElapsedSeconds, useTimer } from '@/contexts/TimerContext';
+import { formatClock } from '@/lib/duration';
+
+// The running timer in the top bar: its task, elapsed time and a stop button
+export default function RunningTimer() {
+  const { running, isBusy, stopTimer } = useTimer();
+  const elapsed = useElapsedSeconds(running?.startedAt);
+
+  if (!running || typeof running.taskId === 'string') return null;
+
+  return (
+    <span className="inline-flex items-center gap-2 px-2 py-1 bg-red-50 border border-red-200 rounded-md text-sm">
+      <Link
+        href={`/tasks/${running.taskId._id}/edit`}
+        className="max-w-[8rem] truncate text-red-800 hover:underline"
+        title={running.taskId.title}
+      >
+        ⏱️ {running.taskId.title}
+      </Link>
+      <span className="font-mono text-red-700">{formatClock(elapsed)}</span>
+      <button
+        onClick={() => stopTimer()}
+        disabled={isBusy}
+        className="text-red-700 hover:text-red-900 disabled:opacity-50"
+        title="Stop the timer"
+      >
+        ⏹
+      </button>
+    </span>
+  );
+}
@@ -0,0 +1,28 @@
+'use client';
+
+import { ISubtask } from '@/types';
+
+interface SubtaskProgressProps {
+  subtasks?: ISubtask[];
+}
+
+// Compact "3/7 done" indicator with a progress bar for a task's checklist
+export default function SubtaskProgress({ subtasks }: SubtaskProgressProps) {
+  // Nothing to show for tasks without a checklist
+  if (!subtasks || subtasks.length === 0) return null;
+
+  const done = subtasks.filter(subtask => subtask.completed).length;
+  const percent = Math.round((done / subtasks.length) * 100);
+
+  return (
+    <span className="inline-flex items-center gap-2 text-xs text-gray-600">
+      <span className="w-16 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+        <span
+          className={`block h-full rounded-full ${done === subtasks.length ? 'bg-green-500' : 'bg-blue-500'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </span>
+      {done}/{subtasks.length} done
+    </span>
+  );
+}
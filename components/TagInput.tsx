@@ -0,0 +1,143 @@
+'use client';
+
+import { useState, useEffect, KeyboardEvent } from 'react';
+import { ApiResponse, TagCount } from '@/types';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+  maxTags?: number;
+}
+
+// Tags are stored lowercase without commas, mirror the server-side TagSchema
+const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/,/g, '').slice(0, 30);
+
+export default function TagInput({ value, onChange, placeholder = 'Add tags...', maxTags = 20 }: TagInputProps) {
+  const [input, setInput] = useState('');
+  const [knownTags, setKnownTags] = useState<TagCount[]>([]);
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  // Load the user's existing tags once for autocomplete
+  useEffect(() => {
+    const loadTags = async () => {
+      try {
+        const response = await fetch('/api/tasks/tags', {
+          credentials: 'include',
+        });
+        if (response.ok) {
+          const result: ApiResponse<TagCount[]> = await response.json();
+          if (result.success && result.data) {
+            setKnownTags(result.data);
+          }
+        }
+      } catch (error) {
+        console.error('Error loading tags:', error);
+      }
+    };
+
+    loadTags();
+  }, []);
+
+  // Known tags matching what has been typed so far, most used first
+  const query = normalizeTag(input);
+  const suggestions = knownTags
+    .filter(tag => !value.includes(tag.name) && (!query || tag.name.includes(query)))
+    .slice(0, 8);
+
+  // Add a tag (ignores empty input, duplicates and the max)
+  const addTag = (tag: string) => {
+    const normalized = normalizeTag(tag);
+    setInput('');
+    setHighlighted(0);
+    if (!normalized || value.includes(normalized) || value.length >= maxTags) return;
+    onChange([...value, normalized]);
+  };
+
+  // Remove a tag
+  const removeTag = (tag: string) => {
+    onChange(value.filter(t => t !== tag));
+  };
+
+  // Enter/comma adds, Backspace removes the last tag, arrows move through suggestions
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      const suggestion = input && suggestions[highlighted];
+      addTag(suggestion && suggestion.name.startsWith(query) ? suggestion.name : input);
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(prev => Math.min(prev + 1, suggestions.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Escape') {
+      setIsFocused(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 w-full px-3 py-2 border border-gray-300 rounded-md focus-within:ring-2 focus-within:ring-blue-500">
+        {value.map((tag) => (
+          <span
+            key={tag}
+            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-sm bg-indigo-100 text-indigo-800"
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="text-indigo-500 hover:text-indigo-700"
+              aria-label={`Remove tag ${tag}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (input) addTag(input);
+          }}
+          className="flex-1 min-w-[8rem] outline-none"
+          placeholder={value.length === 0 ? placeholder : ''}
+          maxLength={30}
+        />
+      </div>
+
+      {/* Autocomplete suggestions */}
+      {isFocused && suggestions.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-auto">
+          {suggestions.map((tag, index) => (
+            <li
+              key={tag.name}
+              // onMouseDown fires before the input's blur, so the click isn't lost
+              onMouseDown={(e) => {
+                e.preventDefault();
+                addTag(tag.name);
+              }}
+              className={`px-3 py-2 cursor-pointer flex justify-between text-sm ${
+                index === highlighted ? 'bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              <span>#{tag.name}</span>
+              <span className="text-gray-400">{tag.count}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProjects } from '@/contexts/ProjectContext';
+import { getTimerTaskId, useTimer } from '@/contexts/TimerContext';
+import UserAvatar from '@/components/UserAvatar';
+import TimerButton from '@/components/TimerButton';
+import { hasPermission } from '@/lib/permissions';
+import { formatDuration } from '@/lib/duration';
+import { ApiResponse, ITimeEntry, TaskTimeEntries, TimeEntryData } from '@/types';
+
+interface TimeEntriesProps {
+  taskId: string;
+  projectId: string;
+}
+
+// A date as the value of a datetime-local input, in the browser's time zone
+function toLocalInput(date: Date | string): string {
+  const value = new Date(date);
+  value.setMinutes(value.getMinutes() - value.getTimezoneOffset());
+  return value.toISOString().slice(0, 16);
+}
+
+interface EntryFormProps {
+  entry?: ITimeEntry;
+  submitLabel: string;
+  isSubmitting: boolean;
+  onSubmit: (data: TimeEntryData) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+// Start, end and note of an entry logged by hand (new entries default to the last hour)
+function EntryForm({ entry, submitLabel, isSubmitting, onSubmit, onCancel }: EntryFormProps) {
+  const [startedAt, setStartedAt] = useState(() =>
+    toLocalInput(entry ? entry.startedAt : new Date(Date.now() - 60 * 60 * 1000))
+  );
+  const [endedAt, setEndedAt] = useState(() => toLocalInput(entry?.endedAt || new Date()));
+  const [note, setNote] = useState(entry?.note || '');
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const saved = await onSubmit({
+      startedAt: new Date(startedAt).toISOString(),
+      endedAt: new Date(endedAt).toISOString(),
+      note: note.trim() || undefined,
+    });
+    if (saved && !entry) setNote('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3">
+      <label className="text-sm text-gray-700">
+        From
+        <input
+          type="datetime-local"
+          value={startedAt}
+          onChange={(e) => setStartedAt(e.target.value)}
+          required
+          className="block mt-1 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </label>
+      <label className="text-sm text-gray-700">
+        To
+        <input
+          type="datetime-local"
+          value={endedAt}
+          onChange={(e) => setEndedAt(e.target.value)}
+          required
+          className="block mt-1 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </label>
+      <label className="flex-1 min-w-[10rem] text-sm text-gray-700">
+        Note
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          maxLength={500}
+          placeholder="What did you work on?"
+          className="block w-full mt-1 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </label>
+      <div className="flex items-center gap-3">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="text-gray-600 hover:text-gray-800 text-sm font-medium"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-1.5 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed transition-colors"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// A task's time: the timer, the logged entries (newest first) and a form to log time by hand
+export default function TimeEntries({ taskId, projectId }: TimeEntriesProps) {
+  const { user } = useAuth();
+  const { getRole } = useProjects();
+  const { lastStopped, refreshTimer } = useTimer();
+  const [entries, setEntries] = useState<ITimeEntry[]>([]);
+  const [timeLogged, setTimeLogged] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  // Viewers only see the time (the form shows until the projects have loaded -
+  // the server checks again anyway)
+  const role = getRole(projectId);
+  const canLogTime = !role || hasPermission(role, 'time:log');
+
+  // Load the entries - again whenever a timer on this task stops
+  const stoppedHere = lastStopped && getTimerTaskId(lastStopped) === taskId ? lastStopped._id : null;
+  useEffect(() => {
+    const fetchEntries = async () => {
+      try {
+        const response = await fetch(`/api/tasks/${taskId}/time`, {
+          credentials: 'include',
+        });
+
+        if (response.ok) {
+          const result: ApiResponse<TaskTimeEntries> = await response.json();
+          if (result.success && result.data) {
+            setEntries(result.data.entries);
+            setTimeLogged(result.data.timeLogged);
+          }
+        } else {
+          console.error('Failed to fetch time entries');
+        }
+      } catch (error) {
+        console.error('Error fetching time entries:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchEntries();
+  }, [taskId, stoppedHere]);
+
+  // Sum of the finished entries, as the server computes it
+  const totalOf = (list: ITimeEntry[]) =>
+    list.filter(entry => entry.endedAt).reduce((sum, entry) => sum + entry.duration, 0);
+
+  // Send a change to the API and return the entry it sends back
+  const mutate = async (url: string, method: string, data?: TimeEntryData) => {
+    try {
+      setError('');
+      setIsSubmitting(true);
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: data ? JSON.stringify(data) : undefined,
+      });
+
+      const result: ApiResponse<ITimeEntry> = await response.json();
+
+      if (result.success && result.data) {
+        return result.data;
+      }
+
+      setError(
+        result.fieldErrors
+          ? Object.values(result.fieldErrors).join(', ')
+          : result.error || 'Something went wrong. Please try again.'
+      );
+    } catch (error) {
+      console.error('Time entry update error:', error);
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+    return null;
+  };
+
+  // Apply a change to the list, newest first, and recompute the total
+  const updateEntries = (update: (prev: ITimeEntry[]) => ITimeEntry[]) => {
+    const next = update(entries).sort(
+      (a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime()
+    );
+    setEntries(next);
+    setTimeLogged(totalOf(next));
+  };
+
+  const addEntry = async (data: TimeEntryData) => {
+    const entry = await mutate(`/api/tasks/${taskId}/time`, 'POST', data);
+    if (entry) updateEntries(prev => [...prev, entry]);
+    return !!entry;
+  };
+
+  const editEntry = async (entryId: string, data: TimeEntryData) => {
+    const entry = await mutate(`/api/tasks/${taskId}/time/${entryId}`, 'PATCH', data);
+    if (entry) {
+      updateEntries(prev => prev.map(existing => existing._id === entryId ? entry : existing));
+      setEditingId(null);
+    }
+    return !!entry;
+  };
+
+  const deleteEntry = async (entry: ITimeEntry) => {
+    if (!confirm(entry.endedAt ? 'Delete this time entry?' : 'Discard the running timer?')) return;
+    const deleted = await mutate(`/api/tasks/${taskId}/time/${entry._id}`, 'DELETE');
+    if (!deleted) return;
+    updateEntries(prev => prev.filter(existing => existing._id !== entry._id));
+    if (!entry.endedAt) refreshTimer();
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg mt-6">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between gap-4">
+        <h2 className="text-lg font-medium text-gray-900">
+          ⏱️ Time{timeLogged > 0 && ` (${formatDuration(timeLogged)})`}
+        </h2>
+        <TimerButton taskId={taskId} disabled={!canLogTime} />
+      </div>
+
+      <div className="p-6 space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-3">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-500">No time logged yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {entries.map((entry) => {
+              const isOwn = entry.userId?._id === user?._id;
+
+              return (
+                <li key={entry._id} className="py-3">
+                  {editingId === entry._id ? (
+                    <EntryForm
+                      entry={entry}
+                      submitLabel="Save"
+                      isSubmitting={isSubmitting}
+                      onSubmit={(data) => editEntry(entry._id, data)}
+                      onCancel={() => setEditingId(null)}
+                    />
+                  ) : (
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+                      {entry.userId && <UserAvatar user={entry.userId} />}
+                      <span className="font-medium text-gray-900 w-20">
+                        {entry.endedAt ? formatDuration(entry.duration) : 'Running'}
+                      </span>
+                      <span className="text-gray-500">
+                        {new Date(entry.startedAt).toLocaleString()}
+                        {entry.endedAt && ` – ${new Date(entry.endedAt).toLocaleTimeString()}`}
+                      </span>
+                      {entry.note && <span className="text-gray-700 truncate">{entry.note}</span>}
+                      {isOwn && canLogTime && (
+                        <span className="ml-auto flex gap-3">
+                          {entry.endedAt && (
+                            <button
+                              type="button"
+                              onClick={() => setEditingId(entry._id)}
+                              className="text-gray-600 hover:text-gray-800 font-medium"
+                            >
+                              Edit
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => deleteEntry(entry)}
+                            disabled={isSubmitting}
+                            className="text-red-600 hover:text-red-800 font-medium"
+                          >
+                            Delete
+                          </button>
+                        </span>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {canLogTime && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Log time by hand</h3>
+            <EntryForm submitLabel="Log time" isSubmitting={isSubmitting} onSubmit={addEntry} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
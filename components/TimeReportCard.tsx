@@ -0,0 +1,113 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import BreakdownChart from '@/components/BreakdownChart';
+import TrendChart from '@/components/TrendChart';
+import { useTimer } from '@/contexts/TimerContext';
+import { formatDuration } from '@/lib/duration';
+import { ApiResponse, ICategory, TimeReport } from '@/types';
+
+interface TimeReportCardProps {
+  categories: ICategory[];
+}
+
+type ReportDays = 7 | 30 | 90;
+type ReportScope = 'mine' | 'all';
+
+// Time logged in the current project per day and per category
+export default function TimeReportCard({ categories }: TimeReportCardProps) {
+  const { lastStopped } = useTimer();
+  const [report, setReport] = useState<TimeReport | null>(null);
+  const [days, setDays] = useState<ReportDays>(7);
+  const [scope, setScope] = useState<ReportScope>('mine');
+
+  // Fetch the report, grouping days in the browser's time zone - again when a timer stops
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        const queryParams = new URLSearchParams({
+          days: String(days),
+          scope,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        });
+
+        const response = await fetch(`/api/time/report?${queryParams.toString()}`, {
+          credentials: 'include',
+        });
+
+        if (response.ok) {
+          const result: ApiResponse<TimeReport> = await response.json();
+          if (result.success && result.data) {
+            setReport(result.data);
+          }
+        } else {
+          console.error('Failed to fetch time report');
+        }
+      } catch (error) {
+        console.error('Error fetching time report:', error);
+      }
+    };
+
+    fetchReport();
+  }, [days, scope, lastStopped]);
+
+  // Category bars in the user's category order, with any unknown keys at the end
+  const categoryItems = report
+    ? [
+        ...categories.map(category => ({
+          key: category.key,
+          label: `${category.icon} ${category.name}`,
+          value: report.byCategory[category.key] || 0,
+          color: category.color,
+        })),
+        ...Object.entries(report.byCategory)
+          .filter(([key]) => !categories.some(category => category.key === key))
+          .map(([key, value]) => ({ key, label: key, value, color: '#9ca3af' })),
+      ].filter(item => item.value > 0)
+    : [];
+
+  const perDay = report ? report.byDay.map(day => ({ date: day.date, count: day.seconds })) : [];
+
+  // Segmented control shared by the range and scope pickers
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1 text-sm font-medium ${active ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`;
+
+  return (
+    <div className="bg-white shadow rounded-lg mb-8">
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Time Logged</h2>
+          <p className="text-sm text-gray-500">
+            {formatDuration(report?.totalSeconds || 0)} {scope === 'mine' ? 'by you' : 'by everyone'} in the last {days} days
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+            {(['mine', 'all'] as const).map((value) => (
+              <button key={value} onClick={() => setScope(value)} className={toggleClass(scope === value)}>
+                {value === 'mine' ? 'Mine' : 'Everyone'}
+              </button>
+            ))}
+          </div>
+          <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+            {([7, 30, 90] as const).map((value) => (
+              <button key={value} onClick={() => setDays(value)} className={toggleClass(days === value)}>
+                {value} days
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-3">Per Day</h3>
+          <TrendChart data={perDay} label="Time logged per day" unit="logged" formatValue={formatDuration} />
+        </div>
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-3">Per Category</h3>
+          <BreakdownChart items={categoryItems} emptyMessage="No time logged yet" formatValue={formatDuration} />
+        </div>
+      </div>
+    </div>
+  );
+}
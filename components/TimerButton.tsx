@@ -0,0 +1,51 @@
+'use client';
+
+import { useState } from 'react';
+import { getTimerTaskId, useElapsedSeconds, useTimer } from '@/contexts/TimerContext';
+import { formatClock, formatDuration } from '@/lib/duration';
+
+interface TimerButtonProps {
+  taskId: string;
+  timeLogged?: number; // Seconds
+  disabled?: boolean; // E.g. for viewers, who can't log time
+}
+
+// Start/stop control for a task's timer with the time logged so far
+export default function TimerButton({ taskId, timeLogged = 0, disabled = false }: TimerButtonProps) {
+  const { running, isBusy, startTimer, stopTimer } = useTimer();
+  const [error, setError] = useState('');
+
+  const isRunning = !!running && getTimerTaskId(running) === taskId;
+  const elapsed = useElapsedSeconds(isRunning ? running?.startedAt : null);
+
+  const toggle = async () => {
+    setError('');
+    const result = isRunning ? await stopTimer() : await startTimer(taskId);
+    if (!result.success) setError(result.error || 'Timer failed');
+  };
+
+  return (
+    <span className="inline-flex items-center gap-2 text-xs">
+      {!disabled && (
+        <button
+          onClick={toggle}
+          disabled={isBusy}
+          className={`px-2 py-0.5 rounded-full font-medium transition-colors disabled:opacity-50 ${
+            isRunning
+              ? 'bg-red-100 text-red-700 hover:bg-red-200'
+              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+          title={isRunning ? 'Stop the timer' : running ? 'Stop the running timer and start one here' : 'Start a timer'}
+        >
+          {isRunning ? `⏹ ${formatClock(elapsed)}` : '▶ Start'}
+        </button>
+      )}
+      {timeLogged > 0 && (
+        <span className="text-gray-600" title="Time logged">
+          ⏱️ {formatDuration(timeLogged)}
+        </span>
+      )}
+      {error && <span className="text-red-600">{error}</span>}
+    </span>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { DailyCount } from '@/types';
+
+interface TrendChartProps {
+  data: DailyCount[];
+  height?: number;
+  label?: string; // What is counted, for screen readers
+  unit?: string; // Follows the value in tooltips
+  formatValue?: (count: number) => string; // E.g. seconds as "2h 05m"
+}
+
+// Chart area in SVG units - it stretches to the container width
+const WIDTH = 600;
+const PADDING = 24;
+
+// Line chart of a daily count, e.g. tasks completed per day
+export default function TrendChart({
+  data,
+  height = 160,
+  label = 'Completion trend',
+  unit = 'completed',
+  formatValue = String,
+}: TrendChartProps) {
+  if (data.length === 0) return null;
+
+  const max = Math.max(...data.map(day => day.count), 1);
+  const step = data.length > 1 ? (WIDTH - PADDING * 2) / (data.length - 1) : 0;
+  const points = data.map((day, index) => ({
+    ...day,
+    x: PADDING + index * step,
+    y: height - PADDING - (day.count / max) * (height - PADDING * 2),
+  }));
+  const line = points.map(point => `${point.x},${point.y}`).join(' ');
+  const area = `${PADDING},${height - PADDING} ${line} ${points[points.length - 1].x},${height - PADDING}`;
+
+  // Format a YYYY-MM-DD key without shifting it through the local time zone
+  const formatDay = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label={label}>
+      {/* Baseline and peak guide */}
+      <line x1={PADDING} x2={WIDTH - PADDING} y1={height - PADDING} y2={height - PADDING} className="stroke-gray-200" />
+      <line x1={PADDING} x2={WIDTH - PADDING} y1={PADDING} y2={PADDING} className="stroke-gray-100" strokeDasharray="4 4" />
+      <text x={PADDING} y={PADDING - 6} className="fill-gray-400 text-[10px]">{formatValue(max)}</text>
+
+      <polygon points={area} className="fill-blue-100" />
+      <polyline points={line} fill="none" className="stroke-blue-600" strokeWidth={2} strokeLinejoin="round" />
+
+      {points.map((point) => (
+        <circle key={point.date} cx={point.x} cy={point.y} r={point.count > 0 ? 3 : 0} className="fill-blue-600">
+          <title>{`${formatDay(point.date)}: ${formatValue(point.count)} ${unit}`}</title>
+        </circle>
+      ))}
+
+      {/* First and last day labels */}
+      <text x={PADDING} y={height - 6} className="fill-gray-500 text-[10px]">{formatDay(data[0].date)}</text>
+      <text x={WIDTH - PADDING} y={height - 6} textAnchor="end" className="fill-gray-500 text-[10px]">
+        {formatDay(data[data.length - 1].date)}
+      </text>
+    </svg>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import Image from 'next/image';
+import { UserReference } from '@/types';
+
+interface UserAvatarProps {
+  user: UserReference;
+  size?: 'sm' | 'md';
+}
+
+const SIZES = {
+  sm: 'w-6 h-6 text-[10px]',
+  md: 'w-8 h-8 text-xs',
+};
+
+// Pixel sizes matching SIZES, for the picture
+const PIXELS = {
+  sm: 24,
+  md: 32,
+};
+
+// First letters of the first and last name, e.g. "Ada Lovelace" -> "AL"
+const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(part => part[0])
+    .filter((_, index, letters) => index === 0 || index === letters.length - 1)
+    .join('')
+    .toUpperCase();
+
+// Round avatar - the user's picture if they have one, otherwise their initials
+export default function UserAvatar({ user, size = 'sm' }: UserAvatarProps) {
+  if (user.avatar) {
+    return (
+      <Image
+        src={user.avatar}
+        alt={user.name}
+        width={PIXELS[size]}
+        height={PIXELS[size]}
+        title={user.name}
+        className={`${SIZES[size]} rounded-full object-cover ring-2 ring-white`}
+      />
+    );
+  }
+
+  return (
+    <span
+      title={user.name}
+      className={`${SIZES[size]} rounded-full bg-blue-100 text-blue-700 font-semibold inline-flex items-center justify-center ring-2 ring-white`}
+    >
+      {initials(user.name)}
+    </span>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { ApiResponse } from '@/types';
+
+// Strip under the top bar until the user confirms their email - sharing is off until then
+export default function VerifyEmailBanner() {
+  const { user } = useAuth();
+  const [isSending, setIsSending] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  if (!user || user.emailVerified !== false) return null;
+
+  const resend = async () => {
+    try {
+      setIsSending(true);
+      setMessage('');
+      setError('');
+
+      const response = await fetch('/api/auth/verify/resend', {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      const result: ApiResponse = await response.json();
+
+      if (result.success) {
+        setMessage(result.message || 'We sent you a new link');
+      } else {
+        setError(result.error || 'Failed to send the email');
+      }
+    } catch (error) {
+      console.error('Resend verification error:', error);
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-yellow-50 border-b border-yellow-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+        <p className="text-yellow-800 flex-1 min-w-0">
+          📧 Please confirm your email with the link we sent to <strong>{user.email}</strong>.
+          Until then you can&apos;t invite people or join projects, and we won&apos;t email you.
+        </p>
+        {message && <span className="text-green-700">{message}</span>}
+        {error && <span className="text-red-700">{error}</span>}
+        <button
+          onClick={resend}
+          disabled={isSending}
+          className="px-3 py-1 text-yellow-800 border border-yellow-300 rounded-md hover:bg-yellow-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSending ? 'Sending...' : 'Resend email'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
 import { UserProfile, LoginCredentials, RegisterCredentials, ApiResponse } from '@/types';
 
 // Define the shape of our auth context
@@ -17,6 +17,9 @@ interface AuthContextType {
   refreshUser: () => Promise<void>;
 }
 
+// Access tokens last 15 minutes, so get a new one well before that
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
 // Create the context with default values
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -33,16 +36,47 @@ export function AuthProvider({ children }: AuthProviderProps) {
   // Computed value - user is authenticated if user exists
   const isAuthenticated = !!user;
 
+  // When the access token was last refreshed
+  const lastRefresh = useRef(0);
+
+  // Swap the refresh token cookie for a new access token - false when the session has ended
+  const refreshSession = useCallback(async (): Promise<boolean> => {
+    try {
+      const response = await fetch('/api/auth/refresh', {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        lastRefresh.current = Date.now();
+        return true;
+      }
+
+      console.log('❌ Session refresh failed:', response.status);
+      return false;
+    } catch (error) {
+      console.error('❌ Error refreshing session:', error);
+      return false;
+    }
+  }, []);
+
   // Function to get current user from API
-  const refreshUser = async () => {
+  const refreshUser = useCallback(async () => {
     try {
       console.log('🔄 Refreshing user data...');
       
-      const response = await fetch('/api/auth/me', {
+      const getMe = () => fetch('/api/auth/me', {
         method: 'GET',
         credentials: 'include', // Include cookies
       });
 
+      let response = await getMe();
+
+      // The access token may just have expired - try once more with a new one
+      if (response.status === 401 && await refreshSession()) {
+        response = await getMe();
+      }
+
       console.log('Auth check response status:', response.status);
 
       if (response.ok) {
@@ -66,7 +100,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [refreshSession]);
 
   // Login function
   const login = async (credentials: LoginCredentials) => {
@@ -86,6 +120,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       const result: ApiResponse = await response.json();
 
       if (result.success && result.data) {
+        lastRefresh.current = Date.now(); // Login issued a new token
         setUser(result.data.user);
         console.log('✅ Login successful');
         return { success: true };
@@ -164,7 +199,37 @@ export function AuthProvider({ children }: AuthProviderProps) {
   // Check for existing session on app load
   useEffect(() => {
     refreshUser();
-  }, []);
+  }, [refreshUser]);
+
+  // Keep the access token fresh while signed in. Timers are slowed down in
+  // background tabs, so also catch up when the tab comes back. Keyed on the
+  // user's ID so it restarts only when someone signs in or out, not on every
+  // profile update.
+  const userId = user?._id;
+  useEffect(() => {
+    if (!userId) return;
+
+    const keepFresh = async () => {
+      if (Date.now() - lastRefresh.current < REFRESH_INTERVAL_MS) return;
+      if (!(await refreshSession())) {
+        console.log('❌ Session ended - signing out');
+        setUser(null);
+      }
+    };
+
+    // Right away when the page was loaded with a token of unknown age
+    keepFresh();
+    const interval = setInterval(keepFresh, 60 * 1000);
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') keepFresh();
+    };
+    document.addEventListener('visibilitychange', onVisible);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', onVisible);
+    };
+  }, [userId, refreshSession]);
 
   // Context value object
   const value: AuthContextType = {
@@ -0,0 +1,165 @@
+'use client';
+
+import React, { createContext, useContext, useEffect, useState, useCallback, ReactNode } from 'react';
+import { IProject, PendingInvite, ApiResponse, ProjectRole, ProjectPermission, UserReference } from '@/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { hasPermission } from '@/lib/permissions';
+
+// Cookie the task APIs read to know which project the user is working in
+const PROJECT_COOKIE = 'project-id';
+
+// Define the shape of our project context
+interface ProjectContextType {
+  // State
+  projects: IProject[];
+  currentProject: IProject | null;
+  currentRole: ProjectRole | null;
+  pendingInvites: PendingInvite[];
+  isLoading: boolean;
+
+  // Actions
+  switchProject: (projectId: string) => void;
+  refreshProjects: () => Promise<void>;
+  getRole: (projectId?: string) => ProjectRole | null;
+  getMembers: (projectId?: string) => UserReference[];
+  can: (permission: ProjectPermission, projectId?: string) => boolean;
+}
+
+// Create the context with default values
+const ProjectContext = createContext<ProjectContextType | undefined>(undefined);
+
+// Props for the ProjectProvider component
+interface ProjectProviderProps {
+  children: ReactNode;
+}
+
+// Read the project picked last time from the cookie
+function getSavedProjectId(): string | null {
+  const cookie = document.cookie
+    .split(';')
+    .find(part => part.trim().startsWith(`${PROJECT_COOKIE}=`));
+  return cookie ? cookie.split('=')[1].trim() : null;
+}
+
+// Remember the picked project for a year
+function saveProjectId(projectId: string) {
+  document.cookie = `${PROJECT_COOKIE}=${projectId}; path=/; max-age=${60 * 60 * 24 * 365}; samesite=lax`;
+}
+
+// ProjectProvider keeps the project list and the project switcher's selection
+export function ProjectProvider({ children }: ProjectProviderProps) {
+  const { user } = useAuth();
+  const [projects, setProjects] = useState<IProject[]>([]);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [pendingInvites, setPendingInvites] = useState<PendingInvite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Load the user's projects and the invitations waiting for them
+  const refreshProjects = useCallback(async () => {
+    try {
+      console.log('📂 Refreshing projects...');
+
+      const [projectsResponse, invitesResponse] = await Promise.all([
+        fetch('/api/projects', { credentials: 'include' }),
+        fetch('/api/projects/invites', { credentials: 'include' }),
+      ]);
+
+      if (projectsResponse.ok) {
+        const result: ApiResponse<IProject[]> = await projectsResponse.json();
+        if (result.success && result.data) {
+          const loaded = result.data;
+          setProjects(loaded);
+
+          // Fall back to the personal project when the saved one is gone (left, removed or deleted)
+          const savedId = getSavedProjectId();
+          const current =
+            loaded.find(project => project._id === savedId) ||
+            loaded.find(project => project.personal) ||
+            loaded[0];
+          if (current) {
+            setCurrentProjectId(current._id);
+            if (current._id !== savedId) saveProjectId(current._id);
+          }
+        }
+      } else {
+        console.error('Failed to fetch projects');
+      }
+
+      if (invitesResponse.ok) {
+        const result: ApiResponse<PendingInvite[]> = await invitesResponse.json();
+        if (result.success && result.data) {
+          setPendingInvites(result.data);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Error refreshing projects:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Switch the project every task page works in
+  const switchProject = (projectId: string) => {
+    console.log('🔀 Switching to project:', projectId);
+    saveProjectId(projectId);
+    setCurrentProjectId(projectId);
+  };
+
+  // The user's role in a project (default: the current one); the server applies
+  // the same rules, this only decides what the UI offers
+  const getRole = (projectId?: string): ProjectRole | null => {
+    const project = projects.find(project => project._id === (projectId || currentProjectId));
+    if (!project || !user) return null;
+    if (project.ownerId === user._id) return ProjectRole.OWNER;
+    return project.members.find(member => member.userId._id === user._id)?.role || null;
+  };
+
+  // Everyone in a project (default: the current one), e.g. for the assignee picker
+  const getMembers = (projectId?: string): UserReference[] => {
+    const project = projects.find(project => project._id === (projectId || currentProjectId));
+    return project ? project.members.map(member => member.userId) : [];
+  };
+
+  const can = (permission: ProjectPermission, projectId?: string) =>
+    hasPermission(getRole(projectId), permission);
+
+  // Reload whenever someone logs in; clear everything on logout
+  useEffect(() => {
+    if (user) {
+      refreshProjects();
+    } else {
+      setProjects([]);
+      setPendingInvites([]);
+      setCurrentProjectId(null);
+    }
+  }, [user, refreshProjects]);
+
+  // Context value object
+  const value: ProjectContextType = {
+    projects,
+    currentProject: projects.find(project => project._id === currentProjectId) || null,
+    currentRole: getRole(),
+    pendingInvites,
+    isLoading,
+    switchProject,
+    refreshProjects,
+    getRole,
+    getMembers,
+    can,
+  };
+
+  return (
+    <ProjectContext.Provider value={value}>
+      {children}
+    </ProjectContext.Provider>
+  );
+}
+
+// Custom hook to use the project context
+export function useProjects() {
+  const context = useContext(ProjectContext);
+  if (context === undefined) {
+    throw new Error('useProjects must be used within a ProjectProvider');
+  }
+  return context;
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import React, { createContext, useContext, useEffect, useState, useCallback, ReactNode } from 'react';
+import { ITimeEntry, StartTimerResult, ApiResponse } from '@/types';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Define the shape of our timer context
+interface TimerContextType {
+  // State
+  running: ITimeEntry | null; // Task populated
+  lastStopped: ITimeEntry | null; // Task populated with its new total
+  isBusy: boolean;
+
+  // Actions
+  startTimer: (taskId: string) => Promise<{ success: boolean; error?: string }>;
+  stopTimer: () => Promise<{ success: boolean; error?: string }>;
+  refreshTimer: () => Promise<void>;
+}
+
+// Create the context with default values
+const TimerContext = createContext<TimerContextType | undefined>(undefined);
+
+// Props for the TimerProvider component
+interface TimerProviderProps {
+  children: ReactNode;
+}
+
+// The task a timer entry belongs to (populated by /api/timer)
+export function getTimerTaskId(entry: ITimeEntry): string {
+  return typeof entry.taskId === 'string' ? entry.taskId : entry.taskId._id;
+}
+
+// Seconds since a timer started, ticking once a second
+export function useElapsedSeconds(startedAt: Date | string | null | undefined): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!startedAt) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [startedAt]);
+
+  return startedAt ? Math.max(0, (now - new Date(startedAt).getTime()) / 1000) : 0;
+}
+
+// TimerProvider keeps the user's running timer, so every page can show and stop it
+export function TimerProvider({ children }: TimerProviderProps) {
+  const { user } = useAuth();
+  const [running, setRunning] = useState<ITimeEntry | null>(null);
+  const [lastStopped, setLastStopped] = useState<ITimeEntry | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Load the running timer, e.g. one started in another tab
+  const refreshTimer = useCallback(async () => {
+    try {
+      const response = await fetch('/api/timer', { credentials: 'include' });
+      if (response.ok) {
+        const result: ApiResponse<ITimeEntry | null> = await response.json();
+        if (result.success) {
+          setRunning(result.data || null);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Error fetching timer:', error);
+    }
+  }, []);
+
+  // Start a timer on a task; the one running on another task is stopped
+  const startTimer = async (taskId: string) => {
+    setIsBusy(true);
+    try {
+      console.log('⏱️ Starting timer on task:', taskId);
+
+      const response = await fetch('/api/timer', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ taskId }),
+      });
+      const result: ApiResponse<StartTimerResult> = await response.json();
+
+      if (!response.ok || !result.success || !result.data) {
+        return { success: false, error: result.error || 'Failed to start timer' };
+      }
+
+      setRunning(result.data.running);
+      if (result.data.stopped) setLastStopped(result.data.stopped);
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Error starting timer:', error);
+      return { success: false, error: 'Failed to start timer' };
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Stop the running timer and log its time
+  const stopTimer = async () => {
+    setIsBusy(true);
+    try {
+      console.log('⏹️ Stopping timer...');
+
+      const response = await fetch('/api/timer/stop', {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const result: ApiResponse<ITimeEntry> = await response.json();
+
+      if (!response.ok || !result.success || !result.data) {
+        // Already stopped elsewhere
+        if (response.status === 404) setRunning(null);
+        return { success: false, error: result.error || 'Failed to stop timer' };
+      }
+
+      setRunning(null);
+      setLastStopped(result.data);
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Error stopping timer:', error);
+      return { success: false, error: 'Failed to stop timer' };
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Load the timer whenever someone logs in; clear it on logout
+  useEffect(() => {
+    if (user) {
+      refreshTimer();
+    } else {
+      setRunning(null);
+      setLastStopped(null);
+    }
+  }, [user, refreshTimer]);
+
+  // Context value object
+  const value: TimerContextType = {
+    running,
+    lastStopped,
+    isBusy,
+    startTimer,
+    stopTimer,
+    refreshTimer,
+  };
+
+  return (
+    <TimerContext.Provider value={value}>
+      {children}
+    </TimerContext.Provider>
+  );
+}
+
+// Custom hook to use the timer context
+export function useTimer() {
+  const context = useContext(TimerContext);
+  if (context === undefined) {
+    throw new Error('useTimer must be used within a TimerProvider');
+  }
+  return context;
+}
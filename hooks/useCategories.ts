@@ -0,0 +1,46 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useProjects } from '@/contexts/ProjectContext';
+import { ApiResponse, ICategory } from '@/types';
+
+// Load the current project's categories (seeded with the defaults on first use),
+// again whenever another project is picked
+export function useCategories() {
+  const { currentProject } = useProjects();
+  const [categories, setCategories] = useState<ICategory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshCategories = useCallback(async () => {
+    try {
+      const response = await fetch('/api/categories', {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        const result: ApiResponse<ICategory[]> = await response.json();
+        if (result.success && result.data) {
+          setCategories(result.data);
+        }
+      } else {
+        console.error('Failed to fetch categories');
+      }
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshCategories();
+  }, [refreshCategories, currentProject?._id]);
+
+  // Look up a category by the key stored on tasks
+  const getCategory = useCallback(
+    (key: string) => categories.find(category => category.key === key),
+    [categories]
+  );
+
+  return { categories, isLoading, refreshCategories, setCategories, getCategory };
+}
@@ -0,0 +1,15 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+// Return `value` once it has stopped changing for `delay` ms (e.g. while typing a search)
+export function useDebounce<T>(value: T, delay = 300): T {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedValue(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debouncedValue;
+}
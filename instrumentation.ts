@@ -0,0 +1,8 @@
+// Runs once when the server starts
+export async function register() {
+  // Background jobs need Node.js (Mongoose doesn't run on the edge runtime)
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startScheduler } = await import('@/lib/scheduler');
+    startScheduler();
+  }
+}
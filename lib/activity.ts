@@ -0,0 +1,136 @@
+import Activity, { ActivityAction, IFieldChange } from '@/models/Activity';
+import Task, { ISubtaskDocument, ITaskDocument } from '@/models/Task';
+import User from '@/models/User';
+import { describeRecurrence } from '@/lib/recurrence';
+import { formatEstimate } from '@/lib/duration';
+import { describeReminder } from '@/lib/reminders';
+import { notifyAssignment, notifyTaskChange } from '@/lib/notifications';
+
+// Fields whose changes show up in a task's history. Board positions and
+// bookkeeping like completedAt are left out.
+const TRACKED_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'category',
+  'dueDate',
+  'recurrence',
+  'reminders',
+  'estimate',
+  'tags',
+  'assignees',
+  'blockedBy',
+  'subtasks',
+] as const;
+
+type TrackedField = typeof TRACKED_FIELDS[number];
+
+export type TaskSnapshot = Record<TrackedField, unknown>;
+
+// Fields holding IDs, stored in the history as the names they pointed to
+const REFERENCE_FIELDS: TrackedField[] = ['assignees', 'blockedBy'];
+
+// Comparable, display-ready values of the tracked fields. Take one before
+// changing a task and pass it to recordActivity() afterwards.
+export function snapshotTask(task: ITaskDocument): TaskSnapshot {
+  const doc = task.toObject({ depopulate: true });
+
+  return {
+    title: doc.title ?? null,
+    description: doc.description || null,
+    status: doc.status ?? null,
+    priority: doc.priority ?? null,
+    category: doc.category ?? null,
+    dueDate: doc.dueDate ? new Date(doc.dueDate).toISOString() : null,
+    recurrence: doc.recurrence ? describeRecurrence(doc.recurrence) : null,
+    reminders: [...(doc.reminders ?? [])].sort((a, b) => b - a).map(describeReminder),
+    estimate: doc.estimate ? formatEstimate(doc.estimate) : null,
+    tags: doc.tags ?? [],
+    assignees: (doc.assignees ?? []).map(String),
+    blockedBy: (doc.blockedBy ?? []).map(String),
+    subtasks: (doc.subtasks ?? []).map((subtask: ISubtaskDocument) => `${subtask.completed ? '☑' : '☐'} ${subtask.title}`),
+  };
+}
+
+function diffSnapshots(before: TaskSnapshot, after: TaskSnapshot): IFieldChange[] {
+  return TRACKED_FIELDS
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, from: before[field], to: after[field] }));
+}
+
+// Swap user and task IDs for names and titles, so the entry still reads well
+// after someone leaves the project or a blocker is deleted
+async function resolveReferences(changes: IFieldChange[]): Promise<IFieldChange[]> {
+  const ids = (field: TrackedField) => changes
+    .filter(change => change.field === field)
+    .flatMap(change => [...(change.from as string[]), ...(change.to as string[])]);
+
+  const userIds = ids('assignees');
+  const taskIds = ids('blockedBy');
+  if (userIds.length === 0 && taskIds.length === 0) return changes;
+
+  const [users, tasks] = await Promise.all([
+    userIds.length > 0 ? User.find({ _id: { $in: userIds } }).select('name') : [],
+    taskIds.length > 0 ? Task.find({ _id: { $in: taskIds } }).select('title') : [],
+  ]);
+  const names = new Map<string, string>([
+    ...users.map(user => [user._id.toString(), user.name] as [string, string]),
+    ...tasks.map(task => [task._id.toString(), task.title] as [string, string]),
+  ]);
+  const toNames = (value: unknown) => (value as string[]).map(id => names.get(id) || 'Unknown');
+
+  return changes.map(change =>
+    REFERENCE_FIELDS.includes(change.field as TrackedField)
+      ? { ...change, from: toNames(change.from), to: toNames(change.to) }
+      : change
+  );
+}
+
+interface ActivityEntry {
+  task: ITaskDocument; // As it is after the change (or was, for deletes)
+  actorId: string;
+  action: ActivityAction;
+  before?: TaskSnapshot; // Needed for updates
+}
+
+// Add an entry to the task's history and notify the task's creator and any new
+// assignees. Updates that changed none of the tracked fields (e.g. reordering on
+// the board) aren't recorded.
+export async function recordActivity({ task, actorId, action, before }: ActivityEntry): Promise<void> {
+  try {
+    let changes: IFieldChange[] = [];
+
+    if (action === ActivityAction.UPDATED && before) {
+      changes = diffSnapshots(before, snapshotTask(task));
+      if (changes.length === 0) return;
+      changes = await resolveReferences(changes);
+    }
+
+    await Activity.create({
+      taskId: task._id,
+      projectId: task.projectId,
+      actorId,
+      action,
+      taskTitle: task.title,
+      changes,
+    });
+
+    // The creator hears about changes made by others
+    await notifyTaskChange({ task, actorId, action, changes });
+
+    // So do people who were just assigned
+    const previousAssignees = action === ActivityAction.CREATED
+      ? []
+      : action === ActivityAction.UPDATED ? before?.assignees as string[] | undefined : undefined;
+    if (previousAssignees) {
+      const assigned = (task.assignees ?? []).map(String).filter(userId => !previousAssignees.includes(userId));
+      if (assigned.length > 0) {
+        await notifyAssignment({ task, actorId, userIds: assigned });
+      }
+    }
+  } catch (error) {
+    // The change itself went through - a missing history entry shouldn't undo that
+    console.error('❌ Error recording activity:', error);
+  }
+}
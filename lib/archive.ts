@@ -0,0 +1,44 @@
+import Task, { TaskStatus } from '@/models/Task';
+
+// Days after completion before a task is archived automatically
+// (ARCHIVE_AFTER_DAYS, default 30, 0 turns automatic archiving off). An empty,
+// negative or mistyped value gets the default rather than turning archiving off.
+function parseArchiveAfterDays(value = process.env.ARCHIVE_AFTER_DAYS?.trim()): number {
+  if (value === '0') return 0;
+  const days = Number(value);
+  return Number.isFinite(days) && days > 0 ? days : 30;
+}
+export const ARCHIVE_AFTER_DAYS = parseArchiveAfterDays();
+
+// How often the automatic archiving actually runs - it's triggered by normal requests
+const ARCHIVE_INTERVAL_MS = 60 * 60 * 1000;
+let lastRun = 0;
+
+// Archive tasks completed more than ARCHIVE_AFTER_DAYS ago. A task that was
+// unarchived by hand gets the same grace period again before it goes back.
+// Runs at most once an hour per server process.
+export async function archiveCompletedTasks(): Promise<void> {
+  if (ARCHIVE_AFTER_DAYS === 0 || Date.now() - lastRun < ARCHIVE_INTERVAL_MS) return;
+  lastRun = Date.now();
+
+  try {
+    const cutoff = new Date(Date.now() - ARCHIVE_AFTER_DAYS * 24 * 60 * 60 * 1000);
+    const { modifiedCount } = await Task.updateMany(
+      {
+        status: TaskStatus.COMPLETED,
+        completedAt: { $lt: cutoff },
+        archivedAt: null,
+        $or: [{ unarchivedAt: null }, { unarchivedAt: { $lt: cutoff } }],
+      },
+      { $set: { archivedAt: new Date() } },
+      { timestamps: false } // Archiving isn't an edit
+    );
+
+    if (modifiedCount > 0) {
+      console.log(`📦 Archived ${modifiedCount} tasks completed before ${cutoff.toISOString()}`);
+    }
+  } catch (error) {
+    lastRun = 0; // Try again on the next request
+    console.error('❌ Error archiving completed tasks:', error);
+  }
+}
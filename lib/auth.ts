@@ -0,0 +1,122 @@
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import connectMongoDB from '@/lib/mongodb';
+import User from '@/models/User';
+import Session from '@/models/Session';
+import { ApiResponse } from '@/types';
+
+// Interface for JWT payload
+export interface JWTPayload {
+  userId: string;
+  email: string;
+  sessionId?: string; // The session the token was issued for - tokens without one no longer work
+  iat: number;
+  exp: number;
+}
+
+// Cookie the access token is kept in
+export const AUTH_COOKIE = 'auth-token';
+
+// Access tokens are short-lived; the refresh token (see lib/sessions.ts) gets new ones
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+// Token from the Authorization header, or else from the auth cookie
+export function getTokenFromRequest(request: Request): string | null {
+  const authHeader = request.headers.get('authorization');
+  const cookieHeader = request.headers.get('cookie');
+
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.substring(7);
+  }
+
+  if (cookieHeader) {
+    const cookies = cookieHeader.split(';');
+    const authCookie = cookies.find(cookie => cookie.trim().startsWith(`${AUTH_COOKIE}=`));
+    if (authCookie) {
+      return authCookie.split('=')[1];
+    }
+  }
+
+  return null;
+}
+
+// Sign a short-lived access token for one of the user's sessions
+export function signAuthToken(user: { _id: unknown; email: string }, sessionId: string): string {
+  if (!process.env.NEXTAUTH_SECRET) {
+    throw new Error('NEXTAUTH_SECRET is not configured');
+  }
+
+  return jwt.sign(
+    {
+      userId: user._id,
+      email: user.email,
+      sessionId,
+    },
+    process.env.NEXTAUTH_SECRET,
+    {
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    }
+  );
+}
+
+// A token only counts while its session does: not revoked (sign-out, the Sessions
+// page, a password reset) and not expired
+async function isSessionActive(decoded: JWTPayload): Promise<boolean> {
+  if (!decoded.sessionId || !mongoose.isValidObjectId(decoded.sessionId)) {
+    return false;
+  }
+
+  const session = await Session.exists({
+    _id: decoded.sessionId,
+    userId: decoded.userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  });
+  return !!session;
+}
+
+// Helper function to get the user and session from the token - null when there is
+// no valid token for an active session
+export async function getSessionFromToken(request: Request): Promise<{ userId: string; sessionId: string } | null> {
+  try {
+    const token = getTokenFromRequest(request);
+
+    if (!token || !process.env.NEXTAUTH_SECRET) {
+      return null;
+    }
+
+    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET) as JWTPayload;
+
+    await connectMongoDB();
+    if (!(await isSessionActive(decoded))) {
+      return null;
+    }
+
+    return { userId: decoded.userId, sessionId: decoded.sessionId! };
+  } catch (error) {
+    console.error('Token verification error:', error);
+    return null;
+  }
+}
+
+// Helper function to get user from token - null when there is no valid, current token
+export async function getUserFromToken(request: Request): Promise<string | null> {
+  const auth = await getSessionFromToken(request);
+  return auth ? auth.userId : null;
+}
+
+// Accounts that haven't opened their verification link can't share: invite people,
+// accept invites (which are matched by email) or get emailed. Everything else works.
+export async function isEmailVerified(userId: string): Promise<boolean> {
+  const user = await User.findById(userId).select('emailVerified');
+  return !!user?.emailVerified;
+}
+
+// Body of the 403 the API returns when an unverified account tries to share
+export function emailNotVerified(error: string): ApiResponse {
+  return {
+    success: false,
+    error,
+    emailUnverified: true,
+  };
+}
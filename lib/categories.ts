@@ -0,0 +1,75 @@
+import Category, { ICategoryDocument } from '@/models/Category';
+import { IProjectDocument } from '@/models/Project';
+import { ensurePersonalProject } from '@/lib/projects';
+
+// The categories every project starts with. The keys match the old fixed
+// TaskCategory values, so tasks created before categories were editable still resolve.
+export const DEFAULT_CATEGORIES = [
+  { key: 'work', name: 'Work', icon: '💼', color: '#3b82f6' },
+  { key: 'personal', name: 'Personal', icon: '👤', color: '#8b5cf6' },
+  { key: 'health', name: 'Health', icon: '🏥', color: '#10b981' },
+  { key: 'finance', name: 'Finance', icon: '💰', color: '#f59e0b' },
+  { key: 'learning', name: 'Learning', icon: '📚', color: '#06b6d4' },
+  { key: 'other', name: 'Other', icon: '📌', color: '#6b7280' },
+];
+
+function findProjectCategories(projectId: unknown) {
+  return Category.find({ projectId }).sort({ sortOrder: 1, createdAt: 1 });
+}
+
+// Get the project's categories in display order, creating them on first use.
+// Categories used to belong to a user: a personal project takes over its owner's
+// old categories (or else the defaults), and a shared project starts with a copy
+// of its owner's personal ones.
+export async function ensureDefaultCategories(project: IProjectDocument): Promise<ICategoryDocument[]> {
+  const existing = await findProjectCategories(project._id);
+  if (existing.length > 0) return existing;
+
+  try {
+    if (project.personal) {
+      // A pipeline update, since userId is no longer in the schema
+      const { modifiedCount } = await Category.updateMany(
+        { userId: project.ownerId, projectId: { $exists: false } },
+        [{ $set: { projectId: project._id } }, { $unset: 'userId' }]
+      );
+      if (modifiedCount > 0) return findProjectCategories(project._id);
+    }
+
+    const template = project.personal
+      ? DEFAULT_CATEGORIES
+      : (await ensureDefaultCategories(await ensurePersonalProject(project.ownerId.toString())))
+        .map(({ key, name, icon, color }) => ({ key, name, icon, color }));
+
+    console.log('📁 Seeding categories for project:', project._id);
+    await Category.insertMany(
+      template.map((category, index) => ({ ...category, sortOrder: index, projectId: project._id })),
+      { ordered: false }
+    );
+  } catch (error) {
+    // A concurrent request may have seeded them first - the unique index keeps one copy
+    if (!(error instanceof Error && error.message.includes('E11000'))) throw error;
+  }
+
+  return findProjectCategories(project._id);
+}
+
+// Keys of the project's categories, used to validate task input
+export async function getCategoryKeys(project: IProjectDocument): Promise<string[]> {
+  const categories = await ensureDefaultCategories(project);
+  return categories.map(category => category.key);
+}
+
+// Turn a category name into a key that is unique among the project's categories
+export function generateCategoryKey(name: string, existingKeys: string[]): string {
+  const base = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 30) || 'category';
+
+  let key = base;
+  for (let suffix = 2; existingKeys.includes(key); suffix++) {
+    key = `${base}-${suffix}`;
+  }
+  return key;
+}
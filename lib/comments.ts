@@ -0,0 +1,25 @@
+import User from '@/models/User';
+import { IProjectDocument } from '@/models/Project';
+import { MEMBER_FIELDS } from '@/lib/projects';
+import { findMentions } from '@/lib/mentions';
+
+// Everything populated on a comment before it's returned to the client
+export const COMMENT_POPULATE = [
+  { path: 'authorId', select: MEMBER_FIELDS },
+  { path: 'mentions', select: MEMBER_FIELDS },
+];
+
+// User IDs of the project members named with @name in a comment. Only members
+// can be mentioned - they're the people who can see the task.
+export async function resolveMentions(body: string, project: IProjectDocument): Promise<string[]> {
+  if (!body.includes('@')) return [];
+
+  const members = await User.find({
+    _id: { $in: project.members.map(member => member.userId) },
+  }).select('name');
+
+  return findMentions(
+    body,
+    members.map(member => ({ _id: member._id.toString(), name: member.name }))
+  ).map(member => member._id);
+}
@@ -0,0 +1,65 @@
+// Every calendar day of the last `days` days in the given time zone, oldest first (YYYY-MM-DD)
+export function getDayKeys(days: number, timezone: string): string[] {
+  // en-CA formats dates as YYYY-MM-DD
+  const today = new Intl.DateTimeFormat('en-CA', { timeZone: timezone }).format(new Date());
+  const cursor = new Date(`${today}T00:00:00Z`);
+  cursor.setUTCDate(cursor.getUTCDate() - (days - 1));
+
+  const keys: string[] = [];
+  for (let i = 0; i < days; i++) {
+    keys.push(cursor.toISOString().split('T')[0]);
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return keys;
+}
+
+// Start of a day range for queries - a day early, so no time zone misses its
+// first day; callers drop what falls outside the day keys
+export function getRangeStart(dayKeys: string[]): Date {
+  const start = new Date(`${dayKeys[0]}T00:00:00Z`);
+  start.setUTCDate(start.getUTCDate() - 1);
+  return start;
+}
+
+// The calendar day (YYYY-MM-DD) and hour (0-23) a moment falls on in the given time zone
+export function getLocalTime(date: Date, timezone: string): { day: string; hour: number } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    day: `${part('year')}-${part('month')}-${part('day')}`,
+    hour: Number(part('hour')),
+  };
+}
+
+// The moment it's the given hour on a calendar day (YYYY-MM-DD) in the given time zone
+export function getZonedTime(day: string, hour: number, timezone: string): Date {
+  const wallClock = Date.parse(`${day}T${String(hour).padStart(2, '0')}:00:00Z`);
+
+  // How far the zone's clocks are ahead of UTC at a moment
+  const offsetAt = (time: number) => {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(new Date(time));
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+    return Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second')) - time;
+  };
+
+  // Checked twice, in case a daylight saving change falls between the two guesses
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+}
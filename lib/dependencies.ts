@@ -0,0 +1,93 @@
+import Task, { TaskStatus } from '@/models/Task';
+
+// Blocker summary returned to the client
+export interface BlockerSummary {
+  _id: string;
+  title: string;
+  status: TaskStatus;
+}
+
+// Fields to populate on blockedBy so the client can show titles and open state
+export const BLOCKER_FIELDS = 'title status';
+
+// Check that every blocker exists, is in the same project and isn't the task itself.
+// Returns the IDs that failed the check.
+export async function findInvalidBlockers(
+  blockerIds: string[],
+  projectId: string,
+  taskId?: string
+): Promise<string[]> {
+  if (blockerIds.length === 0) return [];
+
+  const found = await Task.find({ _id: { $in: blockerIds }, projectId }).select('_id');
+  const foundIds = new Set(found.map(task => task._id.toString()));
+
+  return blockerIds.filter(id => id === taskId || !foundIds.has(id));
+}
+
+// Blockers that are not completed yet
+export async function findOpenBlockers(blockerIds: string[], projectId: string): Promise<BlockerSummary[]> {
+  if (blockerIds.length === 0) return [];
+
+  const blockers = await Task.find({
+    _id: { $in: blockerIds },
+    projectId,
+    status: { $ne: TaskStatus.COMPLETED },
+  }).select(BLOCKER_FIELDS);
+
+  return blockers.map(blocker => ({
+    _id: blocker._id.toString(),
+    title: blocker.title,
+    status: blocker.status,
+  }));
+}
+
+// Walk the blockedBy graph from the proposed blockers (breadth-first, one query per level).
+// If the walk reaches the task itself, making it depend on them would close a cycle.
+// Returns the titles along the cycle (task → … → task) or null when there is none.
+export async function findDependencyCycle(
+  taskId: string,
+  blockerIds: string[],
+  projectId: string
+): Promise<string[] | null> {
+  const parent = new Map<string, string>(); // node → the node that depends on it
+  const titles = new Map<string, string>();
+  let frontier = blockerIds.filter(id => id !== taskId);
+  frontier.forEach(id => parent.set(id, taskId));
+
+  while (frontier.length > 0) {
+    const tasks = await Task.find({ _id: { $in: frontier }, projectId }).select('title blockedBy');
+    const next: string[] = [];
+
+    for (const task of tasks) {
+      const id = task._id.toString();
+      titles.set(id, task.title);
+
+      for (const blocker of task.blockedBy || []) {
+        const blockerId = blocker.toString();
+
+        if (blockerId === taskId) {
+          // Rebuild the path back to the task being updated
+          const path = [id];
+          let current = id;
+          while (parent.get(current) !== taskId) {
+            current = parent.get(current)!;
+            path.unshift(current);
+          }
+          const self = await Task.findById(taskId).select('title');
+          const selfTitle = self?.title || 'this task';
+          return [selfTitle, ...path.map(node => titles.get(node) || node), selfTitle];
+        }
+
+        if (!parent.has(blockerId)) {
+          parent.set(blockerId, id);
+          next.push(blockerId);
+        }
+      }
+    }
+
+    frontier = next;
+  }
+
+  return null;
+}
@@ -0,0 +1,102 @@
+import Task, { TaskStatus } from '@/models/Task';
+import Project from '@/models/Project';
+import User from '@/models/User';
+import { queueEmail } from '@/lib/mail';
+import { DigestTask, digestEmail } from '@/lib/mailTemplates';
+import { getLocalTime } from '@/lib/dates';
+
+// Most tasks listed per digest - the counts in the subject still cover all of them
+const MAX_DIGEST_TASKS = 50;
+
+// How often digests are checked - they go out in the first run after the user's digest hour
+const DIGEST_INTERVAL_MS = 5 * 60 * 1000;
+let lastRun = 0;
+
+// Unfinished tasks due today or earlier that the user is working on: the ones
+// assigned to them, and their own unassigned ones (the same people reminders go to)
+async function findDigestTasks(userId: string, today: string) {
+  const projects = await Project.find({ 'members.userId': userId }).select('_id');
+  const endOfToday = new Date(`${today}T00:00:00Z`);
+  endOfToday.setUTCDate(endOfToday.getUTCDate() + 1);
+
+  const tasks = await Task.find({
+    projectId: { $in: projects.map(project => project._id) },
+    status: { $ne: TaskStatus.COMPLETED },
+    archivedAt: null,
+    dueDate: { $ne: null, $lt: endOfToday },
+    $or: [
+      { assignees: userId },
+      { assignees: { $size: 0 }, createdBy: userId },
+    ],
+  })
+    .sort({ dueDate: 1 })
+    .select('title dueDate');
+
+  // Due dates are calendar days stored at midnight UTC
+  const startOfToday = new Date(`${today}T00:00:00Z`);
+  const toDigestTask = (task: typeof tasks[number]): DigestTask => ({
+    _id: task._id.toString(),
+    title: task.title,
+    dueDate: task.dueDate!,
+  });
+
+  return {
+    dueToday: tasks.filter(task => task.dueDate! >= startOfToday).map(toDigestTask),
+    overdue: tasks.filter(task => task.dueDate! < startOfToday).map(toDigestTask),
+  };
+}
+
+// Queue the daily digest for everyone whose digest hour has come today in their
+// time zone. Each user is claimed with a conditional update on lastDigestOn, so
+// nobody gets two digests a day. Days with nothing due send nothing.
+export async function sendDailyDigests(): Promise<void> {
+  if (Date.now() - lastRun < DIGEST_INTERVAL_MS) return;
+  lastRun = Date.now();
+
+  try {
+    const now = new Date();
+    // Accounts from before notification settings existed have nothing stored, and
+    // the digest is on by default
+    const users = await User.find({
+      'notificationPrefs.dailyDigest': { $ne: false },
+      emailVerified: { $ne: false },
+    }).select('name email notificationPrefs lastDigestOn');
+
+    let sent = 0;
+    for (const user of users) {
+      const { day, hour } = getLocalTime(now, user.notificationPrefs.timezone);
+      if (hour < user.notificationPrefs.digestHour || user.lastDigestOn === day) continue;
+
+      const { modifiedCount } = await User.updateOne(
+        { _id: user._id, lastDigestOn: { $ne: day } },
+        { $set: { lastDigestOn: day } },
+        { timestamps: false }
+      );
+      if (modifiedCount === 0) continue; // Another process got there first
+
+      const { dueToday, overdue } = await findDigestTasks(user._id.toString(), day);
+      if (dueToday.length === 0 && overdue.length === 0) continue;
+
+      await queueEmail({
+        to: user.email,
+        userId: user._id.toString(),
+        template: 'digest',
+        content: digestEmail({
+          name: user.name,
+          dueToday: dueToday.slice(0, MAX_DIGEST_TASKS),
+          overdue: overdue.slice(0, MAX_DIGEST_TASKS),
+          dueTodayCount: dueToday.length,
+          overdueCount: overdue.length,
+        }),
+      });
+      sent++;
+    }
+
+    if (sent > 0) {
+      console.log(`📬 Queued ${sent} daily digests`);
+    }
+  } catch (error) {
+    lastRun = 0; // Try again on the next run
+    console.error('❌ Error sending daily digests:', error);
+  }
+}
@@ -0,0 +1,30 @@
+import { Estimate, EstimateUnit } from '@/types';
+
+// Logged time for display, e.g. "2h 05m", "12m" or "45s"
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${total}s`;
+}
+
+// A running timer's elapsed time as a clock, e.g. "1:02:03" or "4:05"
+export function formatClock(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+// An estimate for display, e.g. "1.5h" or "3 pts"
+export function formatEstimate(estimate: Estimate): string {
+  if (estimate.unit === EstimateUnit.POINTS) {
+    return `${estimate.value} pt${estimate.value === 1 ? '' : 's'}`;
+  }
+  return `${estimate.value}h`;
+}
@@ -0,0 +1,208 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import Email, { EmailStatus } from '@/models/Email';
+import { EmailContent } from '@/lib/mailTemplates';
+import { EMAIL_TOKEN_PLACEHOLDER, emailLinkToken } from '@/lib/tokens';
+
+// An email ready to go out
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Something that delivers emails. Throwing means the send failed and the outbox
+// tries again later.
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+// Sender shown on every email (MAIL_FROM)
+const MAIL_FROM = process.env.MAIL_FROM || 'TaskManager <no-reply@localhost>';
+
+// Delivers through an SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE)
+export function createSmtpTransport(): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === 'true', // true for port 465, STARTTLS otherwise
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({ from: MAIL_FROM, ...message });
+    },
+  };
+}
+
+// Writes each email as an .eml file to a folder (MAIL_DIR, default .mail), for
+// local development - open them in any mail client
+export function createFileTransport(directory = process.env.MAIL_DIR || '.mail'): MailTransport {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+  return {
+    name: 'file',
+    async send(message) {
+      const info = await transporter.sendMail({ from: MAIL_FROM, ...message });
+      const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, 40);
+
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(path.join(directory, `${Date.now()}-${slug}.eml`), info.message as Buffer);
+    },
+  };
+}
+
+// Keeps emails in memory, for tests
+export function createMemoryTransport(): MailTransport & { sent: MailMessage[] } {
+  const sent: MailMessage[] = [];
+
+  return {
+    name: 'memory',
+    sent,
+    async send(message) {
+      sent.push(message);
+    },
+  };
+}
+
+// The transport picked by MAIL_TRANSPORT (smtp, file or memory). Without it, SMTP
+// is used when SMTP_HOST is set and files otherwise.
+function createDefaultTransport(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'file');
+
+  switch (name) {
+    case 'smtp':
+      return createSmtpTransport();
+    case 'memory':
+      return createMemoryTransport();
+    case 'file':
+      return createFileTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}" - use smtp, file or memory`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = createDefaultTransport();
+    console.log(`📧 Sending email through the ${transport.name} transport`);
+  }
+  return transport;
+}
+
+// Swap the transport, e.g. for a memory transport in tests
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
+
+interface QueuedEmail {
+  to: string;
+  userId?: string | null;
+  template: string;
+  content: EmailContent;
+  emailId?: string; // From createEmailLinkToken, when the content has a link token
+}
+
+// Put an email in the outbox. It goes out on the next outbox run, within a minute.
+export async function queueEmail({ to, userId, template, content, emailId }: QueuedEmail): Promise<void> {
+  await Email.create({
+    ...(emailId && { _id: emailId, hasLinkToken: true }),
+    to,
+    userId: userId || null,
+    template,
+    subject: content.subject,
+    html: content.html,
+    text: content.text,
+  });
+}
+
+// Sends are given up after this many attempts
+export const MAX_SEND_ATTEMPTS = 5;
+
+// Wait before the next attempt, by the number of attempts so far (one per retry)
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120];
+
+// How long a claimed email is left alone before another run may try it again
+// (in case the process sending it died)
+const SEND_LEASE_MS = 5 * 60 * 1000;
+
+// Most emails sent per run
+const OUTBOX_BATCH_SIZE = 50;
+
+// Least time between outbox runs in one server process. Kept under the scheduler's
+// one-minute tick so every tick sends; it only limits the extra runs that
+// notification requests trigger.
+const OUTBOX_INTERVAL_MS = 30 * 1000;
+let lastRun = 0;
+
+// Send the emails that are due, retrying failed sends with a growing delay.
+// Each email is claimed with a conditional update first, so two server processes
+// never send the same one. Runs at most every 30 seconds per server process.
+export async function processOutbox(): Promise<void> {
+  if (Date.now() - lastRun < OUTBOX_INTERVAL_MS) return;
+  lastRun = Date.now();
+
+  let sent = 0;
+  let failed = 0;
+
+  try {
+    for (let i = 0; i < OUTBOX_BATCH_SIZE; i++) {
+      const now = new Date();
+      const email = await Email.findOneAndUpdate(
+        { status: EmailStatus.PENDING, nextAttemptAt: { $lte: now } },
+        {
+          $set: { nextAttemptAt: new Date(now.getTime() + SEND_LEASE_MS) },
+          $inc: { attempts: 1 },
+        },
+        { sort: { nextAttemptAt: 1 }, new: true }
+      );
+      if (!email) break;
+
+      try {
+        // The link token only exists in the message being sent, never in the outbox
+        const withToken = (body: string) => email.hasLinkToken
+          ? body.replaceAll(EMAIL_TOKEN_PLACEHOLDER, emailLinkToken(email._id.toString()))
+          : body;
+
+        await getMailTransport().send({
+          to: email.to,
+          subject: email.subject,
+          html: withToken(email.html),
+          text: withToken(email.text),
+        });
+
+        email.status = EmailStatus.SENT;
+        email.sentAt = new Date();
+        email.lastError = null;
+        sent++;
+      } catch (error) {
+        email.lastError = error instanceof Error ? error.message : String(error);
+        if (email.attempts >= MAX_SEND_ATTEMPTS) {
+          email.status = EmailStatus.FAILED;
+        } else {
+          email.nextAttemptAt = new Date(Date.now() + RETRY_DELAYS_MINUTES[email.attempts - 1] * 60 * 1000);
+        }
+        failed++;
+        console.error(`❌ Sending email ${email._id} failed (attempt ${email.attempts}):`, email.lastError);
+      }
+
+      await email.save();
+    }
+
+    if (sent > 0 || failed > 0) {
+      console.log(`📧 Outbox: ${sent} sent, ${failed} failed`);
+    }
+  } catch (error) {
+    lastRun = 0; // Try again on the next run
+    console.error('❌ Error processing outbox:', error);
+  }
+}
@@ -0,0 +1,201 @@
+// Email templates. Each one builds a subject and matching HTML and plain text
+// bodies; the HTML is kept to inline styles so it renders in most mail clients.
+
+export interface EmailContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Base URL for links in emails (APP_URL, falling back to NEXTAUTH_URL)
+export const APP_URL = (process.env.APP_URL || process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+export const taskUrl = (taskId: string) => `${APP_URL}/tasks/${taskId}/edit`;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+interface Layout {
+  heading: string;
+  paragraphs: string[]; // Plain text, escaped here
+  action?: { label: string; url: string };
+  extraHtml?: string; // Already escaped
+  extraText?: string;
+  account?: boolean; // Account emails can't be turned off, so they don't point to the settings
+}
+
+// Longest subject the outbox accepts (see models/Email.ts)
+const MAX_SUBJECT_LENGTH = 200;
+
+// Cut a text to a length, marking the cut with an ellipsis
+function shorten(value: string, length: number): string {
+  return value.length > length ? `${value.slice(0, length - 1).trimEnd()}…` : value;
+}
+
+// Shared frame: heading, paragraphs, an optional button and a footer pointing
+// to the notification settings (or, for account emails, saying why it was sent)
+function render(subject: string, { heading, paragraphs, action, extraHtml = '', extraText = '', account = false }: Layout): EmailContent {
+  const settingsUrl = `${APP_URL}/settings`;
+  const footerText = account
+    ? 'You got this email because of a change to your TaskManager account.'
+    : `Choose which emails you get: ${settingsUrl}`;
+  const footerHtml = account
+    ? escapeHtml(footerText)
+    : `You can choose which emails you get in your <a href="${escapeHtml(settingsUrl)}" style="color:#6b7280;">notification settings</a>.`;
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+      <p style="margin:0 0 16px;font-size:20px;font-weight:bold;color:#2563eb;">TaskManager</p>
+      <h1 style="margin:0 0 16px;font-size:18px;">${escapeHtml(heading)}</h1>
+      ${paragraphs.map(paragraph => `<p style="margin:0 0 12px;font-size:14px;line-height:20px;">${escapeHtml(paragraph)}</p>`).join('\n      ')}
+      ${extraHtml}
+      ${action ? `<p style="margin:24px 0;"><a href="${escapeHtml(action.url)}" style="background:#2563eb;color:#ffffff;padding:10px 16px;border-radius:6px;text-decoration:none;font-size:14px;">${escapeHtml(action.label)}</a></p>` : ''}
+      <p style="margin:24px 0 0;font-size:12px;color:#6b7280;">${footerHtml}</p>
+    </div>
+  </body>
+</html>`;
+
+  const text = [
+    heading,
+    '',
+    ...paragraphs.flatMap(paragraph => [paragraph, '']),
+    ...(extraText ? [extraText, ''] : []),
+    ...(action ? [`${action.label}: ${action.url}`, ''] : []),
+    footerText,
+  ].join('\n');
+
+  return { subject: shorten(subject, MAX_SUBJECT_LENGTH), html, text };
+}
+
+// Task titles run up to 200 characters, as long as the whole subject may be, so
+// subjects get a shortened one
+const SUBJECT_TITLE_LENGTH = 60;
+
+const subjectTitle = (title: string) => shorten(title, SUBJECT_TITLE_LENGTH);
+
+interface TaskEmail {
+  name: string; // Recipient
+  taskId: string;
+  taskTitle: string;
+}
+
+// A due-date reminder, e.g. "Due in 1 hour"
+export function reminderEmail({ name, taskId, taskTitle, message }: TaskEmail & { message: string }): EmailContent {
+  return render(`⏰ ${subjectTitle(taskTitle)}: ${message}`, {
+    heading: `${message}: ${taskTitle}`,
+    paragraphs: [`Hi ${name}, this is your reminder for "${taskTitle}".`],
+    action: { label: 'Open task', url: taskUrl(taskId) },
+  });
+}
+
+// Someone assigned the recipient to a task
+export function assignmentEmail({ name, taskId, taskTitle, actorName }: TaskEmail & { actorName: string }): EmailContent {
+  return render(`${actorName} assigned you to ${subjectTitle(taskTitle)}`, {
+    heading: `You were assigned to ${taskTitle}`,
+    paragraphs: [`Hi ${name}, ${actorName} assigned you to "${taskTitle}".`],
+    action: { label: 'Open task', url: taskUrl(taskId) },
+  });
+}
+
+// Someone else changed a task the recipient created, e.g. "Alice changed the due date"
+export function taskChangedEmail({ name, taskId, taskTitle, message }: TaskEmail & { message: string }): EmailContent {
+  return render(`${subjectTitle(taskTitle)}: ${message}`, {
+    heading: `${taskTitle} was changed`,
+    paragraphs: [`Hi ${name}, ${message} on "${taskTitle}".`],
+    action: { label: 'Open task', url: taskUrl(taskId) },
+  });
+}
+
+export interface DigestTask {
+  _id: string;
+  title: string;
+  dueDate: Date;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+interface Digest {
+  name: string;
+  dueToday: DigestTask[]; // Listed - may be cut short
+  overdue: DigestTask[];
+  dueTodayCount: number; // Counted in the summary
+  overdueCount: number;
+}
+
+// The daily summary, e.g. "5 tasks due today, 2 overdue"
+export function digestEmail({ name, dueToday, overdue, dueTodayCount, overdueCount }: Digest): EmailContent {
+  const summary = dueTodayCount === 0
+    ? `${plural(overdueCount, 'task')} overdue`
+    : `${plural(dueTodayCount, 'task')} due today${overdueCount > 0 ? `, ${overdueCount} overdue` : ''}`;
+
+  const section = (title: string, tasks: DigestTask[], showDate: boolean) => tasks.length === 0 ? { html: '', text: '' } : {
+    html: `<h2 style="margin:16px 0 8px;font-size:15px;">${escapeHtml(title)}</h2>
+      <ul style="margin:0;padding-left:20px;font-size:14px;line-height:22px;">
+        ${tasks.map(task => `<li><a href="${escapeHtml(taskUrl(task._id))}" style="color:#2563eb;">${escapeHtml(task.title)}</a>${showDate ? ` <span style="color:#6b7280;">(due ${escapeHtml(formatDay(task.dueDate))})</span>` : ''}</li>`).join('\n        ')}
+      </ul>`,
+    text: [title, ...tasks.map(task => `- ${task.title}${showDate ? ` (due ${formatDay(task.dueDate)})` : ''}: ${taskUrl(task._id)}`)].join('\n'),
+  };
+
+  const today = section('Due today', dueToday, false);
+  const late = section('Overdue', overdue, true);
+
+  return render(`Your day: ${summary}`, {
+    heading: 'Your tasks for today',
+    paragraphs: [`Hi ${name}, you have ${summary}.`],
+    extraHtml: today.html + late.html,
+    extraText: [today.text, late.text].filter(Boolean).join('\n\n'),
+    action: { label: 'Open your tasks', url: `${APP_URL}/tasks` },
+  });
+}
+
+// Due dates are calendar days, stored at midnight UTC
+function formatDay(date: Date): string {
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+// Link to choose a new password
+export function passwordResetEmail({ name, token, expiresInMinutes }: { name: string; token: string; expiresInMinutes: number }): EmailContent {
+  return render('Reset your TaskManager password', {
+    heading: 'Reset your password',
+    paragraphs: [
+      `Hi ${name}, someone (hopefully you) asked to reset the password of your TaskManager account.`,
+      `The link works once and expires in ${expiresInMinutes} minutes. If you didn't ask for it, you can ignore this email - your password stays the same.`,
+    ],
+    action: { label: 'Choose a new password', url: `${APP_URL}/reset-password?token=${token}` },
+    account: true,
+  });
+}
+
+// Heads-up after a reset, in case it wasn't the user
+export function passwordChangedEmail({ name }: { name: string }): EmailContent {
+  return render('Your TaskManager password was changed', {
+    heading: 'Your password was changed',
+    paragraphs: [
+      `Hi ${name}, the password of your TaskManager account was just reset and you were signed out everywhere.`,
+      "If this wasn't you, reset your password again right away.",
+    ],
+    action: { label: 'Reset password', url: `${APP_URL}/forgot-password` },
+    account: true,
+  });
+}
+
+// Link that confirms the address a new account signed up with
+export function verificationEmail({ name, token, expiresInHours }: { name: string; token: string; expiresInHours: number }): EmailContent {
+  return render('Confirm your TaskManager email', {
+    heading: 'Confirm your email',
+    paragraphs: [
+      `Hi ${name}, welcome to TaskManager! Please confirm this is your email address.`,
+      `Until you do, you can't invite people to projects or join them, and we won't email you notifications. The link expires in ${expiresInHours} hours.`,
+    ],
+    action: { label: 'Confirm email', url: `${APP_URL}/verify-email?token=${token}` },
+    account: true,
+  });
+}
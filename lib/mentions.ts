@@ -0,0 +1,27 @@
+import { UserReference } from '@/types';
+
+// Escape a name for use inside a RegExp
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches "@Full Name" for any of the given people. Longer names are tried
+// first so "@Ann Lee" wins over "@Ann". The mention has to start the text or
+// follow whitespace/punctuation, and can't run into more letters.
+export function mentionPattern(people: Pick<UserReference, 'name'>[]): RegExp | null {
+  const names = Array.from(new Set(people.map(person => person.name.trim()).filter(Boolean)))
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+
+  if (names.length === 0) return null;
+  return new RegExp(`(?<=^|[\\s(\\[{"'])@(${names.join('|')})(?![\\p{L}\\p{N}_])`, 'giu');
+}
+
+// The people mentioned in a comment. Members sharing a name are all mentioned.
+export function findMentions<T extends Pick<UserReference, '_id' | 'name'>>(text: string, people: T[]): T[] {
+  const pattern = mentionPattern(people);
+  if (!pattern) return [];
+
+  const mentioned = new Set(
+    Array.from(text.matchAll(pattern), match => match[1].toLowerCase())
+  );
+  return people.filter(person => mentioned.has(person.name.trim().toLowerCase()));
+}
@@ -0,0 +1,181 @@
+import Notification, { NotificationType } from '@/models/Notification';
+import { ActivityAction, IFieldChange } from '@/models/Activity';
+import { ITaskDocument } from '@/models/Task';
+import Project from '@/models/Project';
+import User, { INotificationPrefs, IUser } from '@/models/User';
+import { MEMBER_FIELDS, findMemberProject } from '@/lib/projects';
+import { queueEmail } from '@/lib/mail';
+import { EmailContent, assignmentEmail, reminderEmail, taskChangedEmail } from '@/lib/mailTemplates';
+
+// Who caused a notification
+export const NOTIFICATION_POPULATE = [{ path: 'actorId', select: MEMBER_FIELDS }];
+
+// Field names as they read in a sentence
+const FIELD_LABELS: Record<string, string> = {
+  dueDate: 'due date',
+  recurrence: 'repeat rule',
+  blockedBy: 'blockers',
+  subtasks: 'checklist',
+};
+
+// What happened, for actions other than field updates
+const ACTION_PHRASES: Partial<Record<ActivityAction, string>> = {
+  [ActivityAction.DELETED]: 'moved it to the trash',
+  [ActivityAction.RESTORED]: 'restored it from the trash',
+  [ActivityAction.ARCHIVED]: 'archived it',
+  [ActivityAction.UNARCHIVED]: 'unarchived it',
+};
+
+// "a", "a and b", "a, b and c"
+function joinWords(words: string[]): string {
+  return words.length <= 1 ? words.join('') : `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}`;
+}
+
+function describeChange(action: ActivityAction, changes: IFieldChange[]): string | null {
+  if (action !== ActivityAction.UPDATED) return ACTION_PHRASES[action] || null;
+
+  const status = changes.find(change => change.field === 'status');
+  if (changes.length === 1 && status) return `changed the status to ${String(status.to).replace('_', ' ')}`;
+
+  return `changed the ${joinWords(changes.map(change => FIELD_LABELS[change.field] || change.field))}`;
+}
+
+type EmailPref = keyof Pick<INotificationPrefs, 'emailReminders' | 'emailAssignments' | 'emailTaskChanges'>;
+
+// Queue an email for each of the users who turned this kind of email on. A failed
+// email never stops the in-app notification.
+async function emailUsers(
+  userIds: string[],
+  pref: EmailPref,
+  template: string,
+  build: (user: IUser) => EmailContent
+): Promise<void> {
+  if (userIds.length === 0) return;
+
+  try {
+    const users = await User.find({ _id: { $in: userIds } }).select('name email emailVerified notificationPrefs');
+    await Promise.all(users
+      .filter(user => user.emailVerified && user.notificationPrefs[pref]) // Unconfirmed addresses aren't emailed
+      .map(user => queueEmail({ to: user.email, userId: user._id.toString(), template, content: build(user) })));
+  } catch (error) {
+    console.error('❌ Error queueing notification emails:', error);
+  }
+}
+
+interface TaskChange {
+  task: ITaskDocument;
+  actorId: string;
+  action: ActivityAction;
+  changes: IFieldChange[];
+}
+
+// Let the task's creator know when someone else changes it, as long as they are
+// still in the project
+export async function notifyTaskChange({ task, actorId, action, changes }: TaskChange): Promise<void> {
+  // Nobody to tell when the task was loaded without its creator
+  if (!task.createdBy) return;
+
+  const ownerId = task.createdBy.toString();
+  if (ownerId === actorId) return;
+
+  const phrase = describeChange(action, changes);
+  if (!phrase) return;
+
+  try {
+    const [project, actor] = await Promise.all([
+      findMemberProject(task.projectId.toString(), ownerId),
+      User.findById(actorId).select('name'),
+    ]);
+    if (!project) return;
+
+    const message = `${actor?.name || 'Someone'} ${phrase}`;
+    await Notification.create({
+      userId: ownerId,
+      type: NotificationType.TASK_CHANGED,
+      taskId: task._id,
+      projectId: task.projectId,
+      actorId,
+      title: task.title,
+      message,
+    });
+
+    await emailUsers([ownerId], 'emailTaskChanges', 'task_changed', user => taskChangedEmail({
+      name: user.name,
+      taskId: task._id.toString(),
+      taskTitle: task.title,
+      message,
+    }));
+  } catch (error) {
+    // The change itself went through - a missing notification shouldn't undo that
+    console.error('❌ Error creating notification:', error);
+  }
+}
+
+// Remind whoever is working on a task (its assignees, or its creator when nobody
+// is assigned) who is still in the project
+export async function notifyReminder(task: ITaskDocument, message: string): Promise<number> {
+  const recipients = task.assignees.length > 0
+    ? task.assignees.map(String)
+    : [task.createdBy.toString()];
+
+  const project = await Project.findById(task.projectId).select('members.userId');
+  if (!project) return 0;
+
+  const memberIds = new Set(project.members.map(member => member.userId.toString()));
+  const userIds = recipients.filter(userId => memberIds.has(userId));
+
+  await Notification.insertMany(userIds.map(userId => ({
+    userId,
+    type: NotificationType.REMINDER,
+    taskId: task._id,
+    projectId: task.projectId,
+    title: task.title,
+    message,
+  })));
+
+  await emailUsers(userIds, 'emailReminders', 'reminder', user => reminderEmail({
+    name: user.name,
+    taskId: task._id.toString(),
+    taskTitle: task.title,
+    message,
+  }));
+
+  return userIds.length;
+}
+
+interface Assignment {
+  task: ITaskDocument;
+  actorId: string;
+  userIds: string[]; // Newly assigned
+}
+
+// Let people know they were assigned to a task - unless they assigned themselves
+export async function notifyAssignment({ task, actorId, userIds }: Assignment): Promise<void> {
+  const recipients = userIds.filter(userId => userId !== actorId);
+  if (recipients.length === 0) return;
+
+  try {
+    const actor = await User.findById(actorId).select('name');
+    const actorName = actor?.name || 'Someone';
+
+    await Notification.insertMany(recipients.map(userId => ({
+      userId,
+      type: NotificationType.ASSIGNED,
+      taskId: task._id,
+      projectId: task.projectId,
+      actorId,
+      title: task.title,
+      message: `${actorName} assigned you`,
+    })));
+
+    await emailUsers(recipients, 'emailAssignments', 'assignment', user => assignmentEmail({
+      name: user.name,
+      taskId: task._id.toString(),
+      taskTitle: task.title,
+      actorName,
+    }));
+  } catch (error) {
+    // The assignment itself went through - a missing notification shouldn't undo that
+    console.error('❌ Error creating assignment notifications:', error);
+  }
+}
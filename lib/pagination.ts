@@ -0,0 +1,139 @@
+import mongoose, { FilterQuery, PipelineStage } from 'mongoose';
+import Task, { ITaskDocument, TaskPriority } from '@/models/Task';
+import { TASK_SORT_FIELDS } from '@/lib/validations';
+
+export type TaskSortField = (typeof TASK_SORT_FIELDS)[number];
+export type SortOrder = 'asc' | 'desc';
+
+// Page of tasks plus what the client needs to fetch the next one
+export interface TaskPage {
+  tasks: ITaskDocument[];
+  total: number;
+  nextCursor: string | null;
+}
+
+// Direction used when the client doesn't pass one - newest first, soonest/most urgent first
+export const DEFAULT_SORT_ORDER: Record<TaskSortField, SortOrder> = {
+  relevance: 'desc',
+  dueDate: 'asc',
+  priority: 'desc',
+  createdAt: 'desc',
+  updatedAt: 'desc',
+  title: 'asc',
+  position: 'asc',
+  archivedAt: 'desc',
+  estimate: 'asc',
+};
+
+// Priorities from lowest to highest, so priority sorts by rank instead of alphabetically
+const PRIORITY_RANK = [TaskPriority.LOW, TaskPriority.MEDIUM, TaskPriority.HIGH, TaskPriority.URGENT];
+
+// Stand-ins for a missing due date that keep undated tasks at the end in either direction
+const LATEST_DATE = new Date(8640000000000000);
+const EARLIEST_DATE = new Date(-8640000000000000);
+
+// Same for a missing estimate (estimates are 0.25-1000)
+const NO_ESTIMATE_HIGH = 1e6;
+const NO_ESTIMATE_LOW = -1;
+
+const DATE_FIELDS: TaskSortField[] = ['dueDate', 'createdAt', 'updatedAt', 'archivedAt'];
+
+// Value tasks are ordered by. _id breaks ties so every task has a unique position.
+function sortKeyExpression(sort: TaskSortField, order: SortOrder) {
+  switch (sort) {
+    case 'relevance':
+      return { $meta: 'textScore' }; // Only available when the filter has a $text search
+    case 'dueDate':
+      return { $ifNull: ['$dueDate', order === 'asc' ? LATEST_DATE : EARLIEST_DATE] };
+    case 'priority':
+      return { $indexOfArray: [PRIORITY_RANK, '$priority'] };
+    case 'title':
+      return { $toLower: '$title' };
+    case 'position':
+      return { $ifNull: ['$position', ''] }; // Tasks from before the board come first
+    case 'estimate':
+      return { $ifNull: ['$estimate.value', order === 'asc' ? NO_ESTIMATE_HIGH : NO_ESTIMATE_LOW] };
+    default:
+      return `$${sort}`;
+  }
+}
+
+// Cursors hold the sort key and _id of the last task on a page. Paging continues
+// after that position, so tasks created in the meantime don't shift the pages.
+export function encodeCursor(sort: TaskSortField, order: SortOrder, value: unknown, id: string): string {
+  const payload = { s: sort, o: order, v: value instanceof Date ? value.toISOString() : value, id };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+// Read a cursor back. Returns null when it is malformed or was made for a different sort.
+export function decodeCursor(
+  cursor: string,
+  sort: TaskSortField,
+  order: SortOrder
+): { value: unknown; id: string } | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (payload.s !== sort || payload.o !== order || !/^[0-9a-fA-F]{24}$/.test(payload.id)) {
+      return null;
+    }
+
+    const value = DATE_FIELDS.includes(sort) ? new Date(payload.v) : payload.v;
+    if (value instanceof Date && isNaN(value.getTime())) return null;
+
+    return { value, id: payload.id };
+  } catch {
+    return null;
+  }
+}
+
+// Fetch one page of tasks matching the filter, ordered by the sort key then _id
+export async function paginateTasks(
+  filter: FilterQuery<ITaskDocument>,
+  options: { sort: TaskSortField; order: SortOrder; limit: number; cursor?: { value: unknown; id: string } }
+): Promise<TaskPage> {
+  const { sort, order, limit, cursor } = options;
+  const direction = order === 'asc' ? 1 : -1;
+  const comparison = order === 'asc' ? '$gt' : '$lt';
+
+  const pipeline: PipelineStage[] = [
+    { $match: filter },
+    { $addFields: { _sortKey: sortKeyExpression(sort, order) } },
+  ];
+
+  if (cursor) {
+    pipeline.push({
+      $match: {
+        $or: [
+          { _sortKey: { [comparison]: cursor.value } },
+          { _sortKey: cursor.value, _id: { [comparison]: new mongoose.Types.ObjectId(cursor.id) } },
+        ],
+      },
+    });
+  }
+
+  // One extra task tells us whether there is another page
+  pipeline.push(
+    { $sort: { _sortKey: direction, _id: direction } },
+    { $limit: limit + 1 }
+  );
+
+  const [results, total] = await Promise.all([
+    Task.aggregate(pipeline),
+    Task.countDocuments(filter),
+  ]);
+
+  const hasMore = results.length > limit;
+  const page = results.slice(0, limit);
+  const last = page[page.length - 1];
+  const nextCursor = hasMore && last
+    ? encodeCursor(sort, order, last._sortKey, last._id.toString())
+    : null;
+
+  // Hydrate so the page serializes like the documents returned by Task.find
+  const tasks = page.map(task => {
+    delete task._sortKey;
+    return Task.hydrate(task);
+  });
+
+  return { tasks, total, nextCursor };
+}
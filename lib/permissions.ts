@@ -0,0 +1,67 @@
+import { ApiResponse, ProjectPermission, ProjectRole } from '@/types';
+
+// Which roles may perform each action. Shared by the API routes and the UI, so
+// buttons are hidden for exactly the actions the server would refuse.
+export const ROLE_PERMISSIONS: Record<ProjectPermission, ProjectRole[]> = {
+  'task:create': [ProjectRole.OWNER, ProjectRole.ADMIN, ProjectRole.MEMBER],
+  'task:update': [ProjectRole.OWNER, ProjectRole.ADMIN, ProjectRole.MEMBER],
+  'task:delete': [ProjectRole.OWNER, ProjectRole.ADMIN],
+  'task:delete-own': [ProjectRole.OWNER, ProjectRole.ADMIN, ProjectRole.MEMBER],
+  'task:assign': [ProjectRole.OWNER, ProjectRole.ADMIN],
+  'task:assign-own': [ProjectRole.OWNER, ProjectRole.ADMIN, ProjectRole.MEMBER],
+  'task:comment': [ProjectRole.OWNER, ProjectRole.ADMIN, ProjectRole.MEMBER],
+  'time:log': [ProjectRole.OWNER, ProjectRole.ADMIN, ProjectRole.MEMBER],
+  'category:manage': [ProjectRole.OWNER, ProjectRole.ADMIN],
+  'project:update': [ProjectRole.OWNER, ProjectRole.ADMIN],
+  'project:delete': [ProjectRole.OWNER],
+  'members:invite': [ProjectRole.OWNER, ProjectRole.ADMIN],
+  'members:remove': [ProjectRole.OWNER, ProjectRole.ADMIN],
+  'members:change-role': [ProjectRole.OWNER],
+};
+
+// Human-readable names for the role picker and error messages
+export const ROLE_LABELS: Record<ProjectRole, string> = {
+  [ProjectRole.OWNER]: 'Owner',
+  [ProjectRole.ADMIN]: 'Admin',
+  [ProjectRole.MEMBER]: 'Member',
+  [ProjectRole.VIEWER]: 'Viewer',
+};
+
+// Higher rank = more privileged; admins only manage members ranked below them
+const ROLE_RANK: Record<ProjectRole, number> = {
+  [ProjectRole.OWNER]: 3,
+  [ProjectRole.ADMIN]: 2,
+  [ProjectRole.MEMBER]: 1,
+  [ProjectRole.VIEWER]: 0,
+};
+
+export function hasPermission(role: ProjectRole | null | undefined, permission: ProjectPermission): boolean {
+  return !!role && ROLE_PERMISSIONS[permission].includes(role);
+}
+
+// Members can always delete tasks they created; deleting anyone's needs 'task:delete'
+export function canDeleteTask(role: ProjectRole | null | undefined, isCreator: boolean): boolean {
+  return hasPermission(role, 'task:delete') || (isCreator && hasPermission(role, 'task:delete-own'));
+}
+
+// Members choose who works on tasks they created; reassigning anyone's needs 'task:assign'
+export function canAssignTask(role: ProjectRole | null | undefined, isCreator: boolean): boolean {
+  return hasPermission(role, 'task:assign') || (isCreator && hasPermission(role, 'task:assign-own'));
+}
+
+export function outranks(role: ProjectRole, other: ProjectRole): boolean {
+  return ROLE_RANK[role] > ROLE_RANK[other];
+}
+
+// Body of the 403 the API returns when the role check fails
+export function permissionDenied(role: ProjectRole, permission: ProjectPermission, error?: string): ApiResponse {
+  return {
+    success: false,
+    error: error || `${ROLE_LABELS[role]}s are not allowed to do this in this project`,
+    forbidden: {
+      permission,
+      role,
+      allowedRoles: ROLE_PERMISSIONS[permission],
+    },
+  };
+}
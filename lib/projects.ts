@@ -0,0 +1,138 @@
+import mongoose from 'mongoose';
+import Project, { IProjectDocument } from '@/models/Project';
+import Task, { ITaskDocument } from '@/models/Task';
+import { BLOCKER_FIELDS } from '@/lib/dependencies';
+import { ProjectRole } from '@/types';
+
+// Cookie holding the project picked in the project switcher
+export const PROJECT_COOKIE = 'project-id';
+
+// User fields returned for project members and inviters
+export const MEMBER_FIELDS = 'name email avatar';
+
+// Everything populated on a task before it's returned to the client
+export const TASK_POPULATE = [
+  { path: 'blockedBy', select: BLOCKER_FIELDS },
+  { path: 'createdBy', select: MEMBER_FIELDS },
+  { path: 'assignees', select: MEMBER_FIELDS },
+];
+
+// Tasks saved before creators and assignees were split only have `userId`, the
+// person who both created and worked on the task. They're converted once per
+// server process, before anything looks tasks up by creator or assignee.
+let legacyOwnersMigration: Promise<unknown> | null = null;
+
+function migrateLegacyOwners(): Promise<unknown> {
+  legacyOwnersMigration ??= Task.updateMany(
+    { userId: { $exists: true } },
+    [
+      { $set: { createdBy: '$userId', assignees: ['$userId'] } },
+      { $unset: 'userId' },
+    ]
+  ).catch(error => {
+    legacyOwnersMigration = null; // Try again on the next request
+    throw error;
+  });
+  return legacyOwnersMigration;
+}
+
+// Get the user's personal project, creating it on first use. Tasks from before
+// projects existed have no projectId and are moved into it when it's created.
+export async function ensurePersonalProject(userId: string): Promise<IProjectDocument> {
+  await migrateLegacyOwners();
+
+  const existing = await Project.findOne({ ownerId: userId, personal: true });
+  if (existing) return existing;
+
+  try {
+    console.log('📂 Creating personal project for user:', userId);
+    const project = await Project.create({
+      name: 'Personal',
+      personal: true,
+      ownerId: userId,
+      members: [{ userId, role: ProjectRole.OWNER }],
+    });
+
+    await Task.updateMany(
+      { createdBy: userId, projectId: { $exists: false } },
+      { $set: { projectId: project._id } }
+    );
+
+    return project;
+  } catch (error) {
+    // A concurrent request may have created it first - the unique index keeps one copy
+    if (!(error instanceof Error && error.message.includes('E11000'))) throw error;
+    return (await Project.findOne({ ownerId: userId, personal: true }))!;
+  }
+}
+
+// Find a project the user is a member of
+export async function findMemberProject(projectId: string, userId: string): Promise<IProjectDocument | null> {
+  if (!mongoose.isValidObjectId(projectId)) return null;
+  return Project.findOne({ _id: projectId, 'members.userId': userId });
+}
+
+// Assignees have to be members of the task's project. Returns the IDs that aren't.
+export function findNonMembers(project: IProjectDocument, userIds: string[]): string[] {
+  const memberIds = new Set(project.members.map(member => member.userId.toString()));
+  return userIds.filter(id => !memberIds.has(id));
+}
+
+// The user's role in a project, or null if they aren't a member. The owner is
+// always 'owner', whatever their member entry says.
+export function getMemberRole(project: IProjectDocument, userId: string): ProjectRole | null {
+  if (project.ownerId.toString() === userId) return ProjectRole.OWNER;
+
+  const member = project.members.find(member => member.userId.toString() === userId);
+  return member ? (member.role as string as ProjectRole) : null;
+}
+
+// The project a request works in: ?projectId=, then the switcher cookie, then the
+// personal project. Projects the user isn't a member of are ignored.
+export async function getActiveProject(request: Request, userId: string): Promise<IProjectDocument> {
+  const url = new URL(request.url);
+  const cookie = request.headers.get('cookie')
+    ?.split(';')
+    .find(part => part.trim().startsWith(`${PROJECT_COOKIE}=`));
+  const projectId = url.searchParams.get('projectId') || cookie?.split('=')[1]?.trim();
+
+  if (projectId) {
+    const project = await findMemberProject(projectId, userId);
+    if (project) return project;
+  }
+
+  return ensurePersonalProject(userId);
+}
+
+// A task together with its project (owner and members only) and the user's role there
+export interface TaskAccess {
+  task: ITaskDocument;
+  project: IProjectDocument;
+  role: ProjectRole;
+}
+
+// Load a task if the user is a member of its project. Returns null otherwise,
+// so callers answer 404 without revealing that the task exists. Callers check
+// the returned role with hasPermission() before changing anything. Trashed
+// tasks are only found when asking for the trash.
+export async function findAccessibleTask(taskId: string, userId: string, inTrash = false): Promise<TaskAccess | null> {
+  if (!mongoose.isValidObjectId(taskId)) return null;
+  await migrateLegacyOwners();
+
+  const filter = { _id: taskId, deletedAt: inTrash ? { $ne: null } : null };
+  let task = await Task.findOne(filter);
+  if (!task) return null;
+
+  // Not moved into a project yet - only its creator can see it, and creating
+  // their personal project moves it there
+  if (!task.projectId) {
+    if (task.createdBy.toString() !== userId) return null;
+    await ensurePersonalProject(userId);
+    task = await Task.findOne(filter);
+    if (!task) return null;
+  }
+
+  const project = await Project.findById(task.projectId).select('ownerId members');
+  const role = project && getMemberRole(project, userId);
+  return role ? { task, project, role } : null;
+}
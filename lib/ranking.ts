@@ -0,0 +1,62 @@
+// Ranks are strings that sort a column of the board. There is always another
+// rank between any two, so moving a card only ever rewrites that card.
+
+// Rank digits in ascending (ASCII) order, matching how MongoDB compares strings
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// A rank strictly between `before` and `after`. Empty `before` means the start
+// of the column, null `after` means the end. Ranks never end in '0', which is
+// what guarantees there is room for another rank on either side.
+function midpoint(before: string, after: string | null): string {
+  if (after !== null) {
+    // Keep the shared prefix and find the midpoint of what follows
+    let shared = 0;
+    while ((before[shared] || '0') === after[shared]) shared++;
+    if (shared > 0) {
+      return after.slice(0, shared) + midpoint(before.slice(shared), after.slice(shared));
+    }
+  }
+
+  const low = before ? DIGITS.indexOf(before[0]) : 0;
+  const high = after !== null ? DIGITS.indexOf(after[0]) : DIGITS.length;
+
+  // Room for a digit in between
+  if (high - low > 1) {
+    return DIGITS[Math.round((low + high) / 2)];
+  }
+
+  // Adjacent digits - shorten `after` if it has more digits, otherwise go one digit deeper
+  if (after !== null && after.length > 1) {
+    return after.slice(0, 1);
+  }
+  return DIGITS[low] + midpoint(before.slice(1), null);
+}
+
+// Check a rank is well formed before trusting it (e.g. from the database)
+export function isValidRank(rank: string): boolean {
+  return rank.length > 0 && !rank.endsWith('0') && [...rank].every(char => DIGITS.includes(char));
+}
+
+// Rank for a card placed between two neighbours (either may be missing).
+// Returns null when the neighbours are out of order, i.e. the caller's view is stale.
+export function rankBetween(before?: string | null, after?: string | null): string | null {
+  const low = before || '';
+  const high = after || null;
+
+  if ((low && !isValidRank(low)) || (high !== null && !isValidRank(high))) return null;
+  if (high !== null && low >= high) return null;
+
+  return midpoint(low, high);
+}
+
+// Rank for a card added at the end of a column. Bumps the first digit that
+// can still grow instead of halving the gap, so ranks stay short when cards
+// are added to the end one after another.
+export function rankAfter(last?: string | null): string {
+  if (!last || !isValidRank(last)) return midpoint('', null);
+
+  const position = [...last].findIndex(char => char !== DIGITS[DIGITS.length - 1]);
+  if (position === -1) return last + midpoint('', null);
+
+  return last.slice(0, position) + DIGITS[DIGITS.indexOf(last[position]) + 1];
+}
@@ -0,0 +1,197 @@
+import { RecurrenceFrequency, RecurrenceRule } from '@/types';
+
+// Shared between the server model and client pages, so it accepts either enum copy
+// (the string values are identical) and dates as Date objects or ISO strings
+export type RecurrenceRuleLike = Omit<RecurrenceRule, 'frequency' | 'until'> & {
+  frequency: `${RecurrenceFrequency}`;
+  until?: Date | string | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Safety limit for loops that search for the next matching day
+const MAX_ITERATIONS = 1000;
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const SET_POS_NAMES: { [key: number]: string } = {
+  1: 'first',
+  2: 'second',
+  3: 'third',
+  4: 'fourth',
+  5: 'fifth',
+  [-1]: 'last',
+};
+
+// Due dates are calendar days stored as midnight UTC, so all the calendar math
+// below works in UTC - the server's own time zone must not shift the day.
+
+// Days in a month (month is 0-based, overflow handled by Date)
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Copy the time of day from one date onto another
+function withTimeOf(date: Date, time: Date): Date {
+  const result = new Date(date);
+  result.setUTCHours(time.getUTCHours(), time.getUTCMinutes(), time.getUTCSeconds(), time.getUTCMilliseconds());
+  return result;
+}
+
+// Monday-based start of the week containing the date (RRULE default WKST=MO)
+function startOfWeek(date: Date): Date {
+  const result = new Date(date);
+  const offset = (result.getUTCDay() + 6) % 7;
+  result.setUTCDate(result.getUTCDate() - offset);
+  return result;
+}
+
+// Sort weekdays Monday first so "Mon, Wed, Sun" reads naturally
+function sortWeekdays(weekdays: number[]): number[] {
+  return [...weekdays].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+}
+
+// All days of a month that fall on one of the weekdays, optionally narrowed by position
+function monthDaysMatching(year: number, month: number, weekdays: number[], setPos?: number | null): Date[] {
+  const matches: Date[] = [];
+  for (let day = 1; day <= daysInMonth(year, month); day++) {
+    const date = new Date(Date.UTC(year, month, day));
+    if (weekdays.includes(date.getUTCDay())) matches.push(date);
+  }
+
+  if (!setPos) return matches;
+
+  const picked = setPos > 0 ? matches[setPos - 1] : matches[matches.length + setPos];
+  return picked ? [picked] : [];
+}
+
+// Next date strictly after `from` that satisfies the rule's pattern (ignores end conditions)
+function nextPatternDate(rule: RecurrenceRuleLike, from: Date): Date | null {
+  const interval = Math.max(1, rule.interval || 1);
+  const weekdays = rule.byWeekday || [];
+
+  switch (rule.frequency) {
+    case RecurrenceFrequency.DAILY: {
+      let candidate = new Date(from.getTime() + interval * DAY_MS);
+      for (let i = 0; i < MAX_ITERATIONS; i++) {
+        if (weekdays.length === 0 || weekdays.includes(candidate.getUTCDay())) return candidate;
+        candidate = new Date(candidate.getTime() + interval * DAY_MS);
+      }
+      return null;
+    }
+
+    case RecurrenceFrequency.WEEKLY: {
+      if (weekdays.length === 0) {
+        return new Date(from.getTime() + interval * 7 * DAY_MS);
+      }
+
+      // Later weekday in the same week first, then the first weekday `interval` weeks on
+      const ordered = sortWeekdays(weekdays);
+      const fromOffset = (from.getUTCDay() + 6) % 7;
+      const laterThisWeek = ordered.find(day => (day + 6) % 7 > fromOffset);
+      if (laterThisWeek !== undefined) {
+        const candidate = new Date(from);
+        candidate.setUTCDate(candidate.getUTCDate() + ((laterThisWeek + 6) % 7) - fromOffset);
+        return candidate;
+      }
+
+      const nextWeek = startOfWeek(from);
+      nextWeek.setUTCDate(nextWeek.getUTCDate() + interval * 7 + ((ordered[0] + 6) % 7));
+      return withTimeOf(nextWeek, from);
+    }
+
+    case RecurrenceFrequency.MONTHLY: {
+      if (weekdays.length === 0) {
+        // Same day of month, clamped to shorter months (31st → 28th/30th)
+        const monthDay = rule.byMonthDay || from.getUTCDate();
+        const target = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + interval, 1));
+        target.setUTCDate(Math.min(monthDay, daysInMonth(target.getUTCFullYear(), target.getUTCMonth())));
+        return withTimeOf(target, from);
+      }
+
+      // Remaining matches this month, otherwise the first match `interval` months on
+      let year = from.getUTCFullYear();
+      let month = from.getUTCMonth();
+      for (let i = 0; i < MAX_ITERATIONS; i++) {
+        const match = monthDaysMatching(year, month, weekdays, rule.bySetPos)
+          .map(date => withTimeOf(date, from))
+          .find(date => date > from);
+        if (match) return match;
+
+        const next = new Date(Date.UTC(year, month + interval, 1));
+        year = next.getUTCFullYear();
+        month = next.getUTCMonth();
+      }
+      return null;
+    }
+
+    case RecurrenceFrequency.YEARLY: {
+      const target = new Date(Date.UTC(from.getUTCFullYear() + interval, from.getUTCMonth(), 1));
+      target.setUTCDate(Math.min(from.getUTCDate(), daysInMonth(target.getUTCFullYear(), target.getUTCMonth())));
+      return withTimeOf(target, from);
+    }
+
+    default:
+      return null;
+  }
+}
+
+// Work out the next occurrence of a recurring task.
+// Occurrences that are already in the past (e.g. completing an overdue task) are skipped,
+// but they still count towards an end-after-N limit.
+// Returns null once the series has ended.
+export function getNextOccurrence(
+  rule: RecurrenceRuleLike,
+  currentDueDate: Date,
+  now: Date = new Date()
+): { dueDate: Date; occurrence: number } | null {
+  const until = rule.until ? new Date(rule.until) : null;
+  let occurrence = rule.occurrence || 1;
+  let dueDate: Date | null = new Date(currentDueDate);
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    dueDate = nextPatternDate(rule, dueDate);
+    occurrence += 1;
+
+    if (!dueDate) return null;
+    if (rule.count && occurrence > rule.count) return null;
+    if (until && dueDate > until) return null;
+    if (dueDate > now) return { dueDate, occurrence };
+  }
+
+  return null;
+}
+
+// Human readable summary used for badges, e.g. "Every 2 weeks on Mon, Wed"
+export function describeRecurrence(rule: RecurrenceRuleLike): string {
+  const interval = Math.max(1, rule.interval || 1);
+  const weekdays = rule.byWeekday || [];
+  const units: { [key: string]: [string, string] } = {
+    [RecurrenceFrequency.DAILY]: ['Daily', 'days'],
+    [RecurrenceFrequency.WEEKLY]: ['Weekly', 'weeks'],
+    [RecurrenceFrequency.MONTHLY]: ['Monthly', 'months'],
+    [RecurrenceFrequency.YEARLY]: ['Yearly', 'years'],
+  };
+  const [single, plural] = units[rule.frequency];
+
+  let text = interval === 1 ? single : `Every ${interval} ${plural}`;
+
+  if (weekdays.length > 0) {
+    const isWeekdays = weekdays.length === 5 && [1, 2, 3, 4, 5].every(day => weekdays.includes(day));
+    const days = sortWeekdays(weekdays).map(day => WEEKDAY_NAMES[day]).join(', ');
+
+    if (rule.frequency === RecurrenceFrequency.MONTHLY && rule.bySetPos) {
+      text += ` on the ${SET_POS_NAMES[rule.bySetPos]} ${isWeekdays ? 'weekday' : days}`;
+    } else {
+      text += ` on ${isWeekdays ? 'weekdays' : days}`;
+    }
+  }
+
+  if (rule.count) {
+    text += `, ${rule.count} times`;
+  } else if (rule.until) {
+    text += `, until ${new Date(rule.until).toLocaleDateString(undefined, { timeZone: 'UTC' })}`;
+  }
+
+  return text;
+}
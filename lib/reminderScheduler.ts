@@ -0,0 +1,69 @@
+import Task, { TaskStatus, getReminderTimezone } from '@/models/Task';
+import { notifyReminder } from '@/lib/notifications';
+import { describeLeadTime, getNextReminderTime, getReminderTime } from '@/lib/reminders';
+
+// Least time between checks in one server process. Half the scheduler's tick, so
+// no tick is skipped - it only stops notification requests checking more often.
+const REMINDER_INTERVAL_MS = 30 * 1000;
+let lastRun = 0;
+
+// Reminder text, e.g. "Due in 1 hour" or "Due now"
+function reminderMessage(minutesBefore: number): string {
+  return minutesBefore === 0 ? 'Due now' : `Due in ${describeLeadTime(minutesBefore)}`;
+}
+
+// Fire the reminders whose time has come. Only tasks whose next reminder is due
+// are read, so overdue tasks that are done reminding aren't looked at again.
+// Each one is claimed with a conditional update first, so two server processes
+// never send the same reminder.
+// Runs at most every 30 seconds per server process.
+export async function sendDueReminders(): Promise<void> {
+  if (Date.now() - lastRun < REMINDER_INTERVAL_MS) return;
+  lastRun = Date.now();
+
+  try {
+    const now = new Date();
+    const tasks = await Task.find({
+      status: { $ne: TaskStatus.COMPLETED },
+      archivedAt: null,
+      dueDate: { $ne: null },
+      $or: [
+        { nextReminderAt: { $lte: now } },
+        // Saved before nextReminderAt existed - worked out on the first run
+        { nextReminderAt: { $exists: false }, 'reminders.0': { $exists: true } },
+      ],
+    });
+
+    let sent = 0;
+    for (const task of tasks) {
+      const timezone = await getReminderTimezone(task.createdBy);
+      const due = task.reminders.filter(minutesBefore =>
+        !task.remindersSent.includes(minutesBefore) && getReminderTime(task.dueDate!, minutesBefore, timezone) <= now
+      );
+      const nextReminderAt = getNextReminderTime(task.dueDate, task.reminders, [...task.remindersSent, ...due], timezone);
+
+      const { modifiedCount } = await Task.updateOne(
+        // Only if nobody changed the reminders since they were read
+        { _id: task._id, dueDate: task.dueDate, reminders: task.reminders, remindersSent: { $nin: due } },
+        { $addToSet: { remindersSent: { $each: due } }, $set: { nextReminderAt } },
+        { timestamps: false } // Sending a reminder isn't an edit
+      );
+      if (modifiedCount === 0 || due.length === 0) continue; // Another process got there first, or nothing to send
+
+      // Several reminders at once (e.g. after downtime) - only the closest one matters.
+      // One that fails is logged and doesn't hold up the rest.
+      try {
+        sent += await notifyReminder(task, reminderMessage(Math.min(...due)));
+      } catch (error) {
+        console.error(`❌ Sending reminder for task ${task._id} failed:`, error);
+      }
+    }
+
+    if (sent > 0) {
+      console.log(`⏰ Sent ${sent} reminders`);
+    }
+  } catch (error) {
+    lastRun = 0; // Try again on the next run
+    console.error('❌ Error sending reminders:', error);
+  }
+}
@@ -0,0 +1,57 @@
+import { getZonedTime } from '@/lib/dates';
+
+// Reminder offsets are minutes before a task's due date. Shared between the
+// server and the task forms.
+
+// Due dates are calendar days, so reminders count back from this hour on the due
+// day in the task creator's time zone - "At due time" fires then
+export const DUE_TIME_HOUR = 9;
+
+// Longest lead time a reminder can have (30 days)
+export const MAX_REMINDER_MINUTES = 30 * 24 * 60;
+
+// Most reminders a single task can have
+export const MAX_REMINDERS = 5;
+
+// Choices offered in the task forms
+export const REMINDER_OPTIONS = [0, 15, 60, 24 * 60, 7 * 24 * 60];
+
+// A reminder offset for display, e.g. "At due time", "1 hour before" or "2 days before"
+export function describeReminder(minutesBefore: number): string {
+  if (minutesBefore === 0) return 'At due time';
+  return `${describeLeadTime(minutesBefore)} before`;
+}
+
+// The lead time on its own, e.g. "15 minutes", "1 hour" or "1 week"
+export function describeLeadTime(minutes: number): string {
+  const units: [number, string][] = [
+    [7 * 24 * 60, 'week'],
+    [24 * 60, 'day'],
+    [60, 'hour'],
+    [1, 'minute'],
+  ];
+  const [size, name] = units.find(([size]) => minutes % size === 0 && minutes >= size) || [1, 'minute'];
+  const count = minutes / size;
+  return `${count} ${name}${count === 1 ? '' : 's'}`;
+}
+
+// When a reminder fires. Due dates are stored as midnight UTC of their day.
+export function getReminderTime(dueDate: Date | string, minutesBefore: number, timezone: string): Date {
+  const day = new Date(dueDate).toISOString().split('T')[0];
+  return new Date(getZonedTime(day, DUE_TIME_HOUR, timezone).getTime() - minutesBefore * 60 * 1000);
+}
+
+// When the earliest reminder that hasn't fired yet is due - null when none is left
+export function getNextReminderTime(
+  dueDate: Date | null | undefined,
+  reminders: number[],
+  sent: number[],
+  timezone: string
+): Date | null {
+  if (!dueDate) return null;
+
+  const times = reminders
+    .filter(minutesBefore => !sent.includes(minutesBefore))
+    .map(minutesBefore => getReminderTime(dueDate, minutesBefore, timezone).getTime());
+  return times.length > 0 ? new Date(Math.min(...times)) : null;
+}
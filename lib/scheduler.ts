@@ -0,0 +1,38 @@
+import connectMongoDB from '@/lib/mongodb';
+import { sendDueReminders } from '@/lib/reminderScheduler';
+import { sendDailyDigests } from '@/lib/digest';
+import { processOutbox } from '@/lib/mail';
+
+// How often the background jobs run - each one also throttles itself
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+// Fire due reminders, queue daily digests and send what's in the outbox. Reminders
+// and digests go first so their emails leave in the same run.
+export async function runScheduledJobs(): Promise<void> {
+  await sendDueReminders();
+  await sendDailyDigests();
+  await processOutbox();
+}
+
+// Run the jobs in the background once a minute. Called once when the server
+// starts (see instrumentation.ts); requests for notifications also trigger a run.
+export function startScheduler(): void {
+  if (globalThis.scheduler) return;
+
+  globalThis.scheduler = setInterval(async () => {
+    try {
+      await connectMongoDB();
+      await runScheduledJobs();
+    } catch (error) {
+      console.error('❌ Scheduler error:', error);
+    }
+  }, SCHEDULER_INTERVAL_MS);
+  globalThis.scheduler.unref?.();
+
+  console.log('⏰ Background scheduler started');
+}
+
+// Kept on globalThis so hot reloads in development don't start a second timer
+declare global {
+  var scheduler: ReturnType<typeof setInterval> | undefined;
+}
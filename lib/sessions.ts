@@ -0,0 +1,184 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import Session, { ISessionDocument, MAX_PREVIOUS_TOKENS, SessionRevokeReason } from '@/models/Session';
+import { ACCESS_TOKEN_TTL_SECONDS, AUTH_COOKIE } from '@/lib/auth';
+import { createOneTimeToken, hashToken } from '@/lib/tokens';
+
+// Cookie the refresh token is kept in. It is only sent to the auth routes.
+export const REFRESH_COOKIE = 'refresh-token';
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+// A session ends after this long without a refresh
+export const REFRESH_TOKEN_DAYS = 30;
+
+// Two tabs refreshing at the same moment both send the same refresh token. The
+// one that loses still gets an access token if the rotation is this fresh, rather
+// than being treated as reuse.
+const REUSE_GRACE_MS = 30 * 1000;
+
+// Where a request came from, as stored on its session
+function getClientInfo(request: Request): { ip: string; userAgent: string; device: string } {
+  const userAgent = (request.headers.get('user-agent') || '').slice(0, 500);
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  const ip = forwardedFor?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'unknown';
+
+  return { ip, userAgent, device: describeDevice(userAgent) };
+}
+
+// "Chrome on macOS" from a user agent - good enough to tell sessions apart
+export function describeDevice(userAgent: string): string {
+  const browsers: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/Firefox\//, 'Firefox'],
+    [/Chrome\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+    [/curl\//, 'curl'],
+  ];
+  const systems: [RegExp, string][] = [
+    [/iPhone|iPad/, 'iOS'],
+    [/Android/, 'Android'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/CrOS/, 'ChromeOS'],
+    [/Linux/, 'Linux'],
+  ];
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) return `${browser} on ${system}`;
+  return browser || system || 'Unknown device';
+}
+
+function refreshExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Start a session for a user who just signed in
+export async function createSession(
+  userId: string,
+  request: Request
+): Promise<{ session: ISessionDocument; refreshToken: string }> {
+  const { token, hash } = createOneTimeToken();
+  const session = await Session.create({
+    userId,
+    refreshTokenHash: hash,
+    ...getClientInfo(request),
+    lastUsedAt: new Date(),
+    expiresAt: refreshExpiry(),
+  });
+
+  return { session, refreshToken: token };
+}
+
+export type RefreshResult =
+  | { status: 'rotated'; session: ISessionDocument; refreshToken: string }
+  | { status: 'grace'; session: ISessionDocument } // Lost a race with another tab - the browser already has the new token
+  | { status: 'reused' } // The session was revoked
+  | { status: 'invalid' };
+
+// Swap a refresh token for a new one. Each token works once: the swap finds and
+// replaces it in one update, so two requests can't both use it. A token that was
+// already swapped (outside the grace period) means someone else has a copy, so the
+// whole session is revoked and both sides have to sign in again.
+export async function rotateSession(refreshToken: string, request: Request): Promise<RefreshResult> {
+  const hash = hashToken(refreshToken);
+  const now = new Date();
+  const { token, hash: newHash } = createOneTimeToken();
+
+  const session = await Session.findOneAndUpdate(
+    { refreshTokenHash: hash, revokedAt: null, expiresAt: { $gt: now } },
+    {
+      $set: {
+        refreshTokenHash: newHash,
+        rotatedAt: now,
+        lastUsedAt: now,
+        expiresAt: refreshExpiry(),
+        ...getClientInfo(request),
+      },
+      $push: { previousTokenHashes: { $each: [hash], $slice: -MAX_PREVIOUS_TOKENS } },
+    },
+    { new: true }
+  );
+
+  if (session) {
+    return { status: 'rotated', session, refreshToken: token };
+  }
+
+  const usedBy = await Session.findOne({ previousTokenHashes: hash }).select('+previousTokenHashes');
+  if (!usedBy || usedBy.revokedAt || usedBy.expiresAt <= now) {
+    return { status: 'invalid' };
+  }
+
+  const isLatest = usedBy.previousTokenHashes[usedBy.previousTokenHashes.length - 1] === hash;
+  if (isLatest && usedBy.rotatedAt && now.getTime() - usedBy.rotatedAt.getTime() < REUSE_GRACE_MS) {
+    return { status: 'grace', session: usedBy };
+  }
+
+  console.warn(`🚨 Refresh token reused for session ${usedBy._id} (user ${usedBy.userId}) - revoking it`);
+  await revokeSessions({ _id: usedBy._id }, SessionRevokeReason.REUSE);
+  return { status: 'reused' };
+}
+
+// End sessions matching the filter - they stop working on their next request.
+// Returns how many were still active.
+export async function revokeSessions(
+  filter: mongoose.FilterQuery<ISessionDocument>,
+  reason: SessionRevokeReason
+): Promise<number> {
+  const { modifiedCount } = await Session.updateMany(
+    { ...filter, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return modifiedCount;
+}
+
+// Refresh token from the refresh cookie
+export function getRefreshTokenFromRequest(request: Request): string | null {
+  const cookieHeader = request.headers.get('cookie');
+  if (!cookieHeader) return null;
+
+  const refreshCookie = cookieHeader.split(';').find(cookie => cookie.trim().startsWith(`${REFRESH_COOKIE}=`));
+  return refreshCookie ? refreshCookie.split('=')[1] : null;
+}
+
+// Put the tokens in HTTP-only cookies. The refresh token is left alone when there
+// isn't a new one.
+export function setAuthCookies(response: NextResponse, accessToken: string, refreshToken?: string): void {
+  response.cookies.set(AUTH_COOKIE, accessToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: ACCESS_TOKEN_TTL_SECONDS,
+    path: '/',
+  });
+
+  if (refreshToken) {
+    response.cookies.set(REFRESH_COOKIE, refreshToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: REFRESH_TOKEN_DAYS * 24 * 60 * 60,
+      path: REFRESH_COOKIE_PATH,
+    });
+  }
+}
+
+// Clear both cookies (sign-out, or a session that no longer works)
+export function clearAuthCookies(response: NextResponse): void {
+  response.cookies.set(AUTH_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: 0, // Expire immediately
+    path: '/',
+  });
+  response.cookies.set(REFRESH_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: 0,
+    path: REFRESH_COOKIE_PATH,
+  });
+}
@@ -0,0 +1,58 @@
+import mongoose from 'mongoose';
+import Task, { ITaskDocument } from '@/models/Task';
+import TimeEntry, { ITimeEntryDocument } from '@/models/TimeEntry';
+import { MEMBER_FIELDS } from '@/lib/projects';
+
+// Who logged an entry, and the task a running timer belongs to
+export const TIME_ENTRY_POPULATE = [
+  { path: 'userId', select: MEMBER_FIELDS },
+  { path: 'taskId', select: 'title category status timeLogged' },
+];
+
+// Recompute a task's total from its finished entries. The total is stored on the
+// task so lists and reports can show and sort by it without joining the entries.
+export async function refreshTimeLogged(taskId: mongoose.Types.ObjectId | string): Promise<void> {
+  const [total] = await TimeEntry.aggregate<{ seconds: number }>([
+    { $match: { taskId: new mongoose.Types.ObjectId(taskId.toString()), endedAt: { $ne: null } } },
+    { $group: { _id: null, seconds: { $sum: '$duration' } } },
+  ]);
+
+  await Task.updateOne(
+    { _id: taskId },
+    { $set: { timeLogged: total?.seconds || 0 } },
+    { timestamps: false } // Logging time isn't an edit of the task
+  ).setOptions({ withTrashed: true });
+}
+
+// The user's running timer, if any
+export function findRunningTimer(userId: string) {
+  return TimeEntry.findOne({ userId, endedAt: null });
+}
+
+// Stop the user's running timer. Returns the finished entry, or null when no
+// timer was running.
+export async function stopRunningTimer(userId: string): Promise<ITimeEntryDocument | null> {
+  const entry = await findRunningTimer(userId);
+  if (!entry) return null;
+
+  entry.endedAt = new Date();
+  await entry.save();
+  await refreshTimeLogged(entry.taskId);
+  return entry;
+}
+
+// Start a timer on a task, stopping the one that was running (only one timer
+// per user runs at a time). Returns the new entry and the stopped one.
+export async function startTimer(task: ITaskDocument, userId: string, note?: string) {
+  const stopped = await stopRunningTimer(userId);
+
+  const running = await TimeEntry.create({
+    taskId: task._id,
+    projectId: task.projectId,
+    userId,
+    startedAt: new Date(),
+    note,
+  });
+
+  return { running, stopped };
+}
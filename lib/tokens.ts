@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+
+// Random tokens for links sent by email. Only the SHA-256 hash is stored, so a
+// leaked database doesn't hand out working links.
+export function createOneTimeToken(): { token: string; hash: string } {
+  const token = crypto.randomBytes(32).toString('hex');
+  return { token, hash: hashToken(token) };
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Stands in for the token in a queued email's link; filled in as the email is sent
+export const EMAIL_TOKEN_PLACEHOLDER = '{{token}}';
+
+// The token in an emailed link, derived from the email's ID with the app secret.
+// The outbox only keeps the placeholder, so it never holds a working link either.
+export function emailLinkToken(emailId: string): string {
+  if (!process.env.NEXTAUTH_SECRET) {
+    throw new Error('NEXTAUTH_SECRET is not configured');
+  }
+
+  return crypto
+    .createHmac('sha256', process.env.NEXTAUTH_SECRET)
+    .update(`email-link:${emailId}`)
+    .digest('hex');
+}
+
+// A one-time token for a link in an email that's about to be queued: pass emailId
+// to queueEmail and build the content with EMAIL_TOKEN_PLACEHOLDER as the token
+export function createEmailLinkToken(): { emailId: string; hash: string } {
+  const emailId = new mongoose.Types.ObjectId().toString();
+  return { emailId, hash: hashToken(emailLinkToken(emailId)) };
+}
@@ -0,0 +1,53 @@
+import Task from '@/models/Task';
+import Comment from '@/models/Comment';
+import Activity from '@/models/Activity';
+import TimeEntry from '@/models/TimeEntry';
+import Notification from '@/models/Notification';
+
+// Days a task stays in the trash before it's deleted for good (TRASH_RETENTION_DAYS,
+// default 30). Zero, negative or mistyped values get the default, so a bad setting
+// can't purge the trash early.
+const configuredRetention = Number(process.env.TRASH_RETENTION_DAYS);
+export const TRASH_RETENTION_DAYS = Number.isFinite(configuredRetention) && configuredRetention > 0 ? configuredRetention : 30;
+
+// How often the purge actually runs - it's triggered by normal requests
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+let lastPurge = 0;
+
+// Delete tasks for good, together with their comments, history, logged time and
+// notifications, and drop them from the blockers of other tasks
+export async function deleteTasksPermanently(taskIds: string[]): Promise<number> {
+  if (taskIds.length === 0) return 0;
+
+  const { deletedCount } = await Task.deleteMany({ _id: { $in: taskIds } }).setOptions({ withTrashed: true });
+  await Promise.all([
+    Task.updateMany({ blockedBy: { $in: taskIds } }, { $pull: { blockedBy: { $in: taskIds } } })
+      .setOptions({ withTrashed: true }),
+    Comment.deleteMany({ taskId: { $in: taskIds } }),
+    Activity.deleteMany({ taskId: { $in: taskIds } }),
+    TimeEntry.deleteMany({ taskId: { $in: taskIds } }),
+    Notification.deleteMany({ taskId: { $in: taskIds } }),
+  ]);
+
+  return deletedCount;
+}
+
+// Permanently delete tasks that have been in the trash longer than the
+// retention period. Runs at most once an hour per server process.
+export async function purgeExpiredTrash(): Promise<void> {
+  if (Date.now() - lastPurge < PURGE_INTERVAL_MS) return;
+  lastPurge = Date.now();
+
+  try {
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const expired = await Task.find({ deletedAt: { $lt: cutoff } }).select('_id');
+    const purged = await deleteTasksPermanently(expired.map(task => task._id.toString()));
+
+    if (purged > 0) {
+      console.log(`🧹 Purged ${purged} tasks trashed before ${cutoff.toISOString()}`);
+    }
+  } catch (error) {
+    lastPurge = 0; // Try again on the next request
+    console.error('❌ Error purging trash:', error);
+  }
+}
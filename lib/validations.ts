@@ -1,7 +1,12 @@
 import { z } from 'zod';
-import { TaskStatus, TaskPriority, TaskCategory } from '@/types';
+import { TaskStatus, TaskPriority, RecurrenceFrequency, ProjectRole, EstimateUnit } from '@/types';
+import { MAX_REMINDERS, MAX_REMINDER_MINUTES } from '@/lib/reminders';
 
 // User validation schemas
+const PasswordSchema = z.string()
+  .min(6, 'Password must be at least 6 characters')
+  .max(100, 'Password is too long');
+
 export const RegisterSchema = z.object({
   name: z.string()
     .min(2, 'Name must be at least 2 characters')
@@ -11,9 +16,7 @@ export const RegisterSchema = z.object({
     .email('Please enter a valid email address')
     .toLowerCase()
     .trim(),
-  password: z.string()
-    .min(6, 'Password must be at least 6 characters')
-    .max(100, 'Password is too long'),
+  password: PasswordSchema,
   confirmPassword: z.string()
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords don't match",
@@ -29,6 +32,79 @@ export const LoginSchema = z.object({
     .min(1, 'Password is required')
 });
 
+export const ForgotPasswordSchema = z.object({
+  email: z.string()
+    .email('Please enter a valid email address')
+    .toLowerCase()
+    .trim(),
+});
+
+export const ResetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: PasswordSchema,
+  confirmPassword: z.string()
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+export const VerifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+});
+
+// Recurrence rule validation schema
+export const RecurrenceRuleSchema = z.object({
+  frequency: z.nativeEnum(RecurrenceFrequency, {
+    errorMap: () => ({ message: 'Please select a valid repeat frequency' })
+  }),
+  interval: z.number()
+    .int('Interval must be a whole number')
+    .min(1, 'Interval must be at least 1')
+    .max(365, 'Interval must be 365 or less')
+    .default(1),
+  byWeekday: z.array(z.number().int().min(0).max(6))
+    .max(7)
+    .optional(),
+  byMonthDay: z.number().int().min(1).max(31).optional(),
+  bySetPos: z.number()
+    .int()
+    .refine((pos) => pos === -1 || (pos >= 1 && pos <= 5), 'Position must be 1-5 or -1 (last)')
+    .optional(),
+  count: z.number()
+    .int('Occurrence count must be a whole number')
+    .min(1, 'Occurrence count must be at least 1')
+    .max(1000, 'Occurrence count must be 1000 or less')
+    .optional(),
+  until: z.string()
+    .optional()
+    .or(z.literal('')),
+}).refine((data) => !(data.count && data.until), {
+  message: 'Choose either an occurrence count or an end date, not both',
+  path: ['count'],
+}).refine((data) => !data.bySetPos || (data.frequency === RecurrenceFrequency.MONTHLY && data.byWeekday?.length), {
+  message: 'Position only applies to monthly rules with weekdays',
+  path: ['bySetPos'],
+});
+
+// Estimate validation schema - hours in quarter-hour steps, or story points
+export const EstimateSchema = z.object({
+  value: z.number({ invalid_type_error: 'Estimate must be a number' })
+    .min(0.25, 'Estimate must be at least 0.25')
+    .max(1000, 'Estimate must be 1000 or less')
+    .refine((value) => Number.isInteger(value * 4), 'Estimate must be a multiple of 0.25'),
+  unit: z.nativeEnum(EstimateUnit, {
+    errorMap: () => ({ message: 'Estimate must be in hours or points' })
+  }).default(EstimateUnit.HOURS),
+});
+
+// Tag validation schema - tags are stored lowercase so "Client-A" and "client-a" match
+export const TagSchema = z.string()
+  .trim()
+  .toLowerCase()
+  .min(1, 'Tag cannot be empty')
+  .max(30, 'Tags must be less than 30 characters')
+  .regex(/^[^,]+$/, 'Tags cannot contain commas');
+
 // Task validation schemas
 export const CreateTaskSchema = z.object({
   title: z.string()
@@ -43,9 +119,8 @@ export const CreateTaskSchema = z.object({
   priority: z.nativeEnum(TaskPriority, {
     errorMap: () => ({ message: 'Please select a valid priority' })
   }),
-  category: z.nativeEnum(TaskCategory, {
-    errorMap: () => ({ message: 'Please select a valid category' })
-  }),
+  category: z.string({ required_error: 'Please select a category' })
+    .min(1, 'Please select a category'), // Checked against the user's categories, see createTaskSchemaFor
   dueDate: z.string()
     .optional()
     .or(z.literal(''))
@@ -55,7 +130,34 @@ export const CreateTaskSchema = z.object({
       const today = new Date();
       today.setHours(0, 0, 0, 0);
       return dueDate >= today;
-    }, 'Due date cannot be in the past')
+    }, 'Due date cannot be in the past'),
+  recurrence: RecurrenceRuleSchema
+    .nullable()
+    .optional(), // null clears the rule
+  estimate: EstimateSchema
+    .nullable()
+    .optional(), // null clears the estimate
+  reminders: z.array(
+    z.number()
+      .int('Reminders must be whole minutes')
+      .min(0, 'Reminders cannot be after the due date')
+      .max(MAX_REMINDER_MINUTES, 'Reminders can be at most 30 days before the due date')
+  )
+    .max(MAX_REMINDERS, `A task cannot have more than ${MAX_REMINDERS} reminders`)
+    .transform((minutes) => Array.from(new Set(minutes)).sort((a, b) => b - a)) // Earliest first, no duplicates
+    .optional(), // Minutes before the due date
+  tags: z.array(TagSchema)
+    .max(20, 'A task cannot have more than 20 tags')
+    .transform((tags) => Array.from(new Set(tags))) // Drop duplicates
+    .optional(),
+  blockedBy: z.array(z.string().regex(/^[a-f\d]{24}$/i, 'Invalid blocker ID'))
+    .max(50, 'A task cannot have more than 50 blockers')
+    .refine((ids) => new Set(ids).size === ids.length, 'Blockers must be unique')
+    .optional(),
+  assignees: z.array(z.string().regex(/^[a-f\d]{24}$/i, 'Invalid assignee ID'))
+    .max(10, 'A task cannot have more than 10 assignees')
+    .refine((ids) => new Set(ids).size === ids.length, 'Assignees must be unique')
+    .optional(), // Checked against the project's members in the route handlers
 });
 
 export const UpdateTaskSchema = CreateTaskSchema.extend({
@@ -64,23 +166,371 @@ export const UpdateTaskSchema = CreateTaskSchema.extend({
   }).optional(),
 }).partial(); // All fields are optional for updates
 
+// Category keys are per user, so the route handlers build schemas that only
+// accept the current user's categories
+const userCategorySchema = (categoryKeys: string[]) =>
+  z.string().refine((key) => categoryKeys.includes(key), 'Please select a valid category');
+
+export const createTaskSchemaFor = (categoryKeys: string[]) =>
+  CreateTaskSchema.extend({ category: userCategorySchema(categoryKeys) });
+
+export const updateTaskSchemaFor = (categoryKeys: string[]) =>
+  UpdateTaskSchema.extend({ category: userCategorySchema(categoryKeys).optional() });
+
+// Bulk changes - one operation applied to each of the selected tasks
+const BulkTagsSchema = z.array(TagSchema)
+  .min(1, 'Please enter at least one tag')
+  .max(20, 'At most 20 tags at once');
+
+export const bulkTaskSchemaFor = (categoryKeys: string[]) => z.object({
+  taskIds: z.array(z.string().regex(/^[a-f\d]{24}$/i, 'Invalid task ID'))
+    .min(1, 'Please select at least one task')
+    .max(100, 'At most 100 tasks can be changed at once')
+    .transform((ids) => Array.from(new Set(ids))), // Drop duplicates
+  operation: z.discriminatedUnion('action', [
+    z.object({
+      action: z.literal('status'),
+      status: z.nativeEnum(TaskStatus, { errorMap: () => ({ message: 'Please select a valid status' }) }),
+    }),
+    z.object({ action: z.literal('priority'), priority: CreateTaskSchema.shape.priority }),
+    z.object({ action: z.literal('category'), category: userCategorySchema(categoryKeys) }),
+    z.object({ action: z.literal('dueDate'), dueDate: CreateTaskSchema.shape.dueDate }), // Empty clears it
+    z.object({ action: z.literal('addTags'), tags: BulkTagsSchema }),
+    z.object({ action: z.literal('removeTags'), tags: BulkTagsSchema }),
+    z.object({ action: z.literal('archive') }),
+    z.object({ action: z.literal('delete') }), // Moves the tasks to the trash
+  ], {
+    errorMap: () => ({ message: 'Please choose a valid bulk action' }),
+  }),
+});
+
+// Category validation schemas
+export const CreateCategorySchema = z.object({
+  name: z.string()
+    .min(1, 'Category name is required')
+    .max(30, 'Category name must be less than 30 characters')
+    .trim(),
+  color: z.string()
+    .regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #3b82f6'),
+  icon: z.string()
+    .min(1, 'Please pick an icon')
+    .max(8, 'Icon must be a single emoji'),
+});
+
+export const UpdateCategorySchema = CreateCategorySchema.partial();
+
+export const ReorderCategoriesSchema = z.object({
+  categoryIds: z.array(z.string().min(1))
+    .refine((ids) => new Set(ids).size === ids.length, 'Category IDs must be unique'),
+});
+
+export const DeleteCategoryQuerySchema = z.object({
+  reassignTo: z.string().min(1).optional(), // Category key that takes over the tasks
+});
+
+// Project validation schemas
+export const CreateProjectSchema = z.object({
+  name: z.string()
+    .min(1, 'Project name is required')
+    .max(50, 'Project name must be less than 50 characters')
+    .trim(),
+  description: z.string()
+    .max(200, 'Description must be less than 200 characters')
+    .trim()
+    .optional(),
+  color: z.string()
+    .regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #3b82f6')
+    .optional(),
+});
+
+export const UpdateProjectSchema = CreateProjectSchema.partial();
+
+// Roles that can be handed out - a project has exactly one owner
+const AssignableRoleSchema = z.nativeEnum(ProjectRole)
+  .refine((role) => role !== ProjectRole.OWNER, 'A project can only have one owner');
+
+export const InviteMemberSchema = z.object({
+  email: z.string()
+    .email('Please enter a valid email address')
+    .toLowerCase()
+    .trim(),
+  role: AssignableRoleSchema.default(ProjectRole.MEMBER),
+});
+
+export const UpdateMemberSchema = z.object({
+  role: AssignableRoleSchema,
+});
+
+// Subtask validation schemas
+export const CreateSubtaskSchema = z.object({
+  title: z.string()
+    .min(1, 'Subtask title is required')
+    .max(200, 'Subtask title must be less than 200 characters')
+    .trim(),
+});
+
+export const UpdateSubtaskSchema = z.object({
+  title: z.string()
+    .min(1, 'Subtask title is required')
+    .max(200, 'Subtask title must be less than 200 characters')
+    .trim()
+    .optional(),
+  completed: z.boolean().optional(),
+}).refine((data) => data.title !== undefined || data.completed !== undefined, {
+  message: 'Nothing to update',
+});
+
+export const ReorderSubtasksSchema = z.object({
+  subtaskIds: z.array(z.string().regex(/^[a-f\d]{24}$/i, 'Invalid subtask ID'))
+    .refine((ids) => new Set(ids).size === ids.length, 'Subtask IDs must be unique'),
+});
+
+// Comment validation schemas - the body is markdown
+export const CommentSchema = z.object({
+  body: z.string()
+    .trim()
+    .min(1, 'Comment cannot be empty')
+    .max(5000, 'Comment must be less than 5000 characters'),
+});
+
+// Board schemas - the card lands between prevId (above) and nextId (below)
+export const MoveTaskSchema = z.object({
+  status: z.nativeEnum(TaskStatus),
+  prevId: z.string().min(1).nullable().optional(),
+  nextId: z.string().min(1).nullable().optional(),
+}).refine((data) => !data.prevId || data.prevId !== data.nextId, {
+  message: 'Neighbouring tasks must be different',
+  path: ['nextId'],
+});
+
 // API parameter schemas
 export const TaskIdSchema = z.object({
   id: z.string().min(1, 'Task ID is required')
 });
 
+export const CategoryIdSchema = z.object({
+  id: z.string().min(1, 'Category ID is required')
+});
+
+export const ProjectIdSchema = z.object({
+  id: z.string().min(1, 'Project ID is required')
+});
+
+export const ProjectMemberIdSchema = z.object({
+  id: z.string().min(1, 'Project ID is required'),
+  memberId: z.string().min(1, 'Member ID is required'),
+});
+
+export const SubtaskIdSchema = z.object({
+  id: z.string().min(1, 'Task ID is required'),
+  subtaskId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid subtask ID'),
+});
+
+export const CommentIdSchema = z.object({
+  id: z.string().min(1, 'Task ID is required'),
+  commentId: z.string().min(1, 'Comment ID is required'),
+});
+
+// Fields the task list can be sorted by. 'relevance' ranks text search matches.
+export const TASK_SORT_FIELDS = ['relevance', 'dueDate', 'priority', 'createdAt', 'updatedAt', 'title', 'position', 'archivedAt', 'estimate'] as const;
+
 export const TaskQuerySchema = z.object({
   status: z.nativeEnum(TaskStatus).optional(),
   priority: z.nativeEnum(TaskPriority).optional(),
-  category: z.nativeEnum(TaskCategory).optional(),
+  category: z.string().min(1).optional(), // Category key
+  tags: z.string()
+    .optional()
+    .transform((value) => value ? value.split(',') : undefined)
+    .pipe(z.array(TagSchema).max(20, 'Filter by at most 20 tags').optional()),
+  tagMode: z.enum(['any', 'all']).default('any'), // Match tasks with any or all of the tags
+  q: z.string()
+    .trim()
+    .min(1, 'Search cannot be empty')
+    .max(100, 'Search must be less than 100 characters')
+    .optional(), // Full-text search on title and description
+  dueFrom: z.coerce.date({ errorMap: () => ({ message: 'Please enter a valid date' }) })
+    .optional(), // Due on or after
+  dueTo: z.coerce.date({ errorMap: () => ({ message: 'Please enter a valid date' }) })
+    .optional(), // Due on or before
+  assignee: z.string()
+    .regex(/^(me|unassigned|[a-f\d]{24})$/i, 'Please choose a valid assignee')
+    .optional(), // 'me', 'unassigned' or a member's user ID
+  archived: z.enum(['true', 'false']).default('false'), // The archive instead of the active list
+  estimateUnit: z.enum(['hours', 'points', 'none'], {
+    errorMap: () => ({ message: 'Please choose hours, points or none' })
+  }).optional(), // Tasks estimated in this unit, or not estimated at all
+  estimateMin: z.coerce.number({ invalid_type_error: 'Estimate must be a number' })
+    .min(0, 'Estimate cannot be negative')
+    .optional(),
+  estimateMax: z.coerce.number({ invalid_type_error: 'Estimate must be a number' })
+    .min(0, 'Estimate cannot be negative')
+    .optional(),
+  sort: z.enum(TASK_SORT_FIELDS).optional(), // Defaults to relevance when searching, otherwise createdAt
+  order: z.enum(['asc', 'desc']).optional(), // Defaults per sort field, see lib/pagination
+  limit: z.coerce.number()
+    .int('Limit must be a whole number')
+    .min(1, 'Limit must be at least 1')
+    .max(100, 'Limit cannot be more than 100')
+    .default(50),
+  cursor: z.string().max(500, 'Invalid cursor').optional(), // nextCursor from the previous page
+}).refine((data) => data.sort !== 'relevance' || data.q, {
+  message: 'Sorting by relevance requires a search query',
+  path: ['sort'],
+}).refine((data) => !data.dueFrom || !data.dueTo || data.dueFrom <= data.dueTo, {
+  message: 'End of the date range must be after its start',
+  path: ['dueTo'],
+}).refine((data) => data.estimateMin === undefined || data.estimateMax === undefined || data.estimateMin <= data.estimateMax, {
+  message: 'Largest estimate must be at least the smallest',
+  path: ['estimateMax'],
+}).refine((data) => data.estimateUnit !== 'none' || (data.estimateMin === undefined && data.estimateMax === undefined), {
+  message: 'Unestimated tasks have no estimate to compare',
+  path: ['estimateMin'],
+});
+
+// IANA time zone name, e.g. "Europe/Berlin"
+const TimeZoneSchema = z.string()
+  .refine((zone) => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: zone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'Please enter a valid time zone');
+
+// Dashboard stats query - completion trend range and the zone days are counted in
+export const StatsQuerySchema = z.object({
+  days: z.enum(['30', '90'], {
+    errorMap: () => ({ message: 'Range must be 30 or 90 days' })
+  }).default('30').transform(Number),
+  timezone: TimeZoneSchema.default('UTC'),
+});
+
+// Time tracking schemas
+const TimeNoteSchema = z.string()
+  .trim()
+  .max(500, 'Note must be less than 500 characters')
+  .optional();
+
+// Longest entry that can be logged by hand
+const MAX_ENTRY_MS = 24 * 60 * 60 * 1000;
+
+export const StartTimerSchema = z.object({
+  taskId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid task ID'),
+  note: TimeNoteSchema,
+});
+
+// Entries logged or corrected by hand always have both ends
+export const TimeEntrySchema = z.object({
+  startedAt: z.coerce.date({ errorMap: () => ({ message: 'Please enter a valid start time' }) }),
+  endedAt: z.coerce.date({ errorMap: () => ({ message: 'Please enter a valid end time' }) }),
+  note: TimeNoteSchema,
+}).refine((data) => data.endedAt > data.startedAt, {
+  message: 'End time must be after the start time',
+  path: ['endedAt'],
+}).refine((data) => data.endedAt.getTime() <= Date.now() + 60 * 1000, {
+  message: 'Time cannot be logged in the future',
+  path: ['endedAt'],
+}).refine((data) => data.endedAt.getTime() - data.startedAt.getTime() <= MAX_ENTRY_MS, {
+  message: 'An entry cannot be longer than 24 hours',
+  path: ['endedAt'],
+});
+
+export const TimeEntryIdSchema = z.object({
+  id: z.string().min(1, 'Task ID is required'),
+  entryId: z.string().regex(/^[a-f\d]{24}$/i, 'Invalid time entry ID'),
+});
+
+export const TimeReportQuerySchema = StatsQuerySchema.extend({
+  days: z.enum(['7', '30', '90'], {
+    errorMap: () => ({ message: 'Range must be 7, 30 or 90 days' })
+  }).default('7').transform(Number),
+  scope: z.enum(['mine', 'all']).default('all'), // Only the current user's time, or everyone's
+});
+
+// Estimate report - completed tasks of the last N days
+export const EstimateReportQuerySchema = z.object({
+  days: z.enum(['30', '90', '365'], {
+    errorMap: () => ({ message: 'Range must be 30, 90 or 365 days' })
+  }).default('90').transform(Number),
+});
+
+// Notification center - the newest notifications, optionally only unread ones
+export const NotificationQuerySchema = z.object({
+  unread: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+  limit: z.string()
+    .regex(/^\d+$/, 'Limit must be a number')
+    .default('20')
+    .transform(Number)
+    .refine((value) => value >= 1 && value <= 50, 'Limit must be between 1 and 50'),
+});
+
+export const UpdateNotificationSchema = z.object({
+  read: z.boolean({ required_error: 'Read is required' }),
+});
+
+export const NotificationIdSchema = z.object({
+  id: z.string().min(1, 'Notification ID is required'),
+});
+
+export const SessionIdSchema = z.object({
+  id: z.string().min(1, 'Session ID is required'),
+});
+
+// Email notification settings - only the fields that are sent change
+export const NotificationPrefsSchema = z.object({
+  emailReminders: z.boolean(),
+  emailAssignments: z.boolean(),
+  emailTaskChanges: z.boolean(),
+  dailyDigest: z.boolean(),
+  digestHour: z.number()
+    .int('Digest hour must be a whole hour')
+    .min(0, 'Digest hour must be between 0 and 23')
+    .max(23, 'Digest hour must be between 0 and 23'),
+  timezone: TimeZoneSchema,
+}).partial();
+
+export const RenameTagSchema = z.object({
+  from: TagSchema,
+  to: TagSchema,
+}).refine((data) => data.from !== data.to, {
+  message: 'New tag name must be different',
+  path: ['to'],
 });
 
 // Type inference - automatically generate TypeScript types from schemas
 export type RegisterInput = z.infer<typeof RegisterSchema>;
 export type LoginInput = z.infer<typeof LoginSchema>;
+export type ForgotPasswordInput = z.infer<typeof ForgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof ResetPasswordSchema>;
+export type VerifyEmailInput = z.infer<typeof VerifyEmailSchema>;
 export type CreateTaskInput = z.infer<typeof CreateTaskSchema>;
 export type UpdateTaskInput = z.infer<typeof UpdateTaskSchema>;
+export type BulkTaskInput = z.infer<ReturnType<typeof bulkTaskSchemaFor>>;
+export type BulkOperationInput = BulkTaskInput['operation'];
 export type TaskQueryInput = z.infer<typeof TaskQuerySchema>;
+export type RecurrenceRuleInput = z.infer<typeof RecurrenceRuleSchema>;
+export type EstimateInput = z.infer<typeof EstimateSchema>;
+export type RenameTagInput = z.infer<typeof RenameTagSchema>;
+export type CreateCategoryInput = z.infer<typeof CreateCategorySchema>;
+export type UpdateCategoryInput = z.infer<typeof UpdateCategorySchema>;
+export type CreateProjectInput = z.infer<typeof CreateProjectSchema>;
+export type UpdateProjectInput = z.infer<typeof UpdateProjectSchema>;
+export type InviteMemberInput = z.infer<typeof InviteMemberSchema>;
+export type UpdateMemberInput = z.infer<typeof UpdateMemberSchema>;
+export type CreateSubtaskInput = z.infer<typeof CreateSubtaskSchema>;
+export type UpdateSubtaskInput = z.infer<typeof UpdateSubtaskSchema>;
+export type ReorderSubtasksInput = z.infer<typeof ReorderSubtasksSchema>;
+export type CommentInput = z.infer<typeof CommentSchema>;
+export type MoveTaskInput = z.infer<typeof MoveTaskSchema>;
+export type StatsQueryInput = z.infer<typeof StatsQuerySchema>;
+export type StartTimerInput = z.infer<typeof StartTimerSchema>;
+export type TimeEntryInput = z.infer<typeof TimeEntrySchema>;
+export type TimeReportQueryInput = z.infer<typeof TimeReportQuerySchema>;
+export type EstimateReportQueryInput = z.infer<typeof EstimateReportQuerySchema>;
+export type NotificationQueryInput = z.infer<typeof NotificationQuerySchema>;
+export type UpdateNotificationInput = z.infer<typeof UpdateNotificationSchema>;
+export type NotificationPrefsInput = z.infer<typeof NotificationPrefsSchema>;
 
 // Utility function to format Zod errors
 export function formatZodError(error: z.ZodError): { [key: string]: string } {
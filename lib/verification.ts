@@ -0,0 +1,29 @@
+import { IUser } from '@/models/User';
+import { createEmailLinkToken, EMAIL_TOKEN_PLACEHOLDER } from '@/lib/tokens';
+import { queueEmail } from '@/lib/mail';
+import { verificationEmail } from '@/lib/mailTemplates';
+
+// How long a verification link works
+export const VERIFICATION_TOKEN_HOURS = 24;
+
+// A new link isn't sent while the last one is younger than this
+export const VERIFICATION_RESEND_AFTER_MS = 2 * 60 * 1000;
+
+// Give the user a new verification link (replacing any earlier one) and email it.
+// The user needs emailVerificationToken, emailVerificationExpires and
+// verificationSentAt selected so the save keeps them.
+export async function sendVerificationEmail(user: IUser): Promise<void> {
+  const { emailId, hash } = createEmailLinkToken();
+  user.emailVerificationToken = hash;
+  user.emailVerificationExpires = new Date(Date.now() + VERIFICATION_TOKEN_HOURS * 60 * 60 * 1000);
+  user.verificationSentAt = new Date();
+  await user.save();
+
+  await queueEmail({
+    to: user.email,
+    userId: user._id.toString(),
+    template: 'verify_email',
+    content: verificationEmail({ name: user.name, token: EMAIL_TOKEN_PLACEHOLDER, expiresInHours: VERIFICATION_TOKEN_HOURS }),
+    emailId,
+  });
+}
@@ -0,0 +1,97 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+// What happened to the task
+export enum ActivityAction {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  DELETED = 'deleted', // Moved to the trash
+  RESTORED = 'restored', // Brought back from the trash
+  ARCHIVED = 'archived',
+  UNARCHIVED = 'unarchived',
+}
+
+// One changed field, with display-ready values from before and after the change
+export interface IFieldChange {
+  field: string;
+  from: unknown; // null when the field was empty
+  to: unknown;
+}
+
+// TypeScript interface for Activity document (server-side)
+export interface IActivityDocument extends Document {
+  _id: string;
+  taskId: mongoose.Types.ObjectId;
+  projectId: mongoose.Types.ObjectId;
+  actorId: mongoose.Types.ObjectId; // Who made the change
+  action: ActivityAction;
+  taskTitle: string; // Title at the time, so entries still read well after a delete
+  changes: IFieldChange[]; // Only for updates
+  createdAt: Date;
+}
+
+// Mongoose schema definition for a field change
+const FieldChangeSchema = new Schema<IFieldChange>(
+  {
+    field: {
+      type: String,
+      required: true,
+    },
+    from: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    to: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
+// Mongoose schema definition
+const ActivitySchema = new Schema<IActivityDocument>(
+  {
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      required: [true, 'Task ID is required'],
+    },
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: [true, 'Project ID is required'],
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Actor is required'],
+    },
+    action: {
+      type: String,
+      enum: Object.values(ActivityAction),
+      required: [true, 'Action is required'],
+    },
+    taskTitle: {
+      type: String,
+      default: '',
+    },
+    changes: {
+      type: [FieldChangeSchema],
+      default: [],
+    },
+  },
+  {
+    // History is append-only, so there is no updatedAt
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Indexes for better query performance
+ActivitySchema.index({ taskId: 1, createdAt: -1 }); // A task's history, newest first
+ActivitySchema.index({ projectId: 1 });
+
+// Export the model
+const Activity: Model<IActivityDocument> =
+  mongoose.models.Activity || mongoose.model<IActivityDocument>('Activity', ActivitySchema);
+
+export default Activity;
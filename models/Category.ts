@@ -0,0 +1,66 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+// TypeScript interface for Category document (server-side)
+export interface ICategoryDocument extends Document {
+  _id: string;
+  key: string; // Stable slug stored on tasks, survives renames
+  name: string;
+  color: string; // Hex color, e.g. #3b82f6
+  icon: string; // Emoji
+  sortOrder: number;
+  projectId: mongoose.Types.ObjectId; // Categories are shared by everyone in the project
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Mongoose schema definition
+const CategorySchema = new Schema<ICategoryDocument>(
+  {
+    key: {
+      type: String,
+      required: [true, 'Category key is required'],
+      trim: true,
+      lowercase: true,
+      immutable: true, // Tasks reference categories by key
+    },
+    name: {
+      type: String,
+      required: [true, 'Category name is required'],
+      trim: true,
+      minlength: [1, 'Category name cannot be empty'],
+      maxlength: [30, 'Category name must be less than 30 characters'],
+    },
+    color: {
+      type: String,
+      default: '#6b7280',
+      match: [/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #3b82f6'],
+    },
+    icon: {
+      type: String,
+      default: '📁',
+      maxlength: [8, 'Icon must be a single emoji'],
+    },
+    sortOrder: {
+      type: Number,
+      default: 0,
+    },
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: [true, 'Project ID is required'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+CategorySchema.index({ projectId: 1, key: 1 }, { unique: true }); // Keys are unique per project
+CategorySchema.index({ projectId: 1, sortOrder: 1 }); // Categories in display order
+
+// Export the model
+const Category: Model<ICategoryDocument> =
+  mongoose.models.Category || mongoose.model<ICategoryDocument>('Category', CategorySchema);
+
+export default Category;
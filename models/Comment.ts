@@ -0,0 +1,63 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+// TypeScript interface for Comment document (server-side)
+export interface ICommentDocument extends Document {
+  _id: string;
+  taskId: mongoose.Types.ObjectId;
+  projectId: mongoose.Types.ObjectId; // Copied from the task so project deletion can clean up
+  authorId: mongoose.Types.ObjectId;
+  body: string; // Markdown
+  mentions: mongoose.Types.ObjectId[]; // Members named with @name in the body
+  editedAt?: Date; // Set when the author changes the body
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Mongoose schema definition
+const CommentSchema = new Schema<ICommentDocument>(
+  {
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      required: [true, 'Task ID is required'],
+      immutable: true,
+    },
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: [true, 'Project ID is required'],
+    },
+    authorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Author is required'],
+      immutable: true,
+    },
+    body: {
+      type: String,
+      required: [true, 'Comment cannot be empty'],
+      trim: true,
+      maxlength: [5000, 'Comment must be less than 5000 characters'],
+    },
+    mentions: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+      default: [],
+    },
+    editedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+CommentSchema.index({ taskId: 1, createdAt: 1 }); // A task's thread in chronological order
+CommentSchema.index({ projectId: 1 });
+
+// Export the model
+const Comment: Model<ICommentDocument> =
+  mongoose.models.Comment || mongoose.model<ICommentDocument>('Comment', CommentSchema);
+
+export default Comment;
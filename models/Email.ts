@@ -0,0 +1,106 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+// Where an email is in the outbox
+export enum EmailStatus {
+  PENDING = 'pending', // Waiting to be sent, or to be retried
+  SENT = 'sent',
+  FAILED = 'failed', // Gave up after too many attempts
+}
+
+// Days sent emails are kept before they're deleted automatically
+export const SENT_EMAIL_RETENTION_DAYS = 30;
+
+// TypeScript interface for Email document (server-side)
+export interface IEmailDocument extends Document {
+  _id: string;
+  userId: mongoose.Types.ObjectId | null; // Recipient's account, if they have one
+  to: string;
+  template: string; // Which template built it, e.g. "reminder" or "digest"
+  subject: string;
+  html: string;
+  text: string;
+  hasLinkToken: boolean; // The body has EMAIL_TOKEN_PLACEHOLDER in place of a link token
+  status: EmailStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError: string | null;
+  sentAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Mongoose schema definition
+const EmailSchema = new Schema<IEmailDocument>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    to: {
+      type: String,
+      required: [true, 'Recipient is required'],
+      lowercase: true,
+      trim: true,
+    },
+    template: {
+      type: String,
+      required: [true, 'Template is required'],
+    },
+    subject: {
+      type: String,
+      required: [true, 'Subject is required'],
+      maxlength: [200, 'Subject must be less than 200 characters'],
+    },
+    html: {
+      type: String,
+      required: [true, 'HTML body is required'],
+    },
+    text: {
+      type: String,
+      required: [true, 'Text body is required'],
+    },
+    hasLinkToken: {
+      type: Boolean,
+      default: false,
+    },
+    status: {
+      type: String,
+      enum: Object.values(EmailStatus),
+      default: EmailStatus.PENDING,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lastError: {
+      type: String,
+      default: null,
+    },
+    sentAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+EmailSchema.index({ status: 1, nextAttemptAt: 1 }); // Emails due to be sent
+EmailSchema.index({ userId: 1, createdAt: -1 });
+EmailSchema.index(
+  { sentAt: 1 },
+  { expireAfterSeconds: SENT_EMAIL_RETENTION_DAYS * 24 * 60 * 60 }
+); // Sent emails are removed by MongoDB; failed ones stay for a look
+
+// Export the model
+const Email: Model<IEmailDocument> =
+  mongoose.models.Email || mongoose.model<IEmailDocument>('Email', EmailSchema);
+
+export default Email;
@@ -0,0 +1,87 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+// Why the user is being notified
+export enum NotificationType {
+  REMINDER = 'reminder', // A task's due date is coming up
+  TASK_CHANGED = 'task_changed', // Someone else changed a task the user created
+  ASSIGNED = 'assigned', // Someone else assigned the user to a task
+}
+
+// Days a notification is kept before it's deleted automatically
+export const NOTIFICATION_RETENTION_DAYS = 90;
+
+// TypeScript interface for Notification document (server-side)
+export interface INotificationDocument extends Document {
+  _id: string;
+  userId: mongoose.Types.ObjectId; // Who is notified
+  type: NotificationType;
+  taskId: mongoose.Types.ObjectId | null;
+  projectId: mongoose.Types.ObjectId | null;
+  actorId: mongoose.Types.ObjectId | null; // Who caused it, null for reminders
+  title: string; // Task title at the time
+  message: string;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+// Mongoose schema definition
+const NotificationSchema = new Schema<INotificationDocument>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    type: {
+      type: String,
+      enum: Object.values(NotificationType),
+      required: [true, 'Notification type is required'],
+    },
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      default: null,
+    },
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      default: null,
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    title: {
+      type: String,
+      default: '',
+    },
+    message: {
+      type: String,
+      required: [true, 'Message is required'],
+      maxlength: [500, 'Message must be less than 500 characters'],
+    },
+    readAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Indexes for better query performance
+NotificationSchema.index({ userId: 1, createdAt: -1 }); // A user's notifications, newest first
+NotificationSchema.index({ userId: 1, readAt: 1 }); // Unread count
+NotificationSchema.index({ taskId: 1 });
+NotificationSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: NOTIFICATION_RETENTION_DAYS * 24 * 60 * 60 }
+); // Old notifications are removed by MongoDB
+
+// Export the model
+const Notification: Model<INotificationDocument> =
+  mongoose.models.Notification || mongoose.model<INotificationDocument>('Notification', NotificationSchema);
+
+export default Notification;
@@ -0,0 +1,142 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+// TypeScript enum for the server-side model
+export enum ProjectRole {
+  OWNER = 'owner',
+  ADMIN = 'admin',
+  MEMBER = 'member',
+  VIEWER = 'viewer',
+}
+
+// TypeScript interface for a project member (server-side)
+export interface IProjectMember {
+  userId: mongoose.Types.ObjectId;
+  role: ProjectRole;
+  joinedAt: Date;
+}
+
+// TypeScript interface for a pending invitation, matched by email on accept
+export interface IProjectInvite {
+  _id: mongoose.Types.ObjectId;
+  email: string;
+  role: ProjectRole; // Role the invitee gets on accepting
+  invitedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+// TypeScript interface for Project document (server-side)
+export interface IProjectDocument extends Document {
+  _id: string;
+  name: string;
+  description?: string;
+  color: string; // Hex color, e.g. #3b82f6
+  personal: boolean; // Every user has one private project that can't be shared
+  ownerId: mongoose.Types.ObjectId;
+  members: IProjectMember[]; // Includes the owner
+  invites: IProjectInvite[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Member schema - embedded, a project has a handful of members
+const ProjectMemberSchema = new Schema<IProjectMember>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Member user ID is required'],
+    },
+    role: {
+      type: String,
+      enum: Object.values(ProjectRole),
+      default: ProjectRole.MEMBER,
+    },
+    joinedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+// Invite schema - removed again once accepted, declined or cancelled
+const ProjectInviteSchema = new Schema<IProjectInvite>({
+  email: {
+    type: String,
+    required: [true, 'Invite email is required'],
+    lowercase: true,
+    trim: true,
+  },
+  role: {
+    type: String,
+    enum: Object.values(ProjectRole).filter(role => role !== ProjectRole.OWNER),
+    default: ProjectRole.MEMBER,
+  },
+  invitedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Inviting user is required'],
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// Mongoose schema definition
+const ProjectSchema = new Schema<IProjectDocument>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Project name is required'],
+      trim: true,
+      minlength: [1, 'Project name cannot be empty'],
+      maxlength: [50, 'Project name must be less than 50 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Description must be less than 200 characters'],
+    },
+    color: {
+      type: String,
+      default: '#3b82f6',
+      match: [/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #3b82f6'],
+    },
+    personal: {
+      type: Boolean,
+      default: false,
+      immutable: true,
+    },
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Project owner is required'],
+    },
+    members: {
+      type: [ProjectMemberSchema],
+      default: [],
+    },
+    invites: {
+      type: [ProjectInviteSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+ProjectSchema.index({ 'members.userId': 1 }); // Projects a user belongs to
+ProjectSchema.index({ 'invites.email': 1 }); // Pending invites for an email
+ProjectSchema.index(
+  { ownerId: 1 },
+  { unique: true, partialFilterExpression: { personal: true } }
+); // One personal project per user
+
+// Export the model
+const Project: Model<IProjectDocument> =
+  mongoose.models.Project || mongoose.model<IProjectDocument>('Project', ProjectSchema);
+
+export default Project;
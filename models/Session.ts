@@ -0,0 +1,99 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+// Why a session stopped working before it expired
+export enum SessionRevokeReason {
+  LOGOUT = 'logout', // The user signed out on that device
+  REVOKED = 'revoked', // The user ended it from the Sessions page
+  REUSE = 'reuse', // An old refresh token was used again - it may have been stolen
+  PASSWORD_RESET = 'password_reset', // A password reset signs out everywhere
+}
+
+// Refresh tokens rotate on every use; the hashes of used ones are kept (up to this
+// many) so a replayed one can be recognised
+export const MAX_PREVIOUS_TOKENS = 50;
+
+// TypeScript interface for Session document (server-side)
+export interface ISessionDocument extends Document {
+  _id: string;
+  userId: mongoose.Types.ObjectId;
+  refreshTokenHash: string; // SHA-256 hash of the current refresh token
+  previousTokenHashes: string[]; // Used refresh tokens, oldest first
+  rotatedAt: Date | null; // When the refresh token last changed
+  device: string; // e.g. "Chrome on macOS", from the user agent
+  userAgent: string;
+  ip: string;
+  lastUsedAt: Date;
+  expiresAt: Date; // The refresh token stops working then; pushed back on every refresh
+  revokedAt: Date | null;
+  revokedReason: SessionRevokeReason | null;
+  createdAt: Date;
+}
+
+// Mongoose schema definition
+const SessionSchema = new Schema<ISessionDocument>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    refreshTokenHash: {
+      type: String,
+      required: [true, 'Refresh token is required'],
+    },
+    previousTokenHashes: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    rotatedAt: {
+      type: Date,
+      default: null,
+    },
+    device: {
+      type: String,
+      default: 'Unknown device',
+    },
+    userAgent: {
+      type: String,
+      default: '',
+      maxlength: [500, 'User agent must be less than 500 characters'],
+    },
+    ip: {
+      type: String,
+      default: 'unknown',
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiry is required'],
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    revokedReason: {
+      type: String,
+      enum: [...Object.values(SessionRevokeReason), null],
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Indexes for better query performance
+SessionSchema.index({ refreshTokenHash: 1 }, { unique: true }); // Refresh lookup
+SessionSchema.index({ previousTokenHashes: 1 }); // Reuse detection
+SessionSchema.index({ userId: 1, revokedAt: 1, lastUsedAt: -1 }); // A user's active sessions
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // Expired sessions are removed by MongoDB
+
+// Export the model
+const Session: Model<ISessionDocument> =
+  mongoose.models.Session || mongoose.model<ISessionDocument>('Session', SessionSchema);
+
+export default Session;
@@ -1,4 +1,8 @@
-import mongoose, { Document, Model, Schema } from 'mongoose';
+import mongoose, { Document, Model, PipelineStage, Query, Schema } from 'mongoose';
+import { getNextOccurrence } from '@/lib/recurrence';
+import { rankAfter } from '@/lib/ranking';
+import { MAX_REMINDERS, MAX_REMINDER_MINUTES, getNextReminderTime, getReminderTime } from '@/lib/reminders';
+import User from '@/models/User';
 
 // TypeScript enums for the server-side model
 export enum TaskStatus {
@@ -14,13 +18,42 @@ export enum TaskPriority {
   URGENT = 'urgent',
 }
 
-export enum TaskCategory {
-  WORK = 'work',
-  PERSONAL = 'personal',
-  HEALTH = 'health',
-  FINANCE = 'finance',
-  LEARNING = 'learning',
-  OTHER = 'other',
+export enum RecurrenceFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly',
+  YEARLY = 'yearly',
+}
+
+export enum EstimateUnit {
+  HOURS = 'hours',
+  POINTS = 'points',
+}
+
+// TypeScript interface for an effort estimate, in hours or story points
+export interface IEstimate {
+  value: number;
+  unit: EstimateUnit;
+}
+
+// TypeScript interface for a recurrence rule (subset of iCalendar RRULE)
+export interface IRecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday?: number[]; // 0 = Sunday ... 6 = Saturday
+  byMonthDay?: number;
+  bySetPos?: number; // 1-5 or -1 (last)
+  count?: number; // End after N occurrences
+  until?: Date; // End after this date
+  occurrence: number; // 1-based position of this task in its series
+}
+
+// TypeScript interface for a subtask (checklist item) embedded in a task
+export interface ISubtaskDocument {
+  _id: mongoose.Types.ObjectId;
+  title: string;
+  completed: boolean;
+  completedAt?: Date;
 }
 
 // TypeScript interface for Task document (server-side)
@@ -30,14 +63,117 @@ export interface ITaskDocument extends Document {
   description?: string;
   status: TaskStatus;
   priority: TaskPriority;
-  category: TaskCategory;
+  category: string; // Key of one of the user's categories (see models/Category.ts)
   dueDate?: Date;
   completedAt?: Date;
-  userId: mongoose.Types.ObjectId; // ObjectId for server-side
+  subtasks: ISubtaskDocument[]; // Ordered checklist, array order is display order
+  recurrence?: IRecurrenceRule | null;
+  estimate?: IEstimate | null;
+  reminders: number[]; // Minutes before the due date, see lib/reminders.ts
+  remindersSent: number[]; // Reminders already fired (or skipped) for the current due date
+  nextReminderAt?: Date | null; // When the next unsent reminder fires, null when there's none
+  nextOccurrenceId?: mongoose.Types.ObjectId | null; // Set once the next occurrence is generated
+  tags: string[]; // Free-form, lowercase
+  blockedBy: mongoose.Types.ObjectId[]; // Tasks that must be completed before this one can start
+  position?: string; // Rank within its status column on the board (see lib/ranking.ts)
+  createdBy: mongoose.Types.ObjectId; // Who created the task, never changes
+  assignees: mongoose.Types.ObjectId[]; // Who is doing it - project members, may be empty
+  projectId: mongoose.Types.ObjectId; // Project the task is shared in, see models/Project.ts
+  timeLogged: number; // Seconds of finished time entries, kept up to date by lib/timeTracking.ts
+  archivedAt?: Date | null; // Set while the task is archived (hidden from the active list)
+  unarchivedAt?: Date | null; // Last unarchived - holds off automatic archiving for a while
+  deletedAt?: Date | null; // Set while the task is in the trash
+  deletedBy?: mongoose.Types.ObjectId | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Subtask schema - embedded so children live and die with their parent task
+const SubtaskSchema = new Schema<ISubtaskDocument>({
+  title: {
+    type: String,
+    required: [true, 'Subtask title is required'],
+    trim: true,
+    minlength: [1, 'Subtask title cannot be empty'],
+    maxlength: [200, 'Subtask title must be less than 200 characters'],
+  },
+  completed: {
+    type: Boolean,
+    default: false,
+  },
+  completedAt: {
+    type: Date,
+    default: null,
+  },
+});
+
+// Recurrence schema - embedded, no _id needed
+const RecurrenceSchema = new Schema<IRecurrenceRule>(
+  {
+    frequency: {
+      type: String,
+      enum: Object.values(RecurrenceFrequency),
+      required: [true, 'Repeat frequency is required'],
+    },
+    interval: {
+      type: Number,
+      default: 1,
+      min: [1, 'Interval must be at least 1'],
+      max: [365, 'Interval must be 365 or less'],
+    },
+    byWeekday: {
+      type: [Number],
+      default: undefined,
+      validate: {
+        validator: function (value: number[]) {
+          return !value || value.every(day => Number.isInteger(day) && day >= 0 && day <= 6);
+        },
+        message: 'Weekdays must be between 0 (Sunday) and 6 (Saturday)',
+      },
+    },
+    byMonthDay: {
+      type: Number,
+      min: [1, 'Day of month must be between 1 and 31'],
+      max: [31, 'Day of month must be between 1 and 31'],
+    },
+    bySetPos: {
+      type: Number,
+      enum: [-1, 1, 2, 3, 4, 5],
+    },
+    count: {
+      type: Number,
+      min: [1, 'Occurrence count must be at least 1'],
+    },
+    until: {
+      type: Date,
+    },
+    occurrence: {
+      type: Number,
+      default: 1,
+      min: 1,
+    },
+  },
+  { _id: false }
+);
+
+// Estimate schema - embedded, no _id needed
+const EstimateSchema = new Schema<IEstimate>(
+  {
+    value: {
+      type: Number,
+      required: [true, 'Estimate is required'],
+      min: [0.25, 'Estimate must be at least 0.25'],
+      max: [1000, 'Estimate must be 1000 or less'],
+    },
+    unit: {
+      type: String,
+      enum: Object.values(EstimateUnit),
+      default: EstimateUnit.HOURS,
+    },
+  },
+  { _id: false }
+);
+
 // Mongoose schema definition
 const TaskSchema = new Schema<ITaskDocument>(
   {
@@ -65,13 +201,18 @@ const TaskSchema = new Schema<ITaskDocument>(
     },
     category: {
       type: String,
-      enum: Object.values(TaskCategory),
-      default: TaskCategory.OTHER,
+      required: [true, 'Category is required'],
+      trim: true,
+      lowercase: true,
     },
     dueDate: {
       type: Date,
       validate: {
-        validator: function (value: Date) {
+        validator: function (this: unknown, value: Date) {
+          // Only check due dates that are being set, so overdue tasks can still be saved
+          if (this instanceof mongoose.Document && !this.isNew && !this.isModified('dueDate')) {
+            return true;
+          }
           // Due date should be in the future (optional validation)
           return !value || value > new Date();
         },
@@ -82,10 +223,114 @@ const TaskSchema = new Schema<ITaskDocument>(
       type: Date,
       default: null,
     },
-    userId: {
+    subtasks: {
+      type: [SubtaskSchema],
+      default: [],
+      validate: {
+        validator: function (value: ISubtaskDocument[]) {
+          return value.length <= 100;
+        },
+        message: 'A task cannot have more than 100 subtasks',
+      },
+    },
+    recurrence: {
+      type: RecurrenceSchema,
+      default: null,
+      validate: {
+        validator: function (this: unknown, value: IRecurrenceRule | null) {
+          // The next occurrence is rolled forward from the due date, so one is required
+          if (!value || !(this instanceof mongoose.Document)) return true;
+          return !!this.get('dueDate');
+        },
+        message: 'Recurring tasks need a due date',
+      },
+    },
+    estimate: {
+      type: EstimateSchema,
+      default: null,
+    },
+    reminders: {
+      type: [{ type: Number, min: 0, max: MAX_REMINDER_MINUTES }],
+      default: [],
+      validate: {
+        validator: function (value: number[]) {
+          return value.length <= MAX_REMINDERS;
+        },
+        message: `A task cannot have more than ${MAX_REMINDERS} reminders`,
+      },
+    },
+    remindersSent: {
+      type: [Number],
+      default: [],
+    },
+    nextReminderAt: {
+      type: Date,
+      default: null,
+    },
+    nextOccurrenceId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      default: null,
+    },
+    tags: {
+      type: [{ type: String, trim: true, lowercase: true, maxlength: [30, 'Tags must be less than 30 characters'] }],
+      default: [],
+      validate: {
+        validator: function (value: string[]) {
+          return value.length <= 20;
+        },
+        message: 'A task cannot have more than 20 tags',
+      },
+    },
+    blockedBy: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Task' }],
+      default: [],
+    },
+    position: {
+      type: String,
+    },
+    createdBy: {
       type: Schema.Types.ObjectId,
       ref: 'User', // Reference to User model
-      required: [true, 'User ID is required'],
+      required: [true, 'Creator is required'],
+      immutable: true,
+    },
+    assignees: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+      default: [],
+      validate: {
+        validator: function (value: mongoose.Types.ObjectId[]) {
+          return value.length <= 10;
+        },
+        message: 'A task cannot have more than 10 assignees',
+      },
+    },
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: [true, 'Project ID is required'],
+    },
+    timeLogged: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    archivedAt: {
+      type: Date,
+      default: null,
+    },
+    unarchivedAt: {
+      type: Date,
+      default: null,
+    },
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
     },
   },
   {
@@ -94,16 +339,81 @@ const TaskSchema = new Schema<ITaskDocument>(
 );
 
 // Indexes for better query performance
-TaskSchema.index({ userId: 1 }); // Tasks by user
+TaskSchema.index({ createdBy: 1 }); // Tasks by creator
+TaskSchema.index({ assignees: 1 }); // Tasks assigned to a user
 TaskSchema.index({ status: 1 }); // Tasks by status
 TaskSchema.index({ dueDate: 1 }); // Tasks by due date
-TaskSchema.index({ userId: 1, status: 1 }); // Compound index
+TaskSchema.index({ createdBy: 1, category: 1 }); // Tasks by the creator's category
+TaskSchema.index({ projectId: 1, status: 1 }); // Compound index
+TaskSchema.index({ blockedBy: 1 }); // Tasks waiting on a given task
+TaskSchema.index({ projectId: 1, tags: 1 }); // Tasks by tag
+TaskSchema.index({ projectId: 1, category: 1 }); // Tasks by category
+TaskSchema.index({ projectId: 1, status: 1, position: 1 }); // Board columns in order
+TaskSchema.index({ projectId: 1, deletedAt: 1 }); // The trash
+TaskSchema.index({ projectId: 1, archivedAt: 1 }); // Active list vs. the archive
+TaskSchema.index({ status: 1, completedAt: 1 }); // Completed tasks due for automatic archiving
+TaskSchema.index({ projectId: 1, 'estimate.unit': 1, 'estimate.value': 1 }); // Estimate filters
+TaskSchema.index({ nextReminderAt: 1 }); // Tasks with a reminder due
+TaskSchema.index(
+  { title: 'text', description: 'text' },
+  { weights: { title: 3, description: 1 }, name: 'TaskTextIndex' }
+); // Full-text search, title matches rank higher
+
+// Trashed tasks are hidden from every query, unless the filter asks about
+// deletedAt itself (the trash view, the purge) or the query is run with the
+// `withTrashed` option (e.g. deleting a whole project)
+function excludeTrashed(this: Query<unknown, ITaskDocument>) {
+  if (this.getOptions().withTrashed || this.getFilter().deletedAt !== undefined) return;
+  this.where({ deletedAt: null });
+}
+
+TaskSchema.pre(
+  ['find', 'findOne', 'findOneAndUpdate', 'findOneAndDelete', 'countDocuments', 'distinct', 'updateOne', 'updateMany', 'deleteOne', 'deleteMany'],
+  excludeTrashed
+);
+
+// Same for aggregations. The condition joins the first $match, because $text
+// search has to stay in the first stage.
+TaskSchema.pre('aggregate', function () {
+  const pipeline = this.pipeline();
+  const first = pipeline[0] as PipelineStage.Match | undefined;
+
+  if (this.options.withTrashed || (first?.$match && first.$match.deletedAt !== undefined)) return;
+
+  if (first?.$match) {
+    first.$match.deletedAt = null;
+  } else {
+    pipeline.unshift({ $match: { deletedAt: null } });
+  }
+});
 
 // Middleware to set completedAt when status changes to completed
+// and to schedule the next occurrence of recurring tasks
 TaskSchema.pre('save', function (next) {
+  // Anchor monthly rules to the due date's day so short months don't shift the series
+  if (
+    this.recurrence &&
+    this.dueDate &&
+    this.recurrence.frequency === RecurrenceFrequency.MONTHLY &&
+    !this.recurrence.byWeekday?.length &&
+    !this.recurrence.byMonthDay
+  ) {
+    this.recurrence.byMonthDay = this.dueDate.getUTCDate();
+  }
+
   if (this.isModified('status')) {
     if (this.status === TaskStatus.COMPLETED && !this.completedAt) {
       this.completedAt = new Date();
+
+      // First completion of a recurring occurrence: reserve the next one's ID now,
+      // the document itself is created in post('save') once this save succeeded
+      if (this.recurrence && this.dueDate && !this.nextOccurrenceId) {
+        const nextOccurrence = getNextOccurrence(this.recurrence, this.dueDate);
+        if (nextOccurrence) {
+          this.nextOccurrenceId = new mongoose.Types.ObjectId();
+          this.$locals.nextOccurrence = nextOccurrence;
+        }
+      }
     } else if (this.status !== TaskStatus.COMPLETED) {
       this.completedAt = undefined;
     }
@@ -111,15 +421,90 @@ TaskSchema.pre('save', function (next) {
   next();
 });
 
-// Static method to get tasks by user
+// Reminders follow the time zone of the task's creator
+export async function getReminderTimezone(userId: mongoose.Types.ObjectId | string): Promise<string> {
+  const user = await User.findById(userId).select('notificationPrefs.timezone');
+  return user?.notificationPrefs?.timezone || 'UTC';
+}
+
+// A new due date starts its reminders over; removed reminders are forgotten.
+// Reminders whose time has already passed when they're set are skipped.
+// Completed tasks have no reminder coming up.
+TaskSchema.pre('save', async function () {
+  if (!this.isModified('dueDate') && !this.isModified('reminders') && !this.isModified('status')) return;
+
+  const dueDate = this.dueDate;
+  const timezone = dueDate && this.reminders.length > 0 ? await getReminderTimezone(this.createdBy) : 'UTC';
+
+  if (this.isModified('dueDate') || this.isModified('reminders')) {
+    const sent = this.isModified('dueDate') ? [] : this.remindersSent;
+    this.remindersSent = this.reminders.filter(minutesBefore =>
+      sent.includes(minutesBefore) || (dueDate && getReminderTime(dueDate, minutesBefore, timezone) <= new Date())
+    );
+  }
+
+  this.nextReminderAt = this.status === TaskStatus.COMPLETED
+    ? null
+    : getNextReminderTime(dueDate, this.reminders, this.remindersSent, timezone);
+});
+
+// Middleware to put new tasks, and tasks moved to another status without
+// an explicit position, at the end of their board column
+TaskSchema.pre('save', async function () {
+  if (!(this.isNew || this.isModified('status')) || this.isModified('position')) return;
+
+  const TaskModel = this.constructor as Model<ITaskDocument>;
+  const last = await TaskModel.findOne({
+    projectId: this.projectId,
+    status: this.status,
+    _id: { $ne: this._id },
+  })
+    .sort({ position: -1 })
+    .select('position');
+
+  this.position = rankAfter(last?.position);
+});
+
+// Middleware to generate the next instance of a recurring task
+TaskSchema.post('save', async function (doc) {
+  const nextOccurrence = doc.$locals.nextOccurrence as ReturnType<typeof getNextOccurrence>;
+  if (!nextOccurrence || !doc.recurrence) return;
+  delete doc.$locals.nextOccurrence;
+
+  try {
+    const TaskModel = doc.constructor as Model<ITaskDocument>;
+    const { recurrence, estimate } = doc.toObject();
+    await TaskModel.create({
+      _id: doc.nextOccurrenceId,
+      title: doc.title,
+      description: doc.description,
+      priority: doc.priority,
+      category: doc.category,
+      dueDate: nextOccurrence.dueDate,
+      tags: doc.tags,
+      estimate,
+      reminders: doc.reminders,
+      subtasks: doc.subtasks.map(subtask => ({ title: subtask.title })), // Fresh checklist
+      recurrence: { ...recurrence, occurrence: nextOccurrence.occurrence },
+      createdBy: doc.createdBy,
+      assignees: doc.assignees,
+      projectId: doc.projectId,
+    });
+    console.log(`🔁 Next occurrence of task ${doc._id} created:`, doc.nextOccurrenceId);
+  } catch (error) {
+    console.error('❌ Failed to create next occurrence:', error);
+  }
+});
+
+// Static method to get the tasks assigned to a user
 TaskSchema.statics.findByUser = function (userId: string) {
-  return this.find({ userId }).sort({ createdAt: -1 });
+  return this.find({ assignees: userId }).sort({ createdAt: -1 });
 };
 
-// Static method to get overdue tasks
+// Static method to get a user's overdue tasks
 TaskSchema.statics.findOverdue = function (userId: string) {
   return this.find({
-    userId,
+    assignees: userId,
     dueDate: { $lt: new Date() },
     status: { $ne: TaskStatus.COMPLETED },
   });
@@ -0,0 +1,87 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+// TypeScript interface for TimeEntry document (server-side)
+export interface ITimeEntryDocument extends Document {
+  _id: string;
+  taskId: mongoose.Types.ObjectId;
+  projectId: mongoose.Types.ObjectId; // Copied from the task for reports and project deletion
+  userId: mongoose.Types.ObjectId; // Who spent the time
+  startedAt: Date;
+  endedAt: Date | null; // null while the timer is running
+  duration: number; // Seconds, set once the entry has ended
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Mongoose schema definition
+const TimeEntrySchema = new Schema<ITimeEntryDocument>(
+  {
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      required: [true, 'Task ID is required'],
+      immutable: true,
+    },
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: [true, 'Project ID is required'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+      immutable: true,
+    },
+    startedAt: {
+      type: Date,
+      required: [true, 'Start time is required'],
+    },
+    endedAt: {
+      type: Date,
+      default: null,
+      validate: {
+        validator: function (this: ITimeEntryDocument, value: Date | null) {
+          return !value || value >= this.startedAt;
+        },
+        message: 'End time must be after the start time',
+      },
+    },
+    duration: {
+      type: Number,
+      default: 0,
+      min: [0, 'Duration cannot be negative'],
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Note must be less than 500 characters'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Keep the duration in step with the start and end times
+TimeEntrySchema.pre('save', function (next) {
+  this.duration = this.endedAt
+    ? Math.round((this.endedAt.getTime() - this.startedAt.getTime()) / 1000)
+    : 0;
+  next();
+});
+
+// Indexes for better query performance
+TimeEntrySchema.index({ taskId: 1, startedAt: -1 }); // A task's entries, newest first
+TimeEntrySchema.index({ projectId: 1, startedAt: 1 }); // Time reports
+TimeEntrySchema.index(
+  { userId: 1 },
+  { unique: true, partialFilterExpression: { endedAt: { $type: 'null' } }, name: 'OneRunningTimerPerUser' }
+); // Only one timer per user can be running
+
+// Export the model
+const TimeEntry: Model<ITimeEntryDocument> =
+  mongoose.models.TimeEntry || mongoose.model<ITimeEntryDocument>('TimeEntry', TimeEntrySchema);
+
+export default TimeEntry;
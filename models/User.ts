@@ -1,6 +1,16 @@
 import mongoose, { Document, Model, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
 
+// Which emails the user gets and when their daily digest goes out
+export interface INotificationPrefs {
+  emailReminders: boolean;
+  emailAssignments: boolean;
+  emailTaskChanges: boolean; // Changes others make to tasks the user created
+  dailyDigest: boolean;
+  digestHour: number; // 0-23, in the user's time zone
+  timezone: string; // IANA name, e.g. "Europe/Berlin"
+}
+
 // TypeScript interface for User document
 // This defines what properties a User object should have
 export interface IUser extends Document {
@@ -9,12 +19,40 @@ export interface IUser extends Document {
   email: string;
   password: string;
   avatar?: string;
+  emailVerified: boolean;
+  emailVerificationToken: string | null; // SHA-256 hash - the token itself is only in the email
+  emailVerificationExpires: Date | null;
+  verificationSentAt: Date | null; // For throttling resends
+  notificationPrefs: INotificationPrefs;
+  lastDigestOn: string | null; // Day (YYYY-MM-DD, user's time zone) of the last digest
+  passwordResetToken: string | null; // SHA-256 hash - the token itself is only in the email
+  passwordResetExpires: Date | null;
   createdAt: Date;
   updatedAt: Date;
   // Method to check password
   comparePassword(password: string): Promise<boolean>;
 }
 
+const NotificationPrefsSchema = new Schema<INotificationPrefs>(
+  {
+    emailReminders: { type: Boolean, default: true },
+    emailAssignments: { type: Boolean, default: true },
+    emailTaskChanges: { type: Boolean, default: false },
+    dailyDigest: { type: Boolean, default: true },
+    digestHour: {
+      type: Number,
+      min: [0, 'Digest hour must be between 0 and 23'],
+      max: [23, 'Digest hour must be between 0 and 23'],
+      default: 8,
+    },
+    timezone: {
+      type: String,
+      default: 'UTC',
+    },
+  },
+  { _id: false }
+);
+
 // Mongoose schema definition
 // This defines the structure in MongoDB
 const UserSchema = new Schema<IUser>(
@@ -47,6 +85,45 @@ const UserSchema = new Schema<IUser>(
       type: String,
       default: null,
     },
+    // Accounts from before verification existed count as verified; registration
+    // sets it to false until the emailed link is opened
+    emailVerified: {
+      type: Boolean,
+      default: true,
+    },
+    emailVerificationToken: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    emailVerificationExpires: {
+      type: Date,
+      default: null,
+      select: false,
+    },
+    verificationSentAt: {
+      type: Date,
+      default: null,
+      select: false,
+    },
+    notificationPrefs: {
+      type: NotificationPrefsSchema,
+      default: () => ({}),
+    },
+    lastDigestOn: {
+      type: String,
+      default: null,
+    },
+    passwordResetToken: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    passwordResetExpires: {
+      type: Date,
+      default: null,
+      select: false,
+    },
   },
   {
     timestamps: true, // Automatically adds createdAt and updatedAt
@@ -55,6 +132,9 @@ const UserSchema = new Schema<IUser>(
 
 // Add indexes for better query performance
 // Removed duplicate email index since we already have unique: true above
+UserSchema.index({ 'notificationPrefs.dailyDigest': 1 }); // Digest run
+UserSchema.index({ passwordResetToken: 1 }); // Reset link lookup
+UserSchema.index({ emailVerificationToken: 1 }); // Verification link lookup
 
 // Hash password before saving
 UserSchema.pre('save', async function (next) {
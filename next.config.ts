@@ -1,7 +1,17 @@
 import type { NextConfig } from "next";
 
+// Hosts user avatars may be loaded from, plus any in AVATAR_HOSTS (comma-separated)
+const AVATAR_HOSTS = [
+  "www.gravatar.com",
+  "avatars.githubusercontent.com",
+  "lh3.googleusercontent.com",
+  ...(process.env.AVATAR_HOSTS || "").split(",").map(host => host.trim()).filter(Boolean),
+];
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  images: {
+    remotePatterns: AVATAR_HOSTS.map(hostname => ({ protocol: "https", hostname })),
+  },
 };
 
 export default nextConfig;
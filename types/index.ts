@@ -14,13 +14,34 @@ export enum TaskStatus {
     URGENT = 'urgent',
   }
   
-  export enum TaskCategory {
-    WORK = 'work',
-    PERSONAL = 'personal',
-    HEALTH = 'health',
-    FINANCE = 'finance',
-    LEARNING = 'learning',
-    OTHER = 'other',
+  export enum RecurrenceFrequency {
+    DAILY = 'daily',
+    WEEKLY = 'weekly',
+    MONTHLY = 'monthly',
+    YEARLY = 'yearly',
+  }
+  
+  export enum EstimateUnit {
+    HOURS = 'hours',
+    POINTS = 'points',
+  }
+  
+  // Effort estimate, in hours or story points
+  export interface Estimate {
+    value: number;
+    unit: EstimateUnit;
+  }
+  
+  // Recurrence rule (a subset of iCalendar RRULE)
+  export interface RecurrenceRule {
+    frequency: RecurrenceFrequency;
+    interval: number; // Every N days/weeks/months/years
+    byWeekday?: number[]; // 0 = Sunday ... 6 = Saturday
+    byMonthDay?: number; // Day of month for monthly rules without weekdays
+    bySetPos?: number; // 1-5 or -1 (last) - picks one weekday match per month
+    count?: number; // End after N occurrences
+    until?: Date; // End after this date
+    occurrence?: number; // 1-based position of this task in its series
   }
   
   // User interface
@@ -30,10 +51,105 @@ export enum TaskStatus {
     email: string;
     password: string;
     avatar?: string;
+    emailVerified: boolean;
+    notificationPrefs?: NotificationPrefs;
     createdAt: Date;
     updatedAt: Date;
   }
   
+  // Which emails a user gets, as returned by /api/settings/notifications
+  export interface NotificationPrefs {
+    emailReminders: boolean;
+    emailAssignments: boolean;
+    emailTaskChanges: boolean; // Changes others make to tasks the user created
+    dailyDigest: boolean;
+    digestHour: number; // 0-23, in the user's time zone
+    timezone: string; // IANA name, e.g. "Europe/Berlin"
+  }
+  
+  // User-defined category interface
+  export interface ICategory {
+    _id: string;
+    key: string; // Stored on tasks as `category`, never changes
+    name: string;
+    color: string; // Hex color
+    icon: string; // Emoji
+    sortOrder: number;
+    userId: string;
+    taskCount?: number; // Included by GET /api/categories
+    createdAt: Date;
+    updatedAt: Date;
+  }
+  
+  // Minimal view of a user (e.g. a populated project member)
+  export interface UserReference {
+    _id: string;
+    name: string;
+    email: string;
+    avatar?: string;
+  }
+  
+  // Project roles, from most to least privileged (see lib/permissions.ts)
+  export enum ProjectRole {
+    OWNER = 'owner',
+    ADMIN = 'admin',
+    MEMBER = 'member',
+    VIEWER = 'viewer',
+  }
+  
+  // Project (workspace) interfaces - tasks belong to a project, not a single user
+  export interface ProjectMember {
+    userId: UserReference; // Populated by the API
+    role: ProjectRole;
+    joinedAt: Date;
+  }
+  
+  export interface ProjectInvite {
+    _id: string;
+    email: string;
+    role: ProjectRole;
+    invitedBy: UserReference; // Populated by GET /api/projects/[id]
+    createdAt: Date;
+  }
+  
+  export interface IProject {
+    _id: string;
+    name: string;
+    description?: string;
+    color: string; // Hex color
+    personal: boolean; // Every user's private project, can't be shared
+    ownerId: string;
+    members: ProjectMember[]; // Includes the owner
+    invites: ProjectInvite[];
+    createdAt: Date;
+    updatedAt: Date;
+  }
+  
+  // An invitation addressed to the current user, as returned by GET /api/projects/invites
+  export interface PendingInvite {
+    projectId: string;
+    projectName: string;
+    projectColor: string;
+    role: ProjectRole;
+    invitedBy: UserReference;
+    createdAt: Date;
+  }
+  
+  // Subtask (checklist item) interface
+  export interface ISubtask {
+    _id: string;
+    title: string;
+    completed: boolean;
+    completedAt?: Date;
+  }
+  
+  // Minimal view of a related task (e.g. a populated blocker)
+  export interface TaskReference {
+    _id: string;
+    title: string;
+    status: TaskStatus;
+  }
+  
   // Task interface  
   export interface ITask {
     _id: string;
@@ -41,14 +157,146 @@ export enum TaskStatus {
     description?: string;
     status: TaskStatus;
     priority: TaskPriority;
-    category: TaskCategory;
+    category: string; // Category key
     dueDate?: Date;
     completedAt?: Date;
-    userId: string; // Keep as string for client-side usage
+    subtasks?: ISubtask[]; // Ordered checklist
+    recurrence?: RecurrenceRule | null;
+    estimate?: Estimate | null;
+    reminders?: number[]; // Minutes before the due date
+    nextOccurrenceId?: string | null; // Set once the next occurrence has been generated
+    tags?: string[]; // Free-form, lowercase
+    blockedBy?: TaskReference[]; // Populated by the API
+    position?: string; // Rank within its board column
+    projectId: string;
+    createdBy: UserReference; // Populated by the API
+    assignees: UserReference[]; // Populated by the API
+    archivedAt?: Date | null; // Set while the task is archived
+    timeLogged?: number; // Seconds, from finished time entries
+    deletedAt?: Date | null; // Set while the task is in the trash
+    deletedBy?: UserReference | null; // Populated by /api/tasks/trash
+    createdAt: Date;
+    updatedAt: Date;
+  }
+  
+  // Contents of the trash, as returned by /api/tasks/trash
+  export interface TrashContents {
+    tasks: ITask[];
+    retentionDays: number; // Days before a trashed task is deleted for good
+  }
+  
+  // Comment on a task, as returned by /api/tasks/[id]/comments
+  export interface IComment {
+    _id: string;
+    taskId: string;
+    projectId: string;
+    authorId: UserReference; // Populated by the API
+    body: string; // Markdown
+    mentions: UserReference[]; // Populated by the API
+    editedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+  }
+  
+  // Time spent on a task. A running timer has no end or duration yet.
+  export interface ITimeEntry {
+    _id: string;
+    taskId: string | TimerTask; // Populated by /api/timer
+    projectId: string;
+    userId: UserReference; // Populated by the API
+    startedAt: Date;
+    endedAt: Date | null;
+    duration: number; // Seconds
+    note?: string;
     createdAt: Date;
     updatedAt: Date;
   }
   
+  // Task of a running timer, as populated by /api/timer
+  export interface TimerTask {
+    _id: string;
+    title: string;
+    category: string;
+    status: TaskStatus;
+    timeLogged: number;
+  }
+  
+  // Time entries of a task, as returned by /api/tasks/[id]/time
+  export interface TaskTimeEntries {
+    entries: ITimeEntry[];
+    timeLogged: number;
+  }
+  
+  // Result of starting a timer, as returned by POST /api/timer
+  export interface StartTimerResult {
+    running: ITimeEntry;
+    stopped: ITimeEntry | null; // The timer that was running on another task
+  }
+  
+  // In-app notifications, as returned by /api/notifications
+  export enum NotificationType {
+    REMINDER = 'reminder',
+    TASK_CHANGED = 'task_changed',
+    ASSIGNED = 'assigned',
+  }
+  
+  export interface INotification {
+    _id: string;
+    userId: string;
+    type: NotificationType;
+    taskId: string | null;
+    projectId: string | null;
+    actorId: UserReference | null; // Populated by the API
+    title: string; // Task title at the time
+    message: string;
+    readAt: Date | null;
+    createdAt: Date;
+  }
+  
+  export interface NotificationList {
+    notifications: INotification[];
+    unreadCount: number;
+  }
+  
+  // A signed-in device, as returned by /api/sessions
+  export interface ISession {
+    _id: string;
+    device: string; // e.g. "Chrome on macOS"
+    userAgent: string;
+    ip: string;
+    lastUsedAt: Date;
+    createdAt: Date;
+    current: boolean; // The session making the request
+  }
+  
+  // Task history, as returned by /api/tasks/[id]/activity
+  export enum ActivityAction {
+    CREATED = 'created',
+    UPDATED = 'updated',
+    DELETED = 'deleted',
+    RESTORED = 'restored',
+    ARCHIVED = 'archived',
+    UNARCHIVED = 'unarchived',
+  }
+  
+  // One changed field. Values are display-ready: dates as ISO strings, people and
+  // blockers as names, subtasks as "☑ title"/"☐ title", null when empty.
+  export interface FieldChange {
+    field: string;
+    from: string | string[] | null;
+    to: string | string[] | null;
+  }
+  
+  export interface IActivity {
+    _id: string;
+    taskId: string;
+    actorId: UserReference; // Populated by the API
+    action: ActivityAction;
+    taskTitle: string;
+    changes: FieldChange[];
+    createdAt: Date;
+  }
+  
   // API Response types
   export interface ApiResponse<T = any> {
     success: boolean;
@@ -57,6 +305,41 @@ export enum TaskStatus {
     error?: string;
     fieldErrors?: { [key: string]: string }; // For Zod validation errors
     details?: string; // For detailed error messages
+    pagination?: PaginationInfo; // For paged lists
+    forbidden?: PermissionDenied; // For 403s from the role check
+    emailUnverified?: boolean; // For 403s to accounts that haven't verified their email
+  }
+  
+  // Actions guarded by project roles (see ROLE_PERMISSIONS in lib/permissions.ts)
+  export type ProjectPermission =
+    | 'task:create'
+    | 'task:update'
+    | 'task:delete'
+    | 'task:delete-own'
+    | 'task:assign'
+    | 'task:assign-own'
+    | 'task:comment'
+    | 'time:log'
+    | 'category:manage'
+    | 'project:update'
+    | 'project:delete'
+    | 'members:invite'
+    | 'members:remove'
+    | 'members:change-role';
+  
+  // Why a request was refused, so the client can explain it
+  export interface PermissionDenied {
+    permission: ProjectPermission;
+    role: ProjectRole;
+    allowedRoles: ProjectRole[];
+  }
+  
+  // Paging details returned with lists
+  export interface PaginationInfo {
+    total: number; // Matching items across all pages
+    limit: number;
+    nextCursor: string | null; // Pass as ?cursor= to get the next page
+    hasMore: boolean;
   }
   
   // Authentication types
@@ -72,36 +355,212 @@ export enum TaskStatus {
     confirmPassword: string;
   }
   
+  export interface ForgotPasswordData {
+    email: string;
+  }
+  
+  export interface ResetPasswordData {
+    token: string; // From the link in the reset email
+    password: string;
+    confirmPassword: string;
+  }
+  
   // Task form types
   export interface CreateTaskData {
     title: string;
     description?: string;
     priority: TaskPriority;
-    category: TaskCategory;
+    category: string; // Category key
     dueDate?: string; // ISO date string
+    recurrence?: RecurrenceRuleData | null;
+    estimate?: Estimate | null; // null clears the estimate
+    reminders?: number[]; // Minutes before the due date, see lib/reminders.ts
+    tags?: string[];
+    blockedBy?: string[]; // Task IDs
+    assignees?: string[]; // User IDs of project members
+  }
+  
+  export interface RecurrenceRuleData extends Omit<RecurrenceRule, 'until' | 'occurrence'> {
+    until?: string; // ISO date string
   }
   
   export interface UpdateTaskData extends Partial<CreateTaskData> {
     status?: TaskStatus;
   }
   
+  // One change applied to every selected task by POST /api/tasks/bulk
+  export type BulkOperation =
+    | { action: 'status'; status: TaskStatus }
+    | { action: 'priority'; priority: TaskPriority }
+    | { action: 'category'; category: string }
+    | { action: 'dueDate'; dueDate: string } // Empty clears the due date
+    | { action: 'addTags'; tags: string[] }
+    | { action: 'removeTags'; tags: string[] }
+    | { action: 'archive' }
+    | { action: 'delete' }; // Moves the tasks to the trash
+  
+  export interface BulkTaskData {
+    taskIds: string[];
+    operation: BulkOperation;
+  }
+  
+  // Outcome for each selected task
+  export interface BulkItemResult {
+    id: string;
+    success: boolean;
+    error?: string;
+    task?: ITask; // The updated task, unless it was archived or deleted
+  }
+  
+  export interface BulkTaskResult {
+    results: BulkItemResult[];
+    succeeded: number;
+    failed: number;
+  }
+  
+  // Subtask form types
+  export interface CreateSubtaskData {
+    title: string;
+  }
+  
+  export interface UpdateSubtaskData {
+    title?: string;
+    completed?: boolean;
+  }
+  
+  export interface ReorderSubtasksData {
+    subtaskIds: string[]; // Every subtask ID of the task, in the new order
+  }
+  
   // User types
   export interface UserProfile {
     _id: string;
     name: string;
     email: string;
     avatar?: string;
+    emailVerified: boolean; // Until it is, sharing is off (see lib/auth.ts)
     createdAt: string;
   }
   
+  // Category form types
+  export interface CreateCategoryData {
+    name: string;
+    color: string;
+    icon: string;
+  }
+  
+  export type UpdateCategoryData = Partial<CreateCategoryData>;
+  
+  export interface ReorderCategoriesData {
+    categoryIds: string[]; // Every category ID, in the new order
+  }
+  
+  // Project form types
+  export interface CreateProjectData {
+    name: string;
+    description?: string;
+    color?: string;
+  }
+  
+  export type UpdateProjectData = Partial<CreateProjectData>;
+  
+  export interface InviteMemberData {
+    email: string;
+    role?: ProjectRole; // Defaults to member
+  }
+  
+  export interface UpdateMemberData {
+    role: ProjectRole; // Any role but owner
+  }
+  
+  // Tag usage, as returned by GET /api/tasks/tags
+  export interface TagCount {
+    name: string;
+    count: number;
+  }
+  
+  export interface RenameTagData {
+    from: string;
+    to: string; // An existing tag merges the two
+  }
+  
+  // Comment form types
+  export interface CommentData {
+    body: string; // Markdown, @name mentions project members
+  }
+  
+  // Time tracking form types
+  export interface StartTimerData {
+    taskId: string;
+    note?: string;
+  }
+  
+  export interface TimeEntryData {
+    startedAt: string; // ISO date-time
+    endedAt: string;
+    note?: string;
+  }
+  
+  // Board types
+  export interface MoveTaskData {
+    status: TaskStatus;
+    prevId?: string | null; // Card that ends up above
+    nextId?: string | null; // Card that ends up below
+  }
+  
   // Dashboard stats
   export interface DashboardStats {
     totalTasks: number;
     completedTasks: number;
+    inProgressTasks: number;
     pendingTasks: number;
     overdueTasks: number;
-    tasksByCategory: Record<TaskCategory, number>;
+    completionRate: number; // Percentage of tasks completed, 0-100
+    tasksByCategory: Record<string, number>; // Keyed by category key
     tasksByPriority: Record<TaskPriority, number>;
+    overdueByPriority: Record<TaskPriority, number>;
+    completedPerDay: DailyCount[]; // One entry per day of the range, oldest first
+  }
+  
+  export interface DailyCount {
+    date: string; // YYYY-MM-DD in the requested time zone
+    count: number;
+  }
+  
+  // Estimate vs. actual for a group of completed tasks. Actual time is the logged
+  // time where there is any, otherwise the time from creation to completion.
+  export interface EstimateAccuracy {
+    tasks: number;
+    estimated: number; // Sum of the estimates, in hours or points
+    actualHours: number;
+    trackedTasks: number; // Tasks whose actual time comes from logged time
+    ratio: number | null; // Actual hours per estimated hour (or point)
+  }
+  
+  export interface EstimateUnitReport {
+    overall: EstimateAccuracy;
+    byCategory: Record<string, EstimateAccuracy>; // Keyed by category key
+    byPriority: Partial<Record<TaskPriority, EstimateAccuracy>>;
+  }
+  
+  // Estimate report, as returned by /api/tasks/estimates
+  export interface EstimateReport {
+    days: number;
+    hours: EstimateUnitReport; // Tasks estimated in hours
+    points: EstimateUnitReport; // Tasks estimated in story points
+  }
+  
+  // Time report, as returned by /api/time/report
+  export interface TimeReport {
+    totalSeconds: number;
+    byCategory: Record<string, number>; // Seconds, keyed by category key
+    byDay: DailyTime[]; // One entry per day of the range, oldest first
+  }
+  
+  export interface DailyTime {
+    date: string; // YYYY-MM-DD in the requested time zone
+    seconds: number;
+    byCategory: Record<string, number>;
   }
   
   // Component prop types
@@ -126,7 +585,7 @@ export enum TaskStatus {
   export interface DashboardPageProps {
     searchParams: {
       status?: TaskStatus;
-      category?: TaskCategory;
+      category?: string;
       priority?: TaskPriority;
     };
   }
\ No newline at end of file